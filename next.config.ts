@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Transpile 'three' package
+  transpilePackages: ["three"],
 };
 
 export default nextConfig;
@@ -1,5 +0,0 @@
-import ClientWrapper from "./components/ClientWrapper";
-
-export default function Home() {
-  return <ClientWrapper />;
-}
@@ -1,7 +0,0 @@
-/** @type {import('next').NextConfig} */
-const nextConfig = {
-  // Transpile 'three' package
-  transpilePackages: ['three'],
-};
-
-export default nextConfig; 
\ No newline at end of file
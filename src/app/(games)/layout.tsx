@@ -0,0 +1,20 @@
+import Link from "next/link";
+
+// Every game route gets a way back to the main menu
+export default function GamesLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <>
+      {children}
+      <Link
+        href="/"
+        className="fixed bottom-4 right-4 z-30 bg-black/70 hover:bg-black/90 text-white text-sm font-bold py-2 px-4 rounded transition"
+      >
+        Main Menu
+      </Link>
+    </>
+  );
+}
@@ -0,0 +1,5 @@
+import ClientWrapper from "@/games/racer/components/ClientWrapper";
+
+export default function RacerPage() {
+  return <ClientWrapper />;
+}
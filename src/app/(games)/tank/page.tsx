@@ -0,0 +1,5 @@
+import ClientWrapper from "@/games/tank/components/ClientWrapper";
+
+export default function TankPage() {
+  return <ClientWrapper />;
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import dynamic from "next/dynamic";
+import {
+  DEFAULT_SERVER_PORT,
+  MAX_EXPERIENCE,
+  MAX_LEVEL,
+  MAX_NAME_LENGTH,
+} from "@/games/witcher/lib/network/protocol";
+import {
+  AUTOSAVE_SLOT,
+  SAVE_SLOTS,
+  listSaves,
+  readSave,
+} from "@/games/witcher/lib/saveGame";
+import {
+  Progression,
+  createProgression,
+  levelForExperience,
+} from "@/games/witcher/lib/progression";
+
+// Three.js needs the browser, so the game is only loaded client-side
+const MultiplayerGame = dynamic(
+  () =>
+    import("@/games/witcher/components/game/MultiplayerGame").then((mod) => ({
+      default: mod.MultiplayerGame,
+    })),
+  {
+    ssr: false,
+  }
+);
+
+export default function WitcherMultiplayerPage() {
+  const [serverUrl, setServerUrl] = useState("");
+  const [playerName, setPlayerName] = useState("");
+  // Single-player saves whose witcher can be brought along
+  const [characters, setCharacters] = useState<
+    { slot: string; progression: Progression }[]
+  >([]);
+  const [characterSlot, setCharacterSlot] = useState("");
+  // Set on joining
+  const [progression, setProgression] = useState<Progression | null>(null);
+
+  // Most likely the server runs on the machine serving this page
+  useEffect(() => {
+    setServerUrl(`ws://${window.location.hostname}:${DEFAULT_SERVER_PORT}`);
+    setCharacters(
+      listSaves().flatMap(({ slot }) => {
+        const saved = readSave(slot)?.progression;
+        return saved ? [{ slot, progression: saved }] : [];
+      })
+    );
+  }, []);
+
+  return (
+    <main className="w-screen h-screen overflow-hidden">
+      {progression ? (
+        <MultiplayerGame
+          serverUrl={serverUrl}
+          playerName={playerName}
+          progression={progression}
+        />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center bg-gray-950 text-white">
+          <form
+            className="bg-gray-900 rounded-lg p-6 flex flex-col gap-4 w-full max-w-sm"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setProgression(
+                characters.find(({ slot }) => slot === characterSlot)
+                  ?.progression ?? createProgression()
+              );
+            }}
+          >
+            <h1 className="text-2xl font-bold">Witcher Multiplayer</h1>
+            <p className="text-sm text-gray-400">
+              Start a server with <code>npm run witcher-server</code>, then join
+              it from every player&apos;s browser.
+            </p>
+
+            <label className="flex flex-col gap-1 text-sm">
+              Server
+              <input
+                className="bg-gray-800 rounded px-3 py-2 text-base"
+                value={serverUrl}
+                onChange={(e) => setServerUrl(e.target.value)}
+                required
+              />
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm">
+              Name
+              <input
+                className="bg-gray-800 rounded px-3 py-2 text-base"
+                value={playerName}
+                maxLength={MAX_NAME_LENGTH}
+                placeholder="Witcher"
+                onChange={(e) => setPlayerName(e.target.value)}
+              />
+            </label>
+
+            <label className="flex flex-col gap-1 text-sm">
+              Character
+              <select
+                className="bg-gray-800 rounded px-3 py-2 text-base"
+                value={characterSlot}
+                onChange={(e) => setCharacterSlot(e.target.value)}
+              >
+                <option value="">New witcher (level 1)</option>
+                {characters.map(({ slot, progression }) => (
+                  <option
+                    key={slot}
+                    value={slot}
+                    // The server turns away characters past the level cap
+                    disabled={progression.experience > MAX_EXPERIENCE}
+                  >
+                    {slot === AUTOSAVE_SLOT
+                      ? "Autosave"
+                      : `Slot ${SAVE_SLOTS.indexOf(slot)}`}{" "}
+                    (level {levelForExperience(progression.experience)}
+                    {progression.experience > MAX_EXPERIENCE &&
+                      `, above the level ${MAX_LEVEL} limit`}
+                    )
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <button
+              type="submit"
+              className="bg-red-600 hover:bg-red-700 font-bold py-2 px-4 rounded transition"
+            >
+              Join
+            </button>
+          </form>
+        </div>
+      )}
+    </main>
+  );
+}
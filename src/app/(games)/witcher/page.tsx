@@ -6,13 +6,16 @@ import dynamic from "next/dynamic";
 // Dynamically import the Game component with no SSR
 // This is necessary because Three.js uses browser APIs
 const Game = dynamic(
-  () => import("@/components/game/Game").then((mod) => ({ default: mod.Game })),
+  () =>
+    import("@/games/witcher/components/game/Game").then((mod) => ({
+      default: mod.Game,
+    })),
   {
     ssr: false,
   }
 );
 
-export default function Home() {
+export default function WitcherPage() {
   return (
     <main className="w-screen h-screen overflow-hidden">
       <Game />
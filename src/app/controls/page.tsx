@@ -0,0 +1,5 @@
+import { ControlsSettings } from "@/components/menu/ControlsSettings";
+
+export default function ControlsPage() {
+  return <ControlsSettings />;
+}
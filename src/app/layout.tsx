@@ -5,8 +5,9 @@ import "./globals.css";
 const inter = Inter({ subsets: ["latin"] });
 
 export const metadata: Metadata = {
-  title: "Witcher Game",
-  description: "A browser-based 3D Witcher game",
+  title: "3D Game Collection",
+  description:
+    "Browser-based 3D games: a Warhammer hover tank, a Witcher adventure and an imperial car racer",
 };
 
 export default function RootLayout({
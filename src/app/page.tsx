@@ -0,0 +1,5 @@
+import { MainMenu } from "@/components/menu/MainMenu";
+
+export default function Home() {
+  return <MainMenu />;
+}
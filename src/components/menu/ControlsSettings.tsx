@@ -0,0 +1,122 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { GAMES } from "@/lib/games";
+import { Binding, describeBinding, listenForBinding } from "@/lib/input";
+import { BindingsStore } from "@/store/bindingsStore";
+import { useBindings } from "@/hooks/useBindings";
+import { tankBindings, versusBindings } from "@/games/tank/lib/input";
+import { witcherBindings } from "@/games/witcher/lib/input";
+
+
+function BindingsTable<A extends string>({ store }: { store: BindingsStore<A> }) {
+  const bindings = useBindings(store);
+  // Action waiting for the player to press the input to bind
+  const [listening, setListening] = useState<A | null>(null);
+
+  useEffect(() => {
+    if (listening === null) return;
+
+    return listenForBinding((binding: Binding | null) => {
+      if (binding) store.bind(listening, binding);
+      setListening(null);
+    });
+  }, [listening, store]);
+
+  return (
+    <table className="w-full text-sm">
+      <tbody>
+        {store.scheme.actions.map(({ id, label }) => (
+          <tr key={id} className="border-t border-gray-800">
+            <td className="py-2 pr-4 text-gray-300 whitespace-nowrap">{label}</td>
+            <td className="py-2">
+              <div className="flex flex-wrap items-center gap-2">
+                {bindings[id].map((binding) => (
+                  <span
+                    key={JSON.stringify(binding)}
+                    className="flex items-center gap-1 bg-gray-800 rounded px-2 py-1"
+                  >
+                    {describeBinding(binding)}
+                    <button
+                      className="text-gray-500 hover:text-white transition"
+                      aria-label={`Remove ${describeBinding(binding)}`}
+                      onClick={() => store.unbind(id, binding)}
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+
+                {listening === id ? (
+                  <span className="flex items-center gap-2 text-yellow-400">
+                    Press a key, button or stick…
+                    <button
+                      data-cancel-binding
+                      className="text-gray-400 hover:text-white transition"
+                    >
+                      Cancel
+                    </button>
+                  </span>
+                ) : (
+                  <button
+                    className="text-gray-400 hover:text-white transition"
+                    disabled={listening !== null}
+                    onClick={() => setListening(id)}
+                  >
+                    + Add
+                  </button>
+                )}
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// One game's controls; schemes are named after their game unless they
+// carry their own title
+function GameBindings<A extends string>({ store }: { store: BindingsStore<A> }) {
+  return (
+    <section className="mb-8 bg-gray-900 rounded-lg p-5">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-xl font-bold">
+          {store.scheme.title ??
+            GAMES.find((game) => game.id === store.scheme.id)?.title}
+        </h2>
+        <button
+          className="text-sm text-gray-400 hover:text-white transition"
+          onClick={() => store.reset()}
+        >
+          Reset to defaults
+        </button>
+      </div>
+      <BindingsTable store={store} />
+    </section>
+  );
+}
+
+export function ControlsSettings() {
+  return (
+    <main className="h-screen w-screen overflow-y-auto bg-gray-950 text-white">
+      <div className="mx-auto max-w-4xl px-6 py-12">
+        <Link href="/" className="text-sm text-gray-400 hover:text-white transition">
+          ← Main Menu
+        </Link>
+        <h1 className="text-4xl font-bold mt-4 mb-2">Controls</h1>
+        <p className="text-gray-400 mb-10">
+          Bind keys, mouse buttons and gamepad buttons or sticks to each action.
+          Changes are saved in this browser and apply straight away.
+        </p>
+
+        <GameBindings store={tankBindings} />
+        {versusBindings.map((store) => (
+          <GameBindings key={store.scheme.id} store={store} />
+        ))}
+        <GameBindings store={witcherBindings} />
+      </div>
+    </main>
+  );
+}
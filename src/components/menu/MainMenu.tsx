@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { GAMES, GameId } from "@/lib/games";
+import { HighScore, clearHighScores, getHighScores } from "@/lib/highScores";
+import { GameSettings, settingsStore } from "@/store/settingsStore";
+import { useSettings } from "@/hooks/useSettings";
+
+// Settings of a given type, e.g. the on/off ones
+type SettingsOfType<T> = {
+  [K in keyof GameSettings]: GameSettings[K] extends T ? K : never;
+}[keyof GameSettings];
+
+type ToggleSetting = SettingsOfType<boolean>;
+type VolumeSetting = SettingsOfType<number>;
+
+const TOGGLE_LABELS: Record<ToggleSetting, string> = {
+  shadows: "Shadows",
+  antialias: "Anti-aliasing",
+  showStats: "Show frame rate",
+};
+
+const VOLUME_LABELS: Record<VolumeSetting, string> = {
+  masterVolume: "Master volume",
+  effectsVolume: "Effects",
+  musicVolume: "Music",
+};
+
+export function MainMenu() {
+  const settings = useSettings();
+
+  // High scores live in localStorage, so they're only read on the client
+  const [highScores, setHighScores] = useState<Partial<
+    Record<GameId, HighScore[]>
+  > | null>(null);
+
+  useEffect(() => {
+    setHighScores(
+      Object.fromEntries(GAMES.map(({ id }) => [id, getHighScores(id)]))
+    );
+  }, []);
+
+  const handleClearScores = (game: GameId) => {
+    clearHighScores(game);
+    setHighScores((prev) => ({ ...prev, [game]: [] }));
+  };
+
+  return (
+    <main className="h-screen w-screen overflow-y-auto bg-gray-950 text-white">
+      <div className="mx-auto max-w-4xl px-6 py-12">
+        <h1 className="text-4xl font-bold mb-2">3D Game Collection</h1>
+        <p className="text-gray-400 mb-10">Pick a game to play.</p>
+
+        <ul className="grid gap-4 md:grid-cols-3">
+          {GAMES.map((game) => {
+            const scores = highScores?.[game.id] ?? [];
+
+            return (
+              <li
+                key={game.id}
+                className="flex flex-col bg-gray-900 rounded-lg p-5 shadow-lg"
+              >
+                <h2 className="text-xl font-bold mb-2">{game.title}</h2>
+                <p className="text-sm text-gray-400 flex-1">
+                  {game.description}
+                </p>
+
+                <div className="mt-4 text-sm">
+                  <div className="font-bold text-yellow-400">High Scores</div>
+                  {scores.length > 0 ? (
+                    <ol className="list-decimal list-inside text-gray-300">
+                      {scores.map((entry) => (
+                        <li key={entry.achievedAt}>
+                          {entry.score}{" "}
+                          <span className="text-gray-500">
+                            {new Date(entry.achievedAt).toLocaleDateString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ol>
+                  ) : (
+                    <div className="text-gray-500">No scores yet</div>
+                  )}
+                  {scores.length > 0 && (
+                    <button
+                      className="mt-1 text-gray-500 hover:text-white transition"
+                      onClick={() => handleClearScores(game.id)}
+                    >
+                      Clear
+                    </button>
+                  )}
+                </div>
+
+                <Link
+                  href={game.href}
+                  className="mt-4 bg-red-600 hover:bg-red-700 text-center font-bold py-2 px-4 rounded transition"
+                >
+                  Play
+                </Link>
+                {game.multiplayerHref && (
+                  <Link
+                    href={game.multiplayerHref}
+                    className="mt-2 bg-gray-700 hover:bg-gray-600 text-center font-bold py-2 px-4 rounded transition"
+                  >
+                    Multiplayer
+                  </Link>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <section className="mt-10 bg-gray-900 rounded-lg p-5">
+          <div className="flex justify-between items-center mb-3">
+            <h2 className="text-xl font-bold">Settings</h2>
+            <button
+              className="text-sm text-gray-400 hover:text-white transition"
+              onClick={() => settingsStore.reset()}
+            >
+              Reset to defaults
+            </button>
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            {(Object.keys(TOGGLE_LABELS) as ToggleSetting[]).map(
+              (key) => (
+                <label key={key} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={settings[key]}
+                    onChange={(e) =>
+                      settingsStore.update({ [key]: e.target.checked })
+                    }
+                  />
+                  {TOGGLE_LABELS[key]}
+                </label>
+              )
+            )}
+          </div>
+
+          <div className="mt-4 grid gap-3 md:grid-cols-3">
+            {(Object.keys(VOLUME_LABELS) as VolumeSetting[]).map((key) => (
+              <label key={key} className="flex flex-col gap-1 text-sm">
+                <span>
+                  {VOLUME_LABELS[key]}{" "}
+                  <span className="text-gray-500">
+                    {Math.round(settings[key] * 100)}%
+                  </span>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings[key]}
+                  onChange={(e) =>
+                    settingsStore.update({ [key]: Number(e.target.value) })
+                  }
+                />
+              </label>
+            ))}
+          </div>
+          <p className="mt-3 text-sm text-gray-500">
+            Graphics settings apply to every game the next time it starts;
+            volumes change straight away.
+          </p>
+          <Link
+            href="/controls"
+            className="mt-4 inline-block bg-gray-800 hover:bg-gray-700 font-bold py-2 px-4 rounded transition"
+          >
+            Controls &amp; Gamepad
+          </Link>
+        </section>
+      </div>
+    </main>
+  );
+}
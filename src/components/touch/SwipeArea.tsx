@@ -0,0 +1,50 @@
+"use client";
+
+import { PointerEvent, useRef } from "react";
+
+interface SwipeAreaProps {
+  // Finger movement since the last call, in pixels
+  onSwipe: (dx: number, dy: number) => void;
+  className?: string;
+}
+
+// Empty screen space that turns the camera when swiped. Lies under the touch
+// controls, so only fingers that miss them start a swipe.
+export function SwipeArea({ onSwipe, className = "" }: SwipeAreaProps) {
+  const swipe = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (swipe.current) return;
+
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    swipe.current = {
+      pointerId: event.pointerId,
+      x: event.clientX,
+      y: event.clientY,
+    };
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const current = swipe.current;
+    if (current?.pointerId !== event.pointerId) return;
+
+    onSwipe(event.clientX - current.x, event.clientY - current.y);
+    current.x = event.clientX;
+    current.y = event.clientY;
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (swipe.current?.pointerId === event.pointerId) swipe.current = null;
+  };
+
+  return (
+    <div
+      className={`absolute inset-0 touch-none ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    />
+  );
+}
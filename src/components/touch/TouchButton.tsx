@@ -0,0 +1,64 @@
+"use client";
+
+import { PointerEvent, ReactNode, useEffect, useRef } from "react";
+
+interface TouchButtonProps {
+  children: ReactNode;
+  onPress: () => void;
+  onRelease?: () => void;
+  // Dimmed while the action can't be used yet, e.g. during a cooldown
+  dimmed?: boolean;
+  className?: string;
+}
+
+// A hold-to-use button for touch screens. Every finger on the screen is
+// tracked separately, so it can be held while another finger steers.
+export function TouchButton({
+  children,
+  onPress,
+  onRelease,
+  dimmed = false,
+  className = "",
+}: TouchButtonProps) {
+  // Fingers currently on the button
+  const pointers = useRef(new Set<number>());
+  const onReleaseRef = useRef(onRelease);
+  onReleaseRef.current = onRelease;
+
+  // Let go if the button disappears while held
+  useEffect(() => {
+    const held = pointers.current;
+    return () => {
+      if (held.size > 0) onReleaseRef.current?.();
+    };
+  }, []);
+
+  const handlePointerDown = (event: PointerEvent<HTMLButtonElement>) => {
+    // Stops the browser turning the touch into mouse events, which the
+    // games would read as clicks
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    pointers.current.add(event.pointerId);
+    if (pointers.current.size === 1) onPress();
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLButtonElement>) => {
+    if (!pointers.current.delete(event.pointerId)) return;
+    if (pointers.current.size === 0) onRelease?.();
+  };
+
+  return (
+    <button
+      className={`flex items-center justify-center rounded-full border-2 border-white/50 text-white text-xs font-bold touch-none select-none active:bg-white/40 ${
+        dimmed ? "bg-black/30 opacity-50" : "bg-black/50"
+      } ${className}`}
+      onPointerDown={handlePointerDown}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onContextMenu={(event) => event.preventDefault()}
+    >
+      {children}
+    </button>
+  );
+}
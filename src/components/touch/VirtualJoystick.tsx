@@ -0,0 +1,94 @@
+"use client";
+
+import { PointerEvent, useEffect, useRef } from "react";
+
+const SIZE = 128;
+const KNOB_SIZE = 56;
+// How far the knob travels from the centre at full tilt
+const RADIUS = (SIZE - KNOB_SIZE) / 2;
+
+interface VirtualJoystickProps {
+  // Stick position from -1 to 1 on each axis, with y up; (0, 0) on release
+  onMove: (x: number, y: number) => void;
+  className?: string;
+}
+
+// An analog stick for touch screens. It follows the first finger that
+// touches it, so other fingers stay free for the action buttons.
+export function VirtualJoystick({ onMove, className = "" }: VirtualJoystickProps) {
+  const knobRef = useRef<HTMLDivElement>(null);
+  const pointerId = useRef<number | null>(null);
+  const onMoveRef = useRef(onMove);
+  onMoveRef.current = onMove;
+
+  // Let go of the stick if it disappears while held
+  useEffect(
+    () => () => {
+      if (pointerId.current !== null) onMoveRef.current(0, 0);
+    },
+    []
+  );
+
+  const moveKnob = (x: number, y: number) => {
+    if (knobRef.current) {
+      knobRef.current.style.transform = `translate(${x * RADIUS}px, ${-y * RADIUS}px)`;
+    }
+    onMove(x, y);
+  };
+
+  const track = (event: PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    let x = (event.clientX - (bounds.left + bounds.width / 2)) / RADIUS;
+    let y = -(event.clientY - (bounds.top + bounds.height / 2)) / RADIUS;
+
+    // Keep the knob inside the base
+    const length = Math.hypot(x, y);
+    if (length > 1) {
+      x /= length;
+      y /= length;
+    }
+    moveKnob(x, y);
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (pointerId.current !== null) return;
+
+    // Stops the browser turning the touch into mouse events
+    event.preventDefault();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    pointerId.current = event.pointerId;
+    track(event);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId === pointerId.current) track(event);
+  };
+
+  const handlePointerUp = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId !== pointerId.current) return;
+    pointerId.current = null;
+    moveKnob(0, 0);
+  };
+
+  return (
+    <div
+      className={`relative rounded-full bg-white/15 border-2 border-white/40 touch-none select-none ${className}`}
+      style={{ width: SIZE, height: SIZE }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <div
+        ref={knobRef}
+        className="absolute rounded-full bg-white/60 pointer-events-none"
+        style={{
+          width: KNOB_SIZE,
+          height: KNOB_SIZE,
+          left: RADIUS,
+          top: RADIUS,
+        }}
+      />
+    </div>
+  );
+}
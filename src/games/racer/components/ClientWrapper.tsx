@@ -0,0 +1,10 @@
+"use client";
+
+import dynamic from "next/dynamic";
+
+// Dynamically import the RacerGame component with no SSR
+const RacerGame = dynamic(() => import("./RacerGame"), { ssr: false });
+
+export default function ClientWrapper() {
+  return <RacerGame />;
+}
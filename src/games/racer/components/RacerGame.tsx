@@ -0,0 +1,440 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import * as THREE from "three";
+import styles from "./RacerGame.module.css";
+import {
+  Controls,
+  OBSTACLE_STATS,
+  POWER_UP_STATS,
+  RaceEvent,
+  RaceState,
+  WEAPONS,
+  createControls,
+  createRaceState,
+  currentWeapon,
+  isBoosting,
+  isShielded,
+  raceScore,
+  sectorAt,
+  stepRace,
+} from "../lib/race";
+import {
+  TILE_LENGTH,
+  createCar,
+  createExplosion,
+  createObstacle,
+  createPowerUp,
+  createProjectile,
+  createRoadTile,
+} from "./models";
+import { settingsStore } from "@/store/settingsStore";
+import { HighScore, getHighScores, recordHighScore } from "@/lib/highScores";
+
+// Enough road tiles to cover everything between the camera and the fog
+const TILE_COUNT = 6;
+
+// Third-person camera offset behind the car
+const CAMERA_DISTANCE = 10;
+const CAMERA_HEIGHT = 5;
+
+const HUD_INTERVAL = 100; // How often the HUD is refreshed (ms)
+const MESSAGE_DURATION = 3000; // How long a HUD message stays visible (ms)
+const EXPLOSION_DURATION = 0.5; // Seconds
+
+const KEY_CONTROLS: Record<string, keyof Controls> = {
+  w: "forward",
+  arrowup: "forward",
+  s: "backward",
+  arrowdown: "backward",
+  a: "left",
+  arrowleft: "left",
+  d: "right",
+  arrowright: "right",
+  " ": "shoot",
+};
+
+// What the HUD shows, copied out of the race state a few times a second
+interface HudState {
+  score: number;
+  distance: number;
+  speed: number;
+  sector: number;
+  weapon: string;
+  weaponLevel: number;
+  boost: number;
+  shield: number;
+}
+
+interface HudMessage {
+  id: number;
+  message: string;
+}
+
+// Final score of a finished race and where it landed on the table
+interface RaceResult {
+  score: number;
+  place: number | null;
+  highScores: HighScore[];
+}
+
+interface Explosion {
+  mesh: ReturnType<typeof createExplosion>;
+  size: number;
+  age: number;
+}
+
+const readHud = (race: RaceState): HudState => ({
+  score: raceScore(race),
+  distance: Math.floor(race.car.z),
+  // Shown in km/h, with a world unit taken as a metre
+  speed: Math.round(race.car.speed * 3.6),
+  sector: sectorAt(race.car.z),
+  weapon: currentWeapon(race).name,
+  weaponLevel: race.weaponLevel,
+  boost: Math.max(0, race.boostUntil - race.time),
+  shield: Math.max(0, race.shieldUntil - race.time),
+});
+
+const RacerGame: React.FC = () => {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const controlsRef = useRef<Controls>(createControls());
+  const messageIdRef = useRef(0);
+
+  // Bumped to start a new race
+  const [session, setSession] = useState(0);
+  const [hud, setHud] = useState<HudState>(() => readHud(createRaceState()));
+  const [messages, setMessages] = useState<HudMessage[]>([]);
+  const [result, setResult] = useState<RaceResult | null>(null);
+
+  // Show a message on the HUD for a few seconds
+  const addMessage = (message: string) => {
+    const id = ++messageIdRef.current;
+    setMessages((prev) => [...prev, { id, message }].slice(-4));
+
+    setTimeout(() => {
+      setMessages((prev) => prev.filter((entry) => entry.id !== id));
+    }, MESSAGE_DURATION);
+  };
+
+  // Build the scene and run the race
+  useEffect(() => {
+    const container = canvasRef.current;
+    if (!container) return;
+
+    const race = createRaceState();
+    setResult(null);
+    setMessages([]);
+    setHud(readHud(race));
+
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x9a8a7a); // Smoky sky
+    scene.fog = new THREE.Fog(0x9a8a7a, 80, TILE_LENGTH * (TILE_COUNT - 1));
+
+    const camera = new THREE.PerspectiveCamera(
+      75,
+      window.innerWidth / window.innerHeight,
+      0.1,
+      1000
+    );
+
+    const settings = settingsStore.get();
+    const renderer = new THREE.WebGLRenderer({
+      antialias: settings.antialias,
+    });
+    renderer.setSize(window.innerWidth, window.innerHeight);
+    renderer.shadowMap.enabled = settings.shadows;
+    container.appendChild(renderer.domElement);
+
+    // Sun follows the car so its shadows stay sharp
+    const sun = new THREE.DirectionalLight(0xffeedd, 1.2);
+    sun.castShadow = true;
+    sun.shadow.mapSize.width = 1024;
+    sun.shadow.mapSize.height = 1024;
+    sun.shadow.camera.near = 0.5;
+    sun.shadow.camera.far = 50;
+    sun.shadow.camera.left = -20;
+    sun.shadow.camera.right = 20;
+    sun.shadow.camera.top = 20;
+    sun.shadow.camera.bottom = -20;
+    scene.add(sun);
+    scene.add(sun.target);
+    scene.add(new THREE.AmbientLight(0xffffff, 0.6));
+
+    // Road tiles start a little behind the car and leapfrog forward
+    const tiles = Array.from({ length: TILE_COUNT }, (_, i) => {
+      const tile = createRoadTile();
+      tile.position.z = (i - 1) * TILE_LENGTH;
+      scene.add(tile);
+      return tile;
+    });
+
+    const car = createCar();
+    scene.add(car);
+    const flame = car.getObjectByName("flame")!;
+    const shield = car.getObjectByName("shield")!;
+
+    const obstacleMeshes = new Map<number, THREE.Object3D>();
+    const powerUpMeshes = new Map<number, THREE.Object3D>();
+    const projectileMeshes = new Map<number, THREE.Object3D>();
+    let explosions: Explosion[] = [];
+
+    const explode = (x: number, z: number, size: number, color?: number) => {
+      const mesh = createExplosion(color);
+      mesh.position.set(x, 1, z);
+      scene.add(mesh);
+      explosions.push({ mesh, size, age: 0 });
+    };
+
+    // Effects and HUD messages for what happened this frame
+    const handleEvent = (event: RaceEvent) => {
+      switch (event.type) {
+        case "obstacleHit":
+          explode(event.x, event.z, 0.3);
+          break;
+        case "obstacleDestroyed": {
+          explode(event.x, event.z, 1.5);
+          const { name } = OBSTACLE_STATS[event.obstacleType];
+          addMessage(`${name} destroyed (+${event.points})`);
+          break;
+        }
+        case "powerUpCollected":
+          addMessage(
+            event.powerUpType === "weapon"
+              ? `Weapon upgraded: ${currentWeapon(race).name}`
+              : POWER_UP_STATS[event.powerUpType].name
+          );
+          break;
+        case "shieldBroken":
+          explode(event.x, event.z, 1.5, POWER_UP_STATS.shield.color);
+          addMessage("Refractor field collapsed");
+          break;
+        case "crashed": {
+          explode(event.x, event.z, 2.5);
+
+          const score = raceScore(race);
+          const place = recordHighScore("racer", score);
+          setResult({ score, place, highScores: getHighScores("racer") });
+          break;
+        }
+      }
+    };
+
+    // Make the meshes in `meshes` match the entities in `items`
+    const syncMeshes = <T extends { id: number; x: number; z: number }>(
+      items: T[],
+      meshes: Map<number, THREE.Object3D>,
+      create: (item: T) => THREE.Object3D
+    ) => {
+      const alive = new Set<number>();
+
+      items.forEach((item) => {
+        alive.add(item.id);
+        let mesh = meshes.get(item.id);
+        if (!mesh) {
+          mesh = create(item);
+          scene.add(mesh);
+          meshes.set(item.id, mesh);
+        }
+        mesh.position.x = item.x;
+        mesh.position.z = item.z;
+      });
+
+      meshes.forEach((mesh, id) => {
+        if (alive.has(id)) return;
+        scene.remove(mesh);
+        meshes.delete(id);
+      });
+    };
+
+    const handleResize = () => {
+      camera.aspect = window.innerWidth / window.innerHeight;
+      camera.updateProjectionMatrix();
+      renderer.setSize(window.innerWidth, window.innerHeight);
+    };
+
+    window.addEventListener("resize", handleResize);
+
+    let animationFrame = 0;
+    let lastTime = 0;
+    let lastHudUpdate = 0;
+
+    const animate = (time: number) => {
+      // Cap the step so a backgrounded tab doesn't teleport the car
+      const delta = lastTime ? Math.min((time - lastTime) / 1000, 0.1) : 0;
+      lastTime = time;
+
+      stepRace(race, controlsRef.current, delta).forEach(handleEvent);
+
+      // Car
+      car.position.set(race.car.x, 0, race.car.z);
+      car.rotation.y = -race.car.steer * 0.15;
+      car.rotation.z = race.car.steer * 0.05;
+      flame.visible = isBoosting(race);
+      flame.scale.setScalar(0.8 + Math.random() * 0.4);
+      shield.visible = isShielded(race);
+      car.visible = !race.isOver;
+
+      // Move tiles that have fallen behind to the front of the road
+      tiles.forEach((tile) => {
+        if (tile.position.z + TILE_LENGTH < race.car.z - CAMERA_DISTANCE) {
+          tile.position.z += TILE_LENGTH * TILE_COUNT;
+        }
+      });
+
+      syncMeshes(race.obstacles, obstacleMeshes, (obstacle) =>
+        createObstacle(obstacle.type)
+      );
+      syncMeshes(race.powerUps, powerUpMeshes, (powerUp) =>
+        createPowerUp(powerUp.type)
+      );
+      syncMeshes(race.projectiles, projectileMeshes, (projectile) => {
+        const mesh = createProjectile(projectile.color);
+        mesh.position.y = 1.85;
+        mesh.rotation.y = Math.atan2(projectile.vx, projectile.vz);
+        return mesh;
+      });
+
+      powerUpMeshes.forEach((mesh) => {
+        mesh.rotation.y += delta * 2;
+      });
+
+      // Explosions grow and fade out
+      explosions = explosions.filter((explosion) => {
+        explosion.age += delta;
+        const progress = explosion.age / EXPLOSION_DURATION;
+        if (progress >= 1) {
+          scene.remove(explosion.mesh);
+          return false;
+        }
+
+        explosion.mesh.scale.setScalar(explosion.size * (0.2 + progress));
+        explosion.mesh.material.opacity = 0.8 * (1 - progress);
+        return true;
+      });
+
+      // Follow from behind the car
+      camera.position.set(
+        race.car.x * 0.5,
+        CAMERA_HEIGHT,
+        race.car.z - CAMERA_DISTANCE
+      );
+      camera.lookAt(race.car.x * 0.5, 0, race.car.z + 10);
+      sun.position.set(race.car.x + 5, 10, race.car.z + 5);
+      sun.target.position.set(race.car.x, 0, race.car.z);
+
+      if (time - lastHudUpdate > HUD_INTERVAL) {
+        lastHudUpdate = time;
+        setHud(readHud(race));
+      }
+
+      renderer.render(scene, camera);
+      animationFrame = requestAnimationFrame(animate);
+    };
+
+    animationFrame = requestAnimationFrame(animate);
+
+    return () => {
+      cancelAnimationFrame(animationFrame);
+      window.removeEventListener("resize", handleResize);
+      container.removeChild(renderer.domElement);
+      renderer.dispose();
+    };
+  }, [session]);
+
+  // Set up keyboard controls
+  useEffect(() => {
+    const setControl = (event: KeyboardEvent, pressed: boolean) => {
+      const control = KEY_CONTROLS[event.key.toLowerCase()];
+      if (control) {
+        // Keep the space bar from scrolling or pressing focused buttons
+        event.preventDefault();
+        controlsRef.current[control] = pressed;
+      }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => setControl(event, true);
+    const handleKeyUp = (event: KeyboardEvent) => setControl(event, false);
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  }, []);
+
+  const handleRestart = (event: React.MouseEvent<HTMLButtonElement>) => {
+    event.currentTarget.blur();
+    controlsRef.current = createControls();
+    setSession((prev) => prev + 1);
+  };
+
+  return (
+    <div className={styles["game-container"]}>
+      <div ref={canvasRef} className={styles["game-canvas"]}></div>
+
+      <div className={styles.hud}>
+        <div className={styles.score}>Score: {hud.score}</div>
+        <div className={styles["hud-line"]}>
+          Sector {hud.sector} · {hud.distance} m · {hud.speed} km/h
+        </div>
+        <div className={styles["hud-line"]}>
+          {hud.weapon} ({hud.weaponLevel + 1}/{WEAPONS.length})
+        </div>
+        {hud.boost > 0 && (
+          <div className={styles["hud-effect"]}>
+            {POWER_UP_STATS.speed.name} {hud.boost.toFixed(1)}s
+          </div>
+        )}
+        {hud.shield > 0 && (
+          <div className={styles["hud-effect"]}>
+            {POWER_UP_STATS.shield.name} {hud.shield.toFixed(1)}s
+          </div>
+        )}
+        <div className={styles.messages}>
+          {messages.map((entry) => (
+            <div key={entry.id} className={styles.message}>
+              {entry.message}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {result && (
+        <div className={styles["game-over"]}>
+          <h2>Crashed!</h2>
+          <p className={styles["final-score"]}>Score: {result.score}</p>
+          {result.place === 0 && <p>New best score!</p>}
+          <ol className={styles["high-scores"]}>
+            {result.highScores.map((entry, index) => (
+              <li
+                key={entry.achievedAt}
+                className={
+                  index === result.place ? styles["new-score"] : undefined
+                }
+              >
+                {entry.score}
+              </li>
+            ))}
+          </ol>
+          <button className={styles["restart-button"]} onClick={handleRestart}>
+            Race Again
+          </button>
+        </div>
+      )}
+
+      <div className={styles.controls}>
+        <p>A/D or Left/Right - Steer, W/S or Up/Down - Speed up/Slow down</p>
+        <p>Space - Fire</p>
+        <p>
+          Dodge or destroy the obstacles and collect power-ups: boost, shield
+          and weapon upgrades
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default RacerGame;
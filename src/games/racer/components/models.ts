@@ -0,0 +1,316 @@
+import * as THREE from "three";
+import {
+  LANES,
+  OBSTACLE_STATS,
+  ObstacleType,
+  POWER_UP_STATS,
+  PowerUpType,
+  ROAD_HALF_WIDTH,
+} from "../lib/race";
+
+// Meshes for the racer. Everything faces +z, the direction of travel.
+
+export const TILE_LENGTH = 50;
+const TREES_PER_TILE = 8;
+
+// One stretch of road with the verge and trees on both sides. Tiles are
+// recycled ahead of the car as it drives.
+export const createRoadTile = () => {
+  const tile = new THREE.Group();
+
+  const ground = new THREE.Mesh(
+    new THREE.PlaneGeometry(120, TILE_LENGTH),
+    new THREE.MeshStandardMaterial({
+      color: 0x4a3b2a,
+      roughness: 0.9,
+      metalness: 0.1,
+    })
+  );
+  ground.rotation.x = -Math.PI / 2;
+  ground.position.z = TILE_LENGTH / 2;
+  ground.receiveShadow = true;
+  tile.add(ground);
+
+  const road = new THREE.Mesh(
+    new THREE.PlaneGeometry(ROAD_HALF_WIDTH * 2, TILE_LENGTH),
+    new THREE.MeshStandardMaterial({
+      color: 0x333333,
+      roughness: 0.5,
+      metalness: 0.3,
+    })
+  );
+  road.rotation.x = -Math.PI / 2;
+  // Slightly above ground to prevent z-fighting
+  road.position.set(0, 0.01, TILE_LENGTH / 2);
+  road.receiveShadow = true;
+  tile.add(road);
+
+  // Dashed markings between the lanes
+  const markingGeometry = new THREE.PlaneGeometry(0.3, 2);
+  const markingMaterial = new THREE.MeshStandardMaterial({ color: 0xffffff });
+
+  for (let i = 0; i < LANES.length - 1; i++) {
+    const x = (LANES[i] + LANES[i + 1]) / 2;
+    for (let z = 5; z < TILE_LENGTH; z += 10) {
+      const marking = new THREE.Mesh(markingGeometry, markingMaterial);
+      marking.rotation.x = -Math.PI / 2;
+      marking.position.set(x, 0.02, z);
+      tile.add(marking);
+    }
+  }
+
+  // Dead trees along the verges
+  const trunkGeometry = new THREE.CylinderGeometry(0.15, 0.3, 4, 6);
+  const trunkMaterial = new THREE.MeshStandardMaterial({ color: 0x3b2a1a });
+
+  for (let i = 0; i < TREES_PER_TILE; i++) {
+    const side = i % 2 === 0 ? -1 : 1;
+    const tree = new THREE.Mesh(trunkGeometry, trunkMaterial);
+    tree.position.set(
+      side * (ROAD_HALF_WIDTH + 3 + Math.random() * 30),
+      2,
+      Math.random() * TILE_LENGTH
+    );
+    tree.rotation.z = (Math.random() - 0.5) * 0.4;
+    tree.castShadow = true;
+    tile.add(tree);
+  }
+
+  return tile;
+};
+
+// Imperial car: body, roof, windshield, wheels, headlights and a roof gun
+export const createCar = () => {
+  const car = new THREE.Group();
+
+  const body = new THREE.Mesh(
+    new THREE.BoxGeometry(2, 1, 4),
+    new THREE.MeshStandardMaterial({ color: 0x2c3e50 })
+  );
+  body.position.y = 0.5;
+  body.castShadow = true;
+  car.add(body);
+
+  const roof = new THREE.Mesh(
+    new THREE.BoxGeometry(1.8, 0.7, 2),
+    new THREE.MeshStandardMaterial({ color: 0x1f2d3a })
+  );
+  roof.position.set(0, 1.35, -0.2);
+  roof.castShadow = true;
+  car.add(roof);
+
+  const windshield = new THREE.Mesh(
+    new THREE.BoxGeometry(1.7, 0.6, 0.1),
+    new THREE.MeshStandardMaterial({
+      color: 0xadd8e6,
+      transparent: true,
+      opacity: 0.7,
+    })
+  );
+  windshield.position.set(0, 1.3, 0.85);
+  car.add(windshield);
+
+  // Imperial eagle plate on the bonnet
+  const insignia = new THREE.Mesh(
+    new THREE.BoxGeometry(0.8, 0.05, 0.8),
+    new THREE.MeshStandardMaterial({
+      color: 0xd4af37,
+      emissive: 0xd4af37,
+      emissiveIntensity: 0.3,
+    })
+  );
+  insignia.position.set(0, 1.03, 1.3);
+  car.add(insignia);
+
+  const gun = new THREE.Mesh(
+    new THREE.BoxGeometry(0.3, 0.3, 1.2),
+    new THREE.MeshStandardMaterial({ color: 0x222222 })
+  );
+  gun.position.set(0, 1.85, 0.2);
+  car.add(gun);
+
+  // Wheels
+  const wheelGeometry = new THREE.CylinderGeometry(0.4, 0.4, 0.3, 16);
+  wheelGeometry.rotateZ(Math.PI / 2);
+  const wheelMaterial = new THREE.MeshStandardMaterial({ color: 0x333333 });
+
+  [
+    [-1.1, 1.2],
+    [1.1, 1.2],
+    [-1.1, -1.2],
+    [1.1, -1.2],
+  ].forEach(([x, z]) => {
+    const wheel = new THREE.Mesh(wheelGeometry, wheelMaterial);
+    wheel.position.set(x, 0.4, z);
+    wheel.castShadow = true;
+    car.add(wheel);
+  });
+
+  // Headlights
+  const headlightGeometry = new THREE.SphereGeometry(0.2, 16, 16);
+  const headlightMaterial = new THREE.MeshStandardMaterial({
+    color: 0xffffff,
+    emissive: 0xffffff,
+    emissiveIntensity: 0.5,
+  });
+
+  [-0.7, 0.7].forEach((x) => {
+    const headlight = new THREE.Mesh(headlightGeometry, headlightMaterial);
+    headlight.position.set(x, 0.5, 2);
+    car.add(headlight);
+  });
+
+  // Exhaust flame, shown while boosting
+  const flame = new THREE.Mesh(
+    new THREE.ConeGeometry(0.35, 1.5, 8),
+    new THREE.MeshStandardMaterial({
+      color: POWER_UP_STATS.speed.color,
+      emissive: POWER_UP_STATS.speed.color,
+      emissiveIntensity: 1,
+      transparent: true,
+      opacity: 0.8,
+    })
+  );
+  flame.name = "flame";
+  flame.rotation.x = -Math.PI / 2;
+  flame.position.set(0, 0.5, -2.7);
+  flame.visible = false;
+  car.add(flame);
+
+  // Refractor field bubble, shown while shielded
+  const shield = new THREE.Mesh(
+    new THREE.SphereGeometry(2.8, 16, 12),
+    new THREE.MeshStandardMaterial({
+      color: POWER_UP_STATS.shield.color,
+      emissive: POWER_UP_STATS.shield.color,
+      emissiveIntensity: 0.4,
+      transparent: true,
+      opacity: 0.25,
+      depthWrite: false,
+    })
+  );
+  shield.name = "shield";
+  shield.position.y = 0.8;
+  shield.visible = false;
+  car.add(shield);
+
+  return car;
+};
+
+export const createObstacle = (type: ObstacleType) => {
+  const { halfWidth, halfLength } = OBSTACLE_STATS[type];
+  const obstacle = new THREE.Group();
+
+  switch (type) {
+    case "barricade": {
+      // Spiked wooden wall
+      const wall = new THREE.Mesh(
+        new THREE.BoxGeometry(halfWidth * 2, 1.2, halfLength * 2),
+        new THREE.MeshStandardMaterial({ color: 0x6b3a1f })
+      );
+      wall.position.y = 0.6;
+      wall.castShadow = true;
+      obstacle.add(wall);
+
+      const spikeGeometry = new THREE.ConeGeometry(0.15, 0.8, 6);
+      const spikeMaterial = new THREE.MeshStandardMaterial({
+        color: 0x888888,
+        metalness: 0.8,
+      });
+      for (let x = -halfWidth + 0.3; x < halfWidth; x += 0.6) {
+        const spike = new THREE.Mesh(spikeGeometry, spikeMaterial);
+        spike.position.set(x, 1.6, 0);
+        obstacle.add(spike);
+      }
+      break;
+    }
+    case "wreck": {
+      // Charred hull lying on its side
+      const hull = new THREE.Mesh(
+        new THREE.BoxGeometry(halfWidth * 2, 1.4, halfLength * 2),
+        new THREE.MeshStandardMaterial({ color: 0x2a2a2a, roughness: 1 })
+      );
+      hull.position.y = 0.7;
+      hull.rotation.z = 0.2;
+      hull.castShadow = true;
+      obstacle.add(hull);
+
+      const embers = new THREE.Mesh(
+        new THREE.BoxGeometry(halfWidth, 0.2, halfLength),
+        new THREE.MeshStandardMaterial({
+          color: 0xff4400,
+          emissive: 0xff2200,
+          emissiveIntensity: 0.6,
+        })
+      );
+      embers.position.y = 1.45;
+      obstacle.add(embers);
+      break;
+    }
+    case "raider": {
+      // Spiky red buggy
+      const body = new THREE.Mesh(
+        new THREE.BoxGeometry(halfWidth * 2, 0.9, halfLength * 2),
+        new THREE.MeshStandardMaterial({ color: 0x8b0000 })
+      );
+      body.position.y = 0.6;
+      body.castShadow = true;
+      obstacle.add(body);
+
+      const cage = new THREE.Mesh(
+        new THREE.BoxGeometry(halfWidth * 1.6, 0.8, halfLength),
+        new THREE.MeshStandardMaterial({ color: 0x333333, wireframe: true })
+      );
+      cage.position.set(0, 1.45, -0.3);
+      obstacle.add(cage);
+
+      const ram = new THREE.Mesh(
+        new THREE.ConeGeometry(0.4, 1, 4),
+        new THREE.MeshStandardMaterial({ color: 0x999999, metalness: 0.8 })
+      );
+      ram.rotation.x = Math.PI / 2;
+      ram.position.set(0, 0.6, halfLength + 0.4);
+      obstacle.add(ram);
+      break;
+    }
+  }
+
+  return obstacle;
+};
+
+// Spinning crystal in the power-up's colour
+export const createPowerUp = (type: PowerUpType) => {
+  const { color } = POWER_UP_STATS[type];
+  const powerUp = new THREE.Mesh(
+    new THREE.OctahedronGeometry(0.8),
+    new THREE.MeshStandardMaterial({
+      color,
+      emissive: color,
+      emissiveIntensity: 0.8,
+    })
+  );
+  powerUp.position.y = 1.2;
+  return powerUp;
+};
+
+export const createProjectile = (color: number) =>
+  new THREE.Mesh(
+    new THREE.BoxGeometry(0.15, 0.15, 1.2),
+    new THREE.MeshStandardMaterial({
+      color,
+      emissive: color,
+      emissiveIntensity: 1,
+    })
+  );
+
+export const createExplosion = (color = 0xff5500) =>
+  new THREE.Mesh(
+    new THREE.SphereGeometry(1.5, 16, 16),
+    new THREE.MeshStandardMaterial({
+      color,
+      emissive: 0xff8800,
+      emissiveIntensity: 1,
+      transparent: true,
+      opacity: 0.8,
+    })
+  );
@@ -0,0 +1,533 @@
+// Imperial Car Racer rules.
+//
+// Plain data and math like the tank simulation: the game steps the race with
+// the elapsed time every frame and mirrors the state into the scene. The car
+// always drives toward +z down an endless straight road; distances are in
+// world units and speeds in units per second.
+
+export const ROAD_HALF_WIDTH = 6;
+export const LANES = [-4, 0, 4];
+
+export const CAR_HALF_WIDTH = 1;
+export const CAR_HALF_LENGTH = 2;
+// Sideways speed at full steering lock
+export const STEER_SPEED = 12;
+// How quickly the car reaches the speed the player asks for
+export const CAR_ACCELERATION = 15;
+
+// Obstacles and power-ups are placed this far ahead of the car and removed
+// once they fall this far behind it
+export const SPAWN_AHEAD = 150;
+export const DESPAWN_BEHIND = 20;
+
+export const PROJECTILE_RANGE = 120;
+export const PICKUP_RADIUS = 2.5;
+
+// Difficulty ramps up linearly until this distance, in sectors of
+// SECTOR_LENGTH shown on the HUD
+export const MAX_DIFFICULTY_DISTANCE = 5000;
+export const SECTOR_LENGTH = 500;
+
+export const BOOST_MULTIPLIER = 1.5;
+
+export interface Controls {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  shoot: boolean;
+}
+
+export type ObstacleType = "barricade" | "wreck" | "raider";
+export type PowerUpType = "speed" | "shield" | "weapon";
+
+export interface WeaponDefinition {
+  name: string;
+  // Seconds between shots
+  fireInterval: number;
+  damage: number;
+  projectileSpeed: number;
+  // One projectile per barrel: sideways offset from the car's centre and
+  // angle away from straight ahead
+  barrels: { offset: number; angle: number }[];
+  // Piercing shots carry on through everything they hit
+  pierce: boolean;
+  color: number;
+}
+
+// Weapon upgrades step through these in order
+export const WEAPONS: WeaponDefinition[] = [
+  {
+    name: "Storm Bolter",
+    fireInterval: 0.25,
+    damage: 20,
+    projectileSpeed: 80,
+    barrels: [{ offset: 0, angle: 0 }],
+    pierce: false,
+    color: 0xffcc33,
+  },
+  {
+    name: "Twin Heavy Bolters",
+    fireInterval: 0.2,
+    damage: 25,
+    projectileSpeed: 80,
+    barrels: [
+      { offset: -0.8, angle: 0 },
+      { offset: 0.8, angle: 0 },
+    ],
+    pierce: false,
+    color: 0xffaa00,
+  },
+  {
+    name: "Assault Cannon",
+    fireInterval: 0.1,
+    damage: 15,
+    projectileSpeed: 90,
+    barrels: [
+      { offset: -0.3, angle: -0.05 },
+      { offset: 0, angle: 0 },
+      { offset: 0.3, angle: 0.05 },
+    ],
+    pierce: false,
+    color: 0xff8800,
+  },
+  {
+    name: "Lascannon",
+    fireInterval: 0.5,
+    damage: 120,
+    projectileSpeed: 140,
+    barrels: [{ offset: 0, angle: 0 }],
+    pierce: true,
+    color: 0xff2222,
+  },
+];
+
+export const OBSTACLE_STATS: Record<
+  ObstacleType,
+  {
+    name: string;
+    // null for obstacles that can't be shot down
+    hitpoints: number | null;
+    halfWidth: number;
+    halfLength: number;
+    // Forward speed; the car catches up with anything slower than itself
+    speed: number;
+    points: number;
+  }
+> = {
+  barricade: {
+    name: "Heretic Barricade",
+    hitpoints: 40,
+    halfWidth: 1.8,
+    halfLength: 0.5,
+    speed: 0,
+    points: 50,
+  },
+  wreck: {
+    name: "Burnt-out Wreck",
+    hitpoints: null,
+    halfWidth: 1.5,
+    halfLength: 2.5,
+    speed: 0,
+    points: 0,
+  },
+  raider: {
+    name: "Chaos Raider",
+    hitpoints: 80,
+    halfWidth: 1,
+    halfLength: 2,
+    speed: 10,
+    points: 150,
+  },
+};
+
+export const POWER_UP_STATS: Record<
+  PowerUpType,
+  { name: string; duration: number; color: number }
+> = {
+  speed: { name: "Promethium Boost", duration: 5, color: 0x33ccff },
+  shield: { name: "Refractor Field", duration: 15, color: 0x66ffcc },
+  weapon: { name: "Weapon Upgrade", duration: 0, color: 0xffd700 },
+};
+
+export interface CarState {
+  x: number;
+  z: number;
+  speed: number;
+  // -1 (left) to 1 (right), for leaning the car into turns
+  steer: number;
+}
+
+export interface ObstacleState {
+  id: number;
+  type: ObstacleType;
+  x: number;
+  z: number;
+  hitpoints: number | null;
+  // Lane a raider is swerving toward
+  targetX: number;
+}
+
+export interface PowerUpState {
+  id: number;
+  type: PowerUpType;
+  x: number;
+  z: number;
+}
+
+export interface ProjectileState {
+  id: number;
+  x: number;
+  z: number;
+  vx: number;
+  vz: number;
+  damage: number;
+  pierce: boolean;
+  color: number;
+  // Obstacles a piercing shot has already damaged
+  hits: number[];
+  maxZ: number;
+}
+
+export interface RaceState {
+  random: () => number;
+  // Seconds since the start
+  time: number;
+  car: CarState;
+  weaponLevel: number;
+  lastShotTime: number;
+  // Race time at which each effect runs out
+  boostUntil: number;
+  shieldUntil: number;
+  obstacles: ObstacleState[];
+  powerUps: PowerUpState[];
+  projectiles: ProjectileState[];
+  // Points from destroyed obstacles; distance adds to the score on top
+  points: number;
+  nextId: number;
+  nextSpawnZ: number;
+  isOver: boolean;
+}
+
+// Things that happened during a step that the game may want to show
+export type RaceEvent =
+  | { type: "shotFired"; weapon: WeaponDefinition }
+  | { type: "obstacleHit"; x: number; z: number }
+  | {
+      type: "obstacleDestroyed";
+      obstacleType: ObstacleType;
+      x: number;
+      z: number;
+      points: number;
+    }
+  | { type: "powerUpCollected"; powerUpType: PowerUpType }
+  | { type: "shieldBroken"; x: number; z: number }
+  | { type: "crashed"; x: number; z: number };
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// 0 at the start line, 1 from MAX_DIFFICULTY_DISTANCE on
+export const difficultyAt = (distance: number) =>
+  Math.min(1, Math.max(0, distance / MAX_DIFFICULTY_DISTANCE));
+
+export const sectorAt = (distance: number) =>
+  Math.floor(Math.max(0, distance) / SECTOR_LENGTH) + 1;
+
+// Everything the difficulty curve controls
+export const difficultySettings = (difficulty: number) => ({
+  cruiseSpeed: lerp(18, 40, difficulty),
+  // Road between two rows of obstacles
+  spawnGap: lerp(35, 20, difficulty),
+  raiderChance: lerp(0.1, 0.45, difficulty),
+  // Chance a row blocks two lanes instead of one
+  doubleChance: lerp(0, 0.5, difficulty),
+  powerUpChance: lerp(0.3, 0.15, difficulty),
+});
+
+export const raceScore = (state: RaceState) =>
+  Math.floor(Math.max(0, state.car.z) / 10) + state.points;
+
+export const currentWeapon = (state: RaceState) => WEAPONS[state.weaponLevel];
+
+export const isBoosting = (state: RaceState) => state.time < state.boostUntil;
+export const isShielded = (state: RaceState) => state.time < state.shieldUntil;
+
+export const createControls = (): Controls => ({
+  forward: false,
+  backward: false,
+  left: false,
+  right: false,
+  shoot: false,
+});
+
+export const createRaceState = (random = Math.random): RaceState => ({
+  random,
+  time: 0,
+  car: { x: 0, z: 0, speed: difficultySettings(0).cruiseSpeed, steer: 0 },
+  weaponLevel: 0,
+  lastShotTime: -Infinity,
+  boostUntil: 0,
+  shieldUntil: 0,
+  obstacles: [],
+  powerUps: [],
+  projectiles: [],
+  points: 0,
+  nextId: 1,
+  // Leave an empty stretch of road to get going
+  nextSpawnZ: 60,
+  isOver: false,
+});
+
+// Advance the race by `delta` seconds
+export function stepRace(
+  state: RaceState,
+  controls: Controls,
+  delta: number
+): RaceEvent[] {
+  if (state.isOver || delta <= 0) return [];
+
+  const events: RaceEvent[] = [];
+  const { car } = state;
+  state.time += delta;
+
+  const settings = difficultySettings(difficultyAt(car.z));
+
+  // Speed eases toward what the player asks for, around the cruise speed
+  let targetSpeed = settings.cruiseSpeed;
+  if (controls.forward) targetSpeed *= 1.3;
+  else if (controls.backward) targetSpeed *= 0.6;
+  if (isBoosting(state)) targetSpeed *= BOOST_MULTIPLIER;
+
+  const speedChange = CAR_ACCELERATION * delta;
+  car.speed +=
+    Math.sign(targetSpeed - car.speed) *
+    Math.min(speedChange, Math.abs(targetSpeed - car.speed));
+
+  // Steering moves the car across the road
+  const steer = (controls.right ? 1 : 0) - (controls.left ? 1 : 0);
+  car.steer += (steer - car.steer) * Math.min(1, delta * 8);
+  car.x = Math.min(
+    ROAD_HALF_WIDTH - CAR_HALF_WIDTH,
+    Math.max(
+      -ROAD_HALF_WIDTH + CAR_HALF_WIDTH,
+      car.x + steer * STEER_SPEED * delta
+    )
+  );
+  car.z += car.speed * delta;
+
+  if (controls.shoot) fire(state, events);
+
+  moveProjectiles(state, delta, events);
+  moveObstacles(state, delta);
+  checkCollisions(state, events);
+  collectPowerUps(state, events);
+
+  // Forget what the car has left behind
+  const despawnZ = car.z - DESPAWN_BEHIND;
+  state.obstacles = state.obstacles.filter((obstacle) => obstacle.z > despawnZ);
+  state.powerUps = state.powerUps.filter((powerUp) => powerUp.z > despawnZ);
+
+  while (state.nextSpawnZ < car.z + SPAWN_AHEAD) {
+    spawnRow(state, state.nextSpawnZ);
+    state.nextSpawnZ += settings.spawnGap * lerp(0.8, 1.2, state.random());
+  }
+
+  return events;
+}
+
+function fire(state: RaceState, events: RaceEvent[]) {
+  const weapon = currentWeapon(state);
+  if (state.time - state.lastShotTime < weapon.fireInterval) return;
+  state.lastShotTime = state.time;
+
+  const { car } = state;
+  weapon.barrels.forEach(({ offset, angle }) => {
+    state.projectiles.push({
+      id: state.nextId++,
+      x: car.x + offset,
+      z: car.z + CAR_HALF_LENGTH,
+      vx: Math.sin(angle) * weapon.projectileSpeed,
+      // Shots leave the barrel on top of the car's own speed
+      vz: Math.cos(angle) * weapon.projectileSpeed + car.speed,
+      damage: weapon.damage,
+      pierce: weapon.pierce,
+      color: weapon.color,
+      hits: [],
+      maxZ: car.z + PROJECTILE_RANGE,
+    });
+  });
+
+  events.push({ type: "shotFired", weapon });
+}
+
+function moveProjectiles(state: RaceState, delta: number, events: RaceEvent[]) {
+  state.projectiles = state.projectiles.filter((projectile) => {
+    projectile.x += projectile.vx * delta;
+    projectile.z += projectile.vz * delta;
+
+    if (
+      projectile.z > projectile.maxZ ||
+      Math.abs(projectile.x) > ROAD_HALF_WIDTH + 4
+    ) {
+      return false;
+    }
+
+    for (const obstacle of state.obstacles) {
+      if (projectile.hits.includes(obstacle.id)) continue;
+
+      const stats = OBSTACLE_STATS[obstacle.type];
+      if (
+        Math.abs(projectile.x - obstacle.x) > stats.halfWidth ||
+        Math.abs(projectile.z - obstacle.z) > stats.halfLength
+      ) {
+        continue;
+      }
+
+      projectile.hits.push(obstacle.id);
+      events.push({ type: "obstacleHit", x: projectile.x, z: projectile.z });
+
+      if (obstacle.hitpoints !== null) {
+        obstacle.hitpoints -= projectile.damage;
+        if (obstacle.hitpoints <= 0) destroyObstacle(state, obstacle, events);
+      }
+
+      // Wrecks stop even piercing shots
+      if (!projectile.pierce || obstacle.hitpoints === null) return false;
+    }
+
+    return true;
+  });
+}
+
+function destroyObstacle(
+  state: RaceState,
+  obstacle: ObstacleState,
+  events: RaceEvent[]
+) {
+  const { points } = OBSTACLE_STATS[obstacle.type];
+  state.points += points;
+  state.obstacles = state.obstacles.filter(({ id }) => id !== obstacle.id);
+
+  events.push({
+    type: "obstacleDestroyed",
+    obstacleType: obstacle.type,
+    x: obstacle.x,
+    z: obstacle.z,
+    points,
+  });
+}
+
+// Raiders drive ahead and swerve between lanes
+function moveObstacles(state: RaceState, delta: number) {
+  state.obstacles.forEach((obstacle) => {
+    const { speed } = OBSTACLE_STATS[obstacle.type];
+    if (speed === 0) return;
+
+    obstacle.z += speed * delta;
+
+    const toTarget = obstacle.targetX - obstacle.x;
+    const swerve = 4 * delta;
+    if (Math.abs(toTarget) <= swerve) {
+      obstacle.x = obstacle.targetX;
+      // Now and then pick another lane
+      if (state.random() < delta * 0.5) {
+        obstacle.targetX = LANES[Math.floor(state.random() * LANES.length)];
+      }
+    } else {
+      obstacle.x += Math.sign(toTarget) * swerve;
+    }
+  });
+}
+
+function checkCollisions(state: RaceState, events: RaceEvent[]) {
+  const { car } = state;
+
+  for (const obstacle of state.obstacles) {
+    const stats = OBSTACLE_STATS[obstacle.type];
+    if (
+      Math.abs(car.x - obstacle.x) > CAR_HALF_WIDTH + stats.halfWidth ||
+      Math.abs(car.z - obstacle.z) > CAR_HALF_LENGTH + stats.halfLength
+    ) {
+      continue;
+    }
+
+    // A shield smashes through one obstacle and is used up
+    if (isShielded(state)) {
+      state.shieldUntil = 0;
+      state.obstacles = state.obstacles.filter(({ id }) => id !== obstacle.id);
+      events.push({ type: "shieldBroken", x: obstacle.x, z: obstacle.z });
+      return;
+    }
+
+    state.isOver = true;
+    car.speed = 0;
+    events.push({ type: "crashed", x: car.x, z: car.z });
+    return;
+  }
+}
+
+function collectPowerUps(state: RaceState, events: RaceEvent[]) {
+  const { car } = state;
+
+  state.powerUps = state.powerUps.filter((powerUp) => {
+    if (Math.hypot(car.x - powerUp.x, car.z - powerUp.z) > PICKUP_RADIUS) {
+      return true;
+    }
+
+    const { duration } = POWER_UP_STATS[powerUp.type];
+    switch (powerUp.type) {
+      case "speed":
+        state.boostUntil = state.time + duration;
+        break;
+      case "shield":
+        state.shieldUntil = state.time + duration;
+        break;
+      case "weapon":
+        state.weaponLevel = Math.min(WEAPONS.length - 1, state.weaponLevel + 1);
+        break;
+    }
+
+    events.push({ type: "powerUpCollected", powerUpType: powerUp.type });
+    return false;
+  });
+}
+
+// One row across the road: obstacles in one or two lanes, always leaving at
+// least one lane open, and sometimes a power-up in an open lane
+function spawnRow(state: RaceState, z: number) {
+  const { random } = state;
+  const settings = difficultySettings(difficultyAt(z));
+
+  // Shuffle the lanes; the first few get blocked
+  const lanes = [...LANES];
+  for (let i = lanes.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [lanes[i], lanes[j]] = [lanes[j], lanes[i]];
+  }
+  const blocked = random() < settings.doubleChance ? 2 : 1;
+
+  lanes.slice(0, blocked).forEach((x) => {
+    // Whatever isn't a raider is a barricade or a wreck in equal measure
+    let type: ObstacleType = random() < 0.5 ? "barricade" : "wreck";
+    if (random() < settings.raiderChance) type = "raider";
+
+    state.obstacles.push({
+      id: state.nextId++,
+      type,
+      x,
+      z,
+      hitpoints: OBSTACLE_STATS[type].hitpoints,
+      targetX: x,
+    });
+  });
+
+  if (random() < settings.powerUpChance) {
+    const types: PowerUpType[] = ["speed", "shield", "weapon"];
+    state.powerUps.push({
+      id: state.nextId++,
+      type: types[Math.floor(random() * types.length)],
+      x: lanes[blocked],
+      z,
+    });
+  }
+}
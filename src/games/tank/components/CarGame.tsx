@@ -0,0 +1,1605 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import * as THREE from "three";
+import styles from "./CarGame.module.css";
+import { HudSnapshot, TankHud, readHudSnapshot } from "./TankHud";
+import { TankTouchControls } from "./TankTouchControls";
+import { TankControlsHelp } from "./TankControlsHelp";
+import {
+  CarData,
+  Controls,
+  IDLE_CONTROLS,
+  MAX_BARREL_PITCH,
+  MIN_BARREL_PITCH,
+  PROJECTILE_MAX_LIFETIME,
+  SimulationEvent,
+  SimulationState,
+  TARGET_STATS,
+  TICK_RATE,
+  TargetType,
+  Vec3,
+  angleDifference,
+  cloneCarData,
+  createCarData,
+  createFixedTimestep,
+  createSimulationState,
+  createVersusCars,
+  lerpAngle,
+  lerpVec3,
+  predictTrajectory,
+  solveAim,
+  stepSimulation,
+} from "../lib/simulation";
+import { hashString, randomSeed } from "../lib/random";
+import {
+  Replay,
+  createReplayPlayer,
+  createReplayRecorder,
+  parseReplay,
+  quantizeControls,
+} from "../lib/replay";
+import {
+  HARDPOINT_OFFSETS,
+  HardpointId,
+  MAIN_BARREL_LENGTH,
+  WEAPONS,
+  WeaponId,
+} from "../lib/weapons";
+import {
+  CHUNK_RESOLUTION,
+  CHUNK_SIZE,
+  ChunkData,
+  ROAD_HALF_WIDTH,
+  VIEW_DISTANCE,
+  chunksAround,
+  generateChunk,
+  terrainHeight,
+} from "../lib/world";
+import {
+  EngineHum,
+  WEAPON_SOUNDS,
+  createEngineHum,
+  explosionSound,
+  hullHitSound,
+} from "../lib/sounds";
+import {
+  TankAction,
+  WEAPON_ACTIONS,
+  readDrivingControls,
+  tankBindings,
+  versusBindings,
+} from "../lib/input";
+import { settingsStore } from "@/store/settingsStore";
+import { InputReader, createInputReader, holdStick } from "@/lib/input";
+import { useTouchDevice } from "@/hooks/useTouchDevice";
+import { recordHighScore } from "@/lib/highScores";
+import { AudioEngine, createAudioEngine } from "@/lib/audio";
+
+// Meshes backing a simulated target
+interface TargetMesh {
+  mesh: THREE.Group;
+  healthBar: THREE.Mesh;
+}
+
+// Kill feed entry shown in the HUD
+interface KillFeedEntry {
+  id: number;
+  message: string;
+}
+
+// Shared materials and geometry used by every world chunk
+interface WorldAssets {
+  groundMaterial: THREE.MeshStandardMaterial;
+  roadMaterial: THREE.MeshStandardMaterial;
+  markingMaterial: THREE.MeshStandardMaterial;
+  markingGeometry: THREE.PlaneGeometry;
+  treeGeometry: THREE.ConeGeometry;
+  treeMaterial: THREE.MeshStandardMaterial;
+  trunkGeometry: THREE.CylinderGeometry;
+  trunkMaterial: THREE.MeshStandardMaterial;
+  rockGeometry: THREE.DodecahedronGeometry;
+  rockMaterial: THREE.MeshStandardMaterial;
+}
+
+// A play session: either live input or playback of a recorded replay.
+// Split-screen sessions have one tank per player.
+interface GameSession {
+  seed: number;
+  initialCars: CarData[];
+  replay: Replay | null;
+}
+
+// Predicted arc of a player's main weapon and the ring where it lands
+interface AimGuide {
+  arc: THREE.Line;
+  marker: THREE.Mesh;
+}
+
+// Paint for each player's tank: hull, turret and armour plates
+const TANK_COLORS = [
+  { hull: 0x2d4b2d, turret: 0x1a3a1a, armor: 0x3a5a3a }, // Military green
+  { hull: 0x2d3a5a, turret: 0x1a2440, armor: 0x3a4a6a }, // Steel blue
+];
+
+// Read the world seed from the ?seed= query parameter so a map can be shared
+const getUrlSeed = () => {
+  const value = new URLSearchParams(window.location.search).get("seed");
+  if (!value) return null;
+  return /^\d+$/.test(value) ? Number(value) >>> 0 : hashString(value);
+};
+
+// Put the seed in the URL so the address bar always holds a shareable link
+const setUrlSeed = (seed: number) => {
+  const url = new URL(window.location.href);
+  url.searchParams.set("seed", String(seed));
+  window.history.replaceState(null, "", url);
+};
+
+const createLiveSession = (
+  seed = getUrlSeed() ?? randomSeed(),
+  players = 1
+): GameSession => ({
+  seed,
+  initialCars: players > 1 ? createVersusCars(seed) : [createCarData()],
+  replay: null,
+});
+
+// Triggers and weapon switch pressed by one player since the last tick
+const createPendingShots = (): Record<HardpointId, boolean> => ({
+  main: false,
+  left: false,
+  right: false,
+});
+
+const readHudSnapshots = (simulation: SimulationState) =>
+  simulation.cars.map((_, player) => readHudSnapshot(simulation, player));
+
+const KILL_FEED_DURATION = 4000; // How long a kill feed entry stays visible (ms)
+const HUD_INTERVAL = 100; // How often the HUD is refreshed (ms)
+const STICK_TRAVERSE_SPEED = 2; // Turret turn rate from the right stick (rad/s)
+const STICK_ELEVATION_SPEED = 0.6; // Barrel raise rate from the right stick (rad/s)
+const SWIPE_AIM_SPEED = 0.005; // Turret turn per pixel of a touch swipe (rad)
+const AIM_ARC_POINTS = PROJECTILE_MAX_LIFETIME * TICK_RATE + 1; // Longest predicted arc
+const CAMERA_OFFSET = new THREE.Vector3(0, 5, -10); // Chase camera, relative to the tank
+
+const CarGame: React.FC = () => {
+  const canvasRef = useRef<HTMLDivElement>(null);
+  const sceneRef = useRef<THREE.Scene | null>(null);
+  // One chase camera and one tank mesh per player, indexed by player
+  const camerasRef = useRef<THREE.PerspectiveCamera[]>([]);
+  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
+  const carsRef = useRef<THREE.Group[]>([]);
+  const sunRef = useRef<THREE.DirectionalLight | null>(null);
+  const chunkMeshesRef = useRef(new Map<string, THREE.Group>());
+  const worldAssetsRef = useRef<WorldAssets | null>(null);
+  const animationFrameRef = useRef<number | null>(null);
+  const lastTimeRef = useRef<number>(0);
+  const projectileMeshesRef = useRef(new Map<number, THREE.Mesh>());
+  const targetMeshesRef = useRef(new Map<string, TargetMesh>());
+  const aimGuidesRef = useRef<AimGuide[]>([]);
+  const touchDevice = useTouchDevice();
+  const crosshairRef = useRef<HTMLDivElement>(null);
+  const raycasterRef = useRef(new THREE.Raycaster());
+  // Mouse position in normalized device coordinates, or null before the
+  // mouse first moves (the turret then stays facing forward)
+  const pointerRef = useRef<THREE.Vector2 | null>(null);
+  const killFeedIdRef = useRef(0);
+  // Sound for the current session
+  const audioRef = useRef<AudioEngine | null>(null);
+  const engineHumsRef = useRef<EngineHum[]>([]);
+
+  // Score and kill feed for the HUD
+  const [score, setScore] = useState(0);
+  // Mirrors the score for recording it when the session ends
+  const scoreRef = useRef(0);
+  const [killFeed, setKillFeed] = useState<KillFeedEntry[]>([]);
+
+  // Current session; changing it rebuilds the scene from its seed
+  const [session, setSession] = useState<GameSession>(createLiveSession);
+  const [replayFinished, setReplayFinished] = useState(false);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const players = session.initialCars.length;
+  const splitScreen = players > 1;
+  // How a split-screen match ended, once only one tank (or none) is left
+  const [matchResult, setMatchResult] = useState<string | null>(null);
+
+  // Deterministic simulation stepped at a fixed tick rate
+  const simulationRef = useRef<SimulationState>(
+    createSimulationState(session.seed, session.initialCars.map(cloneCarData))
+  );
+  const timestepRef = useRef(createFixedTimestep());
+
+  // Records live input every tick; holds replay input during playback
+  const recorderRef = useRef(createReplayRecorder(session.seed, session.initialCars));
+  const playbackRef = useRef<ReturnType<typeof createReplayPlayer> | null>(null);
+
+  // HUD for each player, refreshed from the simulation a few times a second
+  const [huds, setHuds] = useState<HudSnapshot[]>(() =>
+    readHudSnapshots(simulationRef.current)
+  );
+  const lastHudUpdateRef = useRef(0);
+
+  // Latches each player's shots and weapon switches pressed between two
+  // ticks so they aren't lost
+  const pendingShotsRef = useRef([createPendingShots()]);
+  const pendingWeaponSlotsRef = useRef([0]);
+
+  // Keyboard, mouse and gamepad input for each player, mapped to tank actions
+  const inputsRef = useRef<InputReader<TankAction>[]>([]);
+  // Where each turret is being aimed, from the mouse, keys or the right stick
+  const aimsRef = useRef([{ yaw: 0, pitch: 0 }]);
+
+  // Keep the shareable seed in the address bar for live sessions
+  useEffect(() => {
+    if (!session.replay) {
+      setUrlSeed(session.seed);
+    }
+  }, [session]);
+
+  // Initialize the scene
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    // Start a fresh simulation for this session
+    simulationRef.current = createSimulationState(
+      session.seed,
+      session.initialCars.map(cloneCarData)
+    );
+    timestepRef.current.reset();
+    lastTimeRef.current = 0;
+    projectileMeshesRef.current.forEach((mesh) => {
+      mesh.geometry.dispose();
+      (mesh.material as THREE.Material).dispose();
+    });
+    projectileMeshesRef.current.clear();
+    targetMeshesRef.current.clear();
+    chunkMeshesRef.current.clear();
+    carsRef.current = [];
+    camerasRef.current = [];
+    aimGuidesRef.current = [];
+    recorderRef.current = createReplayRecorder(session.seed, session.initialCars);
+    playbackRef.current = session.replay ? createReplayPlayer(session.replay) : null;
+    pendingShotsRef.current = session.initialCars.map(createPendingShots);
+    pendingWeaponSlotsRef.current = session.initialCars.map(() => 0);
+    aimsRef.current = session.initialCars.map(() => ({ yaw: 0, pitch: 0 }));
+    scoreRef.current = 0;
+    setScore(0);
+    setKillFeed([]);
+    setHuds(readHudSnapshots(simulationRef.current));
+    lastHudUpdateRef.current = 0;
+    setReplayFinished(false);
+    setMatchResult(null);
+
+    // Create scene
+    const scene = new THREE.Scene();
+    scene.background = new THREE.Color(0x87ceeb); // Sky blue
+    sceneRef.current = scene;
+
+    // Create renderer
+    const settings = settingsStore.get();
+    const renderer = new THREE.WebGLRenderer({ antialias: settings.antialias });
+    renderer.setSize(window.innerWidth, window.innerHeight);
+    renderer.shadowMap.enabled = settings.shadows;
+    canvas.appendChild(renderer.domElement);
+    rendererRef.current = renderer;
+
+    const audio = createAudioEngine();
+    audioRef.current = audio;
+    engineHumsRef.current = session.initialCars.map((car) =>
+      createEngineHum(audio, car.position)
+    );
+
+    // Add lights
+    addLights();
+
+    // Fog hides chunks streaming in at the edge of the view distance
+    scene.fog = new THREE.Fog(0x87ceeb, CHUNK_SIZE * (VIEW_DISTANCE - 0.5), CHUNK_SIZE * VIEW_DISTANCE);
+
+    // Create the world around the starting positions
+    callbacksRef.current.updateWorldChunks(
+      session.initialCars.map(
+        ({ position }) => new THREE.Vector3(position.x, position.y, position.z)
+      )
+    );
+
+    // Create a tank, a chase camera and an aim guide for each player
+    session.initialCars.forEach((car, player) => {
+      createCar(player, car);
+      callbacksRef.current.createCamera(player);
+      createAimGuide(player);
+    });
+
+    // Create meshes for the simulated targets
+    callbacksRef.current.createTargetMeshes();
+
+    // Handle window resize
+    const handleResize = () => {
+      if (!rendererRef.current) return;
+
+      camerasRef.current.forEach((camera) => {
+        camera.aspect = viewAspect();
+        camera.updateProjectionMatrix();
+      });
+      rendererRef.current.setSize(window.innerWidth, window.innerHeight);
+    };
+
+    window.addEventListener("resize", handleResize);
+
+    // Animation loop: advance the simulation in fixed ticks, then render
+    // the scene interpolated between the last two ticks
+    const animate = (time: number) => {
+      const delta = lastTimeRef.current ? (time - lastTimeRef.current) / 1000 : 0;
+      lastTimeRef.current = time;
+      const callbacks = callbacksRef.current;
+
+      inputsRef.current.forEach((input) => input.poll());
+      callbacks.updateAim(delta);
+      const alpha = timestepRef.current.advance(delta, callbacks.stepGame);
+      callbacks.syncScene(alpha);
+      updateAimGuides();
+
+      // Refresh the HUD a few times a second rather than every frame
+      if (time - lastHudUpdateRef.current >= HUD_INTERVAL) {
+        lastHudUpdateRef.current = time;
+        setHuds(readHudSnapshots(simulationRef.current));
+      }
+
+      const cars = carsRef.current;
+      callbacks.updateWorldChunks(cars.map((car) => car.position));
+
+      // Follow each tank with its camera, smoothed so it feels the same at
+      // any frame rate
+      cars.forEach((car, player) => {
+        const camera = camerasRef.current[player];
+        if (!camera) return;
+
+        const targetCameraPos = CAMERA_OFFSET.clone()
+          .applyQuaternion(car.quaternion)
+          .add(car.position);
+        camera.position.lerp(targetCameraPos, 1 - Math.pow(0.95, delta * 60));
+        camera.lookAt(car.position);
+      });
+      updateAudio();
+      callbacks.renderViews();
+
+      animationFrameRef.current = requestAnimationFrame(animate);
+    };
+
+    animate(0);
+
+    // Cleanup function
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+      
+      window.removeEventListener("resize", handleResize);
+
+      engineHumsRef.current.forEach((hum) => hum.stop());
+      engineHumsRef.current = [];
+      audio.dispose();
+      audioRef.current = null;
+
+      // A live run ends with its session; replays and split-screen matches
+      // don't count
+      if (!session.replay && session.initialCars.length === 1) {
+        recordHighScore("tank", scoreRef.current);
+      }
+
+      if (rendererRef.current) {
+        canvas.removeChild(rendererRef.current.domElement);
+        rendererRef.current.dispose();
+      }
+    };
+  }, [session]);
+
+  // Set up input: actions from the bindings, plus the mouse for aiming. A
+  // lone player also gets the mouse; split-screen players each get their
+  // own bindings and gamepad.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const crosshair = crosshairRef.current;
+    if (!canvas) return;
+
+    const inputs =
+      players > 1
+        ? versusBindings
+            .slice(0, players)
+            .map((bindings, gamepadIndex) =>
+              createInputReader(bindings.get, { gamepadIndex })
+            )
+        : [createInputReader(tankBindings.get, { mouseTarget: canvas })];
+    inputsRef.current = inputs;
+
+    // Latch presses so a tap between two ticks still fires or switches
+    const stopListening = inputs.map((input, player) =>
+      input.onPress((action) => {
+        const pending = pendingShotsRef.current[player];
+        if (!pending) return;
+
+        if (action === "shoot") pending.main = true;
+        if (action === "shootLeft") pending.left = true;
+        if (action === "shootRight") pending.right = true;
+
+        const slot = WEAPON_ACTIONS.indexOf(action);
+        if (slot !== -1) pendingWeaponSlotsRef.current[player] = slot + 1;
+      })
+    );
+
+    const handleMouseMove = (event: MouseEvent) => {
+      pointerRef.current = new THREE.Vector2(
+        (event.clientX / window.innerWidth) * 2 - 1,
+        -(event.clientY / window.innerHeight) * 2 + 1
+      );
+
+      if (crosshairRef.current) {
+        crosshairRef.current.style.display = "block";
+        crosshairRef.current.style.left = `${event.clientX}px`;
+        crosshairRef.current.style.top = `${event.clientY}px`;
+      }
+    };
+
+    if (players === 1) {
+      window.addEventListener("mousemove", handleMouseMove);
+    }
+
+    return () => {
+      stopListening.forEach((stop) => stop());
+      inputs.forEach((input) => input.dispose());
+      inputsRef.current = [];
+      window.removeEventListener("mousemove", handleMouseMove);
+      pointerRef.current = null;
+      if (crosshair) crosshair.style.display = "none";
+    };
+  }, [players]);
+
+  // Point each turret with the right stick or the aim keys, or else the
+  // lone player's at whatever ground or target is under the mouse
+  const updateAim = (delta: number) => {
+    if (playbackRef.current) return;
+
+    inputsRef.current.forEach((input, player) => {
+      const aim = aimsRef.current[player];
+      if (!aim) return;
+
+      const turn = input.value("aimLeft") - input.value("aimRight");
+      const raise = input.value("aimUp") - input.value("aimDown");
+      if (turn === 0 && raise === 0) {
+        if (player === 0) aimAtPointer();
+        return;
+      }
+
+      // The stick takes over from the mouse until the mouse moves again
+      if (player === 0) {
+        pointerRef.current = null;
+        if (crosshairRef.current) crosshairRef.current.style.display = "none";
+      }
+
+      aim.yaw = angleDifference(0, aim.yaw + turn * STICK_TRAVERSE_SPEED * delta);
+      aim.pitch = Math.max(
+        MIN_BARREL_PITCH,
+        Math.min(MAX_BARREL_PITCH, aim.pitch + raise * STICK_ELEVATION_SPEED * delta)
+      );
+    });
+  };
+
+  // Aim the first player's turret at whatever is under the mouse
+  const aimAtPointer = () => {
+    const pointer = pointerRef.current;
+    const camera = camerasRef.current[0];
+    if (!pointer || !camera) return;
+
+    const raycaster = raycasterRef.current;
+    raycaster.setFromCamera(pointer, camera);
+
+    const [hit] = raycaster.intersectObjects(
+      [
+        ...chunkMeshesRef.current.values(),
+        ...Array.from(targetMeshesRef.current.values(), ({ mesh }) => mesh),
+      ],
+      true
+    );
+    // Keep the last aim while the mouse is over the sky
+    if (!hit) return;
+
+    aimsRef.current[0] = solveAim(simulationRef.current, hit.point);
+  };
+
+  // Sample every player's controls (or the replay) and advance the
+  // simulation by one tick
+  const stepGame = () => {
+    const playback = playbackRef.current;
+    const tick = simulationRef.current.tick;
+    let controls: Controls[];
+
+    if (playback) {
+      controls = playback.controlsAt(tick);
+
+      if (tick === playback.length) {
+        setReplayFinished(true);
+      }
+    } else {
+      controls = simulationRef.current.cars.map((_, player) => readControls(player));
+      recorderRef.current.record(controls);
+    }
+
+    const events = stepSimulation(simulationRef.current, controls);
+    events.forEach(handleSimulationEvent);
+  };
+
+  // One player's controls for this tick, including presses latched since the
+  // last one
+  const readControls = (player: number) => {
+    const input = inputsRef.current[player];
+    const pending = pendingShotsRef.current[player] ?? createPendingShots();
+    const aim = aimsRef.current[player] ?? { yaw: 0, pitch: 0 };
+    const driving = input ? readDrivingControls(input) : IDLE_CONTROLS;
+
+    const controls = quantizeControls({
+      ...driving,
+      shoot: driving.shoot || pending.main,
+      shootLeft: driving.shootLeft || pending.left,
+      shootRight: driving.shootRight || pending.right,
+      weaponSlot: pendingWeaponSlotsRef.current[player] ?? 0,
+      aimYaw: aim.yaw,
+      aimPitch: aim.pitch,
+    });
+    pendingShotsRef.current[player] = createPendingShots();
+    pendingWeaponSlotsRef.current[player] = 0;
+    return controls;
+  };
+
+  // Hear the world from the camera, with each engine humming along with its
+  // tank's speed
+  const updateAudio = () => {
+    const audio = audioRef.current;
+    // Split screen shares one pair of speakers, so the world is heard from
+    // the first player's view
+    const camera = camerasRef.current[0];
+    if (!audio || !camera) return;
+
+    audio.setListener(
+      camera.position,
+      camera.getWorldDirection(new THREE.Vector3()),
+      camera.up
+    );
+
+    simulationRef.current.cars.forEach(({ speed, maxSpeed }, player) => {
+      const car = carsRef.current[player];
+      if (!car) return;
+
+      engineHumsRef.current[player]?.update(
+        car.position,
+        Math.min(1, Math.abs(speed) / maxSpeed)
+      );
+    });
+  };
+
+  // Turn simulation events into meshes, effects, sounds and HUD updates
+  const handleSimulationEvent = (event: SimulationEvent) => {
+    if (!sceneRef.current) return;
+
+    switch (event.type) {
+      case "projectileFired": {
+        const projectile = createProjectileMesh(event.projectile.weapon);
+        projectile.position.set(
+          event.projectile.position.x,
+          event.projectile.position.y,
+          event.projectile.position.z
+        );
+
+        sceneRef.current.add(projectile);
+        projectileMeshesRef.current.set(event.projectile.id, projectile);
+        audioRef.current?.play(
+          WEAPON_SOUNDS[event.projectile.weapon],
+          event.projectile.position
+        );
+        break;
+      }
+      case "beamFired":
+        createBeam(event.weapon, event.from, event.to);
+        audioRef.current?.play(WEAPON_SOUNDS[event.weapon], event.from);
+        break;
+      case "projectileImpact":
+        createExplosion(
+          new THREE.Vector3(event.position.x, event.position.y, event.position.z),
+          explosionSize(event.weapon)
+        );
+        removeProjectileMesh(event.projectileId);
+        break;
+      case "projectileExpired":
+        removeProjectileMesh(event.projectileId);
+        break;
+      case "targetHit":
+      case "tankHit":
+        createExplosion(
+          new THREE.Vector3(event.position.x, event.position.y, event.position.z),
+          explosionSize(event.weapon)
+        );
+        if (event.projectileId !== null) {
+          removeProjectileMesh(event.projectileId);
+        }
+        break;
+      case "hullDamaged":
+        createExplosion(
+          new THREE.Vector3(event.position.x, event.position.y, event.position.z),
+          0.5
+        );
+        audioRef.current?.play(hullHitSound, event.position);
+        if (event.hull === 0) {
+          handleTankDisabled(event.player);
+        }
+        break;
+      case "targetDestroyed": {
+        const targetMesh = targetMeshesRef.current.get(event.targetId);
+        if (!targetMesh) break;
+
+        createExplosion(targetMesh.mesh.position);
+        sceneRef.current.remove(targetMesh.mesh);
+        targetMeshesRef.current.delete(event.targetId);
+
+        const stats = TARGET_STATS[event.targetType];
+        scoreRef.current += stats.points;
+        setScore(scoreRef.current);
+        addKillFeedEntry(`${stats.name} destroyed (+${stats.points})`);
+        break;
+      }
+    }
+  };
+
+  // Report a breached hull; in split screen the last tank standing wins
+  const handleTankDisabled = (player: number) => {
+    const cars = simulationRef.current.cars;
+    if (cars.length === 1) {
+      addKillFeedEntry("Hull breached - tank disabled");
+      return;
+    }
+
+    addKillFeedEntry(`Player ${player + 1}'s hull breached`);
+
+    const standing = cars.flatMap((car, index) => (car.hull > 0 ? [index] : []));
+    if (standing.length === 1) {
+      setMatchResult(`Player ${standing[0] + 1} wins`);
+    } else if (standing.length === 0) {
+      setMatchResult("Draw");
+    }
+  };
+
+  const removeProjectileMesh = (id: number) => {
+    const mesh = projectileMeshesRef.current.get(id);
+    if (!mesh) return;
+
+    // Each projectile has its own geometry and material
+    sceneRef.current?.remove(mesh);
+    mesh.geometry.dispose();
+    (mesh.material as THREE.Material).dispose();
+    projectileMeshesRef.current.delete(id);
+  };
+
+  // Build the mesh a weapon's projectile is drawn with. Bolts are stretched
+  // along z and turned to face their direction of flight in syncScene.
+  const createProjectileMesh = (weaponId: WeaponId) => {
+    const { shape, size, color, emissive } = WEAPONS[weaponId].projectile;
+    const geometry =
+      shape === "sphere"
+        ? new THREE.SphereGeometry(size, 16, 16)
+        : new THREE.BoxGeometry(size, size, size * 6);
+    const material = new THREE.MeshStandardMaterial({
+      color,
+      emissive,
+      emissiveIntensity: 0.8,
+    });
+
+    return new THREE.Mesh(geometry, material);
+  };
+
+  // Draw a hitscan beam that fades out over a few frames
+  const createBeam = (weaponId: WeaponId, from: Vec3, to: Vec3) => {
+    const beam = WEAPONS[weaponId].beam;
+    if (!sceneRef.current || !beam) return;
+
+    const start = new THREE.Vector3(from.x, from.y, from.z);
+    const end = new THREE.Vector3(to.x, to.y, to.z);
+    const length = start.distanceTo(end);
+
+    const material = new THREE.MeshBasicMaterial({
+      color: beam.color,
+      transparent: true,
+      opacity: 1,
+    });
+    const mesh = new THREE.Mesh(
+      new THREE.CylinderGeometry(beam.width, beam.width, length, 8),
+      material
+    );
+
+    // Cylinders run along y; turn it to point from start to end
+    mesh.position.copy(start).lerp(end, 0.5);
+    mesh.quaternion.setFromUnitVectors(
+      new THREE.Vector3(0, 1, 0),
+      end.clone().sub(start).normalize()
+    );
+    sceneRef.current.add(mesh);
+
+    const fade = () => {
+      material.opacity -= 0.1;
+      if (material.opacity <= 0) {
+        sceneRef.current?.remove(mesh);
+        mesh.geometry.dispose();
+        material.dispose();
+        return;
+      }
+      requestAnimationFrame(fade);
+    };
+
+    requestAnimationFrame(fade);
+  };
+
+  // Splash weapons get a bigger blast to show how far their damage reaches
+  const explosionSize = (weaponId: WeaponId) =>
+    Math.max(1, WEAPONS[weaponId].splashRadius / 3);
+
+  // Place meshes at the simulated positions, interpolated between ticks
+  const syncScene = (alpha: number) => {
+    const simulation = simulationRef.current;
+
+    simulation.cars.forEach((car, player) => {
+      const mesh = carsRef.current[player];
+      if (!mesh) return;
+
+      const position = lerpVec3(car.previousPosition, car.position, alpha);
+      mesh.position.set(position.x, position.y, position.z);
+      mesh.rotation.y = lerpAngle(car.previousRotation, car.rotation, alpha);
+
+      const turret = mesh.getObjectByName("turret");
+      const barrel = mesh.getObjectByName("barrel");
+      if (turret && barrel) {
+        turret.rotation.y = lerpAngle(car.previousTurretYaw, car.turretYaw, alpha);
+        // Positive pitch raises the barrel, which points along +z
+        barrel.rotation.x = -(
+          car.previousBarrelPitch +
+          (car.barrelPitch - car.previousBarrelPitch) * alpha
+        );
+      }
+    });
+
+    simulation.projectiles.forEach((projectile) => {
+      const mesh = projectileMeshesRef.current.get(projectile.id);
+      if (!mesh) return;
+
+      const position = lerpVec3(projectile.previousPosition, projectile.position, alpha);
+      mesh.position.set(position.x, position.y, position.z);
+
+      // Point the projectile along its flight path
+      const { velocity } = projectile;
+      mesh.lookAt(position.x + velocity.x, position.y + velocity.y, position.z + velocity.z);
+    });
+
+    simulation.targets.forEach((target) => {
+      const targetMesh = targetMeshesRef.current.get(target.id);
+      if (!targetMesh) return;
+
+      const { mesh, healthBar } = targetMesh;
+      const position = lerpVec3(target.previousPosition, target.position, alpha);
+      mesh.position.set(position.x, position.y, position.z);
+      mesh.rotation.y = lerpAngle(target.previousRotation, target.rotation, alpha);
+
+      // Turrets track the nearest tank
+      const head = mesh.getObjectByName("head");
+      const nearest = closestTo(
+        mesh.position,
+        carsRef.current.map((car) => car.position)
+      );
+      if (head && nearest) {
+        const toCar = new THREE.Vector3().subVectors(nearest, mesh.position);
+        head.rotation.y = Math.atan2(toCar.x, toCar.z) - mesh.rotation.y;
+      }
+
+      // Shrink the health bar from the left
+      const ratio = target.hitpoints / target.maxHitpoints;
+      healthBar.scale.x = Math.max(0.001, ratio);
+      healthBar.position.x = -(1 - ratio);
+    });
+  };
+
+  const closestTo = (point: THREE.Vector3, candidates: THREE.Vector3[]) =>
+    candidates.reduce<THREE.Vector3 | null>(
+      (best, candidate) =>
+        !best || candidate.distanceTo(point) < best.distanceTo(point)
+          ? candidate
+          : best,
+      null
+    );
+
+  // Turn every health bar to face the camera about to render
+  const faceHealthBars = (camera: THREE.Camera) => {
+    targetMeshesRef.current.forEach(({ mesh }) => {
+      mesh
+        .getObjectByName("healthBar")
+        ?.quaternion.copy(mesh.quaternion)
+        .invert()
+        .multiply(camera.quaternion);
+    });
+  };
+
+  // Each player's view gets an equal strip of the window, side by side
+  const viewAspect = () =>
+    window.innerWidth / Math.max(1, carsRef.current.length) / window.innerHeight;
+
+  // Draw each player's view into their own strip of the one canvas. The sun
+  // is moved over each tank in turn so both get shadows.
+  const renderViews = () => {
+    const renderer = rendererRef.current;
+    const scene = sceneRef.current;
+    const cameras = camerasRef.current;
+    if (!renderer || !scene) return;
+
+    const width = window.innerWidth / Math.max(1, cameras.length);
+    const height = window.innerHeight;
+    renderer.setScissorTest(cameras.length > 1);
+
+    cameras.forEach((camera, player) => {
+      const car = carsRef.current[player];
+      if (car && sunRef.current) {
+        sunRef.current.position.copy(car.position).add(new THREE.Vector3(5, 10, 5));
+        sunRef.current.target.position.copy(car.position);
+      }
+      faceHealthBars(camera);
+
+      renderer.setViewport(player * width, 0, width, height);
+      renderer.setScissor(player * width, 0, width, height);
+      renderer.render(scene, camera);
+    });
+  };
+
+  // Predicted arc of a player's main weapon and a ring where it meets the
+  // ground. Each guide is on its player's layer so only their camera sees it.
+  const createAimGuide = (player: number) => {
+    if (!sceneRef.current) return;
+
+    const arcGeometry = new THREE.BufferGeometry();
+    arcGeometry.setAttribute(
+      "position",
+      new THREE.BufferAttribute(new Float32Array(AIM_ARC_POINTS * 3), 3)
+    );
+    const arc = new THREE.Line(
+      arcGeometry,
+      new THREE.LineBasicMaterial({ color: 0xffd700, transparent: true, opacity: 0.6 })
+    );
+    arc.frustumCulled = false;
+    arc.layers.set(player + 1);
+    sceneRef.current.add(arc);
+
+    const marker = new THREE.Mesh(
+      new THREE.RingGeometry(0.6, 0.9, 24),
+      new THREE.MeshBasicMaterial({ color: 0xffd700, side: THREE.DoubleSide })
+    );
+    marker.rotation.x = -Math.PI / 2;
+    marker.layers.set(player + 1);
+    sceneRef.current.add(marker);
+
+    aimGuidesRef.current[player] = { arc, marker };
+  };
+
+  // Trace each main weapon's path from the barrel as it is aimed right now
+  const updateAimGuides = () => {
+    aimGuidesRef.current.forEach(({ arc, marker }, player) => {
+      const { points, impact } = predictTrajectory(simulationRef.current, player);
+      const positions = arc.geometry.attributes.position as THREE.BufferAttribute;
+      const count = Math.min(points.length, AIM_ARC_POINTS);
+
+      for (let i = 0; i < count; i++) {
+        positions.setXYZ(i, points[i].x, points[i].y, points[i].z);
+      }
+      positions.needsUpdate = true;
+      arc.geometry.setDrawRange(0, count);
+
+      marker.visible = impact !== null;
+      if (impact) {
+        marker.position.set(impact.x, impact.y + 0.1, impact.z);
+      }
+    });
+  };
+
+  // Download everything recorded so far as a JSON replay file
+  const handleExportReplay = (event: React.MouseEvent<HTMLButtonElement>) => {
+    // Drop focus so the space bar keeps firing instead of clicking again
+    event.currentTarget.blur();
+
+    const replay = recorderRef.current.toReplay();
+    const blob = new Blob([JSON.stringify(replay)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `tank-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Load a replay file and restart in viewer mode
+  const handleLoadReplay = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    event.target.blur();
+    if (!file) return;
+
+    file
+      .text()
+      .then(parseReplay)
+      .then((replay) => {
+        setReplayError(null);
+        setSession({ seed: replay.seed, initialCars: replay.initialCars, replay });
+      })
+      .catch((error: Error) => setReplayError(error.message));
+  };
+
+  // Leave viewer mode and start a new live session
+  const handleExitReplay = (event: React.MouseEvent<HTMLButtonElement>) => {
+    event.currentTarget.blur();
+    setSession(createLiveSession());
+  };
+
+  // Start a live session on a freshly generated map
+  const handleNewMap = (event: React.MouseEvent<HTMLButtonElement>) => {
+    event.currentTarget.blur();
+    setSession(createLiveSession(randomSeed(), players));
+  };
+
+  // Switch between one tank and two-player split screen on the same map
+  const handleToggleSplitScreen = (event: React.MouseEvent<HTMLButtonElement>) => {
+    event.currentTarget.blur();
+    setSession(createLiveSession(session.seed, splitScreen ? 1 : 2));
+  };
+
+  // Play the same split-screen match again from the start
+  const handleRematch = (event: React.MouseEvent<HTMLButtonElement>) => {
+    event.currentTarget.blur();
+    setSession(createLiveSession(session.seed, players));
+  };
+
+  // Copy a link that opens the current map
+  const handleCopyMapLink = (event: React.MouseEvent<HTMLButtonElement>) => {
+    event.currentTarget.blur();
+
+    const url = new URL(window.location.href);
+    url.searchParams.set("seed", String(session.seed));
+    navigator.clipboard?.writeText(url.toString());
+  };
+
+  // Push a message onto the kill feed and expire it after a while
+  const addKillFeedEntry = (message: string) => {
+    const id = ++killFeedIdRef.current;
+    setKillFeed((prev) => [...prev, { id, message }].slice(-5));
+
+    setTimeout(() => {
+      setKillFeed((prev) => prev.filter((entry) => entry.id !== id));
+    }, KILL_FEED_DURATION);
+  };
+
+  // Create a destructible target mesh with a floating health bar
+  const createTargetMesh = (type: TargetType): TargetMesh => {
+    const target = new THREE.Group();
+
+    if (type === "turret") {
+      // Armoured base
+      const base = new THREE.Mesh(
+        new THREE.CylinderGeometry(1.2, 1.5, 1.2, 8),
+        new THREE.MeshStandardMaterial({ color: 0x5a1a1a })
+      );
+      base.position.y = 0.6;
+      base.castShadow = true;
+      target.add(base);
+
+      // Rotating head with barrel
+      const head = new THREE.Group();
+      head.name = "head";
+      head.position.y = 1.6;
+
+      const dome = new THREE.Mesh(
+        new THREE.SphereGeometry(0.9, 12, 8),
+        new THREE.MeshStandardMaterial({ color: 0x7a2222 })
+      );
+      dome.castShadow = true;
+      head.add(dome);
+
+      const barrel = new THREE.Mesh(
+        new THREE.CylinderGeometry(0.2, 0.2, 2, 8),
+        new THREE.MeshStandardMaterial({ color: 0x222222 })
+      );
+      barrel.rotation.x = Math.PI / 2;
+      barrel.position.z = 1.2;
+      head.add(barrel);
+
+      target.add(head);
+    } else {
+      // Boxy armoured transport
+      const hull = new THREE.Mesh(
+        new THREE.BoxGeometry(2.5, 1.4, 4),
+        new THREE.MeshStandardMaterial({ color: 0x4b2a5a })
+      );
+      hull.position.y = 1;
+      hull.castShadow = true;
+      target.add(hull);
+
+      const hatch = new THREE.Mesh(
+        new THREE.BoxGeometry(1.4, 0.5, 1.6),
+        new THREE.MeshStandardMaterial({ color: 0x3a1f45 })
+      );
+      hatch.position.set(0, 1.95, -0.4);
+      hatch.castShadow = true;
+      target.add(hatch);
+
+      // Tracks
+      const trackMaterial = new THREE.MeshStandardMaterial({ color: 0x222222 });
+      for (const x of [-1.35, 1.35]) {
+        const track = new THREE.Mesh(new THREE.BoxGeometry(0.4, 0.8, 4.2), trackMaterial);
+        track.position.set(x, 0.4, 0);
+        target.add(track);
+      }
+    }
+
+    // Health bar (background + fill), billboarded towards the camera each frame
+    const barGroup = new THREE.Group();
+    barGroup.name = "healthBar";
+    barGroup.position.y = 3.2;
+
+    const barBackground = new THREE.Mesh(
+      new THREE.PlaneGeometry(2, 0.25),
+      new THREE.MeshBasicMaterial({ color: 0x550000, side: THREE.DoubleSide })
+    );
+    barGroup.add(barBackground);
+
+    const barFill = new THREE.Mesh(
+      new THREE.PlaneGeometry(2, 0.25),
+      new THREE.MeshBasicMaterial({ color: 0x33ff33, side: THREE.DoubleSide })
+    );
+    barFill.position.z = 0.01;
+    barGroup.add(barFill);
+
+    target.add(barGroup);
+
+    return { mesh: target, healthBar: barFill };
+  };
+
+  // Build meshes for every target in the simulation
+  const createTargetMeshes = () => {
+    if (!sceneRef.current) return;
+
+    simulationRef.current.targets.forEach((target) => {
+      const targetMesh = createTargetMesh(target.type);
+      targetMesh.mesh.position.set(target.position.x, target.position.y, target.position.z);
+      targetMesh.mesh.rotation.y = target.rotation;
+
+      sceneRef.current?.add(targetMesh.mesh);
+      targetMeshesRef.current.set(target.id, targetMesh);
+    });
+  };
+
+  // Create explosion effect; size scales the blast for splash weapons
+  const createExplosion = (position: THREE.Vector3, size = 1) => {
+    if (!sceneRef.current) return;
+
+    audioRef.current?.play(explosionSound(size), position);
+    
+    // Create explosion mesh
+    const explosionGeometry = new THREE.SphereGeometry(2, 16, 16);
+    const explosionMaterial = new THREE.MeshStandardMaterial({
+      color: 0xff5500,
+      emissive: 0xff8800,
+      emissiveIntensity: 1,
+      transparent: true,
+      opacity: 0.8
+    });
+    
+    const explosion = new THREE.Mesh(explosionGeometry, explosionMaterial);
+    explosion.position.copy(position);
+
+    // Keep the explosion slightly above the ground
+    const groundHeight = terrainHeight(simulationRef.current.seed, position.x, position.z);
+    explosion.position.y = Math.max(position.y, groundHeight + 0.5);
+    
+    sceneRef.current.add(explosion);
+    
+    // Animate explosion
+    let scale = 0.1;
+    let opacity = 1;
+    
+    const animateExplosion = () => {
+      if (scale >= 1.5) {
+        sceneRef.current?.remove(explosion);
+        return;
+      }
+      
+      scale += 0.1;
+      opacity -= 0.05;
+      
+      explosion.scale.setScalar(scale * size);
+      explosionMaterial.opacity = Math.max(0, opacity);
+      
+      requestAnimationFrame(animateExplosion);
+    };
+    
+    animateExplosion();
+  };
+
+  // Add lights to the scene
+  const addLights = () => {
+    if (!sceneRef.current) return;
+
+    // Directional light (sun)
+    const directionalLight = new THREE.DirectionalLight(0xffffff, 1);
+    directionalLight.position.set(5, 10, 5);
+    directionalLight.castShadow = true;
+    directionalLight.shadow.mapSize.width = 1024;
+    directionalLight.shadow.mapSize.height = 1024;
+    directionalLight.shadow.camera.near = 0.5;
+    directionalLight.shadow.camera.far = 50;
+    directionalLight.shadow.camera.left = -20;
+    directionalLight.shadow.camera.right = 20;
+    directionalLight.shadow.camera.top = 20;
+    directionalLight.shadow.camera.bottom = -20;
+    sceneRef.current.add(directionalLight);
+    sceneRef.current.add(directionalLight.target);
+    sunRef.current = directionalLight;
+
+    // Ambient light
+    const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
+    sceneRef.current.add(ambientLight);
+  };
+
+  // Shared materials and geometry for world chunks
+  const getWorldAssets = () => {
+    if (!worldAssetsRef.current) {
+      worldAssetsRef.current = {
+        groundMaterial: new THREE.MeshStandardMaterial({
+          color: 0x1e8449,
+          roughness: 0.8,
+          metalness: 0.2,
+        }),
+        roadMaterial: new THREE.MeshStandardMaterial({
+          color: 0x333333,
+          roughness: 0.5,
+          metalness: 0.3,
+          side: THREE.DoubleSide,
+        }),
+        markingMaterial: new THREE.MeshStandardMaterial({ color: 0xffffff }),
+        markingGeometry: new THREE.PlaneGeometry(0.5, 2),
+        treeGeometry: new THREE.ConeGeometry(1, 4, 6),
+        treeMaterial: new THREE.MeshStandardMaterial({ color: 0x228b22 }),
+        trunkGeometry: new THREE.CylinderGeometry(0.2, 0.2, 1, 8),
+        trunkMaterial: new THREE.MeshStandardMaterial({ color: 0x8b4513 }),
+        rockGeometry: new THREE.DodecahedronGeometry(0.8, 0),
+        rockMaterial: new THREE.MeshStandardMaterial({ color: 0x777777, roughness: 0.9 }),
+      };
+    }
+    return worldAssetsRef.current;
+  };
+
+  // Build the meshes for one world chunk: terrain, road and props
+  const createChunkMesh = (chunk: ChunkData) => {
+    const assets = getWorldAssets();
+    const group = new THREE.Group();
+
+    // Terrain heightfield
+    const groundGeometry = new THREE.PlaneGeometry(
+      CHUNK_SIZE,
+      CHUNK_SIZE,
+      CHUNK_RESOLUTION,
+      CHUNK_RESOLUTION
+    );
+    groundGeometry.rotateX(-Math.PI / 2);
+
+    // After rotating, vertices run row by row from -z to +z, matching the height samples
+    const positions = groundGeometry.attributes.position;
+    for (let i = 0; i < positions.count; i++) {
+      positions.setY(i, chunk.heights[i]);
+    }
+    groundGeometry.computeVertexNormals();
+
+    const ground = new THREE.Mesh(groundGeometry, assets.groundMaterial);
+    ground.position.set(chunk.originX + CHUNK_SIZE / 2, 0, chunk.originZ + CHUNK_SIZE / 2);
+    ground.userData.ownsGeometry = true;
+    ground.receiveShadow = true;
+    group.add(ground);
+
+    // Road ribbon along the spline
+    if (chunk.road.length > 1) {
+      const vertices: number[] = [];
+      const indices: number[] = [];
+
+      chunk.road.forEach(({ center, side }, i) => {
+        vertices.push(
+          center.x - side.x * ROAD_HALF_WIDTH, 0.01, center.z - side.z * ROAD_HALF_WIDTH,
+          center.x + side.x * ROAD_HALF_WIDTH, 0.01, center.z + side.z * ROAD_HALF_WIDTH
+        );
+
+        if (i > 0) {
+          const a = (i - 1) * 2;
+          indices.push(a, a + 2, a + 1, a + 1, a + 2, a + 3);
+        }
+      });
+
+      const roadGeometry = new THREE.BufferGeometry();
+      roadGeometry.setAttribute("position", new THREE.Float32BufferAttribute(vertices, 3));
+      roadGeometry.setIndex(indices);
+      roadGeometry.computeVertexNormals();
+
+      const road = new THREE.Mesh(roadGeometry, assets.roadMaterial);
+      road.userData.ownsGeometry = true;
+      road.receiveShadow = true;
+      group.add(road);
+
+      // Add road markings every 10 units along the centreline
+      chunk.road.forEach(({ center, side }, i) => {
+        if (i % 5 !== 0) return;
+
+        const marking = new THREE.Mesh(assets.markingGeometry, assets.markingMaterial);
+        marking.rotation.x = -Math.PI / 2;
+        marking.rotation.z = Math.atan2(side.z, side.x);
+        marking.position.set(center.x, 0.02, center.z);
+        marking.receiveShadow = true;
+        group.add(marking);
+      });
+    }
+
+    // Trees and rocks
+    chunk.props.forEach((prop) => {
+      const object = new THREE.Group();
+
+      if (prop.type === "tree") {
+        // Create trunk
+        const trunk = new THREE.Mesh(assets.trunkGeometry, assets.trunkMaterial);
+        trunk.position.y = 0.5;
+        trunk.castShadow = true;
+        object.add(trunk);
+
+        // Create foliage
+        const foliage = new THREE.Mesh(assets.treeGeometry, assets.treeMaterial);
+        foliage.position.y = 3;
+        foliage.castShadow = true;
+        object.add(foliage);
+      } else {
+        const rock = new THREE.Mesh(assets.rockGeometry, assets.rockMaterial);
+        rock.position.y = 0.3;
+        rock.castShadow = true;
+        object.add(rock);
+      }
+
+      object.position.set(prop.position.x, prop.position.y, prop.position.z);
+      object.rotation.y = prop.rotation;
+      object.scale.setScalar(prop.scale);
+      group.add(object);
+    });
+
+    return group;
+  };
+
+  // Stream chunks in and out around the tanks
+  const updateWorldChunks = (positions: THREE.Vector3[]) => {
+    if (!sceneRef.current) return;
+
+    const seed = simulationRef.current.seed;
+    const chunks = chunkMeshesRef.current;
+    const wanted = positions.flatMap((position) =>
+      chunksAround(position.x, position.z)
+    );
+    const wantedKeys = new Set(wanted.map((chunk) => chunk.key));
+
+    // Unload chunks that fell out of range
+    chunks.forEach((group, key) => {
+      if (wantedKeys.has(key)) return;
+
+      sceneRef.current?.remove(group);
+      group.traverse((object) => {
+        // Props share geometry from the world assets; only dispose what the chunk built
+        if (object instanceof THREE.Mesh && object.userData.ownsGeometry) {
+          object.geometry.dispose();
+        }
+      });
+      chunks.delete(key);
+    });
+
+    // Load chunks that came into range
+    wanted.forEach(({ cx, cz, key }) => {
+      if (chunks.has(key)) return;
+
+      const group = createChunkMesh(generateChunk(seed, cx, cz));
+      sceneRef.current?.add(group);
+      chunks.set(key, group);
+    });
+  };
+
+  // Create a Warhammer-inspired flying tank model in the player's colours
+  const createCar = (player: number, data: CarData) => {
+    if (!sceneRef.current) return;
+
+    const car = new THREE.Group();
+    const colors = TANK_COLORS[player % TANK_COLORS.length];
+
+    // Tank body - heavier and more angular than a car
+    const bodyGeometry = new THREE.BoxGeometry(3, 1.2, 5);
+    const bodyMaterial = new THREE.MeshStandardMaterial({ color: colors.hull });
+    const body = new THREE.Mesh(bodyGeometry, bodyMaterial);
+    body.position.y = 1.0; // Hovering above ground
+    body.castShadow = true;
+    car.add(body);
+
+    // Tank turret, turned by syncScene around the pivot the simulation
+    // fires the main weapon from
+    const turret = new THREE.Group();
+    turret.name = "turret";
+    turret.position.set(
+      HARDPOINT_OFFSETS.main.x,
+      HARDPOINT_OFFSETS.main.y,
+      HARDPOINT_OFFSETS.main.z
+    );
+    car.add(turret);
+
+    const turretGeometry = new THREE.CylinderGeometry(1.2, 1.5, 1, 8);
+    const turretMaterial = new THREE.MeshStandardMaterial({ color: colors.turret });
+    const turretBody = new THREE.Mesh(turretGeometry, turretMaterial);
+    turretBody.castShadow = true;
+    turret.add(turretBody);
+
+    // Main cannon, elevated around the turret pivot; its tip is the muzzle
+    const barrel = new THREE.Group();
+    barrel.name = "barrel";
+    turret.add(barrel);
+
+    const cannonGeometry = new THREE.CylinderGeometry(0.3, 0.3, 4, 16);
+    const cannonMaterial = new THREE.MeshStandardMaterial({ color: 0x333333 });
+    const cannon = new THREE.Mesh(cannonGeometry, cannonMaterial);
+    cannon.position.z = MAIN_BARREL_LENGTH - 2;
+    cannon.rotation.x = Math.PI / 2;
+    cannon.castShadow = true;
+    barrel.add(cannon);
+
+    // Armor plates
+    const frontArmorGeometry = new THREE.BoxGeometry(3.2, 1, 0.5);
+    const armorMaterial = new THREE.MeshStandardMaterial({ color: colors.armor });
+    const frontArmor = new THREE.Mesh(frontArmorGeometry, armorMaterial);
+    frontArmor.position.set(0, 1, 2.7);
+    frontArmor.castShadow = true;
+    car.add(frontArmor);
+
+    // Side armor plates
+    const sideArmorGeometry = new THREE.BoxGeometry(0.5, 0.8, 5.2);
+    
+    const leftArmor = new THREE.Mesh(sideArmorGeometry, armorMaterial);
+    leftArmor.position.set(-1.7, 1, 0);
+    leftArmor.castShadow = true;
+    car.add(leftArmor);
+    
+    const rightArmor = new THREE.Mesh(sideArmorGeometry, armorMaterial);
+    rightArmor.position.set(1.7, 1, 0);
+    rightArmor.castShadow = true;
+    car.add(rightArmor);
+
+    // Hover engines (replacing wheels)
+    const engineGeometry = new THREE.CylinderGeometry(0.5, 0.5, 0.3, 16);
+    const engineMaterial = new THREE.MeshStandardMaterial({ color: 0x444444 });
+    const glowMaterial = new THREE.MeshStandardMaterial({
+      color: 0x00aaff,
+      emissive: 0x0088ff,
+      emissiveIntensity: 1.0,
+    });
+
+    // Create four hover engines
+    for (const x of [-1.3, 1.3]) {
+      for (const z of [-2, 2]) {
+        const engine = new THREE.Mesh(engineGeometry, engineMaterial);
+        engine.position.set(x, 0.5, z);
+        engine.rotation.x = Math.PI / 2;
+        car.add(engine);
+        
+        // Add glow effect under each engine
+        const glowGeometry = new THREE.CylinderGeometry(0.4, 0.1, 0.5, 16);
+        const glow = new THREE.Mesh(glowGeometry, glowMaterial);
+        glow.position.set(0, -0.3, 0);
+        engine.add(glow);
+      }
+    }
+
+    // Add imperial insignia
+    const insigniaGeometry = new THREE.BoxGeometry(1.5, 0.1, 1.5);
+    const insigniaMaterial = new THREE.MeshStandardMaterial({ 
+      color: 0xd4af37,
+      emissive: 0xd4af37,
+      emissiveIntensity: 0.3
+    });
+    const insignia = new THREE.Mesh(insigniaGeometry, insigniaMaterial);
+    insignia.position.set(0, 1.9, 0);
+    car.add(insignia);
+
+    // Add weapon systems
+    const weaponGeometry = new THREE.BoxGeometry(0.4, 0.4, 0.8);
+    const weaponMaterial = new THREE.MeshStandardMaterial({ color: 0x222222 });
+    
+    // Left weapon
+    const leftWeapon = new THREE.Mesh(weaponGeometry, weaponMaterial);
+    leftWeapon.position.set(-1.5, 1.5, 1.5);
+    car.add(leftWeapon);
+    
+    // Right weapon
+    const rightWeapon = new THREE.Mesh(weaponGeometry, weaponMaterial);
+    rightWeapon.position.set(1.5, 1.5, 1.5);
+    car.add(rightWeapon);
+
+    // Add to scene
+    sceneRef.current.add(car);
+    carsRef.current[player] = car;
+
+    // Set starting position - hovering above ground
+    car.position.set(data.position.x, data.position.y, data.position.z);
+    car.rotation.y = data.rotation;
+  };
+
+  // Chase camera for a player, starting right behind their tank. It also
+  // sees the player's own layer, where their aim guide is drawn.
+  const createCamera = (player: number) => {
+    const car = carsRef.current[player];
+    if (!car) return;
+
+    const camera = new THREE.PerspectiveCamera(75, viewAspect(), 0.1, 1000);
+    camera.position.copy(CAMERA_OFFSET).applyQuaternion(car.quaternion).add(car.position);
+    camera.lookAt(car.position);
+    camera.layers.enable(player + 1);
+    camerasRef.current[player] = camera;
+  };
+  // Touch controls: the stick drives, swipes on empty screen aim the turret
+  const handleDriveStick = (x: number, y: number) => {
+    const input = inputsRef.current[0];
+    if (input) {
+      holdStick(
+        input,
+        { left: "left", right: "right", up: "forward", down: "backward" },
+        x,
+        y
+      );
+    }
+  };
+
+  const handleAimSwipe = (dx: number, dy: number) => {
+    pointerRef.current = null;
+    if (crosshairRef.current) crosshairRef.current.style.display = "none";
+
+    const aim = aimsRef.current[0];
+    aim.yaw = angleDifference(0, aim.yaw - dx * SWIPE_AIM_SPEED);
+    aim.pitch = Math.max(
+      MIN_BARREL_PITCH,
+      Math.min(MAX_BARREL_PITCH, aim.pitch - dy * SWIPE_AIM_SPEED)
+    );
+  };
+
+  const handleTouchPress = (action: TankAction) => {
+    inputsRef.current[0]?.press(action);
+  };
+
+  const handleTouchRelease = (action: TankAction) => {
+    inputsRef.current[0]?.release(action);
+  };
+
+  // Switch a player's main weapon from their HUD
+  const handleSelectWeapon = (player: number, slot: number) => {
+    pendingWeaponSlotsRef.current[player] = slot;
+  };
+
+  // The scene above is only set up once per session, so it reaches these
+  // through a ref that always holds the latest render's versions
+  const latestCallbacks = {
+    createCamera,
+    createTargetMeshes,
+    renderViews,
+    stepGame,
+    syncScene,
+    updateAim,
+    updateWorldChunks,
+  };
+  const callbacksRef = useRef(latestCallbacks);
+  callbacksRef.current = latestCallbacks;
+
+  return (
+    <div className={styles["game-container"]}>
+      <div ref={canvasRef} className={styles["game-canvas"]}></div>
+      {splitScreen && <div className={styles["split-divider"]}></div>}
+      <div ref={crosshairRef} className={styles.crosshair}></div>
+      <div className={styles["replay-panel"]}>
+        <span className={styles["replay-status"]}>Map seed: {session.seed}</span>
+        {session.replay ? (
+          <>
+            <span className={styles["replay-status"]}>
+              {replayFinished ? "Replay finished" : "Watching replay"}
+            </span>
+            <button className={styles["replay-button"]} onClick={handleExitReplay}>
+              Exit Replay
+            </button>
+          </>
+        ) : (
+          <>
+            <button className={styles["replay-button"]} onClick={handleExportReplay}>
+              Export Replay
+            </button>
+            <button className={styles["replay-button"]} onClick={handleNewMap}>
+              New Map
+            </button>
+            <button className={styles["replay-button"]} onClick={handleCopyMapLink}>
+              Copy Map Link
+            </button>
+            <button className={styles["replay-button"]} onClick={handleToggleSplitScreen}>
+              {splitScreen ? "Single Player" : "Split Screen"}
+            </button>
+          </>
+        )}
+        <label className={styles["replay-button"]}>
+          Load Replay
+          <input
+            type="file"
+            accept="application/json,.json"
+            className={styles["replay-input"]}
+            onChange={handleLoadReplay}
+          />
+        </label>
+        {replayError && <span className={styles["replay-error"]}>{replayError}</span>}
+      </div>
+      <div className={styles.hud}>
+        {!splitScreen && <div className={styles.score}>Score: {score}</div>}
+        <div className={styles["kill-feed"]}>
+          {killFeed.map((entry) => (
+            <div key={entry.id} className={styles["kill-feed-entry"]}>
+              {entry.message}
+            </div>
+          ))}
+        </div>
+      </div>
+      {huds.map((hud, player) => (
+        <TankHud
+          key={player}
+          hud={hud}
+          seed={session.seed}
+          replay={!!session.replay}
+          bindings={splitScreen ? versusBindings[player] : tankBindings}
+          side={player === 0 ? "left" : "right"}
+          onSelectWeapon={(slot) => handleSelectWeapon(player, slot)}
+        />
+      ))}
+      {matchResult && (
+        <div className={styles["match-result"]}>
+          <span>{matchResult}</span>
+          {!session.replay && (
+            <button className={styles["replay-button"]} onClick={handleRematch}>
+              Rematch
+            </button>
+          )}
+        </div>
+      )}
+      {splitScreen ? (
+        <div className={styles.controls}>
+          <TankControlsHelp bindings={versusBindings[0]} player="Player 1 (left)" />
+          <TankControlsHelp bindings={versusBindings[1]} player="Player 2 (right)" />
+          <p>A second gamepad drives player 2. Last tank standing wins</p>
+        </div>
+      ) : touchDevice ? (
+        !session.replay && (
+          <TankTouchControls
+            hud={huds[0]}
+            onDriveStick={handleDriveStick}
+            onAimSwipe={handleAimSwipe}
+            onPress={handleTouchPress}
+            onRelease={handleTouchRelease}
+            onSelectWeapon={(slot) => handleSelectWeapon(0, slot)}
+          />
+        )
+      ) : (
+        <div className={styles.controls}>
+          <TankControlsHelp bindings={tankBindings} />
+          <p>Mouse - Aim Turret</p>
+          <p>Destroy the turrets and patrolling vehicles</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CarGame;
@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { TargetType } from "../lib/simulation";
+import {
+  ChunkProp,
+  ROAD_HALF_WIDTH,
+  chunksAround,
+  generateChunk,
+  roadCenterX,
+} from "../lib/world";
+
+const MAP_WIDTH = 240;
+const MAP_HEIGHT = 160;
+const MAP_SCALE = 1.5; // Pixels per world unit
+
+const TARGET_COLORS: Record<TargetType, string> = {
+  turret: "#ff4444",
+  vehicle: "#cc66ff",
+};
+
+const OPPONENT_COLOR = "#ff9900";
+
+interface MinimapProps {
+  seed: number;
+  car: { x: number; z: number; rotation: number; turretYaw: number };
+  opponents: { x: number; z: number }[];
+  targets: { id: string; type: TargetType; x: number; z: number }[];
+}
+
+// Top-down map around the tank, turned so the tank always faces up
+export function Minimap({ seed, car, opponents, targets }: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Props of the chunks around the tank, generated once per chunk
+  const propsRef = useRef(new Map<string, ChunkProp[]>());
+
+  // Forget cached props when the map changes
+  useEffect(() => {
+    propsRef.current.clear();
+  }, [seed]);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+
+    const sin = Math.sin(car.rotation);
+    const cos = Math.cos(car.rotation);
+
+    // World position to map pixels. The camera looks down +z from behind
+    // the tank, so world +x is on the left.
+    const toMap = (x: number, z: number) => {
+      const dx = x - car.x;
+      const dz = z - car.z;
+      const side = dx * cos - dz * sin;
+      const ahead = dx * sin + dz * cos;
+      return {
+        x: MAP_WIDTH / 2 - side * MAP_SCALE,
+        y: MAP_HEIGHT / 2 - ahead * MAP_SCALE,
+      };
+    };
+
+    context.fillStyle = "#16301c";
+    context.fillRect(0, 0, MAP_WIDTH, MAP_HEIGHT);
+
+    // Road centreline sampled along z, wide enough to cover the map at any
+    // heading
+    const reach = Math.hypot(MAP_WIDTH, MAP_HEIGHT) / 2 / MAP_SCALE;
+    context.strokeStyle = "#555555";
+    context.lineWidth = ROAD_HALF_WIDTH * 2 * MAP_SCALE;
+    context.beginPath();
+    for (let z = car.z - reach; z <= car.z + reach; z += 2) {
+      const point = toMap(roadCenterX(seed, z), z);
+      context.lineTo(point.x, point.y);
+    }
+    context.stroke();
+
+    // Trees and rocks from the chunks in view
+    const cache = propsRef.current;
+    const wanted = chunksAround(car.x, car.z, 1);
+    const wantedKeys = new Set(wanted.map((chunk) => chunk.key));
+
+    cache.forEach((_, key) => {
+      if (!wantedKeys.has(key)) cache.delete(key);
+    });
+
+    wanted.forEach(({ cx, cz, key }) => {
+      let props = cache.get(key);
+      if (!props) {
+        props = generateChunk(seed, cx, cz).props;
+        cache.set(key, props);
+      }
+
+      props.forEach((prop) => {
+        const point = toMap(prop.position.x, prop.position.z);
+        context.fillStyle = prop.type === "tree" ? "#2e8b3e" : "#888888";
+        context.fillRect(point.x - 1.5, point.y - 1.5, 3, 3);
+      });
+    });
+
+    // Targets
+    targets.forEach((target) => {
+      const point = toMap(target.x, target.z);
+      context.fillStyle = TARGET_COLORS[target.type];
+      context.beginPath();
+      context.arc(point.x, point.y, 4, 0, Math.PI * 2);
+      context.fill();
+    });
+
+    // Enemy tanks in split screen
+    opponents.forEach((opponent) => {
+      const point = toMap(opponent.x, opponent.z);
+      context.fillStyle = OPPONENT_COLOR;
+      context.fillRect(point.x - 4, point.y - 4, 8, 8);
+    });
+
+    // The tank, with a line along the turret
+    const center = { x: MAP_WIDTH / 2, y: MAP_HEIGHT / 2 };
+    context.strokeStyle = "#ffd700";
+    context.lineWidth = 2;
+    context.beginPath();
+    context.moveTo(center.x, center.y);
+    context.lineTo(
+      center.x - Math.sin(car.turretYaw) * 14,
+      center.y - Math.cos(car.turretYaw) * 14
+    );
+    context.stroke();
+
+    context.fillStyle = "#00aaff";
+    context.beginPath();
+    context.moveTo(center.x, center.y - 7);
+    context.lineTo(center.x - 5, center.y + 5);
+    context.lineTo(center.x + 5, center.y + 5);
+    context.closePath();
+    context.fill();
+  }, [seed, car, opponents, targets]);
+
+  return <canvas ref={canvasRef} width={MAP_WIDTH} height={MAP_HEIGHT} />;
+}
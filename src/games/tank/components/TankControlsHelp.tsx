@@ -0,0 +1,59 @@
+"use client";
+
+import { describeBinding } from "@/lib/input";
+import { BindingsStore } from "@/store/bindingsStore";
+import { useBindings } from "@/hooks/useBindings";
+import { TankAction, WEAPON_ACTIONS } from "../lib/input";
+
+interface TankControlsHelpProps {
+  // Bindings the player drives with
+  bindings: BindingsStore<TankAction>;
+  // Who the keys belong to in split screen, e.g. "Player 1 (left)"
+  player?: string;
+}
+
+// Keyboard help for one player, read from their current bindings so it stays
+// right after they rebind
+export function TankControlsHelp({ bindings, player }: TankControlsHelpProps) {
+  const currentBindings = useBindings(bindings);
+
+  // First key bound to an action, or null if it's only on a mouse or pad
+  const keyName = (action: TankAction) => {
+    const binding = currentBindings[action].find(({ type }) => type === "key");
+    return binding ? describeBinding(binding) : null;
+  };
+  const keyNames = (actions: TankAction[], separator: string) => {
+    const names = actions.map(keyName);
+    return names.every((name) => name !== null) ? names.join(separator) : null;
+  };
+
+  const drive = keyNames(["forward", "left", "backward", "right"], ", ");
+  const shoot = keyName("shoot");
+  const sideGuns = keyNames(["shootLeft", "shootRight"], "/");
+  const turret = keyNames(["aimLeft", "aimRight"], "/");
+  const barrel = keyNames(["aimUp", "aimDown"], "/");
+  const weapons = keyNames(WEAPON_ACTIONS, "/");
+
+  const movement = [
+    drive && `${drive} to drive`,
+    shoot && `${shoot} to fire`,
+    sideGuns && `${sideGuns} side guns`,
+  ].filter(Boolean);
+  const aiming = [
+    turret && `${turret} turn turret`,
+    barrel && `${barrel} raise/lower barrel`,
+    weapons && `${weapons} switch weapon`,
+  ].filter(Boolean);
+
+  return (
+    <>
+      {movement.length > 0 && (
+        <p>
+          {player && `${player}: `}
+          {movement.join(", ")}
+        </p>
+      )}
+      {aiming.length > 0 && <p>{aiming.join(", ")}</p>}
+    </>
+  );
+}
@@ -0,0 +1,255 @@
+"use client";
+
+import styles from "./TankHud.module.css";
+import { Minimap } from "./Minimap";
+import { describeBinding } from "@/lib/input";
+import { BindingsStore } from "@/store/bindingsStore";
+import { useBindings } from "@/hooks/useBindings";
+import { TankAction, WEAPON_ACTIONS } from "../lib/input";
+import {
+  SimulationState,
+  TICK_RATE,
+  TargetType,
+  tickToTime,
+} from "../lib/simulation";
+import { HardpointId, MAIN_WEAPONS, WEAPONS, WeaponId } from "../lib/weapons";
+
+const RELOAD_RADIUS = 20;
+const RELOAD_CIRCUMFERENCE = 2 * Math.PI * RELOAD_RADIUS;
+const SPEEDOMETER_RADIUS = 34;
+const SPEEDOMETER_LENGTH = Math.PI * SPEEDOMETER_RADIUS;
+
+interface HardpointHud {
+  weapon: WeaponId;
+  // 0 right after firing, 1 once reloaded
+  ready: number;
+}
+
+// Everything the HUD shows, copied out of the simulation a few times a second
+// so React renders at its own pace instead of every animation frame
+export interface HudSnapshot {
+  speed: number;
+  maxSpeed: number;
+  hull: number;
+  maxHull: number;
+  hardpoints: Record<HardpointId, HardpointHud>;
+  ammo: Partial<Record<WeaponId, number>>;
+  car: { x: number; z: number; rotation: number; turretYaw: number };
+  // The other players' tanks in split screen
+  opponents: { x: number; z: number }[];
+  targets: { id: string; type: TargetType; x: number; z: number }[];
+}
+
+export const readHudSnapshot = (
+  simulation: SimulationState,
+  player = 0
+): HudSnapshot => {
+  const car = simulation.cars[player];
+  const now = tickToTime(simulation.tick);
+
+  const hardpoint = (id: HardpointId): HardpointHud => {
+    const { weapon, readyAt } = car.hardpoints[id];
+    const { reloadTime } = WEAPONS[weapon];
+    return {
+      weapon,
+      ready:
+        reloadTime > 0
+          ? Math.min(1, Math.max(0, 1 - (readyAt - now) / reloadTime))
+          : 1,
+    };
+  };
+
+  return {
+    speed: car.speed,
+    maxSpeed: car.maxSpeed,
+    hull: car.hull,
+    maxHull: car.maxHull,
+    hardpoints: {
+      main: hardpoint("main"),
+      left: hardpoint("left"),
+      right: hardpoint("right"),
+    },
+    ammo: { ...car.ammo },
+    car: {
+      x: car.position.x,
+      z: car.position.z,
+      rotation: car.rotation,
+      turretYaw: car.turretYaw,
+    },
+    opponents: simulation.cars
+      .filter((_, index) => index !== player)
+      .map(({ position }) => ({ x: position.x, z: position.z })),
+    targets: simulation.targets
+      .filter((target) => target.active)
+      .map(({ id, type, position }) => ({ id, type, x: position.x, z: position.z })),
+  };
+};
+
+// Per-tick speed shown as km/h, taking a world unit as a metre
+const toKilometresPerHour = (speed: number) =>
+  Math.round(Math.abs(speed) * TICK_RATE * 3.6);
+
+const hullColor = (ratio: number) => {
+  if (ratio > 0.5) return "#4caf50";
+  if (ratio > 0.25) return "#ffeb3b";
+  return "#f44336";
+};
+
+interface TankHudProps {
+  hud: HudSnapshot;
+  seed: number;
+  // Weapons can't be switched from the HUD while watching a replay
+  replay: boolean;
+  // Bindings the player drives with, for the key hints
+  bindings: BindingsStore<TankAction>;
+  // The second split-screen player's HUD sits in the right half
+  side?: "left" | "right";
+  onSelectWeapon: (slot: number) => void;
+}
+
+export function TankHud({
+  hud,
+  seed,
+  replay,
+  bindings,
+  side = "left",
+  onSelectWeapon,
+}: TankHudProps) {
+  const currentBindings = useBindings(bindings);
+  const main = hud.hardpoints.main;
+  const mainWeapon = WEAPONS[main.weapon];
+  const speedRatio = Math.min(1, Math.abs(hud.speed) / hud.maxSpeed);
+  const hullRatio = hud.hull / hud.maxHull;
+
+  // Rounds left, or infinity for weapons that never run dry
+  const formatAmmo = (weaponId: WeaponId) =>
+    WEAPONS[weaponId].ammo === null ? "∞" : hud.ammo[weaponId] ?? 0;
+
+  // First key bound to an action, falling back to whatever else it is bound to
+  const keyHint = (action: TankAction) => {
+    const actionBindings = currentBindings[action];
+    const binding =
+      actionBindings.find(({ type }) => type === "key") ?? actionBindings[0];
+    return binding ? describeBinding(binding) : "";
+  };
+
+  return (
+    <div
+      className={`${styles["tank-hud"]} ${
+        side === "right" ? styles["tank-hud-right"] : ""
+      }`}
+    >
+      <Minimap
+        seed={seed}
+        car={hud.car}
+        opponents={hud.opponents}
+        targets={hud.targets}
+      />
+
+      <div className={styles.gauges}>
+        {/* Speedometer: a half dial that fills toward max speed */}
+        <div className={styles.gauge}>
+          <svg width="80" height="46" viewBox="0 0 80 46">
+            <path
+              d="M 6 40 A 34 34 0 0 1 74 40"
+              className={styles["gauge-track"]}
+            />
+            <path
+              d="M 6 40 A 34 34 0 0 1 74 40"
+              className={styles["speed-fill"]}
+              strokeDasharray={SPEEDOMETER_LENGTH}
+              strokeDashoffset={SPEEDOMETER_LENGTH * (1 - speedRatio)}
+            />
+          </svg>
+          <span className={styles["gauge-value"]}>
+            {toKilometresPerHour(hud.speed)} km/h
+            {hud.speed < 0 && " R"}
+          </span>
+        </div>
+
+        {/* Main weapon reload: the ring fills as the weapon reloads */}
+        <div className={styles.gauge}>
+          <svg width="46" height="46" viewBox="0 0 46 46">
+            <circle cx="23" cy="23" r={RELOAD_RADIUS} className={styles["gauge-track"]} />
+            <circle
+              cx="23"
+              cy="23"
+              r={RELOAD_RADIUS}
+              className={styles["reload-fill"]}
+              strokeDasharray={RELOAD_CIRCUMFERENCE}
+              strokeDashoffset={RELOAD_CIRCUMFERENCE * (1 - main.ready)}
+              transform="rotate(-90 23 23)"
+            />
+          </svg>
+          <span className={styles["gauge-value"]}>
+            {main.ready >= 1 ? "Ready" : "Reloading"}
+          </span>
+        </div>
+
+        <div className={styles.gauge}>
+          <span className={styles["gauge-label"]}>{mainWeapon.name}</span>
+          <span className={styles["ammo-count"]}>{formatAmmo(main.weapon)}</span>
+        </div>
+      </div>
+
+      <div className={styles.hull}>
+        <div className={styles["hull-label"]}>
+          <span>{hud.hull > 0 ? "Hull integrity" : "Hull breached"}</span>
+          <span>
+            {hud.hull}/{hud.maxHull}
+          </span>
+        </div>
+        <div className={styles["hull-track"]}>
+          <div
+            className={styles["hull-fill"]}
+            style={{
+              width: `${hullRatio * 100}%`,
+              backgroundColor: hullColor(hullRatio),
+            }}
+          />
+        </div>
+      </div>
+
+      <div className={styles["weapon-list"]}>
+        {MAIN_WEAPONS.map((weaponId, index) => (
+          <button
+            key={weaponId}
+            className={`${styles["weapon-slot"]} ${
+              main.weapon === weaponId ? styles["weapon-slot-selected"] : ""
+            }`}
+            disabled={replay}
+            onClick={(event) => {
+              // Drop focus so the space bar keeps firing instead of clicking again
+              event.currentTarget.blur();
+              onSelectWeapon(index + 1);
+            }}
+          >
+            <span className={styles["weapon-key"]}>
+              {keyHint(WEAPON_ACTIONS[index])}
+            </span>
+            <span className={styles["weapon-name"]}>{WEAPONS[weaponId].name}</span>
+            <span className={styles["weapon-ammo"]}>{formatAmmo(weaponId)}</span>
+          </button>
+        ))}
+        {(["left", "right"] as const).map((side) => {
+          const { weapon, ready } = hud.hardpoints[side];
+          return (
+            <div key={side} className={styles["weapon-slot"]}>
+              <span className={styles["weapon-key"]}>
+                {keyHint(side === "left" ? "shootLeft" : "shootRight")}
+              </span>
+              <span className={styles["weapon-name"]}>
+                {WEAPONS[weapon].name} ({side})
+              </span>
+              <span className={styles["weapon-ammo"]}>{formatAmmo(weapon)}</span>
+              <span
+                className={styles["weapon-reload"]}
+                style={{ width: `${ready * 100}%` }}
+              />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+"use client";
+
+import styles from "./TankTouchControls.module.css";
+import { HudSnapshot } from "./TankHud";
+import { TankAction } from "../lib/input";
+import { HardpointId, MAIN_WEAPONS, WEAPONS } from "../lib/weapons";
+import { SwipeArea } from "@/components/touch/SwipeArea";
+import { TouchButton } from "@/components/touch/TouchButton";
+import { VirtualJoystick } from "@/components/touch/VirtualJoystick";
+
+interface TankTouchControlsProps {
+  hud: HudSnapshot;
+  onDriveStick: (x: number, y: number) => void;
+  onAimSwipe: (dx: number, dy: number) => void;
+  onPress: (action: TankAction) => void;
+  onRelease: (action: TankAction) => void;
+  onSelectWeapon: (slot: number) => void;
+}
+
+// Joystick for driving on the left, weapons on the right and swipes anywhere
+// else to aim. Buttons follow the tank's state: side guns disappear when
+// they run dry and everything but aiming goes once the hull is breached.
+export function TankTouchControls({
+  hud,
+  onDriveStick,
+  onAimSwipe,
+  onPress,
+  onRelease,
+  onSelectWeapon,
+}: TankTouchControlsProps) {
+  const hasAmmo = (id: HardpointId) => {
+    const { weapon } = hud.hardpoints[id];
+    return WEAPONS[weapon].ammo === null || (hud.ammo[weapon] ?? 0) > 0;
+  };
+
+  const main = hud.hardpoints.main;
+  const nextSlot = ((MAIN_WEAPONS.indexOf(main.weapon) + 1) % MAIN_WEAPONS.length) + 1;
+  const disabled = hud.hull <= 0;
+
+  const button = (action: TankAction) => ({
+    onPress: () => onPress(action),
+    onRelease: () => onRelease(action),
+  });
+
+  return (
+    <>
+      <SwipeArea onSwipe={onAimSwipe} className={styles["swipe-area"]} />
+
+      {!disabled && (
+        <>
+          <div className={styles.joystick}>
+            <VirtualJoystick onMove={onDriveStick} />
+          </div>
+
+          <div className={styles.actions}>
+            <TouchButton
+              {...button("shoot")}
+              dimmed={main.ready < 1 || !hasAmmo("main")}
+              className={styles["fire-button"]}
+            >
+              {WEAPONS[main.weapon].name}
+            </TouchButton>
+
+            {hasAmmo("left") && (
+              <TouchButton {...button("shootLeft")} className={styles["side-button"]}>
+                Left gun
+              </TouchButton>
+            )}
+            {hasAmmo("right") && (
+              <TouchButton {...button("shootRight")} className={styles["side-button"]}>
+                Right gun
+              </TouchButton>
+            )}
+
+            <TouchButton
+              onPress={() => onSelectWeapon(nextSlot)}
+              className={styles["side-button"]}
+            >
+              Next: {WEAPONS[MAIN_WEAPONS[nextSlot - 1]].name}
+            </TouchButton>
+          </div>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,152 @@
+// Tank actions and their default bindings. The game reads them through an
+// input reader and turns them into the simulation's Controls each tick.
+
+import { Binding, Bindings, InputReader, InputScheme } from "@/lib/input";
+import { createBindingsStore } from "@/store/bindingsStore";
+import { Controls } from "./simulation";
+
+export type TankAction =
+  | "forward"
+  | "backward"
+  | "left"
+  | "right"
+  | "shoot"
+  | "shootLeft"
+  | "shootRight"
+  | "weapon1"
+  | "weapon2"
+  | "weapon3"
+  | "weapon4"
+  | "aimLeft"
+  | "aimRight"
+  | "aimUp"
+  | "aimDown";
+
+// Actions that select each main weapon, in MAIN_WEAPONS order
+export const WEAPON_ACTIONS: TankAction[] = ["weapon1", "weapon2", "weapon3", "weapon4"];
+
+const key = (code: string): Binding => ({ type: "key", code });
+const button = (index: number): Binding => ({ type: "gamepadButton", index });
+const axis = (index: number, direction: 1 | -1): Binding => ({
+  type: "gamepadAxis",
+  index,
+  direction,
+});
+
+export const TANK_INPUT: InputScheme<TankAction> = {
+  id: "tank",
+  actions: [
+    { id: "forward", label: "Accelerate" },
+    { id: "backward", label: "Brake / reverse" },
+    { id: "left", label: "Steer left" },
+    { id: "right", label: "Steer right" },
+    { id: "shoot", label: "Fire main weapon" },
+    { id: "shootLeft", label: "Fire left side gun" },
+    { id: "shootRight", label: "Fire right side gun" },
+    { id: "weapon1", label: "Battle cannon" },
+    { id: "weapon2", label: "Lascannon" },
+    { id: "weapon3", label: "Autocannon" },
+    { id: "weapon4", label: "Mortar" },
+    { id: "aimLeft", label: "Turn turret left" },
+    { id: "aimRight", label: "Turn turret right" },
+    { id: "aimUp", label: "Raise barrel" },
+    { id: "aimDown", label: "Lower barrel" },
+  ],
+  // Triggers are throttle and brake and the left stick steers; the right
+  // stick turns the turret for players without a mouse
+  defaults: {
+    forward: [key("KeyW"), key("ArrowUp"), button(7)],
+    backward: [key("KeyS"), key("ArrowDown"), button(6)],
+    left: [key("KeyA"), key("ArrowLeft"), axis(0, -1)],
+    right: [key("KeyD"), key("ArrowRight"), axis(0, 1)],
+    shoot: [key("Space"), { type: "mouse", button: 0 }, button(0)],
+    shootLeft: [key("KeyQ"), button(4)],
+    shootRight: [key("KeyE"), button(5)],
+    weapon1: [key("Digit1"), button(12)],
+    weapon2: [key("Digit2"), button(15)],
+    weapon3: [key("Digit3"), button(13)],
+    weapon4: [key("Digit4"), button(14)],
+    aimLeft: [axis(2, -1)],
+    aimRight: [axis(2, 1)],
+    aimUp: [axis(3, -1)],
+    aimDown: [axis(3, 1)],
+  },
+};
+
+export const tankBindings = createBindingsStore(TANK_INPUT);
+
+// Keys for each split-screen player: WASD and Space on the left of the
+// keyboard, the arrows and Enter on the right. Without a mouse the turret is
+// turned with keys too.
+const VERSUS_KEYS: Record<TankAction, string>[] = [
+  {
+    forward: "KeyW",
+    backward: "KeyS",
+    left: "KeyA",
+    right: "KeyD",
+    shoot: "Space",
+    shootLeft: "KeyQ",
+    shootRight: "KeyE",
+    weapon1: "Digit1",
+    weapon2: "Digit2",
+    weapon3: "Digit3",
+    weapon4: "Digit4",
+    aimLeft: "KeyZ",
+    aimRight: "KeyC",
+    aimUp: "KeyR",
+    aimDown: "KeyF",
+  },
+  {
+    forward: "ArrowUp",
+    backward: "ArrowDown",
+    left: "ArrowLeft",
+    right: "ArrowRight",
+    shoot: "Enter",
+    shootLeft: "BracketLeft",
+    shootRight: "BracketRight",
+    weapon1: "Digit7",
+    weapon2: "Digit8",
+    weapon3: "Digit9",
+    weapon4: "Digit0",
+    aimLeft: "KeyJ",
+    aimRight: "KeyL",
+    aimUp: "KeyI",
+    aimDown: "KeyK",
+  },
+];
+
+// Split-screen players keep the single-player gamepad layout; each reads
+// their own pad
+export const VERSUS_INPUT: InputScheme<TankAction>[] = VERSUS_KEYS.map(
+  (keys, player) => ({
+    id: `tank-versus-${player + 1}`,
+    title: `Split-screen tank: player ${player + 1}`,
+    actions: TANK_INPUT.actions,
+    defaults: Object.fromEntries(
+      TANK_INPUT.actions.map(({ id }) => [
+        id,
+        [
+          key(keys[id]),
+          ...TANK_INPUT.defaults[id].filter(
+            (binding) =>
+              binding.type === "gamepadButton" || binding.type === "gamepadAxis"
+          ),
+        ],
+      ])
+    ) as Bindings<TankAction>,
+  })
+);
+
+export const versusBindings = VERSUS_INPUT.map((scheme) => createBindingsStore(scheme));
+
+// Driving and triggers as the simulation wants them. Opposing actions cancel
+// out, and analog inputs give partial throttle and steering.
+export const readDrivingControls = (
+  input: InputReader<TankAction>
+): Pick<Controls, "throttle" | "steer" | "shoot" | "shootLeft" | "shootRight"> => ({
+  throttle: input.value("forward") - input.value("backward"),
+  steer: input.value("left") - input.value("right"),
+  shoot: input.pressed("shoot"),
+  shootLeft: input.pressed("shootLeft"),
+  shootRight: input.pressed("shootRight"),
+});
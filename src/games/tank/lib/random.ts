@@ -0,0 +1,32 @@
+// Seeded pseudo-random number generation.
+//
+// Anything that has to come out the same for a given seed (replays, shared
+// maps) draws from one of these generators instead of Math.random().
+
+export type RandomGenerator = () => number;
+
+// mulberry32: small, fast and good enough for gameplay randomness
+export const createRandom = (seed: number): RandomGenerator => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Pick a fresh seed for a new session
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
+
+// FNV-1a hash, so any text (e.g. "?seed=verdant-hills") can be used as a seed
+export const hashString = (value: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
@@ -0,0 +1,327 @@
+// Input replays for the tank simulation.
+//
+// Because the simulation is deterministic, a replay only needs the seed, the
+// starting data of every tank and the controls each one was given on every
+// tick. Controls are packed into one integer and run-length encoded to keep
+// exported files small.
+
+import {
+  ButtonControl,
+  CarData,
+  Controls,
+  IDLE_CONTROLS,
+  MAX_BARREL_PITCH,
+  MIN_BARREL_PITCH,
+  TICK_RATE,
+  Vec3,
+  angleDifference,
+  cloneCarData,
+} from "./simulation";
+import { HardpointId, WEAPONS, WeaponId } from "./weapons";
+
+export const REPLAY_VERSION = 8;
+
+export interface Replay {
+  version: number;
+  tickRate: number;
+  seed: number;
+  // One entry per player
+  initialCars: CarData[];
+  // Per player: [packed controls, number of consecutive ticks]
+  inputs: [number, number][][];
+}
+
+const CONTROL_BITS: ButtonControl[] = ["shoot", "shootLeft", "shootRight"];
+
+// Analog inputs are rounded to a fixed number of steps so they pack into
+// whole numbers: throttle and steering to AXIS_STEPS either side of centre,
+// the aim to AIM_YAW_STEPS headings and AIM_PITCH_STEPS elevations
+const AXIS_STEPS = 15;
+const AIM_YAW_STEPS = 1024;
+const AIM_PITCH_STEPS = 256;
+
+const PITCH_RANGE = MAX_BARREL_PITCH - MIN_BARREL_PITCH;
+
+// Sizes of the packed fields, from the lowest: trigger bits, weapon slot,
+// throttle, steering, aim heading and aim elevation. Their product stays
+// well inside the integers a JS number holds exactly.
+const FIELD_SIZES = [
+  1 << CONTROL_BITS.length,
+  8,
+  AXIS_STEPS * 2 + 1,
+  AXIS_STEPS * 2 + 1,
+  AIM_YAW_STEPS,
+  AIM_PITCH_STEPS,
+];
+
+// Packed controls are below this
+const PACKED_LIMIT = FIELD_SIZES.reduce((product, size) => product * size, 1);
+
+// Longest replay a file may hold: four hours of play
+const MAX_REPLAY_TICKS = TICK_RATE * 60 * 60 * 4;
+
+const encodeAxis = (value: number) =>
+  Math.round(Math.max(-1, Math.min(1, value)) * AXIS_STEPS) + AXIS_STEPS;
+
+const decodeAxis = (code: number) => (code - AXIS_STEPS) / AXIS_STEPS;
+
+const encodeAimYaw = (yaw: number) =>
+  Math.round(((angleDifference(0, yaw) + Math.PI) / (Math.PI * 2)) * AIM_YAW_STEPS) %
+  AIM_YAW_STEPS;
+
+const encodeAimPitch = (pitch: number) =>
+  Math.round(
+    (Math.max(0, Math.min(PITCH_RANGE, pitch - MIN_BARREL_PITCH)) / PITCH_RANGE) *
+      (AIM_PITCH_STEPS - 1)
+  );
+
+export const encodeControls = (controls: Controls) => {
+  const fields = [
+    CONTROL_BITS.reduce(
+      (bits, key, bit) => (controls[key] ? bits | (1 << bit) : bits),
+      0
+    ),
+    controls.weaponSlot & 7,
+    encodeAxis(controls.throttle),
+    encodeAxis(controls.steer),
+    encodeAimYaw(controls.aimYaw),
+    encodeAimPitch(controls.aimPitch),
+  ];
+
+  return fields.reduceRight(
+    (packed, value, index) => packed * FIELD_SIZES[index] + value,
+    0
+  );
+};
+
+export const decodeControls = (packed: number): Controls => {
+  const [bits, weaponSlot, throttle, steer, aimYaw, aimPitch] = FIELD_SIZES.map(
+    (size) => {
+      const value = packed % size;
+      packed = Math.floor(packed / size);
+      return value;
+    }
+  );
+
+  return {
+    throttle: decodeAxis(throttle),
+    steer: decodeAxis(steer),
+    shoot: (bits & 1) !== 0,
+    shootLeft: (bits & 2) !== 0,
+    shootRight: (bits & 4) !== 0,
+    weaponSlot,
+    aimYaw: (aimYaw / AIM_YAW_STEPS) * Math.PI * 2 - Math.PI,
+    aimPitch: MIN_BARREL_PITCH + (aimPitch / (AIM_PITCH_STEPS - 1)) * PITCH_RANGE,
+  };
+};
+
+// Round controls to what a replay can store, so a live session steps with
+// exactly the aim its replay will play back
+export const quantizeControls = (controls: Controls) =>
+  decodeControls(encodeControls(controls));
+
+// Records the controls of every tick for one session
+export const createReplayRecorder = (seed: number, initialCars: CarData[]) => {
+  const start = initialCars.map(cloneCarData);
+  const inputs: [number, number][][] = initialCars.map(() => []);
+
+  return {
+    // Controls for every player, in player order
+    record(controls: Controls[]) {
+      inputs.forEach((track, player) => {
+        const packed = encodeControls(controls[player]);
+        const last = track[track.length - 1];
+
+        if (last && last[0] === packed) {
+          last[1]++;
+        } else {
+          track.push([packed, 1]);
+        }
+      });
+    },
+    toReplay(): Replay {
+      return {
+        version: REPLAY_VERSION,
+        tickRate: TICK_RATE,
+        seed,
+        initialCars: start.map(cloneCarData),
+        inputs: inputs.map((track) =>
+          track.map(([packed, count]) => [packed, count])
+        ),
+      };
+    },
+  };
+};
+
+// Number of ticks in one player's inputs
+const trackLength = (track: [number, number][]) =>
+  track.reduce((total, [, count]) => total + count, 0);
+
+// Plays back a replay's controls, walking each player's run-length encoded
+// inputs as the ticks go by rather than expanding them up front
+export const createReplayPlayer = (replay: Replay) => {
+  // Per player: the entry being played and the tick it started on
+  const cursors = replay.inputs.map(() => ({ entry: 0, start: 0 }));
+
+  return {
+    // Ticks until the longest track runs out
+    length: Math.max(...replay.inputs.map(trackLength)),
+    // Controls for every player on a tick; ticks must come in order. Players
+    // whose inputs have run out sit idle.
+    controlsAt(tick: number): Controls[] {
+      return replay.inputs.map((track, player) => {
+        const cursor = cursors[player];
+        while (
+          cursor.entry < track.length &&
+          tick >= cursor.start + track[cursor.entry][1]
+        ) {
+          cursor.start += track[cursor.entry][1];
+          cursor.entry++;
+        }
+
+        return cursor.entry < track.length
+          ? decodeControls(track[cursor.entry][0])
+          : IDLE_CONTROLS;
+      });
+    },
+  };
+};
+
+const isNumber = (value: unknown, min = -Infinity, max = Infinity) =>
+  typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+
+const isVec3 = (value: unknown) => {
+  const vector = value as Partial<Vec3> | null;
+  return (
+    typeof vector === "object" &&
+    vector !== null &&
+    isNumber(vector.x) &&
+    isNumber(vector.y) &&
+    isNumber(vector.z)
+  );
+};
+
+const isWeaponId = (value: unknown): value is WeaponId =>
+  typeof value === "string" && Object.hasOwn(WEAPONS, value);
+
+// Tuning values that can't be negative
+const NON_NEGATIVE_FIELDS = [
+  "maxSpeed",
+  "acceleration",
+  "deceleration",
+  "turnSpeed",
+  "brakeStrength",
+  "maxSteeringAngle",
+  "steeringSpeed",
+  "steeringReturn",
+  "turretTraverseSpeed",
+  "barrelElevationSpeed",
+] as const satisfies readonly (keyof CarData)[];
+
+const HARDPOINTS: HardpointId[] = ["main", "left", "right"];
+
+// Whether one entry of `initialCars` holds a complete, in-range car, so a
+// tampered file can't feed NaN or missing fields into the simulation
+const isCarData = (value: unknown): value is CarData => {
+  if (typeof value !== "object" || value === null) return false;
+  const car = value as Partial<Record<keyof CarData, unknown>>;
+  const hardpoints = car.hardpoints as Record<string, unknown> | null;
+  const ammo = car.ammo as Record<string, unknown> | null;
+
+  return (
+    NON_NEGATIVE_FIELDS.every((field) => isNumber(car[field], 0)) &&
+    isNumber(car.speed) &&
+    isNumber(car.friction, 0, 1) &&
+    isNumber(car.rotation) &&
+    isNumber(car.previousRotation) &&
+    isNumber(car.steeringAngle) &&
+    isNumber(car.turretYaw) &&
+    isNumber(car.previousTurretYaw) &&
+    isNumber(car.barrelPitch, MIN_BARREL_PITCH, MAX_BARREL_PITCH) &&
+    isNumber(car.previousBarrelPitch, MIN_BARREL_PITCH, MAX_BARREL_PITCH) &&
+    isNumber(car.maxHull, Number.MIN_VALUE) &&
+    isNumber(car.hull, 0, car.maxHull as number) &&
+    isVec3(car.direction) &&
+    isVec3(car.position) &&
+    isVec3(car.previousPosition) &&
+    typeof hardpoints === "object" &&
+    hardpoints !== null &&
+    HARDPOINTS.every((id) => {
+      const hardpoint = hardpoints[id] as Record<string, unknown> | null;
+      return (
+        typeof hardpoint === "object" &&
+        hardpoint !== null &&
+        isWeaponId(hardpoint.weapon) &&
+        isNumber(hardpoint.readyAt) &&
+        isNumber(hardpoint.nextBurstAt) &&
+        Number.isInteger(hardpoint.burstRemaining) &&
+        (hardpoint.burstRemaining as number) >= 0
+      );
+    }) &&
+    typeof ammo === "object" &&
+    ammo !== null &&
+    Object.entries(ammo).every(
+      ([weapon, rounds]) =>
+        isWeaponId(weapon) && Number.isInteger(rounds) && (rounds as number) >= 0
+    )
+  );
+};
+
+// Parse and validate a replay file
+export const parseReplay = (json: string): Replay => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Replay file is not valid JSON");
+  }
+
+  const replay = data as Partial<Replay>;
+
+  if (!replay || typeof replay !== "object") {
+    throw new Error("Replay file is empty");
+  }
+  if (replay.version !== REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${replay.version}`);
+  }
+  if (replay.tickRate !== TICK_RATE) {
+    throw new Error(
+      `Replay was recorded at ${replay.tickRate} Hz, expected ${TICK_RATE} Hz`
+    );
+  }
+  if (
+    typeof replay.seed !== "number" ||
+    !Array.isArray(replay.initialCars) ||
+    replay.initialCars.length === 0
+  ) {
+    throw new Error("Replay is missing its seed or initial car data");
+  }
+  const badCar = replay.initialCars.findIndex((car) => !isCarData(car));
+  if (badCar !== -1) {
+    throw new Error(`Replay has invalid data for tank ${badCar + 1}`);
+  }
+  if (
+    !Array.isArray(replay.inputs) ||
+    replay.inputs.length !== replay.initialCars.length ||
+    !replay.inputs.every(
+      (track) =>
+        Array.isArray(track) &&
+        track.every(
+          (entry) =>
+            Array.isArray(entry) &&
+            entry.length === 2 &&
+            Number.isInteger(entry[0]) &&
+            isNumber(entry[0], 0, PACKED_LIMIT - 1) &&
+            Number.isInteger(entry[1]) &&
+            isNumber(entry[1], 1, MAX_REPLAY_TICKS)
+        )
+    )
+  ) {
+    throw new Error("Replay inputs are malformed");
+  }
+  if (replay.inputs.some((track) => trackLength(track) > MAX_REPLAY_TICKS)) {
+    throw new Error("Replay is too long");
+  }
+
+  return replay as Replay;
+};
@@ -0,0 +1,1334 @@
+// Deterministic tank simulation core.
+//
+// Everything in here is plain data and plain math so it can run in Node
+// without WebGL or React. The game advances it at a fixed tick rate and
+// interpolates between the last two ticks when rendering, so the same inputs
+// always produce the same trajectory regardless of the display refresh rate.
+// All movement values are expressed per tick.
+
+import { roadCenterX, terrainHeight } from "./world";
+import { createRandom } from "./random";
+import {
+  HARDPOINT_OFFSETS,
+  HardpointId,
+  MAIN_BARREL_LENGTH,
+  MAIN_WEAPONS,
+  WEAPONS,
+  WEAPON_SWAP_TIME,
+  WeaponDefinition,
+  WeaponId,
+} from "./weapons";
+
+export const TICK_RATE = 60; // Simulation ticks per second
+export const TICK_DURATION = 1 / TICK_RATE; // Seconds per tick
+export const MAX_FRAME_TIME = 0.25; // Largest frame delta fed to the accumulator
+
+export const GRAVITY = 0.01; // Downward velocity added to projectiles each tick
+export const PROJECTILE_MAX_LIFETIME = 5; // Seconds
+export const GROUND_HIT_HEIGHT = 0.3;
+
+// How far the main barrel can dip below and rise above level, in radians
+export const MIN_BARREL_PITCH = -0.15;
+export const MAX_BARREL_PITCH = 0.6;
+
+export const CAR_RADIUS = 2; // Hull footprint for collisions and hits
+export const CAR_HIT_HEIGHT = 1; // Height of the hull's hit sphere above its position
+export const RAM_DAMAGE = 25; // Damage dealt to both sides by a full-speed ram
+const CONTACT_SLACK = 1e-6; // Rounding allowance for bodies left touching by a push
+
+// Split-screen tanks start on the road this far either side of the origin,
+// facing each other
+export const VERSUS_SPAWN_DISTANCE = 30;
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Car properties
+export interface CarData {
+  speed: number;
+  maxSpeed: number;
+  acceleration: number;
+  deceleration: number;
+  turnSpeed: number;
+  friction: number;
+  brakeStrength: number;
+  direction: Vec3;
+  position: Vec3;
+  previousPosition: Vec3;
+  // Heading around the Y axis in radians
+  rotation: number;
+  previousRotation: number;
+  // Steering properties for smoother turning
+  steeringAngle: number;
+  maxSteeringAngle: number;
+  steeringSpeed: number;
+  steeringReturn: number;
+  // Turret heading relative to the hull and barrel elevation, in radians,
+  // and how far each can turn per tick
+  turretYaw: number;
+  previousTurretYaw: number;
+  barrelPitch: number;
+  previousBarrelPitch: number;
+  turretTraverseSpeed: number;
+  barrelElevationSpeed: number;
+  // Hull integrity; the tank is disabled when it reaches zero
+  hull: number;
+  maxHull: number;
+  // Weapon mounted on each hardpoint and its firing state
+  hardpoints: Record<HardpointId, HardpointState>;
+  // Rounds left for every weapon with limited ammo
+  ammo: Partial<Record<WeaponId, number>>;
+}
+
+export interface HardpointState {
+  weapon: WeaponId;
+  // Simulation time (ms) when the trigger can next be pulled
+  readyAt: number;
+  // Rounds still to come from the current burst, and when the next is due
+  burstRemaining: number;
+  nextBurstAt: number;
+}
+
+// Player input sampled once per tick
+export interface Controls {
+  // From -1 (full brake, then reverse) to 1 (full throttle)
+  throttle: number;
+  // From -1 (full lock right) to 1 (full lock left)
+  steer: number;
+  // Main weapon trigger
+  shoot: boolean;
+  // Side mount triggers
+  shootLeft: boolean;
+  shootRight: boolean;
+  // Main weapon to switch to this tick (1-based slot in MAIN_WEAPONS), or 0
+  // to keep the current one
+  weaponSlot: number;
+  // Where the turret should point: heading relative to the hull and barrel
+  // elevation. The turret turns toward it at its traverse speed.
+  aimYaw: number;
+  aimPitch: number;
+}
+
+// No input at all: coasting, turret facing forward
+export const IDLE_CONTROLS: Controls = {
+  throttle: 0,
+  steer: 0,
+  shoot: false,
+  shootLeft: false,
+  shootRight: false,
+  weaponSlot: 0,
+  aimYaw: 0,
+  aimPitch: 0,
+};
+
+// Controls that are either held down or not
+export type ButtonControl = "shoot" | "shootLeft" | "shootRight";
+
+export interface ProjectileState {
+  id: number;
+  position: Vec3;
+  previousPosition: Vec3;
+  velocity: Vec3;
+  lifeTime: number;
+  weapon: WeaponId;
+  // Index of the tank that fired it; a tank's own rounds pass through it
+  owner: number;
+  active: boolean;
+}
+
+export type TargetType = "turret" | "vehicle";
+
+export interface TargetState {
+  id: string;
+  type: TargetType;
+  position: Vec3;
+  previousPosition: Vec3;
+  rotation: number;
+  previousRotation: number;
+  hitpoints: number;
+  maxHitpoints: number;
+  active: boolean;
+  // Patrol route for moving targets (vehicles ping-pong between two points)
+  patrol?: {
+    start: Vec3;
+    end: Vec3;
+    speed: number;
+    progress: number;
+    direction: 1 | -1;
+  };
+}
+
+export interface SimulationState {
+  // World seed; anything random about the level is derived from it
+  seed: number;
+  tick: number;
+  // One tank per player, indexed by player
+  cars: CarData[];
+  projectiles: ProjectileState[];
+  targets: TargetState[];
+  nextProjectileId: number;
+}
+
+// Things that happened during a tick that the renderer may want to show
+export type SimulationEvent =
+  | { type: "projectileFired"; projectile: ProjectileState }
+  | {
+      type: "beamFired";
+      player: number;
+      weapon: WeaponId;
+      hardpoint: HardpointId;
+      from: Vec3;
+      to: Vec3;
+    }
+  | {
+      type: "projectileImpact";
+      projectileId: number;
+      weapon: WeaponId;
+      position: Vec3;
+    }
+  | { type: "projectileExpired"; projectileId: number }
+  | {
+      type: "targetHit";
+      targetId: string;
+      // null for beams, which have no projectile
+      projectileId: number | null;
+      weapon: WeaponId;
+      position: Vec3;
+    }
+  | {
+      type: "tankHit";
+      player: number;
+      attacker: number;
+      // null for beams, which have no projectile
+      projectileId: number | null;
+      weapon: WeaponId;
+      position: Vec3;
+    }
+  | {
+      type: "hullDamaged";
+      player: number;
+      damage: number;
+      hull: number;
+      position: Vec3;
+    }
+  | {
+      type: "targetDestroyed";
+      targetId: string;
+      targetType: TargetType;
+      position: Vec3;
+    };
+
+// Stats for each target type
+export const TARGET_STATS: Record<
+  TargetType,
+  {
+    name: string;
+    hitpoints: number;
+    radius: number;
+    height: number;
+    points: number;
+  }
+> = {
+  turret: {
+    name: "Heretek Turret",
+    hitpoints: 100,
+    radius: 1.6,
+    height: 1.5,
+    points: 100,
+  },
+  vehicle: {
+    name: "Traitor Rhino",
+    hitpoints: 70,
+    radius: 2,
+    height: 1.2,
+    points: 150,
+  },
+};
+
+// Turrets sit beside the road: z along the road and sideways offset from it
+const TURRET_LAYOUT: { z: number; offset: number }[] = [
+  { z: 20, offset: -15 },
+  { z: -12, offset: 14 },
+  { z: 30, offset: 18 },
+  { z: -28, offset: -20 },
+];
+
+// Vehicle patrols, relative to the road centre at z = 0
+const VEHICLE_ROUTES: { start: Vec3; end: Vec3; speed: number }[] = [
+  { start: { x: -10, y: 0, z: -35 }, end: { x: -10, y: 0, z: 35 }, speed: 0.08 },
+  { start: { x: -35, y: 0, z: 10 }, end: { x: 35, y: 0, z: 10 }, speed: 0.1 },
+];
+
+// Small vector helpers so the module does not depend on three.js
+export const vec3 = (x = 0, y = 0, z = 0): Vec3 => ({ x, y, z });
+
+export const copyVec3 = (v: Vec3): Vec3 => ({ x: v.x, y: v.y, z: v.z });
+
+export const lerpVec3 = (a: Vec3, b: Vec3, t: number): Vec3 => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  z: a.z + (b.z - a.z) * t,
+});
+
+// Signed difference b - a along the shortest arc, in [-PI, PI]
+export const angleDifference = (a: number, b: number) => {
+  let diff = (b - a) % (Math.PI * 2);
+  if (diff > Math.PI) diff -= Math.PI * 2;
+  if (diff < -Math.PI) diff += Math.PI * 2;
+  return diff;
+};
+
+// Interpolate between two angles along the shortest arc
+export const lerpAngle = (a: number, b: number, t: number) =>
+  a + angleDifference(a, b) * t;
+
+const distanceSq = (a: Vec3, b: Vec3) =>
+  (a.x - b.x) ** 2 + (a.y - b.y) ** 2 + (a.z - b.z) ** 2;
+
+// Rotate a vector around the Y axis
+const rotateY = (v: Vec3, angle: number): Vec3 => {
+  const sin = Math.sin(angle);
+  const cos = Math.cos(angle);
+  return {
+    x: v.x * cos + v.z * sin,
+    y: v.y,
+    z: -v.x * sin + v.z * cos,
+  };
+};
+
+// Check whether the segment a->b passes within radius of center
+export const segmentIntersectsSphere = (
+  a: Vec3,
+  b: Vec3,
+  center: Vec3,
+  radius: number
+) => {
+  const ab = { x: b.x - a.x, y: b.y - a.y, z: b.z - a.z };
+  const lengthSq = ab.x * ab.x + ab.y * ab.y + ab.z * ab.z;
+  const t =
+    lengthSq > 0
+      ? Math.max(
+          0,
+          Math.min(
+            1,
+            ((center.x - a.x) * ab.x +
+              (center.y - a.y) * ab.y +
+              (center.z - a.z) * ab.z) /
+              lengthSq
+          )
+        )
+      : 0;
+  const closest = {
+    x: a.x + ab.x * t,
+    y: a.y + ab.y * t,
+    z: a.z + ab.z * t,
+  };
+  return distanceSq(closest, center) <= radius * radius;
+};
+
+// Simulation time in milliseconds for a given tick
+export const tickToTime = (tick: number) => tick * TICK_DURATION * 1000;
+
+const createHardpoint = (weapon: WeaponId): HardpointState => ({
+  weapon,
+  readyAt: 0, // Ready to fire on the first tick
+  burstRemaining: 0,
+  nextBurstAt: 0,
+});
+
+// Car data with initial values, hovering at a spawn point
+export const createCarData = (
+  position: Vec3 = vec3(0, 0.8, 0),
+  rotation = 0
+): CarData => ({
+  speed: 0,
+  maxSpeed: 0.4,
+  acceleration: 0.008,
+  deceleration: 0.005,
+  turnSpeed: 0.03,
+  friction: 0.99,
+  brakeStrength: 0.12,
+  direction: rotateY(vec3(0, 0, 1), rotation),
+  position: copyVec3(position),
+  previousPosition: copyVec3(position),
+  rotation,
+  previousRotation: rotation,
+  steeringAngle: 0,
+  maxSteeringAngle: 0.05,
+  steeringSpeed: 0.003,
+  steeringReturn: 0.02,
+  turretYaw: 0,
+  previousTurretYaw: 0,
+  barrelPitch: 0,
+  previousBarrelPitch: 0,
+  turretTraverseSpeed: 0.04,
+  barrelElevationSpeed: 0.02,
+  hull: 100,
+  maxHull: 100,
+  hardpoints: {
+    main: createHardpoint(MAIN_WEAPONS[0]),
+    left: createHardpoint("heavyBolter"),
+    right: createHardpoint("heavyBolter"),
+  },
+  ammo: Object.fromEntries(
+    (Object.keys(WEAPONS) as WeaponId[])
+      .filter((id) => WEAPONS[id].ammo !== null)
+      .map((id) => [id, WEAPONS[id].ammo])
+  ),
+});
+
+// Deep copy car data so a session never mutates its starting values
+export const cloneCarData = (car: CarData): CarData =>
+  JSON.parse(JSON.stringify(car));
+
+const createTarget = (type: TargetType, id: string, position: Vec3): TargetState => ({
+  id,
+  type,
+  position: copyVec3(position),
+  previousPosition: copyVec3(position),
+  rotation: 0,
+  previousRotation: 0,
+  hitpoints: TARGET_STATS[type].hitpoints,
+  maxHitpoints: TARGET_STATS[type].hitpoints,
+  active: true,
+});
+
+// Place a point on the ground of the given world
+const onGround = (seed: number, x: number, z: number): Vec3 => ({
+  x,
+  y: terrainHeight(seed, x, z),
+  z,
+});
+
+// Stationary turrets and patrolling vehicles laid out along the road
+export const createTargets = (seed: number): TargetState[] => {
+  const roadOffset = roadCenterX(seed, 0);
+
+  return [
+    ...TURRET_LAYOUT.map(({ z, offset }, index) =>
+      createTarget(
+        "turret",
+        `turret-${index}`,
+        onGround(seed, roadCenterX(seed, z) + offset, z)
+      )
+    ),
+    ...VEHICLE_ROUTES.map((route, index) => {
+      const start = onGround(seed, route.start.x + roadOffset, route.start.z);
+      const end = onGround(seed, route.end.x + roadOffset, route.end.z);
+
+      return {
+        ...createTarget("vehicle", `vehicle-${index}`, start),
+        patrol: {
+          start,
+          end,
+          speed: route.speed,
+          progress: 0,
+          direction: 1 as const,
+        },
+      };
+    }),
+  ];
+};
+
+// Two tanks on the road, one either side of the origin, facing each other
+export const createVersusCars = (seed: number): CarData[] =>
+  [-VERSUS_SPAWN_DISTANCE, VERSUS_SPAWN_DISTANCE].map((z) => {
+    const spawn = onGround(seed, roadCenterX(seed, z), z);
+    return createCarData(
+      { ...spawn, y: spawn.y + 0.8 },
+      z < 0 ? 0 : Math.PI
+    );
+  });
+
+export const createSimulationState = (
+  seed: number,
+  cars: CarData[] = [createCarData()]
+): SimulationState => ({
+  seed,
+  tick: 0,
+  cars,
+  projectiles: [],
+  targets: createTargets(seed),
+  nextProjectileId: 0,
+});
+
+// Get the centre of a target's hit sphere
+export const getTargetCenter = (target: TargetState): Vec3 => ({
+  x: target.position.x,
+  y: target.position.y + TARGET_STATS[target.type].height,
+  z: target.position.z,
+});
+
+// Get the centre of a tank's hit sphere
+export const getCarCenter = (car: CarData): Vec3 => ({
+  x: car.position.x,
+  y: car.position.y + CAR_HIT_HEIGHT,
+  z: car.position.z,
+});
+
+// Update a tank's speed, steering and position for one tick
+export const updateCar = (
+  state: SimulationState,
+  player: number,
+  controls: Controls
+) => {
+  const car = state.cars[player];
+
+  car.previousPosition = copyVec3(car.position);
+  car.previousRotation = car.rotation;
+
+  const throttle = Math.max(-1, Math.min(1, controls.throttle));
+  const steer = Math.max(-1, Math.min(1, controls.steer));
+
+  // Apply acceleration
+  if (throttle > 0) {
+    car.speed += car.acceleration * throttle;
+  }
+
+  // Apply braking
+  if (throttle < 0) {
+    if (car.speed > 0) {
+      car.speed -= car.brakeStrength * -throttle;
+    } else {
+      car.speed -= car.acceleration * 0.5 * -throttle; // Reverse is slower
+    }
+  }
+
+  // Apply friction to slow down
+  car.speed *= car.friction;
+
+  // Clamp speed
+  car.speed = Math.max(Math.min(car.speed, car.maxSpeed), -car.maxSpeed * 0.5);
+
+  // Gradually steer toward the angle the input asks for; keys ask for full
+  // lock, sticks for anything in between
+  if (steer !== 0) {
+    const target = steer * car.maxSteeringAngle;
+    car.steeringAngle += Math.max(
+      -car.steeringSpeed,
+      Math.min(car.steeringSpeed, target - car.steeringAngle)
+    );
+  } else {
+    // Return steering to center when not turning
+    if (car.steeringAngle > 0) {
+      car.steeringAngle = Math.max(0, car.steeringAngle - car.steeringReturn);
+    } else if (car.steeringAngle < 0) {
+      car.steeringAngle = Math.min(0, car.steeringAngle + car.steeringReturn);
+    }
+  }
+
+  // Clamp steering angle
+  car.steeringAngle = Math.max(
+    Math.min(car.steeringAngle, car.maxSteeringAngle),
+    -car.maxSteeringAngle
+  );
+
+  // Apply steering - turning effect is proportional to speed
+  const turnEffect = (car.steeringAngle * Math.abs(car.speed)) / car.maxSpeed;
+  car.rotation += turnEffect * Math.sign(car.speed);
+
+  // Update direction based on car's rotation
+  car.direction = rotateY(vec3(0, 0, 1), car.rotation);
+
+  // Move car based on speed and direction
+  car.position.x += car.direction.x * car.speed;
+  car.position.z += car.direction.z * car.speed;
+
+  // Hover above the terrain with a slight bobbing motion driven by simulation time
+  car.position.y =
+    terrainHeight(state.seed, car.position.x, car.position.z) +
+    0.8 +
+    Math.sin(tickToTime(state.tick) * 0.003) * 0.1;
+};
+
+// Where two bodies overlap on the ground, if they do: the normal points from
+// `a` to `b` and the overlap is how far they need to move apart
+const contactBetween = (a: Vec3, b: Vec3, reach: number) => {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  const distance = Math.sqrt(dx * dx + dz * dz);
+  if (distance >= reach) return null;
+
+  // Dead on top of each other, so any direction will do
+  if (distance === 0) return { normal: vec3(1, 0, 0), overlap: reach };
+  return { normal: vec3(dx / distance, 0, dz / distance), overlap: reach - distance };
+};
+
+// Bodies that already touched at the start of the tick are pressing against
+// each other rather than ramming, so a vehicle pushing a tank along doesn't
+// deal damage every tick. Separated bodies are left exactly touching, give or
+// take rounding.
+const wereTouching = (a: Vec3, b: Vec3, reach: number) => {
+  const dx = b.x - a.x;
+  const dz = b.z - a.z;
+  return dx * dx + dz * dz <= (reach + CONTACT_SLACK) ** 2;
+};
+
+// Ground velocity this tick; targets only move along their patrols
+const carVelocity = (car: CarData) =>
+  vec3(car.direction.x * car.speed, 0, car.direction.z * car.speed);
+
+const targetVelocity = (target: TargetState) =>
+  vec3(
+    target.position.x - target.previousPosition.x,
+    0,
+    target.position.z - target.previousPosition.z
+  );
+
+// How fast `a` is closing on `b` along the contact normal from `a` to `b`
+const closingSpeed = (a: Vec3, b: Vec3, normal: Vec3) =>
+  (a.x - b.x) * normal.x + (a.z - b.z) * normal.z;
+
+// Ram damage for two bodies closing at the given speed, in full at the
+// tank's top speed
+const ramDamage = (car: CarData, closing: number) =>
+  Math.round((RAM_DAMAGE * Math.max(closing, 0)) / car.maxSpeed);
+
+// Push a tank out of whatever it hit, bouncing it off if it was driving into it
+const pushCar = (car: CarData, direction: Vec3, distance: number) => {
+  car.position.x += direction.x * distance;
+  car.position.z += direction.z * distance;
+  if (closingSpeed(carVelocity(car), vec3(), direction) < 0) car.speed *= -0.3;
+};
+
+// Tanks that overlap a target or each other are pushed apart along the line
+// between them. Targets stay on their patrols, so a tank takes the whole push
+// from one; two tanks split it. A fresh ram damages both bodies, harder the
+// faster they were closing, so a parked tank that gets rammed takes the hit
+// too. Every player runs this, so each pair of tanks is only checked by the
+// lower-numbered one.
+export const updateCollisions = (
+  state: SimulationState,
+  player: number,
+  events: SimulationEvent[]
+) => {
+  const car = state.cars[player];
+
+  state.targets.forEach((target) => {
+    if (!target.active) return;
+
+    const reach = CAR_RADIUS + TARGET_STATS[target.type].radius;
+    const contact = contactBetween(car.position, target.position, reach);
+    if (!contact) return;
+
+    const { normal, overlap } = contact;
+    const closing = closingSpeed(carVelocity(car), targetVelocity(target), normal);
+    pushCar(car, vec3(-normal.x, 0, -normal.z), overlap);
+    if (wereTouching(car.previousPosition, target.previousPosition, reach)) return;
+
+    const damage = ramDamage(car, closing);
+    if (damage <= 0) return;
+
+    damageCar(state, player, damage, events);
+    damageTarget(target, damage, events);
+  });
+
+  state.cars.forEach((other, index) => {
+    if (index <= player) return;
+
+    const reach = CAR_RADIUS * 2;
+    const contact = contactBetween(car.position, other.position, reach);
+    if (!contact) return;
+
+    const { normal, overlap } = contact;
+    const closing = closingSpeed(carVelocity(car), carVelocity(other), normal);
+    pushCar(car, vec3(-normal.x, 0, -normal.z), overlap / 2);
+    pushCar(other, normal, overlap / 2);
+    if (wereTouching(car.previousPosition, other.previousPosition, reach)) return;
+
+    const damage = ramDamage(car, closing);
+    if (damage <= 0) return;
+
+    damageCar(state, player, damage, events);
+    damageCar(state, index, damage, events);
+  });
+};
+
+// Turn the turret and raise or lower the barrel toward the aim, no faster than
+// their traverse speeds
+export const updateTurret = (car: CarData, controls: Controls) => {
+  car.previousTurretYaw = car.turretYaw;
+  car.previousBarrelPitch = car.barrelPitch;
+
+  const yawStep = angleDifference(car.turretYaw, controls.aimYaw);
+  car.turretYaw = angleDifference(
+    0,
+    car.turretYaw +
+      Math.max(-car.turretTraverseSpeed, Math.min(car.turretTraverseSpeed, yawStep))
+  );
+
+  const pitch = Math.max(
+    MIN_BARREL_PITCH,
+    Math.min(MAX_BARREL_PITCH, controls.aimPitch)
+  );
+  car.barrelPitch += Math.max(
+    -car.barrelElevationSpeed,
+    Math.min(car.barrelElevationSpeed, pitch - car.barrelPitch)
+  );
+};
+
+// Pull a hardpoint's trigger: starts a burst if the weapon has reloaded
+export const pullTrigger = (
+  state: SimulationState,
+  player: number,
+  hardpointId: HardpointId
+) => {
+  const car = state.cars[player];
+  const hardpoint = car.hardpoints[hardpointId];
+  const currentTime = tickToTime(state.tick);
+
+  if (currentTime < hardpoint.readyAt || hardpoint.burstRemaining > 0) return;
+  if (!hasAmmo(car, hardpoint.weapon)) return;
+
+  const weapon = WEAPONS[hardpoint.weapon];
+  hardpoint.readyAt = currentTime + weapon.reloadTime;
+  hardpoint.burstRemaining = weapon.burst.count;
+  hardpoint.nextBurstAt = currentTime;
+};
+
+export const hasAmmo = (car: CarData, weapon: WeaponId) =>
+  WEAPONS[weapon].ammo === null || (car.ammo[weapon] ?? 0) > 0;
+
+// Fire any burst rounds that are due on each hardpoint
+const updateHardpoints = (
+  state: SimulationState,
+  player: number,
+  events: SimulationEvent[]
+) => {
+  const car = state.cars[player];
+  const currentTime = tickToTime(state.tick);
+
+  (Object.keys(car.hardpoints) as HardpointId[]).forEach((id) => {
+    const hardpoint = car.hardpoints[id];
+
+    while (
+      hardpoint.burstRemaining > 0 &&
+      currentTime >= hardpoint.nextBurstAt
+    ) {
+      // A burst stops early when the ammo runs out
+      if (!hasAmmo(car, hardpoint.weapon)) {
+        hardpoint.burstRemaining = 0;
+        break;
+      }
+
+      fireRound(state, player, id, events);
+      hardpoint.burstRemaining--;
+      hardpoint.nextBurstAt += WEAPONS[hardpoint.weapon].burst.interval;
+    }
+  });
+};
+
+// Switch the main weapon, which takes a moment before it can fire
+const selectMainWeapon = (
+  state: SimulationState,
+  player: number,
+  slot: number
+) => {
+  const weapon = MAIN_WEAPONS[slot - 1];
+  const main = state.cars[player].hardpoints.main;
+  if (!weapon || weapon === main.weapon) return;
+
+  main.weapon = weapon;
+  main.burstRemaining = 0;
+  main.readyAt = Math.max(
+    main.readyAt,
+    tickToTime(state.tick) + WEAPON_SWAP_TIME
+  );
+};
+
+const directionFromAngles = (yaw: number, pitch: number): Vec3 => ({
+  x: Math.sin(yaw) * Math.cos(pitch),
+  y: Math.sin(pitch),
+  z: Math.cos(yaw) * Math.cos(pitch),
+});
+
+// World heading and elevation of a hardpoint's barrel. The main weapon turns
+// with the turret; the side mounts are fixed to the hull.
+const barrelAngles = (car: CarData, hardpointId: HardpointId) =>
+  hardpointId === "main"
+    ? { yaw: car.rotation + car.turretYaw, pitch: car.barrelPitch }
+    : { yaw: car.rotation, pitch: 0 };
+
+// Direction of a round leaving a hardpoint: along the barrel, tilted up by
+// the weapon's launch angle and scattered by its spread. The scatter comes
+// from the seed and the round's id so replays fire identically.
+const aimDirection = (
+  state: SimulationState,
+  player: number,
+  hardpointId: HardpointId,
+  weapon: WeaponDefinition,
+  scatter = true
+): Vec3 => {
+  const random = createRandom(
+    state.seed ^ Math.imul(state.nextProjectileId, 2654435761)
+  );
+  const spread = () => (scatter ? (random() * 2 - 1) * weapon.spread : 0);
+  const barrel = barrelAngles(state.cars[player], hardpointId);
+
+  return directionFromAngles(
+    barrel.yaw + spread(),
+    barrel.pitch + weapon.launchAngle + spread()
+  );
+};
+
+// World position of a hardpoint's mount; for the main weapon this is the
+// turret pivot
+const mountPosition = (car: CarData, hardpointId: HardpointId): Vec3 => {
+  const offset = rotateY(HARDPOINT_OFFSETS[hardpointId], car.rotation);
+  return {
+    x: car.position.x + offset.x,
+    y: car.position.y + offset.y,
+    z: car.position.z + offset.z,
+  };
+};
+
+const muzzlePosition = (car: CarData, hardpointId: HardpointId): Vec3 => {
+  const mount = mountPosition(car, hardpointId);
+  if (hardpointId !== "main") return mount;
+
+  const barrel = barrelAngles(car, hardpointId);
+  const direction = directionFromAngles(barrel.yaw, barrel.pitch);
+  return {
+    x: mount.x + direction.x * MAIN_BARREL_LENGTH,
+    y: mount.y + direction.y * MAIN_BARREL_LENGTH,
+    z: mount.z + direction.z * MAIN_BARREL_LENGTH,
+  };
+};
+
+// Fire a single round from a hardpoint
+const fireRound = (
+  state: SimulationState,
+  player: number,
+  hardpointId: HardpointId,
+  events: SimulationEvent[]
+) => {
+  const car = state.cars[player];
+  const weaponId = car.hardpoints[hardpointId].weapon;
+  const weapon = WEAPONS[weaponId];
+  const position = muzzlePosition(car, hardpointId);
+  const direction = aimDirection(state, player, hardpointId, weapon);
+
+  if (weapon.ammo !== null) {
+    car.ammo[weaponId] = (car.ammo[weaponId] ?? 0) - 1;
+  }
+
+  if (weapon.kind === "hitscan") {
+    state.nextProjectileId++;
+    fireBeam(state, player, weaponId, hardpointId, position, direction, events);
+    return;
+  }
+
+  const projectile: ProjectileState = {
+    id: state.nextProjectileId++,
+    position,
+    previousPosition: copyVec3(position),
+    velocity: {
+      x: direction.x * weapon.speed,
+      y: direction.y * weapon.speed,
+      z: direction.z * weapon.speed,
+    },
+    lifeTime: 0,
+    weapon: weaponId,
+    owner: player,
+    active: true,
+  };
+
+  state.projectiles.push(projectile);
+  events.push({ type: "projectileFired", projectile });
+};
+
+const pointAlong = (from: Vec3, direction: Vec3, distance: number): Vec3 => ({
+  x: from.x + direction.x * distance,
+  y: from.y + direction.y * distance,
+  z: from.z + direction.z * distance,
+});
+
+// March along a beam to find how far it gets before meeting the ground
+const beamLength = (
+  seed: number,
+  from: Vec3,
+  direction: Vec3,
+  range: number
+) => {
+  for (let distance = 0.5; distance <= range; distance += 0.5) {
+    const point = pointAlong(from, direction, distance);
+    if (point.y <= terrainHeight(seed, point.x, point.z)) return distance;
+  }
+  return range;
+};
+
+// Resolve a hitscan shot: the beam stops at the first target or enemy tank
+// along it, or where it meets the ground
+const fireBeam = (
+  state: SimulationState,
+  player: number,
+  weaponId: WeaponId,
+  hardpoint: HardpointId,
+  from: Vec3,
+  direction: Vec3,
+  events: SimulationEvent[]
+) => {
+  const weapon = WEAPONS[weaponId];
+  const pointAt = (distance: number) => pointAlong(from, direction, distance);
+  const length = beamLength(state.seed, from, direction, weapon.range);
+
+  // Everything the beam can hit: live targets and the other tanks
+  const candidates = [
+    ...state.targets
+      .filter((target) => target.active)
+      .map((target) => ({
+        center: getTargetCenter(target),
+        radius: TARGET_STATS[target.type].radius,
+        target,
+        tank: null,
+      })),
+    ...state.cars
+      .map((car, tank) => ({
+        center: getCarCenter(car),
+        radius: CAR_RADIUS,
+        target: null,
+        tank,
+      }))
+      .filter(({ tank }) => tank !== player),
+  ];
+
+  // Nearest one the beam passes through before that
+  let hit: (typeof candidates)[number] | null = null;
+  let hitDistance = Infinity;
+  for (const candidate of candidates) {
+    const { center, radius } = candidate;
+    if (!segmentIntersectsSphere(from, pointAt(length), center, radius)) {
+      continue;
+    }
+
+    const distance =
+      (center.x - from.x) * direction.x +
+      (center.y - from.y) * direction.y +
+      (center.z - from.z) * direction.z;
+    if (distance < hitDistance) {
+      hit = candidate;
+      hitDistance = distance;
+    }
+  }
+
+  const to = hit ? copyVec3(hit.center) : pointAt(length);
+  events.push({ type: "beamFired", player, weapon: weaponId, hardpoint, from, to });
+
+  if (hit?.target) {
+    events.push({
+      type: "targetHit",
+      targetId: hit.target.id,
+      projectileId: null,
+      weapon: weaponId,
+      position: copyVec3(to),
+    });
+    damageTarget(hit.target, weapon.damage, events);
+  }
+  if (hit && hit.tank !== null) {
+    events.push({
+      type: "tankHit",
+      player: hit.tank,
+      attacker: player,
+      projectileId: null,
+      weapon: weaponId,
+      position: copyVec3(to),
+    });
+    damageCar(state, hit.tank, weapon.damage, events);
+  }
+};
+
+// Apply damage to a target and report whether it was destroyed
+const damageTarget = (
+  target: TargetState,
+  damage: number,
+  events: SimulationEvent[]
+) => {
+  if (!target.active) return;
+
+  target.hitpoints = Math.max(0, target.hitpoints - damage);
+  if (target.hitpoints > 0) return;
+
+  target.active = false;
+  events.push({
+    type: "targetDestroyed",
+    targetId: target.id,
+    targetType: target.type,
+    position: copyVec3(target.position),
+  });
+};
+
+// Take damage off a tank's hull. A breached hull takes no more.
+const damageCar = (
+  state: SimulationState,
+  player: number,
+  damage: number,
+  events: SimulationEvent[]
+) => {
+  const car = state.cars[player];
+  if (car.hull <= 0 || damage <= 0) return;
+
+  car.hull = Math.max(0, car.hull - damage);
+  events.push({
+    type: "hullDamaged",
+    player,
+    damage,
+    hull: car.hull,
+    position: copyVec3(car.position),
+  });
+};
+
+// Splash damage around an impact, falling off toward the edge of the blast.
+// `directHit` has already taken the full damage, and the tank that fired
+// the round is never caught in its own blast.
+const applySplash = (
+  state: SimulationState,
+  projectile: ProjectileState,
+  events: SimulationEvent[],
+  directHit?: TargetState | CarData
+) => {
+  const weapon = WEAPONS[projectile.weapon];
+  if (weapon.splashRadius <= 0) return;
+
+  // Damage at a hit sphere's edge, or 0 outside the blast
+  const splashDamage = (center: Vec3, radius: number) => {
+    const distance = Math.max(
+      0,
+      Math.sqrt(distanceSq(projectile.position, center)) - radius
+    );
+    if (distance >= weapon.splashRadius) return 0;
+
+    return Math.round(weapon.damage * (1 - distance / weapon.splashRadius));
+  };
+
+  state.targets.forEach((target) => {
+    if (!target.active || target === directHit) return;
+
+    const damage = splashDamage(
+      getTargetCenter(target),
+      TARGET_STATS[target.type].radius
+    );
+    if (damage > 0) damageTarget(target, damage, events);
+  });
+
+  state.cars.forEach((car, player) => {
+    if (player === projectile.owner || car === directHit) return;
+
+    damageCar(state, player, splashDamage(getCarCenter(car), CAR_RADIUS), events);
+  });
+};
+
+// Advance a ballistic round by one tick: move it, then let gravity pull on it
+const moveBallistic = (
+  position: Vec3,
+  velocity: Vec3,
+  weapon: WeaponDefinition
+) => {
+  position.x += velocity.x;
+  position.y += velocity.y;
+  position.z += velocity.z;
+  velocity.y -= GRAVITY * weapon.gravity;
+};
+
+// Move projectiles, apply gravity and resolve hits
+export const updateProjectiles = (
+  state: SimulationState,
+  events: SimulationEvent[]
+) => {
+  state.projectiles.forEach((projectile) => {
+    if (!projectile.active) return;
+
+    const weapon = WEAPONS[projectile.weapon];
+
+    // Update position, keeping the previous one for the hit test
+    projectile.previousPosition = copyVec3(projectile.position);
+    moveBallistic(projectile.position, projectile.velocity, weapon);
+
+    // Update lifetime
+    projectile.lifeTime += TICK_DURATION;
+
+    // Check for target hits along the path travelled this tick
+    const hitTarget = state.targets.find(
+      (target) =>
+        target.active &&
+        segmentIntersectsSphere(
+          projectile.previousPosition,
+          projectile.position,
+          getTargetCenter(target),
+          TARGET_STATS[target.type].radius
+        )
+    );
+
+    if (hitTarget) {
+      projectile.active = false;
+      events.push({
+        type: "targetHit",
+        targetId: hitTarget.id,
+        projectileId: projectile.id,
+        weapon: projectile.weapon,
+        position: copyVec3(projectile.position),
+      });
+      damageTarget(hitTarget, weapon.damage, events);
+      applySplash(state, projectile, events, hitTarget);
+      return;
+    }
+
+    // Then for hits on any tank but the one that fired it
+    const hitTank = state.cars.findIndex(
+      (car, player) =>
+        player !== projectile.owner &&
+        segmentIntersectsSphere(
+          projectile.previousPosition,
+          projectile.position,
+          getCarCenter(car),
+          CAR_RADIUS
+        )
+    );
+
+    if (hitTank !== -1) {
+      projectile.active = false;
+      events.push({
+        type: "tankHit",
+        player: hitTank,
+        attacker: projectile.owner,
+        projectileId: projectile.id,
+        weapon: projectile.weapon,
+        position: copyVec3(projectile.position),
+      });
+      damageCar(state, hitTank, weapon.damage, events);
+      applySplash(state, projectile, events, state.cars[hitTank]);
+      return;
+    }
+
+    // Check for ground collision
+    const groundHeight = terrainHeight(
+      state.seed,
+      projectile.position.x,
+      projectile.position.z
+    );
+    if (projectile.position.y <= groundHeight + GROUND_HIT_HEIGHT) {
+      projectile.active = false;
+      events.push({
+        type: "projectileImpact",
+        projectileId: projectile.id,
+        weapon: projectile.weapon,
+        position: copyVec3(projectile.position),
+      });
+      applySplash(state, projectile, events);
+      return;
+    }
+
+    // Remove after max lifetime
+    if (projectile.lifeTime > PROJECTILE_MAX_LIFETIME) {
+      projectile.active = false;
+      events.push({ type: "projectileExpired", projectileId: projectile.id });
+    }
+  });
+
+  // Clean up inactive projectiles
+  state.projectiles = state.projectiles.filter((p) => p.active);
+  state.targets = state.targets.filter((t) => t.active);
+};
+
+// Path the main weapon's next round would take if fired now, ignoring spread
+// and targets. Ballistic rounds are stepped exactly like updateProjectiles
+// steps them; beams are a straight line. `impact` is where it meets the
+// ground, or null if it gets no further than its range or lifetime.
+export const predictTrajectory = (
+  state: SimulationState,
+  player = 0
+): { points: Vec3[]; impact: Vec3 | null } => {
+  const car = state.cars[player];
+  const weapon = WEAPONS[car.hardpoints.main.weapon];
+  const position = muzzlePosition(car, "main");
+  const direction = aimDirection(state, player, "main", weapon, false);
+
+  if (weapon.kind === "hitscan") {
+    const length = beamLength(state.seed, position, direction, weapon.range);
+    const end = pointAlong(position, direction, length);
+    return {
+      points: [position, end],
+      impact: length < weapon.range ? end : null,
+    };
+  }
+
+  const velocity = {
+    x: direction.x * weapon.speed,
+    y: direction.y * weapon.speed,
+    z: direction.z * weapon.speed,
+  };
+  const points = [copyVec3(position)];
+
+  for (let tick = 0; tick < PROJECTILE_MAX_LIFETIME * TICK_RATE; tick++) {
+    moveBallistic(position, velocity, weapon);
+    points.push(copyVec3(position));
+
+    if (
+      position.y <=
+      terrainHeight(state.seed, position.x, position.z) + GROUND_HIT_HEIGHT
+    ) {
+      return { points, impact: copyVec3(position) };
+    }
+  }
+
+  return { points, impact: null };
+};
+
+// Turret heading (relative to the hull) and barrel elevation that put the
+// main weapon's rounds on a point. Ballistic weapons solve for the launch
+// angle under their gravity, taking the high arc for lobbed weapons; points
+// out of range get the angle that reaches furthest.
+export const solveAim = (
+  state: SimulationState,
+  point: Vec3,
+  player = 0
+): { yaw: number; pitch: number } => {
+  const car = state.cars[player];
+  const weapon = WEAPONS[car.hardpoints.main.weapon];
+  const mount = mountPosition(car, "main");
+
+  const dx = point.x - mount.x;
+  const dz = point.z - mount.z;
+  const distance = Math.sqrt(dx * dx + dz * dz);
+  const height = point.y - mount.y;
+
+  if (distance < 0.001) {
+    return { yaw: car.turretYaw, pitch: car.barrelPitch };
+  }
+
+  const yaw = angleDifference(car.rotation, Math.atan2(dx, dz));
+  const gravity = GRAVITY * weapon.gravity;
+
+  // Launch angle above level that carries a round `across` and `up` to the
+  // point from where it leaves the barrel
+  const launchAngle = (across: number, up: number) => {
+    if (weapon.kind === "hitscan" || gravity === 0) {
+      return Math.atan2(up, across);
+    }
+
+    const speedSq = weapon.speed * weapon.speed;
+    const discriminant =
+      speedSq * speedSq - gravity * (gravity * across * across + 2 * up * speedSq);
+    if (discriminant < 0) return Math.PI / 4;
+
+    const root = Math.sqrt(discriminant);
+    const lobbed = weapon.launchAngle > 0;
+    return Math.atan((speedSq + (lobbed ? root : -root)) / (gravity * across));
+  };
+
+  const toPitch = (angle: number) =>
+    Math.max(MIN_BARREL_PITCH, Math.min(MAX_BARREL_PITCH, angle - weapon.launchAngle));
+
+  // Solve from the pivot, then again from where that pitch puts the muzzle
+  let pitch = toPitch(launchAngle(distance, height));
+  const across = distance - Math.cos(pitch) * MAIN_BARREL_LENGTH;
+  if (across > 0.001) {
+    pitch = toPitch(
+      launchAngle(across, height - Math.sin(pitch) * MAIN_BARREL_LENGTH)
+    );
+  }
+
+  return { yaw, pitch };
+};
+
+// Move vehicles along their patrol routes
+export const updateTargets = (state: SimulationState) => {
+  state.targets.forEach((target) => {
+    target.previousPosition = copyVec3(target.position);
+    target.previousRotation = target.rotation;
+
+    const patrol = target.patrol;
+    if (!patrol) return;
+
+    const routeLength = Math.sqrt(distanceSq(patrol.start, patrol.end));
+    patrol.progress += (patrol.speed * patrol.direction) / routeLength;
+
+    // Turn around at either end of the route
+    if (patrol.progress >= 1 || patrol.progress <= 0) {
+      patrol.progress = Math.max(0, Math.min(1, patrol.progress));
+      patrol.direction = patrol.direction === 1 ? -1 : 1;
+    }
+
+    target.position = lerpVec3(patrol.start, patrol.end, patrol.progress);
+    target.position.y = terrainHeight(
+      state.seed,
+      target.position.x,
+      target.position.z
+    );
+    target.rotation = Math.atan2(
+      (patrol.end.x - patrol.start.x) * patrol.direction,
+      (patrol.end.z - patrol.start.z) * patrol.direction
+    );
+  });
+};
+
+// Advance the simulation by exactly one tick, with one set of controls per
+// tank; tanks without any stay idle
+export const stepSimulation = (
+  state: SimulationState,
+  controls: Controls[]
+): SimulationEvent[] => {
+  const events: SimulationEvent[] = [];
+  const players = state.cars.map((_, player) => player);
+  const controlsOf = (player: number) => controls[player] ?? IDLE_CONTROLS;
+
+  // A disabled tank can still turn its turret but can't drive or fire
+  const disabled = state.cars.map((car) => car.hull <= 0);
+
+  players.forEach((player) => {
+    const playerControls = controlsOf(player);
+    updateCar(
+      state,
+      player,
+      disabled[player]
+        ? { ...playerControls, throttle: 0, steer: 0 }
+        : playerControls
+    );
+    updateTurret(state.cars[player], playerControls);
+  });
+  updateTargets(state);
+  players.forEach((player) => updateCollisions(state, player, events));
+
+  players.forEach((player) => {
+    const playerControls = controlsOf(player);
+    if (!disabled[player]) {
+      if (playerControls.weaponSlot > 0) {
+        selectMainWeapon(state, player, playerControls.weaponSlot);
+      }
+      if (playerControls.shoot) pullTrigger(state, player, "main");
+      if (playerControls.shootLeft) pullTrigger(state, player, "left");
+      if (playerControls.shootRight) pullTrigger(state, player, "right");
+    }
+    updateHardpoints(state, player, events);
+  });
+
+  updateProjectiles(state, events);
+
+  state.tick++;
+  return events;
+};
+
+// Fixed-timestep accumulator. Feed it real frame deltas and it calls `step`
+// once per elapsed tick, returning how far (0-1) the current frame sits
+// between the last tick and the next one for render interpolation.
+export const createFixedTimestep = (tickDuration = TICK_DURATION) => {
+  let accumulator = 0;
+
+  return {
+    advance(frameDelta: number, step: () => void) {
+      accumulator += Math.min(Math.max(frameDelta, 0), MAX_FRAME_TIME);
+
+      while (accumulator >= tickDuration) {
+        step();
+        accumulator -= tickDuration;
+      }
+
+      return accumulator / tickDuration;
+    },
+    reset() {
+      accumulator = 0;
+    },
+  };
+};
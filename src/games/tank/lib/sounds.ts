@@ -0,0 +1,176 @@
+// Procedural sounds for the hover tank: a firing sound per weapon,
+// explosions scaled to their size and the engine hum.
+
+import { AudioEngine, AudioPosition, Sound, playNoise, playTone } from "@/lib/audio";
+import { WeaponId } from "./weapons";
+
+export const WEAPON_SOUNDS: Record<WeaponId, Sound> = {
+  // Deep boom with a low thump under it
+  battleCannon: (context, output, time) => {
+    playNoise(context, output, time, {
+      filter: "lowpass",
+      frequency: 1200,
+      endFrequency: 120,
+      duration: 0.7,
+      volume: 0.9,
+    });
+    playTone(context, output, time, {
+      type: "sine",
+      frequency: 110,
+      endFrequency: 35,
+      duration: 0.5,
+      volume: 0.7,
+    });
+    return 0.7;
+  },
+  // Falling electric zap
+  lascannon: (context, output, time) => {
+    playTone(context, output, time, {
+      type: "sawtooth",
+      frequency: 1800,
+      endFrequency: 200,
+      duration: 0.35,
+      volume: 0.3,
+    });
+    playTone(context, output, time, {
+      type: "square",
+      frequency: 900,
+      endFrequency: 120,
+      duration: 0.35,
+      volume: 0.15,
+    });
+    return 0.35;
+  },
+  // Short, sharp crack for each round of the burst
+  autocannon: (context, output, time) => {
+    playNoise(context, output, time, {
+      filter: "bandpass",
+      frequency: 1500,
+      endFrequency: 400,
+      duration: 0.15,
+      volume: 0.6,
+    });
+    playTone(context, output, time, {
+      type: "square",
+      frequency: 180,
+      endFrequency: 60,
+      duration: 0.1,
+      volume: 0.2,
+    });
+    return 0.15;
+  },
+  // Hollow thump of a shell leaving the tube
+  mortar: (context, output, time) => {
+    playTone(context, output, time, {
+      type: "sine",
+      frequency: 160,
+      endFrequency: 50,
+      duration: 0.35,
+      volume: 0.8,
+    });
+    playNoise(context, output, time, {
+      filter: "lowpass",
+      frequency: 600,
+      duration: 0.3,
+      volume: 0.4,
+    });
+    return 0.35;
+  },
+  heavyBolter: (context, output, time) => {
+    playNoise(context, output, time, {
+      filter: "bandpass",
+      frequency: 2200,
+      endFrequency: 700,
+      duration: 0.1,
+      volume: 0.5,
+    });
+    return 0.1;
+  },
+};
+
+// Rumbling blast; bigger explosions are louder, lower and longer
+export const explosionSound =
+  (size: number): Sound =>
+  (context, output, time) => {
+    const duration = 0.5 + size * 0.6;
+    playNoise(context, output, time, {
+      filter: "lowpass",
+      frequency: 2000 / Math.max(0.5, size),
+      endFrequency: 60,
+      duration,
+      volume: Math.min(1, 0.4 + size * 0.4),
+    });
+    playTone(context, output, time, {
+      type: "sine",
+      frequency: 80,
+      endFrequency: 30,
+      duration,
+      volume: Math.min(0.8, 0.3 + size * 0.3),
+    });
+    return duration;
+  };
+
+// Metallic clang of something hitting the hull
+export const hullHitSound: Sound = (context, output, time) => {
+  playTone(context, output, time, {
+    type: "square",
+    frequency: 320,
+    endFrequency: 180,
+    duration: 0.4,
+    volume: 0.2,
+  });
+  playNoise(context, output, time, {
+    filter: "bandpass",
+    frequency: 2500,
+    q: 4,
+    duration: 0.25,
+    volume: 0.5,
+  });
+  return 0.4;
+};
+
+// Engine tone that follows the tank and rises in pitch with its speed
+export function createEngineHum(engine: AudioEngine, position: AudioPosition) {
+  const { context } = engine;
+  const panner = engine.createPanner(position);
+
+  const gain = context.createGain();
+  gain.gain.value = 0;
+  gain.connect(panner);
+
+  const filter = context.createBiquadFilter();
+  filter.type = "lowpass";
+  filter.connect(gain);
+
+  // A buzzing tone over a sub-octave rumble
+  const tone = context.createOscillator();
+  tone.type = "sawtooth";
+  const rumble = context.createOscillator();
+  rumble.type = "sine";
+  tone.connect(filter);
+  rumble.connect(filter);
+  tone.start();
+  rumble.start();
+
+  return {
+    // `throttle` is the speed as a fraction of top speed
+    update(position: AudioPosition, throttle: number) {
+      const now = context.currentTime;
+      const frequency = 45 + throttle * 75;
+
+      engine.setPosition(panner, position);
+      tone.frequency.setTargetAtTime(frequency, now, 0.1);
+      rumble.frequency.setTargetAtTime(frequency / 2, now, 0.1);
+      filter.frequency.setTargetAtTime(300 + throttle * 1200, now, 0.1);
+      gain.gain.setTargetAtTime(0.12 + throttle * 0.12, now, 0.1);
+    },
+
+    stop() {
+      tone.stop();
+      rumble.stop();
+      panner.disconnect();
+    },
+  };
+}
+
+export type EngineHum = ReturnType<typeof createEngineHum>;
@@ -0,0 +1,183 @@
+// Weapon definitions for the hover tank.
+//
+// A weapon is plain data: the simulation reads it to fire, and the renderer
+// reads the projectile and beam descriptions to build meshes. Adding a weapon
+// means adding its id to `WeaponId` and an entry to WEAPONS. Like the rest of
+// the simulation, speeds are per tick and times in milliseconds.
+
+import { Vec3 } from "./simulation";
+
+export type WeaponId =
+  | "battleCannon"
+  | "lascannon"
+  | "autocannon"
+  | "mortar"
+  | "heavyBolter";
+
+// Where a weapon is mounted on the hull. The main turret weapon is switched
+// with the number keys; the side mounts fire on their own triggers.
+export type HardpointId = "main" | "left" | "right";
+
+export interface WeaponDefinition {
+  name: string;
+  // Ballistic weapons fire projectiles that fly and fall; hitscan weapons hit
+  // the first thing along their line instantly
+  kind: "ballistic" | "hitscan";
+  damage: number;
+  // Time from one trigger pull to the next
+  reloadTime: number;
+  // Rounds per trigger pull and the time between them
+  burst: { count: number; interval: number };
+  // Rounds carried at the start, or null for unlimited
+  ammo: number | null;
+  // Damage also reaches targets this close to the impact, falling off with
+  // distance; 0 for no splash
+  splashRadius: number;
+  // Largest random deviation from the aim, in radians
+  spread: number;
+  // Ballistic only: muzzle speed, multiplier on GRAVITY and launch angle
+  // above the barrel's aim, for lobbing shells
+  speed: number;
+  gravity: number;
+  launchAngle: number;
+  // Hitscan only: how far the beam reaches
+  range: number;
+  projectile: {
+    shape: "sphere" | "bolt";
+    size: number;
+    color: number;
+    emissive: number;
+  };
+  // Hitscan only: how the beam looks
+  beam: { width: number; color: number } | null;
+}
+
+export const WEAPONS: Record<WeaponId, WeaponDefinition> = {
+  battleCannon: {
+    name: "Battle Cannon",
+    kind: "ballistic",
+    damage: 35,
+    reloadTime: 1000,
+    burst: { count: 1, interval: 0 },
+    ammo: null,
+    splashRadius: 0,
+    spread: 0,
+    speed: 0.8,
+    gravity: 1,
+    launchAngle: 0,
+    range: 0,
+    projectile: {
+      shape: "sphere",
+      size: 0.3,
+      color: 0xff0000,
+      emissive: 0xff4400,
+    },
+    beam: null,
+  },
+  lascannon: {
+    name: "Lascannon",
+    kind: "hitscan",
+    damage: 60,
+    reloadTime: 1500,
+    burst: { count: 1, interval: 0 },
+    ammo: 20,
+    splashRadius: 0,
+    spread: 0,
+    speed: 0,
+    gravity: 0,
+    launchAngle: 0,
+    range: 80,
+    projectile: {
+      shape: "bolt",
+      size: 0.2,
+      color: 0xff2222,
+      emissive: 0xff0000,
+    },
+    beam: { width: 0.15, color: 0xff3333 },
+  },
+  autocannon: {
+    name: "Autocannon",
+    kind: "ballistic",
+    damage: 12,
+    reloadTime: 600,
+    burst: { count: 3, interval: 100 },
+    ammo: 90,
+    splashRadius: 0,
+    spread: 0.03,
+    speed: 1.2,
+    gravity: 0.3,
+    launchAngle: 0,
+    range: 0,
+    projectile: {
+      shape: "bolt",
+      size: 0.15,
+      color: 0xffcc33,
+      emissive: 0xffaa00,
+    },
+    beam: null,
+  },
+  mortar: {
+    name: "Mortar",
+    kind: "ballistic",
+    damage: 50,
+    reloadTime: 2000,
+    burst: { count: 1, interval: 0 },
+    ammo: 12,
+    splashRadius: 6,
+    spread: 0.02,
+    speed: 0.6,
+    gravity: 1,
+    launchAngle: Math.PI / 4,
+    range: 0,
+    projectile: {
+      shape: "sphere",
+      size: 0.4,
+      color: 0x555555,
+      emissive: 0x331100,
+    },
+    beam: null,
+  },
+  heavyBolter: {
+    name: "Heavy Bolter",
+    kind: "ballistic",
+    damage: 8,
+    reloadTime: 250,
+    burst: { count: 1, interval: 0 },
+    ammo: 200,
+    splashRadius: 0,
+    spread: 0.03,
+    speed: 1,
+    gravity: 0.5,
+    launchAngle: 0,
+    range: 0,
+    projectile: {
+      shape: "bolt",
+      size: 0.12,
+      color: 0xffee88,
+      emissive: 0xffaa33,
+    },
+    beam: null,
+  },
+};
+
+// Main turret weapons in number key order
+export const MAIN_WEAPONS: WeaponId[] = [
+  "battleCannon",
+  "lascannon",
+  "autocannon",
+  "mortar",
+];
+
+// Mount of each hardpoint relative to the hull, before rotation. The side
+// mounts fire straight from here; the main weapon's mount is the turret
+// pivot, and its muzzle sits MAIN_BARREL_LENGTH along the barrel.
+export const HARDPOINT_OFFSETS: Record<HardpointId, Vec3> = {
+  main: { x: 0, y: 1.8, z: 0 },
+  left: { x: -1.5, y: 1.5, z: 1.9 },
+  right: { x: 1.5, y: 1.5, z: 1.9 },
+};
+
+export const MAIN_BARREL_LENGTH = 4.5;
+
+// Time it takes to bring a different main weapon to bear
+export const WEAPON_SWAP_TIME = 300;
@@ -0,0 +1,239 @@
+// Seeded procedural world for the tank arena.
+//
+// The world is endless and split into square chunks. Everything here is a
+// pure function of the seed and world coordinates, so the simulation can ask
+// for the ground height anywhere and the renderer can build any chunk on
+// demand, and two players with the same seed get exactly the same map.
+
+import type { Vec3 } from "./simulation";
+import { createRandom } from "./random";
+
+export const CHUNK_SIZE = 50;
+export const CHUNK_RESOLUTION = 25; // Height samples per chunk side
+export const VIEW_DISTANCE = 2; // Chunks kept loaded around the tank
+
+export const ROAD_HALF_WIDTH = 5;
+const ROAD_SEGMENT_LENGTH = 40; // Distance between road spline control points
+const ROAD_SWAY = 30; // Maximum sideways offset of a control point
+const ROAD_SHOULDER = 2; // Flat ground either side of the road
+const ROAD_BLEND = 10; // Distance over which terrain rises away from the road
+
+const TERRAIN_HEIGHT = 4;
+const TERRAIN_SCALE = 0.025;
+
+const TREES_PER_CHUNK = 12;
+const ROCKS_PER_CHUNK = 6;
+
+export type PropType = "tree" | "rock";
+
+export interface ChunkProp {
+  type: PropType;
+  position: Vec3;
+  scale: number;
+  rotation: number;
+}
+
+export interface RoadSample {
+  center: Vec3;
+  // Unit vector pointing across the road
+  side: Vec3;
+}
+
+export interface ChunkData {
+  key: string;
+  cx: number;
+  cz: number;
+  // World coordinates of the chunk's minimum corner
+  originX: number;
+  originZ: number;
+  // (CHUNK_RESOLUTION + 1)^2 heights, row by row along +z
+  heights: number[];
+  // Road centreline samples owned by this chunk (empty if none)
+  road: RoadSample[];
+  props: ChunkProp[];
+}
+
+// Integer hash of a seed and up to two coordinates, mapped to [0, 1)
+const hash = (seed: number, x: number, z = 0) => {
+  let h = seed ^ Math.imul(x, 374761393) ^ Math.imul(z, 668265263);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  h ^= h >>> 16;
+  return (h >>> 0) / 4294967296;
+};
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+// Smoothly interpolated value noise in [-1, 1]
+const valueNoise = (seed: number, x: number, z: number) => {
+  const x0 = Math.floor(x);
+  const z0 = Math.floor(z);
+  const tx = smoothstep(0, 1, x - x0);
+  const tz = smoothstep(0, 1, z - z0);
+
+  const a = hash(seed, x0, z0);
+  const b = hash(seed, x0 + 1, z0);
+  const c = hash(seed, x0, z0 + 1);
+  const d = hash(seed, x0 + 1, z0 + 1);
+
+  const top = a + (b - a) * tx;
+  const bottom = c + (d - c) * tx;
+  return (top + (bottom - top) * tz) * 2 - 1;
+};
+
+// Sideways offset of the road control point with the given index
+const roadControlPoint = (seed: number, index: number) =>
+  // Keep the spawn area straight so the tank starts on the road
+  Math.abs(index) <= 1 ? 0 : (hash(seed ^ 0x9e3779b9, index) * 2 - 1) * ROAD_SWAY;
+
+// Catmull-Rom spline through the control points: x position of the road
+// centreline at a given z
+export const roadCenterX = (seed: number, z: number) => {
+  const t = z / ROAD_SEGMENT_LENGTH;
+  const i = Math.floor(t);
+  const f = t - i;
+
+  const p0 = roadControlPoint(seed, i - 1);
+  const p1 = roadControlPoint(seed, i);
+  const p2 = roadControlPoint(seed, i + 1);
+  const p3 = roadControlPoint(seed, i + 2);
+
+  return (
+    0.5 *
+    (2 * p1 +
+      (-p0 + p2) * f +
+      (2 * p0 - 5 * p1 + 4 * p2 - p3) * f * f +
+      (-p0 + 3 * p1 - 3 * p2 + p3) * f * f * f)
+  );
+};
+
+// Horizontal distance from a point to the road centreline
+export const distanceToRoad = (seed: number, x: number, z: number) =>
+  Math.abs(x - roadCenterX(seed, z));
+
+// Ground height at a world position. The road and its shoulders stay flat
+// at y = 0 and the terrain rolls in beside them.
+export const terrainHeight = (seed: number, x: number, z: number) => {
+  const blend = smoothstep(
+    ROAD_HALF_WIDTH + ROAD_SHOULDER,
+    ROAD_HALF_WIDTH + ROAD_SHOULDER + ROAD_BLEND,
+    distanceToRoad(seed, x, z)
+  );
+  if (blend === 0) return 0;
+
+  const sx = x * TERRAIN_SCALE;
+  const sz = z * TERRAIN_SCALE;
+  const noise =
+    valueNoise(seed, sx, sz) * 0.6 +
+    valueNoise(seed + 1, sx * 2, sz * 2) * 0.3 +
+    valueNoise(seed + 2, sx * 4, sz * 4) * 0.1;
+
+  return noise * TERRAIN_HEIGHT * blend;
+};
+
+export const chunkKey = (cx: number, cz: number) => `${cx},${cz}`;
+
+export const chunkCoord = (value: number) => Math.floor(value / CHUNK_SIZE);
+
+// Keys of every chunk that should be loaded around a position
+export const chunksAround = (x: number, z: number, radius = VIEW_DISTANCE) => {
+  const centerX = chunkCoord(x);
+  const centerZ = chunkCoord(z);
+  const chunks: { cx: number; cz: number; key: string }[] = [];
+
+  for (let cz = centerZ - radius; cz <= centerZ + radius; cz++) {
+    for (let cx = centerX - radius; cx <= centerX + radius; cx++) {
+      chunks.push({ cx, cz, key: chunkKey(cx, cz) });
+    }
+  }
+
+  return chunks;
+};
+
+// Sample the road centreline for the stretch of z covered by a chunk. A
+// stretch belongs to the chunk that contains its midpoint so neighbouring
+// chunks never build the same piece of road twice.
+const generateRoad = (seed: number, cx: number, cz: number) => {
+  const originZ = cz * CHUNK_SIZE;
+  const midX = roadCenterX(seed, originZ + CHUNK_SIZE / 2);
+  if (chunkCoord(midX) !== cx) return [];
+
+  const samples: RoadSample[] = [];
+  const step = 2;
+
+  for (let z = originZ; z <= originZ + CHUNK_SIZE; z += step) {
+    const x = roadCenterX(seed, z);
+    const dx = roadCenterX(seed, z + 0.5) - roadCenterX(seed, z - 0.5);
+    const length = Math.sqrt(dx * dx + 1);
+
+    samples.push({
+      center: { x, y: 0, z },
+      side: { x: 1 / length, y: 0, z: -dx / length },
+    });
+  }
+
+  return samples;
+};
+
+// Scatter trees and rocks off the road
+const generateProps = (seed: number, cx: number, cz: number) => {
+  const random = createRandom(Math.floor(hash(seed, cx, cz) * 4294967296));
+  const props: ChunkProp[] = [];
+
+  const scatter = (type: PropType, count: number, clearance: number) => {
+    for (let i = 0; i < count; i++) {
+      const x = (cx + random()) * CHUNK_SIZE;
+      const z = (cz + random()) * CHUNK_SIZE;
+      const scale = type === "tree" ? 0.8 + random() * 0.6 : 0.5 + random();
+      const rotation = random() * Math.PI * 2;
+
+      // Don't place props on the road
+      if (distanceToRoad(seed, x, z) < ROAD_HALF_WIDTH + clearance) continue;
+
+      props.push({
+        type,
+        position: { x, y: terrainHeight(seed, x, z), z },
+        scale,
+        rotation,
+      });
+    }
+  };
+
+  scatter("tree", TREES_PER_CHUNK, 3);
+  scatter("rock", ROCKS_PER_CHUNK, 2);
+
+  return props;
+};
+
+// Build everything needed to render one chunk
+export const generateChunk = (
+  seed: number,
+  cx: number,
+  cz: number
+): ChunkData => {
+  const originX = cx * CHUNK_SIZE;
+  const originZ = cz * CHUNK_SIZE;
+  const cell = CHUNK_SIZE / CHUNK_RESOLUTION;
+  const heights: number[] = [];
+
+  for (let row = 0; row <= CHUNK_RESOLUTION; row++) {
+    for (let col = 0; col <= CHUNK_RESOLUTION; col++) {
+      heights.push(
+        terrainHeight(seed, originX + col * cell, originZ + row * cell)
+      );
+    }
+  }
+
+  return {
+    key: chunkKey(cx, cz),
+    cx,
+    cz,
+    originX,
+    originZ,
+    heights,
+    road: generateRoad(seed, cx, cz),
+    props: generateProps(seed, cx, cz),
+  };
+};
@@ -0,0 +1,24 @@
+import { useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { AudioEngine } from "@/lib/audio";
+
+interface AudioListenerProps {
+  audio: AudioEngine | null;
+}
+
+// Hear the world from the camera
+export function AudioListener({ audio }: AudioListenerProps) {
+  const forward = useRef(new THREE.Vector3());
+
+  useFrame(({ camera }) => {
+    if (!audio) return;
+    audio.setListener(
+      camera.position,
+      camera.getWorldDirection(forward.current),
+      camera.up
+    );
+  });
+
+  return null;
+}
@@ -0,0 +1,236 @@
+import { Ref, useEffect, useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import { useSphere } from "@react-three/cannon";
+import * as THREE from "three";
+import { Enemy as EnemyData } from "@/games/witcher/types/game";
+import { enemyStore } from "@/games/witcher/store/enemyStore";
+import { useEnemy } from "@/games/witcher/hooks/useEnemies";
+import {
+  EnvironmentLayout,
+  WATER_SPEED_MULTIPLIER,
+  isInWater,
+} from "@/games/witcher/lib/environmentLayout";
+import {
+  SignZone,
+  YRDEN_SPEED_MULTIPLIER,
+  isInSignZone,
+} from "@/games/witcher/lib/signs";
+import {
+  AIContext,
+  createAIMemory,
+  runBehavior,
+} from "@/games/witcher/lib/ai/behavior";
+import { CREATURES } from "@/games/witcher/lib/ai/creatures";
+import { NavGrid } from "@/games/witcher/lib/ai/navigation";
+import { ENEMY_MODELS } from "./EnemyModels";
+
+interface EnemyProps {
+  id: string;
+  layout: EnvironmentLayout;
+  navGrid: NavGrid;
+  // Yrden traps slowing down anything inside them
+  slowZones: SignZone[];
+  playerPosition: THREE.Vector3;
+  onAttackPlayer: (id: string, damage: number) => void;
+}
+
+export function Enemy({
+  id,
+  layout,
+  navGrid,
+  slowZones,
+  playerPosition,
+  onAttackPlayer,
+}: EnemyProps) {
+  const enemy = useEnemy(id);
+  const creature = CREATURES[enemy?.type ?? "wolf"];
+  const body = creature.body;
+
+  // The outer group follows the physics body; the model inside it turns
+  const [group, api] = useSphere<THREE.Group>(() => {
+    const [x, , z] = enemy?.position ?? [0, 0, 0];
+    return {
+      mass: body.mass,
+      args: [body.radius],
+      position: [x, body.radius, z],
+      fixedRotation: true,
+    };
+  });
+  const model = useRef<THREE.Group>(null);
+
+  // Keep track of the falling speed so the AI only drives horizontal velocity
+  const verticalVelocity = useRef(0);
+  useEffect(
+    () => api.velocity.subscribe((velocity) => (verticalVelocity.current = velocity[1])),
+    [api]
+  );
+
+  // Behavior tree memory; home is where the enemy spawned
+  const memory = useRef(
+    createAIMemory(new THREE.Vector3(...(enemy?.position ?? [0, 0, 0])))
+  );
+
+  // AI behavior
+  useFrame(() => {
+    // Read the latest state from the store rather than the render closure
+    const enemy = enemyStore.get(id);
+    if (!group.current || !model.current || !enemy || enemy.isDead) return;
+
+    // Update position from the physics body
+    enemyStore.setTransform(
+      id,
+      [
+        group.current.position.x,
+        group.current.position.y - body.radius,
+        group.current.position.z,
+      ],
+      [0, model.current.rotation.y, 0]
+    );
+
+    // Aard knockback: hand the push to the physics body once
+    if (enemy.knockback) {
+      api.velocity.set(...enemy.knockback);
+      enemyStore.update(id, { knockback: null });
+    }
+
+    // A staggered enemy reels for a moment: no steering, no attacking. The
+    // body is left to physics so a knockback carries it and friction stops it.
+    if (enemy.isStaggered) {
+      model.current.rotation.z = Math.sin(Date.now() * 0.02) * 0.2;
+      return;
+    }
+    model.current.rotation.z = 0;
+
+    // Charmed by Axii: stand still and leave the player alone
+    if (enemy.aggroState === "charmed") {
+      api.velocity.set(0, verticalVelocity.current, 0);
+      return;
+    }
+
+    // Slow down while wading through water or caught in a Yrden trap
+    const { x, z } = group.current.position;
+    const speedMultiplier =
+      (isInWater(layout, x, z) ? WATER_SPEED_MULTIPLIER : 1) *
+      (isInSignZone(slowZones, x, z) ? YRDEN_SPEED_MULTIPLIER : 1);
+
+    // Set on another creature: go after it while it lives, then the player
+    const prey = enemy.huntingId ? enemyStore.get(enemy.huntingId) : undefined;
+    const hunting = prey && !prey.isDead ? prey : null;
+
+    // Horizontal velocity handed to the physics body this frame
+    const velocity = new THREE.Vector3();
+    const facing = model.current;
+
+    const context: AIContext = {
+      enemy,
+      position: new THREE.Vector3(...enemy.position),
+      playerPosition: hunting
+        ? new THREE.Vector3(...hunting.position)
+        : playerPosition,
+      others: enemyStore.getAll(),
+      navGrid,
+      memory: memory.current,
+      now: Date.now(),
+      move(direction, speed) {
+        velocity.copy(direction).multiplyScalar(speed * speedMultiplier);
+        facing.rotation.y = Math.atan2(direction.x, direction.z);
+      },
+      face(target) {
+        facing.rotation.y = Math.atan2(target.x - x, target.z - z);
+      },
+      setAggroState(aggroState) {
+        if (enemy.aggroState !== aggroState) {
+          enemyStore.update(id, { aggroState });
+        }
+      },
+      attackPlayer(damage) {
+        enemyStore.update(id, { isAttacking: true });
+        if (hunting) {
+          enemyStore.damage(hunting.id, damage);
+        } else {
+          onAttackPlayer(id, damage);
+        }
+
+        // Reset attack state after animation
+        setTimeout(() => {
+          enemyStore.update(id, { isAttacking: false });
+        }, 300);
+      },
+      update(patch) {
+        enemyStore.update(id, patch);
+      },
+    };
+
+    runBehavior(creature.behavior, context);
+
+    api.velocity.set(velocity.x, verticalVelocity.current, velocity.z);
+  });
+
+  if (!enemy) return null;
+
+  return (
+    <group ref={group}>
+      <EnemyFigure enemy={enemy} radius={body.radius} model={model} />
+    </group>
+  );
+}
+
+interface EnemyFigureProps {
+  enemy: EnemyData;
+  // Body radius; the group this sits in is centred that far off the ground
+  radius: number;
+  // Model group, turned by the owner to face where the enemy is heading
+  model: Ref<THREE.Group>;
+}
+
+// The creature with its burning, charm and health bar overlays. Shared by
+// simulated enemies and ones following a multiplayer server.
+export function EnemyFigure({ enemy, radius, model }: EnemyFigureProps) {
+  if (enemy.isDead) return null;
+
+  const Model = ENEMY_MODELS[enemy.type];
+
+  return (
+    <>
+      <group ref={model} position={[0, -radius, 0]}>
+        <Model enemy={enemy} />
+      </group>
+
+      {/* Igni flames */}
+      {enemy.burningUntil > 0 && (
+        <mesh position={[0, 1.4 - radius, 0]}>
+          <coneGeometry args={[0.3, 0.8, 8]} />
+          <meshStandardMaterial
+            color="#ff6a00"
+            emissive="#ff3300"
+            emissiveIntensity={2}
+            transparent
+            opacity={0.8}
+          />
+        </mesh>
+      )}
+
+      {/* Axii charm */}
+      {enemy.aggroState === "charmed" && (
+        <mesh position={[0, 2.4 - radius, 0]} rotation={[Math.PI / 2, 0, 0]}>
+          <torusGeometry args={[0.25, 0.05, 8, 16]} />
+          <meshStandardMaterial color="#4caf50" emissive="#4caf50" />
+        </mesh>
+      )}
+
+      {/* Health bar */}
+      <mesh position={[0, 2 - radius, 0]} rotation={[0, 0, 0]}>
+        <planeGeometry args={[1, 0.2]} />
+        <meshBasicMaterial color="red" side={THREE.DoubleSide} />
+      </mesh>
+      <mesh
+        position={[-(1 - enemy.health / enemy.maxHealth) / 2, 2 - radius, 0.01]}
+        rotation={[0, 0, 0]}
+        scale={[enemy.health / enemy.maxHealth, 1, 1]}
+      >
+        <planeGeometry args={[1, 0.2]} />
+        <meshBasicMaterial color="green" side={THREE.DoubleSide} />
+      </mesh>
+    </>
+  );
+}
@@ -0,0 +1,171 @@
+import { ComponentType } from "react";
+import { Enemy } from "@/games/witcher/types/game";
+
+interface EnemyModelProps {
+  enemy: Enemy;
+}
+
+function WolfModel({ enemy }: EnemyModelProps) {
+  return (
+    <group>
+      {/* Wolf body */}
+      <mesh position={[0, 0.5, 0]}>
+        <capsuleGeometry args={[0.3, 0.8, 8, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#ff3333" : "#777777"} roughness={0.8} />
+      </mesh>
+      {/* Wolf head */}
+      <mesh position={[0, 0.6, 0.5]}>
+        <sphereGeometry args={[0.25, 8, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#ff3333" : "#777777"} roughness={0.7} />
+      </mesh>
+      {/* Wolf snout */}
+      <mesh position={[0, 0.5, 0.7]} rotation={[Math.PI/2, 0, 0]}>
+        <coneGeometry args={[0.15, 0.3, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#ff3333" : "#666666"} roughness={0.7} />
+      </mesh>
+      {/* Wolf legs */}
+      <mesh position={[-0.2, 0.2, 0.3]}>
+        <capsuleGeometry args={[0.08, 0.4, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#ff3333" : "#777777"} roughness={0.8} />
+      </mesh>
+      <mesh position={[0.2, 0.2, 0.3]}>
+        <capsuleGeometry args={[0.08, 0.4, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#ff3333" : "#777777"} roughness={0.8} />
+      </mesh>
+      <mesh position={[-0.2, 0.2, -0.3]}>
+        <capsuleGeometry args={[0.08, 0.4, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#ff3333" : "#777777"} roughness={0.8} />
+      </mesh>
+      <mesh position={[0.2, 0.2, -0.3]}>
+        <capsuleGeometry args={[0.08, 0.4, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#ff3333" : "#777777"} roughness={0.8} />
+      </mesh>
+      {/* Wolf tail */}
+      <mesh position={[0, 0.5, -0.6]} rotation={[0.3, 0, 0]}>
+        <capsuleGeometry args={[0.05, 0.5, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#ff3333" : "#777777"} roughness={0.8} />
+      </mesh>
+    </group>
+  );
+}
+
+function BearModel({ enemy }: EnemyModelProps) {
+  return (
+    <group>
+      {/* Bear body */}
+      <mesh position={[0, 0.7, 0]}>
+        <capsuleGeometry args={[0.6, 1.2, 8, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc3300" : "#663300"} roughness={0.9} />
+      </mesh>
+      {/* Bear head */}
+      <mesh position={[0, 1.1, 0.7]}>
+        <sphereGeometry args={[0.4, 8, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc3300" : "#663300"} roughness={0.9} />
+      </mesh>
+      {/* Bear snout */}
+      <mesh position={[0, 1.0, 1.0]}>
+        <sphereGeometry args={[0.2, 8, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc3300" : "#552200"} roughness={0.9} />
+      </mesh>
+      {/* Bear ears */}
+      <mesh position={[-0.3, 1.3, 0.7]}>
+        <sphereGeometry args={[0.1, 8, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc3300" : "#663300"} roughness={0.9} />
+      </mesh>
+      <mesh position={[0.3, 1.3, 0.7]}>
+        <sphereGeometry args={[0.1, 8, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc3300" : "#663300"} roughness={0.9} />
+      </mesh>
+      {/* Bear legs */}
+      <mesh position={[-0.4, 0.3, 0.4]}>
+        <capsuleGeometry args={[0.15, 0.6, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc3300" : "#663300"} roughness={0.9} />
+      </mesh>
+      <mesh position={[0.4, 0.3, 0.4]}>
+        <capsuleGeometry args={[0.15, 0.6, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc3300" : "#663300"} roughness={0.9} />
+      </mesh>
+      <mesh position={[-0.4, 0.3, -0.4]}>
+        <capsuleGeometry args={[0.15, 0.6, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc3300" : "#663300"} roughness={0.9} />
+      </mesh>
+      <mesh position={[0.4, 0.3, -0.4]}>
+        <capsuleGeometry args={[0.15, 0.6, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc3300" : "#663300"} roughness={0.9} />
+      </mesh>
+      {/* Glowing eyes once enraged */}
+      {enemy.isEnraged && (
+        <>
+          <mesh position={[-0.15, 1.2, 1.02]}>
+            <sphereGeometry args={[0.06, 8, 8]} />
+            <meshStandardMaterial color="#ff0000" emissive="#ff0000" emissiveIntensity={2} />
+          </mesh>
+          <mesh position={[0.15, 1.2, 1.02]}>
+            <sphereGeometry args={[0.06, 8, 8]} />
+            <meshStandardMaterial color="#ff0000" emissive="#ff0000" emissiveIntensity={2} />
+          </mesh>
+        </>
+      )}
+    </group>
+  );
+}
+
+function DeerModel({ enemy }: EnemyModelProps) {
+  return (
+    <group>
+      {/* Deer body */}
+      <mesh position={[0, 0.8, 0]}>
+        <capsuleGeometry args={[0.3, 1.0, 8, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc9966" : "#d2b48c"} roughness={0.7} />
+      </mesh>
+      {/* Deer head */}
+      <mesh position={[0, 1.2, 0.6]}>
+        <sphereGeometry args={[0.2, 8, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc9966" : "#d2b48c"} roughness={0.7} />
+      </mesh>
+      {/* Deer snout */}
+      <mesh position={[0, 1.1, 0.8]}>
+        <coneGeometry args={[0.1, 0.3, 8]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc9966" : "#c4a484"} roughness={0.7} />
+      </mesh>
+      {/* Deer antlers */}
+      <mesh position={[-0.1, 1.4, 0.5]} rotation={[0.2, 0.3, 0]}>
+        <cylinderGeometry args={[0.02, 0.02, 0.4, 6]} />
+        <meshStandardMaterial color="#8b7355" roughness={0.9} />
+      </mesh>
+      <mesh position={[0.1, 1.4, 0.5]} rotation={[0.2, -0.3, 0]}>
+        <cylinderGeometry args={[0.02, 0.02, 0.4, 6]} />
+        <meshStandardMaterial color="#8b7355" roughness={0.9} />
+      </mesh>
+      {/* Deer legs */}
+      <mesh position={[-0.2, 0.4, 0.3]}>
+        <capsuleGeometry args={[0.06, 0.8, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc9966" : "#d2b48c"} roughness={0.7} />
+      </mesh>
+      <mesh position={[0.2, 0.4, 0.3]}>
+        <capsuleGeometry args={[0.06, 0.8, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc9966" : "#d2b48c"} roughness={0.7} />
+      </mesh>
+      <mesh position={[-0.2, 0.4, -0.3]}>
+        <capsuleGeometry args={[0.06, 0.8, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc9966" : "#d2b48c"} roughness={0.7} />
+      </mesh>
+      <mesh position={[0.2, 0.4, -0.3]}>
+        <capsuleGeometry args={[0.06, 0.8, 4, 4]} />
+        <meshStandardMaterial color={enemy.isAttacking ? "#cc9966" : "#d2b48c"} roughness={0.7} />
+      </mesh>
+      {/* Deer tail */}
+      <mesh position={[0, 0.8, -0.6]}>
+        <sphereGeometry args={[0.08, 8, 8]} />
+        <meshStandardMaterial color="#ffffff" roughness={0.7} />
+      </mesh>
+    </group>
+  );
+}
+
+// More realistic animal models based on type
+export const ENEMY_MODELS: Record<Enemy["type"], ComponentType<EnemyModelProps>> = {
+  wolf: WolfModel,
+  bear: BearModel,
+  deer: DeerModel,
+};
@@ -1,11 +1,19 @@
 import { useRef, useMemo } from "react";
 import { useFrame } from "@react-three/fiber";
+import { useBox, useCylinder, usePlane, useSphere } from "@react-three/cannon";
 import * as THREE from "three";
+import {
+  EnvironmentLayout,
+  RockLayout,
+  TreeLayout,
+  WORLD_HALF_SIZE,
+} from "@/games/witcher/lib/environmentLayout";
 
-export function Environment() {
-  // Create a reference for the grass
-  const grassRef = useRef<THREE.Mesh>(null);
+interface EnvironmentProps {
+  layout: EnvironmentLayout;
+}
 
+export function Environment({ layout }: EnvironmentProps) {
   // Create fog for atmospheric depth
   const fog = useMemo(() => new THREE.FogExp2("#b9d5ff", 0.005), []);
 
@@ -15,6 +23,10 @@ export function Environment() {
       <fog attach="fog" args={[fog.color, fog.density]} />
       <color attach="background" args={["#b9d5ff"]} />
 
+      {/* Physics ground and invisible walls around the playable area */}
+      <Ground />
+      <BoundaryWalls />
+
       {/* Simple reliable ground - no textures */}
       <mesh
         rotation={[-Math.PI / 2, 0, 0]}
@@ -61,118 +73,138 @@ export function Environment() {
       />
 
       {/* Add some trees */}
-      <TreeGroup position={[10, 0, 10]} count={5} radius={5} />
-      <TreeGroup position={[-15, 0, -8]} count={7} radius={8} />
-      <TreeGroup position={[5, 0, -20]} count={4} radius={6} />
+      <TreeGroup trees={layout.trees} />
 
       {/* Add some rocks */}
-      <RockGroup position={[-5, 0, 15]} count={8} radius={4} />
-      <RockGroup position={[20, 0, -5]} count={6} radius={3} />
+      <RockGroup rocks={layout.rocks} />
 
-      {/* Add water */}
-      <Water position={[30, -0.05, -15]} size={[20, 20]} />
+      {/* Add water - a slow zone rather than a collider */}
+      {layout.water.map((water, i) => (
+        <Water key={`water-${i}`} position={water.position} size={water.size} />
+      ))}
     </group>
   );
 }
 
-// Helper component to create a group of trees
-function TreeGroup({
+// Static physics plane the characters stand on
+function Ground() {
+  const [ref] = usePlane<THREE.Group>(() => ({
+    type: "Static",
+    rotation: [-Math.PI / 2, 0, 0],
+    position: [0, 0, 0],
+  }));
+
+  return <group ref={ref} />;
+}
+
+// Invisible walls that keep everything inside the map
+function BoundaryWalls() {
+  const thickness = 1;
+  const height = 4;
+  const length = WORLD_HALF_SIZE * 2 + thickness * 2;
+  const offset = WORLD_HALF_SIZE + thickness / 2;
+
+  return (
+    <>
+      <BoundaryWall position={[0, height / 2, offset]} args={[length, height, thickness]} />
+      <BoundaryWall position={[0, height / 2, -offset]} args={[length, height, thickness]} />
+      <BoundaryWall position={[offset, height / 2, 0]} args={[thickness, height, length]} />
+      <BoundaryWall position={[-offset, height / 2, 0]} args={[thickness, height, length]} />
+    </>
+  );
+}
+
+function BoundaryWall({
   position,
-  count,
-  radius,
+  args,
 }: {
   position: [number, number, number];
-  count: number;
-  radius: number;
+  args: [number, number, number];
 }) {
-  // Create array to hold tree elements
-  const trees = [];
+  const [ref] = useBox<THREE.Group>(() => ({ type: "Static", position, args }));
 
-  // Note: We're not loading a 3D model since the file is missing
-  // This component will use the fallback geometry instead
+  return <group ref={ref} />;
+}
+
+// Helper component to create a group of trees
+function TreeGroup({ trees }: { trees: TreeLayout[] }) {
+  return (
+    <>
+      {trees.map((tree, i) => (
+        <Tree key={`tree-${i}`} tree={tree} />
+      ))}
+    </>
+  );
+}
+
+// A single tree with a static trunk collider
+function Tree({ tree }: { tree: TreeLayout }) {
+  const { position, rotation, scale, radius } = tree;
+  const trunkHeight = 3 * scale;
 
-  for (let i = 0; i < count; i++) {
-    // Position trees in a circle
-    const angle = (i / count) * Math.PI * 2;
-    const x = position[0] + Math.cos(angle) * radius * Math.random();
-    const z = position[2] + Math.sin(angle) * radius * Math.random();
-    const scale = 0.8 + Math.random() * 0.4;
-    const rotation = Math.random() * Math.PI * 2;
+  const [ref] = useCylinder<THREE.Group>(() => ({
+    type: "Static",
+    args: [radius, radius, trunkHeight, 8],
+    position: [position[0], trunkHeight / 2, position[2]],
+  }));
 
-    trees.push(
+  // Note: We're not loading a 3D model since the file is missing
+  // This component will use the fallback geometry instead
+  return (
+    <group ref={ref}>
       <group
-        key={`tree-${i}`}
-        position={[x, 0, z]}
+        position={[0, -trunkHeight / 2, 0]}
         rotation={[0, rotation, 0]}
         scale={[scale, scale, scale]}
       >
-        {/* Fallback to simple geometry if model isn't loaded */}
-        <>
-          {/* Tree trunk */}
-          <mesh position={[0, 1.5, 0]} castShadow>
-            <cylinderGeometry args={[0.2, 0.4, 3, 8]} />
-            <meshStandardMaterial color="#5c4033" roughness={1} />
-          </mesh>
-
-          {/* Tree top */}
-          <mesh position={[0, 3.5, 0]} castShadow>
-            <coneGeometry args={[1.5, 3, 8]} />
-            <meshStandardMaterial color="#1e5631" roughness={0.8} />
-          </mesh>
-        </>
-      </group>
-    );
-  }
+        {/* Tree trunk */}
+        <mesh position={[0, 1.5, 0]} castShadow>
+          <cylinderGeometry args={[0.2, 0.4, 3, 8]} />
+          <meshStandardMaterial color="#5c4033" roughness={1} />
+        </mesh>
 
-  return <>{trees}</>;
+        {/* Tree top */}
+        <mesh position={[0, 3.5, 0]} castShadow>
+          <coneGeometry args={[1.5, 3, 8]} />
+          <meshStandardMaterial color="#1e5631" roughness={0.8} />
+        </mesh>
+      </group>
+    </group>
+  );
 }
 
 // Helper component to create a group of rocks
-function RockGroup({
-  position,
-  count,
-  radius,
-}: {
-  position: [number, number, number];
-  count: number;
-  radius: number;
-}) {
-  // Create array to hold rock elements
-  const rocks = [];
+function RockGroup({ rocks }: { rocks: RockLayout[] }) {
+  return (
+    <>
+      {rocks.map((rock, i) => (
+        <Rock key={`rock-${i}`} rock={rock} />
+      ))}
+    </>
+  );
+}
 
-  // Note: We're not loading a 3D model since the file is missing
-  // This component will use the fallback geometry instead
+// A single rock with a static sphere collider
+function Rock({ rock }: { rock: RockLayout }) {
+  const { position, rotation, scale, radius } = rock;
 
-  for (let i = 0; i < count; i++) {
-    // Position rocks in a circle with some randomness
-    const angle = (i / count) * Math.PI * 2;
-    const distance = radius * Math.random();
-    const x = position[0] + Math.cos(angle) * distance;
-    const z = position[2] + Math.sin(angle) * distance;
-    const scale = 0.5 + Math.random();
-    const rotation = [
-      Math.random() * Math.PI,
-      Math.random() * Math.PI,
-      Math.random() * Math.PI,
-    ];
-
-    rocks.push(
-      <group
-        key={`rock-${i}`}
-        position={[x, 0, z]}
-        rotation={rotation as any}
-        scale={[scale, scale, scale]}
-      >
+  const [ref] = useSphere<THREE.Group>(() => ({
+    type: "Static",
+    args: [radius],
+    position,
+  }));
+
+  return (
+    <group ref={ref}>
+      <group rotation={rotation} scale={[scale, scale, scale]}>
         {/* Fallback to simple geometry if model isn't loaded */}
         <mesh castShadow>
           <dodecahedronGeometry args={[scale / 2, 1]} />
           <meshStandardMaterial color="#777777" roughness={0.9} />
         </mesh>
       </group>
-    );
-  }
-
-  return <>{rocks}</>;
+    </group>
+  );
 }
 
 // Water component with realistic effect
@@ -220,7 +252,7 @@ function Water({
   }, []);
 
   // Animate water using procedural animation instead of texture loading
-  useFrame((state, delta) => {
+  useFrame((state) => {
     if (waterRef.current) {
       const time = state.clock.getElapsedTime();
       // Use the existing texture for animation
@@ -0,0 +1,1008 @@
+import { useRef, useState, useEffect, useMemo } from "react";
+import { Canvas } from "@react-three/fiber";
+import { Physics } from "@react-three/cannon";
+import { useGameControls } from "@/games/witcher/hooks/useGameControls";
+import { useTouchDevice } from "@/hooks/useTouchDevice";
+import { Player, PlayerCombatState } from "./Player";
+import { Enemy } from "./Enemy";
+import { Environment } from "./Environment";
+import { QuestMarkers } from "./QuestMarkers";
+import { Pickups } from "./Pickups";
+import { Herbs } from "./Herbs";
+import { SignEffects } from "./SignEffects";
+import { GameOverlay } from "../ui/GameOverlay";
+import { TouchControls } from "../ui/TouchControls";
+import { AudioListener } from "./AudioListener";
+import { Lighting } from "./Lighting";
+import {
+  Enemy as EnemyData,
+  GameState,
+  SignType,
+} from "@/games/witcher/types/game";
+import { enemyStore, EnemyType } from "@/games/witcher/store/enemyStore";
+import { useEnemies } from "@/games/witcher/hooks/useEnemies";
+import { questStore } from "@/games/witcher/store/questStore";
+import { inventoryStore } from "@/games/witcher/store/inventoryStore";
+import { PICKUP_RADIUS, pickupStore } from "@/games/witcher/store/pickupStore";
+import { statusEffectStore } from "@/games/witcher/store/statusEffectStore";
+import { herbStore } from "@/games/witcher/store/herbStore";
+import { useInventory } from "@/games/witcher/hooks/useInventory";
+import { useStatusEffects } from "@/games/witcher/hooks/useStatusEffects";
+import { createEnvironmentLayout } from "@/games/witcher/lib/environmentLayout";
+import { createNavGrid } from "@/games/witcher/lib/ai/navigation";
+import { CREATURES } from "@/games/witcher/lib/ai/creatures";
+import { randomSeed } from "@/games/witcher/lib/random";
+import {
+  MAX_STAMINA,
+  PlayerAttack,
+  STAGGER_DURATION,
+  STAMINA_REGEN_DELAY,
+  attackDamage,
+  resolveHit,
+} from "@/games/witcher/lib/combat";
+import {
+  ITEMS,
+  ItemId,
+  createInventory,
+  equipmentModifiers,
+  rollLoot,
+} from "@/games/witcher/lib/items";
+import {
+  hasNightVision,
+  oilMultiplier,
+  statusEffectModifiers,
+  statusEffectRegen,
+} from "@/games/witcher/lib/statusEffects";
+import { QUICK_SLOT_ACTIONS } from "@/games/witcher/lib/input";
+import {
+  BASE_STATS,
+  Progression,
+  SkillId,
+  computeStats,
+  createProgression,
+  gainExperience,
+  learnSkill,
+  levelForExperience,
+} from "@/games/witcher/lib/progression";
+import {
+  IGNI_BURN_TICK,
+  SignEffect,
+  SignZone,
+  createSignCooldowns,
+  igniBurnDamage,
+  resolveSign,
+} from "@/games/witcher/lib/signs";
+import {
+  AUTOSAVE_INTERVAL,
+  AUTOSAVE_SLOT,
+  SaveData,
+  createSaveData,
+  deleteSave,
+  loadHerbs,
+  loadPickups,
+  loadStatusEffects,
+  readSave,
+  writeSave,
+} from "@/games/witcher/lib/saveGame";
+import * as THREE from "three";
+import { Stats } from "@react-three/drei";
+import { useSettings } from "@/hooks/useSettings";
+import { recordHighScore } from "@/lib/highScores";
+import { AudioEngine, createAudioEngine } from "@/lib/audio";
+import { Music, createMusic } from "@/lib/music";
+import {
+  AGGRO_SOUNDS,
+  SWING_SOUNDS,
+  blockSound,
+  hitSound,
+} from "@/games/witcher/lib/sounds";
+
+// Snapshot of the current run for a save slot
+const buildSave = (
+  worldSeed: number,
+  gameState: GameState,
+  position: THREE.Vector3,
+  facing: number
+): SaveData =>
+  createSaveData({
+    worldSeed,
+    elapsedTime: gameState.elapsedTime,
+    score: gameState.score,
+    player: {
+      position: [position.x, position.y, position.z],
+      facing,
+      health: gameState.playerHealth,
+      stamina: gameState.playerStamina,
+    },
+    enemies: enemyStore.getAll(),
+    quests: questStore.getProgress(),
+    progression: gameState.progression,
+    inventory: inventoryStore.get(),
+    statusEffects: statusEffectStore.getAll(),
+    herbs: herbStore.getAll(),
+    pickups: pickupStore.getAll(),
+  });
+
+// A fresh run at full health
+const createGameState = (): GameState => ({
+  isGameActive: true,
+  playerHealth: BASE_STATS.maxHealth,
+  playerStamina: MAX_STAMINA,
+  playerShield: 0,
+  signCooldowns: createSignCooldowns(),
+  score: 0,
+  elapsedTime: 0,
+  progression: createProgression(),
+});
+
+// The player's stats with the gear currently worn and the potions working
+const statsFor = (progression: Progression) =>
+  computeStats(progression, [
+    ...equipmentModifiers(inventoryStore.get().equipment),
+    ...statusEffectModifiers(statusEffectStore.getAll()),
+  ]);
+
+// Drink a potion or coat the blade in an oil from the pack
+const consumeItem = (item: ItemId) => {
+  const { effect } = ITEMS[item];
+  if (effect && inventoryStore.remove(item, 1)) {
+    statusEffectStore.apply(effect, Date.now());
+  }
+};
+
+// Add experience to the run; levelling up restores full health (but doesn't
+// bring the player back from the dead)
+const withExperience = (state: GameState, amount: number): GameState => {
+  const progression = gainExperience(state.progression, amount);
+  const levelledUp =
+    state.isGameActive &&
+    levelForExperience(progression.experience) >
+      levelForExperience(state.progression.experience);
+
+  return {
+    ...state,
+    progression,
+    playerHealth: levelledUp
+      ? statsFor(progression).maxHealth
+      : state.playerHealth,
+  };
+};
+
+// The creatures about at the start of a run, scattered around the middle of
+// the map
+const spawnStartingEnemies = () => {
+  const randomPosition = (): [number, number, number] => [
+    (Math.random() - 0.5) * 40,
+    0,
+    (Math.random() - 0.5) * 40,
+  ];
+
+  // Generate some wolves
+  for (let i = 0; i < 3; i++) {
+    enemyStore.spawn("wolf", randomPosition());
+  }
+
+  // Generate a bear
+  enemyStore.spawn("bear", randomPosition());
+
+  // Generate some deer
+  for (let i = 0; i < 5; i++) {
+    enemyStore.spawn("deer", randomPosition());
+  }
+};
+
+// Start the shared stores over for a new run. They outlive the component, so
+// leaving the game and coming back would otherwise pick up where it was.
+const resetWorld = () => {
+  enemyStore.clear();
+  // Before the quests, whose creatures would otherwise make the store look
+  // already populated
+  spawnStartingEnemies();
+  questStore.reset();
+  inventoryStore.reset();
+  pickupStore.clear();
+  herbStore.clear();
+  statusEffectStore.clear();
+};
+
+// How long quest and level-up announcements stay on screen
+const NOTICE_DURATION = 4000;
+
+export function Game() {
+  // Game state
+  const [gameState, setGameState] = useState<GameState>(createGameState);
+
+  const settings = useSettings();
+
+  const inventory = useInventory();
+  const statusEffects = useStatusEffects();
+
+  // Attack power, health, speed and so on after levels, skills, gear and
+  // potions
+  const stats = useMemo(
+    () =>
+      computeStats(gameState.progression, [
+        ...equipmentModifiers(inventory.equipment),
+        ...statusEffectModifiers(statusEffects),
+      ]),
+    [gameState.progression, inventory.equipment, statusEffects]
+  );
+
+  // Taking off gear that raised maximum health can leave the player above it
+  useEffect(() => {
+    setGameState((prev) =>
+      prev.playerHealth > stats.maxHealth
+        ? { ...prev, playerHealth: stats.maxHealth }
+        : prev
+    );
+  }, [stats.maxHealth]);
+
+  // Latest game state and stats for timers that outlive a render (autosave,
+  // stamina and burning)
+  const latestGameState = useRef(gameState);
+  const latestStats = useRef(stats);
+  useEffect(() => {
+    latestGameState.current = gameState;
+    latestStats.current = stats;
+  }, [gameState, stats]);
+
+  // Bumped when a save is loaded so the physics world and everything in it
+  // is rebuilt from the saved positions
+  const [session, setSession] = useState(0);
+  const [playerSpawn, setPlayerSpawn] = useState<{
+    position: [number, number, number];
+    facing: number;
+  }>({ position: [0, 0, 0], facing: 0 });
+  const playerFacing = useRef(0);
+  const [saveStatus, setSaveStatus] = useState<string | null>(null);
+  // Quest and level-up announcements
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Stamina is spent from inside the render loop, so the current value lives
+  // in a ref and is mirrored into the game state for the HUD
+  const stamina = useRef(MAX_STAMINA);
+  const lastStaminaSpend = useRef(0);
+
+  // Blocking, parrying and dodging as last reported by the player
+  const playerCombatState = useRef<PlayerCombatState>({
+    isBlocking: false,
+    isParrying: false,
+    isDodging: false,
+    isInvulnerable: false,
+  });
+
+  // Signs: cooldowns and the Quen shield are checked from the render loop,
+  // Yrden traps and cast effects are rendered in the scene
+  const signReadyAt = useRef(createSignCooldowns());
+  const quenShield = useRef({ amount: 0, expiresAt: 0 });
+  const [signZones, setSignZones] = useState<SignZone[]>([]);
+  const [signEffects, setSignEffects] = useState<SignEffect[]>([]);
+  const nextSignId = useRef(0);
+
+  // Controls
+  const { controls, input, turnCamera } = useGameControls();
+  const touchDevice = useTouchDevice();
+
+  // Quick-slot keys use whatever potion or oil is in their slot
+  useEffect(() => {
+    if (!input) return;
+
+    return input.onPress((action) => {
+      const slot = QUICK_SLOT_ACTIONS[action];
+      const item =
+        slot === undefined ? null : inventoryStore.get().quickSlots[slot];
+      if (item && latestGameState.current.isGameActive) consumeItem(item);
+    });
+  }, [input]);
+
+  // Trees, rocks and water are laid out from the world seed
+  const [worldSeed, setWorldSeed] = useState(randomSeed);
+  const layout = useMemo(() => createEnvironmentLayout(worldSeed), [worldSeed]);
+  // Walkable ground for enemy pathfinding
+  const navGrid = useMemo(() => createNavGrid(layout), [layout]);
+
+  // Player position for enemy AI - using state to ensure it's properly updated
+  const [playerPos, setPlayerPos] = useState(new THREE.Vector3(0, 0, 0));
+  const playerPosition = useRef(playerPos);
+
+  // Update ref when state changes
+  useEffect(() => {
+    playerPosition.current = playerPos;
+  }, [playerPos]);
+
+  // Enemies live in the enemy store
+  const enemies = useEnemies();
+
+  // Sound effects, and music that follows whether anything is hunting the
+  // player
+  const [audio, setAudio] = useState<AudioEngine | null>(null);
+  const music = useRef<Music | null>(null);
+
+  useEffect(() => {
+    const engine = createAudioEngine();
+    music.current = createMusic(engine);
+    music.current.setMood("explore");
+    setAudio(engine);
+
+    return () => {
+      music.current?.stop();
+      music.current = null;
+      engine.dispose();
+      setAudio(null);
+    };
+  }, []);
+
+  // Creatures growl as they turn on the player, and the music picks up
+  // while any of them is chasing or attacking
+  useEffect(() => {
+    if (!audio) return;
+
+    const hostile = (state: EnemyData["aggroState"] | undefined) =>
+      state === "chase" || state === "attack";
+    let aggroStates = new Map<string, EnemyData["aggroState"]>();
+
+    return enemyStore.subscribe(() => {
+      const enemies = enemyStore.getAll();
+
+      enemies.forEach((enemy) => {
+        const sound = AGGRO_SOUNDS[enemy.type];
+        if (
+          sound &&
+          hostile(enemy.aggroState) &&
+          !hostile(aggroStates.get(enemy.id))
+        ) {
+          const [x, y, z] = enemy.position;
+          audio.play(sound, { x, y, z });
+        }
+      });
+      aggroStates = new Map(
+        enemies.map(({ id, aggroState }) => [id, aggroState])
+      );
+
+      music.current?.setMood(
+        enemies.some((enemy) => !enemy.isDead && hostile(enemy.aggroState))
+          ? "combat"
+          : "explore"
+      );
+    });
+  }, [audio]);
+
+  // Enemy spawn timer
+  useEffect(() => {
+    if (!gameState.isGameActive) return;
+
+    // Spawn new enemies periodically
+    const spawnInterval = setInterval(() => {
+      const spawnChance = Math.random();
+      let type: EnemyType = "wolf";
+
+      if (spawnChance < 0.2) {
+        type = "bear";
+      } else if (spawnChance < 0.6) {
+        type = "deer";
+      }
+
+      // Spawn new enemy at a random position around the map
+      const angle = Math.random() * Math.PI * 2;
+      const distance = 30 + Math.random() * 10; // Spawn between 30-40 units away
+      const x = Math.cos(angle) * distance;
+      const z = Math.sin(angle) * distance;
+
+      enemyStore.spawn(type, [x, 0, z]);
+    }, 10000); // Spawn a new enemy every 10 seconds
+
+    return () => clearInterval(spawnInterval);
+  }, [gameState.isGameActive]);
+
+  // Every visit to the game starts a new run
+  useEffect(() => {
+    resetWorld();
+  }, []);
+
+  // Timed quest objectives count seconds of play
+  useEffect(() => {
+    questStore.record({ type: "tick", elapsedTime: gameState.elapsedTime });
+  }, [gameState.elapsedTime]);
+
+  // Pay out quest rewards
+  useEffect(() => {
+    return questStore.onFinish(({ quest, progress }) => {
+      if (progress.status === "failed") {
+        setNotice(`Quest failed: ${quest.title}`);
+        return;
+      }
+
+      const { score = 0, experience = 0, health = 0 } = quest.reward;
+      setGameState((prev) => {
+        if (!prev.isGameActive) return prev;
+
+        const next = withExperience(prev, experience);
+        return {
+          ...next,
+          score: next.score + score,
+          playerHealth: Math.min(
+            statsFor(next.progression).maxHealth,
+            next.playerHealth + health
+          ),
+        };
+      });
+      setNotice(`Quest complete: ${quest.title}`);
+    });
+  }, []);
+
+  // Announce each level gained
+  const level = levelForExperience(gameState.progression.experience);
+  const announcedLevel = useRef(level);
+  useEffect(() => {
+    if (level > announcedLevel.current) {
+      setNotice(`Level ${level}! A skill point is waiting`);
+    }
+    announcedLevel.current = level;
+  }, [level]);
+
+  useEffect(() => {
+    if (!notice) return;
+
+    const timeout = setTimeout(() => setNotice(null), NOTICE_DURATION);
+    return () => clearTimeout(timeout);
+  }, [notice]);
+
+  // Regenerate stamina once the player stops spending it
+  useEffect(() => {
+    if (!gameState.isGameActive) return;
+
+    const tickRate = 100;
+    const regenInterval = setInterval(() => {
+      if (stamina.current >= MAX_STAMINA) return;
+      if (Date.now() - lastStaminaSpend.current < STAMINA_REGEN_DELAY) return;
+
+      stamina.current = Math.min(
+        MAX_STAMINA,
+        stamina.current + latestStats.current.staminaRegen * (tickRate / 1000)
+      );
+      setGameState((prev) => ({ ...prev, playerStamina: stamina.current }));
+    }, tickRate);
+
+    return () => clearInterval(regenInterval);
+  }, [gameState.isGameActive]);
+
+  // Burning, charm, trap, shield, potion, loot and herb upkeep
+  useEffect(() => {
+    if (!gameState.isGameActive) return;
+
+    const signInterval = setInterval(() => {
+      const now = Date.now();
+
+      enemyStore.getAll().forEach((enemy) => {
+        if (enemy.burningUntil > 0) {
+          if (now >= enemy.burningUntil) {
+            enemyStore.update(enemy.id, { burningUntil: 0 });
+          } else {
+            enemyStore.damage(enemy.id, igniBurnDamage(latestStats.current));
+          }
+        }
+
+        if (enemy.aggroState === "charmed" && now >= enemy.charmedUntil) {
+          enemyStore.update(enemy.id, { aggroState: "idle", charmedUntil: 0 });
+        }
+      });
+
+      pickupStore.expire(now);
+      herbStore.regrow(now);
+      statusEffectStore.expire(now);
+
+      // Swallow heals a little every tick
+      const regen =
+        statusEffectRegen(statusEffectStore.getAll()) * (IGNI_BURN_TICK / 1000);
+      if (regen > 0) {
+        setGameState((prev) => ({
+          ...prev,
+          playerHealth: Math.min(
+            latestStats.current.maxHealth,
+            prev.playerHealth + regen
+          ),
+        }));
+      }
+
+      setSignZones((prev) =>
+        prev.some((zone) => zone.expiresAt <= now)
+          ? prev.filter((zone) => zone.expiresAt > now)
+          : prev
+      );
+
+      if (quenShield.current.amount > 0 && now >= quenShield.current.expiresAt) {
+        quenShield.current.amount = 0;
+        setGameState((prev) => ({ ...prev, playerShield: 0 }));
+      }
+    }, IGNI_BURN_TICK);
+
+    return () => clearInterval(signInterval);
+  }, [gameState.isGameActive]);
+
+  // Play time
+  useEffect(() => {
+    if (!gameState.isGameActive) return;
+
+    const clock = setInterval(() => {
+      setGameState((prev) => ({ ...prev, elapsedTime: prev.elapsedTime + 1 }));
+    }, 1000);
+
+    return () => clearInterval(clock);
+  }, [gameState.isGameActive]);
+
+  // Autosave periodically and when the page is closed or refreshed
+  useEffect(() => {
+    if (!gameState.isGameActive) return;
+
+    const autosave = () => {
+      if (!latestGameState.current.isGameActive) return;
+
+      writeSave(
+        AUTOSAVE_SLOT,
+        buildSave(
+          worldSeed,
+          latestGameState.current,
+          playerPosition.current,
+          playerFacing.current
+        )
+      );
+    };
+
+    const autosaveInterval = setInterval(autosave, AUTOSAVE_INTERVAL);
+    window.addEventListener("beforeunload", autosave);
+
+    return () => {
+      clearInterval(autosaveInterval);
+      window.removeEventListener("beforeunload", autosave);
+    };
+  }, [gameState.isGameActive, worldSeed]);
+
+  // A run ends when the player dies; put its score on the high score table
+  useEffect(() => {
+    if (!gameState.isGameActive) {
+      recordHighScore("witcher", latestGameState.current.score);
+    }
+  }, [gameState.isGameActive]);
+
+  // Remove dead enemies, drop their loot, increase score and experience and
+  // count the kill for quests. Kills that land after the player has died,
+  // e.g. from a lingering Igni burn, earn nothing.
+  useEffect(() => {
+    return enemyStore.onDeath((enemy) => {
+      enemyStore.despawn(enemy.id);
+      if (!latestGameState.current.isGameActive) return;
+
+      // Prey of quest hunters earns nothing, whoever brought it down; the
+      // quest lets its hunters go once it hears of the kill
+      const wasHunted = enemyStore
+        .getAll()
+        .some(({ huntingId }) => huntingId === enemy.id);
+      questStore.record({ type: "kill", enemy });
+      if (wasHunted) return;
+      rollLoot(CREATURES[enemy.type].loot).forEach((stack) =>
+        pickupStore.drop(stack, enemy.position)
+      );
+
+      setGameState((prev) => ({
+        ...withExperience(prev, CREATURES[enemy.type].experience),
+        score: prev.score + 10,
+      }));
+    });
+  }, []);
+
+  // Handle player position updates
+  const updatePlayerPosition = (newPosition: THREE.Vector3, facing: number) => {
+    setPlayerPos(newPosition);
+    playerFacing.current = facing;
+    questStore.record({ type: "move", position: newPosition });
+
+    // Collect loot underfoot; anything that doesn't fit is left lying there
+    pickupStore.near(newPosition, PICKUP_RADIUS).forEach((pickup) => {
+      if (inventoryStore.add(pickup.item, pickup.count)) {
+        pickupStore.take(pickup.id);
+      }
+    });
+
+    // Pick herbs the same way
+    const harvested = herbStore.getAll();
+    layout.herbs.forEach(({ type, position: [x, , z] }, index) => {
+      if (
+        harvested[index] === undefined &&
+        Math.hypot(x - newPosition.x, z - newPosition.z) <= PICKUP_RADIUS &&
+        inventoryStore.add(type, 1)
+      ) {
+        herbStore.harvest(index, Date.now());
+      }
+    });
+
+    // Log player position occasionally for debugging
+    if (Math.random() < 0.01) {
+      // Only log occasionally
+      console.log(
+        `Player position: (${newPosition.x.toFixed(2)}, ${newPosition.y.toFixed(
+          2
+        )}, ${newPosition.z.toFixed(2)})`
+      );
+      console.log(`Active enemies: ${enemies.length}`);
+    }
+  };
+
+  // Spend stamina on an action; fails without spending if there isn't enough
+  const spendStamina = (cost: number) => {
+    if (stamina.current < cost) return false;
+
+    stamina.current -= cost;
+    lastStaminaSpend.current = Date.now();
+    setGameState((prev) => ({ ...prev, playerStamina: stamina.current }));
+    return true;
+  };
+
+  // Handle player attack
+  const handlePlayerAttack = (
+    position: THREE.Vector3,
+    direction: THREE.Vector3,
+    attack: PlayerAttack
+  ) => {
+    const damage = attackDamage(attack, stats);
+    audio?.play(SWING_SOUNDS[attack.type], position);
+
+    // Hit every enemy inside the attack arc
+    enemyStore
+      .query({
+        center: position,
+        radius: attack.range,
+        direction,
+        arc: attack.arc,
+      })
+      .forEach((enemy) => {
+        // Oils only bite into the creatures they're made for
+        enemyStore.damage(
+          enemy.id,
+          Math.round(damage * oilMultiplier(statusEffects, enemy.type))
+        );
+
+        const [x, y, z] = enemy.position;
+        audio?.play(hitSound, { x, y, z });
+      });
+  };
+
+  // Cast a sign; fails if it's on cooldown, there isn't enough stamina or
+  // there's nothing for it to act on
+  const handleCastSign = (
+    sign: SignType,
+    position: THREE.Vector3,
+    direction: THREE.Vector3
+  ) => {
+    const now = Date.now();
+    if (now < signReadyAt.current[sign]) return false;
+
+    const cast = resolveSign(sign, enemyStore, position, direction, stats, now);
+    if (!cast || !spendStamina(cast.staminaCost)) return false;
+
+    signReadyAt.current = { ...signReadyAt.current, [sign]: cast.readyAt };
+    setGameState((prev) => ({ ...prev, signCooldowns: signReadyAt.current }));
+
+    switch (cast.sign) {
+      case "igni":
+        cast.targets.forEach((id) => {
+          const result = enemyStore.damage(id, cast.damage);
+          if (result && !result.killed) {
+            enemyStore.update(id, { burningUntil: cast.burningUntil });
+          }
+        });
+        break;
+
+      case "aard":
+        cast.pushed.forEach(({ id, knockback }) => {
+          enemyStore.update(id, {
+            knockback,
+            isStaggered: true,
+            isAttacking: false,
+          });
+          setTimeout(() => {
+            enemyStore.update(id, { isStaggered: false });
+          }, cast.staggeredUntil - now);
+        });
+        break;
+
+      case "quen":
+        quenShield.current = { amount: cast.shield, expiresAt: cast.expiresAt };
+        setGameState((prev) => ({ ...prev, playerShield: cast.shield }));
+        break;
+
+      case "yrden":
+        setSignZones((prev) => [
+          ...prev,
+          { id: nextSignId.current++, ...cast.zone },
+        ]);
+        break;
+
+      case "axii":
+        enemyStore.update(cast.target, {
+          aggroState: "charmed",
+          charmedUntil: cast.charmedUntil,
+          isAttacking: false,
+        });
+        break;
+    }
+
+    // Flash of the sign at the caster
+    const effect: SignEffect = {
+      id: nextSignId.current++,
+      sign,
+      position: [position.x, position.y, position.z],
+      direction: [direction.x, direction.y, direction.z],
+      createdAt: now,
+      duration: 600,
+    };
+    setSignEffects((prev) => [...prev, effect]);
+    setTimeout(() => {
+      setSignEffects((prev) => prev.filter(({ id }) => id !== effect.id));
+    }, effect.duration);
+
+    return true;
+  };
+
+  // Handle enemy attack to player
+  const handleEnemyAttack = (attackerId: string, damage: number) => {
+    const hit = resolveHit(
+      damage,
+      {
+        ...playerCombatState.current,
+        stamina: stamina.current,
+        shield: quenShield.current.amount,
+      },
+      stats
+    );
+
+    // Dodge i-frames: the attack misses entirely
+    if (hit.outcome === "dodged") return;
+
+    // A well-timed block parries the hit and staggers the attacker
+    if (hit.outcome === "parried") {
+      audio?.play(blockSound, playerPosition.current);
+      enemyStore.update(attackerId, { isStaggered: true, isAttacking: false });
+      setTimeout(() => {
+        enemyStore.update(attackerId, { isStaggered: false });
+      }, STAGGER_DURATION);
+      return;
+    }
+
+    // Quen soaks up damage until the shield breaks
+    if (hit.shield !== quenShield.current.amount) {
+      quenShield.current.amount = hit.shield;
+      setGameState((prev) => ({ ...prev, playerShield: hit.shield }));
+    }
+    if (hit.outcome === "absorbed") {
+      audio?.play(blockSound, playerPosition.current);
+      return;
+    }
+
+    // Blocking softens the blow while there's stamina to absorb it
+    if (hit.staminaCost > 0) spendStamina(hit.staminaCost);
+    audio?.play(
+      hit.outcome === "blocked" ? blockSound : hitSound,
+      playerPosition.current
+    );
+
+    setGameState((prev) => {
+      const newHealth = Math.max(0, prev.playerHealth - hit.damage);
+
+      // Check for player death
+      if (newHealth <= 0 && prev.isGameActive) {
+        return {
+          ...prev,
+          playerHealth: 0,
+          isGameActive: false,
+        };
+      }
+
+      return {
+        ...prev,
+        playerHealth: newHealth,
+      };
+    });
+  };
+
+  // Save the current run to a slot
+  const handleSaveGame = (slot: string) => {
+    try {
+      writeSave(
+        slot,
+        buildSave(worldSeed, gameState, playerPos, playerFacing.current)
+      );
+      setSaveStatus("Game saved");
+    } catch {
+      // e.g. storage full or disabled
+      setSaveStatus("Couldn't save the game");
+    }
+  };
+
+  // Resume a saved run: world, player, inventory, potion effects, loot and
+  // every enemy
+  const handleLoadGame = (slot: string) => {
+    let save: SaveData | null;
+    try {
+      save = readSave(slot);
+    } catch (error) {
+      setSaveStatus(`Couldn't load save: ${(error as Error).message}`);
+      return;
+    }
+    if (!save) {
+      setSaveStatus("That slot is empty");
+      return;
+    }
+
+    const { player } = save;
+
+    stamina.current = player.stamina;
+    signReadyAt.current = createSignCooldowns();
+    quenShield.current = { amount: 0, expiresAt: 0 };
+    setSignZones([]);
+    setSignEffects([]);
+
+    setWorldSeed(save.worldSeed);
+    enemyStore.restore(save.enemies);
+    questStore.restore(save.quests ?? [], save.elapsedTime);
+    // Saves made before quick slots existed get the default ones
+    inventoryStore.restore({ ...createInventory(), ...save.inventory });
+    const now = Date.now();
+    pickupStore.restore(loadPickups(save, now));
+    herbStore.restore(loadHerbs(save, now));
+    statusEffectStore.restore(loadStatusEffects(save, now));
+    setPlayerSpawn({ position: player.position, facing: player.facing });
+    setPlayerPos(new THREE.Vector3(...player.position));
+    playerFacing.current = player.facing;
+
+    const progression: Progression = save.progression ?? createProgression();
+    announcedLevel.current = levelForExperience(progression.experience);
+
+    setGameState({
+      isGameActive: true,
+      playerHealth: player.health,
+      playerStamina: player.stamina,
+      playerShield: 0,
+      signCooldowns: signReadyAt.current,
+      score: save.score,
+      elapsedTime: save.elapsedTime,
+      progression,
+    });
+    setSession((prev) => prev + 1);
+    setSaveStatus("Game loaded");
+  };
+
+  // Spend a skill point from the character sheet
+  const handleLearnSkill = (skill: SkillId) => {
+    setGameState((prev) => ({
+      ...prev,
+      progression: learnSkill(prev.progression, skill),
+    }));
+  };
+
+  const handleDeleteSave = (slot: string) => {
+    deleteSave(slot);
+    setSaveStatus("Save deleted");
+  };
+
+  // Restart game
+  const handleRestart = () => {
+    stamina.current = MAX_STAMINA;
+    signReadyAt.current = createSignCooldowns();
+    quenShield.current = { amount: 0, expiresAt: 0 };
+    setSignZones([]);
+    setSignEffects([]);
+    setGameState(createGameState());
+    resetWorld();
+  };
+
+  // Use a potion or oil from the quick slots in the HUD
+  const handleUseItem = (item: ItemId) => {
+    if (gameState.isGameActive) consumeItem(item);
+  };
+
+  return (
+    <div className="w-full h-screen relative">
+      <Canvas
+        shadows={settings.shadows}
+        gl={{ antialias: settings.antialias }}
+        camera={{ position: [0, 3, 5], fov: 60 }}
+      >
+        <AudioListener audio={audio} />
+
+        {/* Frame rate counter, toggled in the main menu settings */}
+        {settings.showStats && <Stats />}
+
+        <Lighting />
+
+        {/* Everything that collides lives inside the physics world */}
+        <Physics key={session} gravity={[0, -9.81, 0]}>
+          {/* Environment (terrain, trees, etc.) */}
+          <Environment layout={layout} />
+
+          {/* Player */}
+          <Player
+            controls={controls}
+            layout={layout}
+            onAttack={handlePlayerAttack}
+            onSpendStamina={spendStamina}
+            onCombatStateChange={(state) => {
+              playerCombatState.current = state;
+            }}
+            onCastSign={handleCastSign}
+            stats={stats}
+            equipment={inventory.equipment}
+            updatePosition={updatePlayerPosition}
+            spawnPosition={playerSpawn.position}
+            spawnFacing={playerSpawn.facing}
+          />
+
+          {/* Enemies */}
+          {enemies.map((enemy) => (
+            <Enemy
+              key={enemy.id}
+              id={enemy.id}
+              layout={layout}
+              navGrid={navGrid}
+              slowZones={signZones}
+              playerPosition={playerPos}
+              onAttackPlayer={handleEnemyAttack}
+            />
+          ))}
+        </Physics>
+
+        {/* Where quests send the player */}
+        <QuestMarkers />
+
+        {/* Loot waiting to be collected */}
+        <Pickups />
+
+        {/* Alchemy herbs */}
+        <Herbs layout={layout} />
+
+        {/* Sign visuals */}
+        <SignEffects
+          effects={signEffects}
+          zones={signZones}
+          shield={gameState.playerShield}
+          playerPosition={playerPos}
+        />
+
+        {/* Lighter fog for better visibility; the Cat potion sees through
+            most of it */}
+        <fog
+          attach="fog"
+          args={
+            hasNightVision(statusEffects)
+              ? ["#b9d5ff", 80, 160]
+              : ["#b9d5ff", 40, 80]
+          }
+        />
+      </Canvas>
+
+      {/* Stick and buttons on touch screens */}
+      {touchDevice && input && gameState.isGameActive && (
+        <TouchControls
+          input={input}
+          selectedSign={controls.selectedSign}
+          stamina={gameState.playerStamina}
+          onSwipe={turnCamera}
+        />
+      )}
+
+      {/* Game UI Overlay */}
+      <GameOverlay
+        gameState={gameState}
+        selectedSign={controls.selectedSign}
+        saveStatus={saveStatus}
+        stats={stats}
+        notice={notice}
+        onRestart={handleRestart}
+        onSaveGame={handleSaveGame}
+        onLoadGame={handleLoadGame}
+        onDeleteSave={handleDeleteSave}
+        onLearnSkill={handleLearnSkill}
+        onUseItem={handleUseItem}
+      />
+    </div>
+  );
+}
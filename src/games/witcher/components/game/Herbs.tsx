@@ -0,0 +1,48 @@
+import { EnvironmentLayout } from "@/games/witcher/lib/environmentLayout";
+import { ITEMS } from "@/games/witcher/lib/items";
+import { useHarvestedHerbs } from "@/games/witcher/hooks/useHerbs";
+
+interface HerbsProps {
+  layout: EnvironmentLayout;
+}
+
+// Alchemy herbs growing in the wild, picked by walking over them; picked
+// herbs disappear until they grow back
+export function Herbs({ layout }: HerbsProps) {
+  const harvested = useHarvestedHerbs();
+
+  return (
+    <>
+      {layout.herbs.map(({ type, position }, index) => {
+        if (harvested[index] !== undefined) return null;
+
+        const { color } = ITEMS[type];
+        return (
+          <group key={index} position={position}>
+            {/* Stem */}
+            <mesh position={[0, 0.2, 0]}>
+              <cylinderGeometry args={[0.02, 0.03, 0.4, 6]} />
+              <meshStandardMaterial color="#3f7a2a" />
+            </mesh>
+
+            {/* Leaves */}
+            <mesh position={[0, 0.08, 0]} scale={[1, 0.3, 1]}>
+              <sphereGeometry args={[0.18, 8, 6]} />
+              <meshStandardMaterial color="#4f9a35" />
+            </mesh>
+
+            {/* Flower, lit up a little so it stands out from the grass */}
+            <mesh position={[0, 0.42, 0]}>
+              <sphereGeometry args={[0.1, 8, 8]} />
+              <meshStandardMaterial
+                color={color}
+                emissive={color}
+                emissiveIntensity={0.3}
+              />
+            </mesh>
+          </group>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,32 @@
+import { Sky } from "@react-three/drei";
+
+// Sky and lights over the forest, shared by single player and multiplayer
+export function Lighting() {
+  return (
+    <>
+      {/* Sky with brighter settings */}
+      <Sky sunPosition={[100, 40, 100]} />
+
+      {/* Add more light sources */}
+      <ambientLight intensity={1.5} color="#ffffff" />
+      <directionalLight
+        position={[0, 10, 0]}
+        intensity={2.5}
+        color="#fffaea"
+        castShadow
+      />
+      <hemisphereLight
+        args={["#b9d5ff", "#444444", 1.0]}
+        position={[0, 50, 0]}
+      />
+
+      {/* Extra ground light */}
+      <pointLight
+        position={[0, 0.5, 0]}
+        intensity={1.0}
+        color="#ffffff"
+        distance={20}
+      />
+    </>
+  );
+}
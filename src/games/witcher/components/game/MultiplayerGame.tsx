@@ -0,0 +1,272 @@
+import { useMemo, useRef } from "react";
+import { Canvas, useFrame } from "@react-three/fiber";
+import { Physics } from "@react-three/cannon";
+import { Html, Stats } from "@react-three/drei";
+import * as THREE from "three";
+import {
+  Enemy as EnemyData,
+  GameControls,
+} from "@/games/witcher/types/game";
+import { useGameControls } from "@/games/witcher/hooks/useGameControls";
+import { useNetworkClient } from "@/games/witcher/hooks/useNetworkClient";
+import { useTouchDevice } from "@/hooks/useTouchDevice";
+import { useSettings } from "@/hooks/useSettings";
+import { createEnvironmentLayout } from "@/games/witcher/lib/environmentLayout";
+import { CREATURES } from "@/games/witcher/lib/ai/creatures";
+import { NetworkClient } from "@/games/witcher/lib/network/client";
+import { Progression } from "@/games/witcher/lib/progression";
+import { NetPlayer, TICK_MS } from "@/games/witcher/lib/network/protocol";
+import { DODGE_TICKS, PlayerMotion } from "@/games/witcher/lib/network/motion";
+import { Environment } from "./Environment";
+import { EnemyFigure } from "./Enemy";
+import { Lighting } from "./Lighting";
+import { SignEffects } from "./SignEffects";
+import { WitcherModel } from "./WitcherModel";
+import { MultiplayerOverlay } from "../ui/MultiplayerOverlay";
+import { TouchControls } from "../ui/TouchControls";
+
+// Buttons held down for any part of a tick count as pressed for that tick
+const BUTTONS = [
+  "attack",
+  "heavyAttack",
+  "block",
+  "dodge",
+  "castSign",
+] as const satisfies readonly (keyof GameControls)[];
+
+const TICK_SECONDS = TICK_MS / 1000;
+
+interface MultiplayerGameProps {
+  serverUrl: string;
+  playerName: string;
+  // Levels and skills to play with; the server works out the stats
+  progression: Progression;
+}
+
+// The Witcher game played on a multiplayer server (src/games/witcher/server).
+// The server runs enemies, combat and everyone's position; this only sends
+// input and draws what the server reports.
+export function MultiplayerGame({
+  serverUrl,
+  playerName,
+  progression,
+}: MultiplayerGameProps) {
+  const settings = useSettings();
+  const { controls, input, turnCamera } = useGameControls();
+  const touchDevice = useTouchDevice();
+  const { client, state } = useNetworkClient(
+    serverUrl,
+    playerName,
+    progression
+  );
+
+  const layout = useMemo(
+    () =>
+      state.worldSeed === null
+        ? null
+        : createEnvironmentLayout(state.worldSeed),
+    [state.worldSeed]
+  );
+
+  const self = state.players.find(({ id }) => id === state.playerId);
+  const selfPosition = useMemo(
+    () => new THREE.Vector3(...(self?.motion.position ?? [0, 0, 0])),
+    [self?.motion.position]
+  );
+
+  return (
+    <div className="w-full h-screen relative">
+      <Canvas
+        shadows={settings.shadows}
+        gl={{ antialias: settings.antialias }}
+        camera={{ position: [0, 3, 5], fov: 60 }}
+      >
+        {settings.showStats && <Stats />}
+
+        <Lighting />
+
+        {client && layout && self && (
+          <>
+            {/* Trees and rocks only collide on the server; the physics world
+                is here because the environment builds its colliders anyway */}
+            <Physics key={state.worldSeed}>
+              <Environment layout={layout} />
+            </Physics>
+
+            <LocalPlayer client={client} controls={controls} player={self} />
+
+            {state.players
+              .filter(({ id }) => id !== state.playerId)
+              .map((player) => (
+                <RemotePlayer key={player.id} client={client} player={player} />
+              ))}
+
+            {state.enemies.map((enemy) => (
+              <RemoteEnemy key={enemy.id} client={client} enemy={enemy} />
+            ))}
+
+            <SignEffects
+              effects={state.effects}
+              zones={state.zones}
+              shield={self.shield}
+              playerPosition={selfPosition}
+            />
+          </>
+        )}
+
+        <fog attach="fog" args={["#b9d5ff", 40, 80]} />
+      </Canvas>
+
+      {touchDevice && input && self && !self.isDead && (
+        <TouchControls
+          input={input}
+          selectedSign={controls.selectedSign}
+          stamina={self.stamina}
+          onSwipe={turnCamera}
+        />
+      )}
+
+      <MultiplayerOverlay
+        state={state}
+        selectedSign={controls.selectedSign}
+        toLocalTime={(time) => client?.toLocalTime(time) ?? time}
+      />
+    </div>
+  );
+}
+
+// One full forward tumble over the length of a dodge roll
+const tumble = (motion: PlayerMotion) =>
+  motion.dodgeTicks > 0
+    ? (1 - motion.dodgeTicks / DODGE_TICKS) * Math.PI * 2
+    : 0;
+
+interface LocalPlayerProps {
+  client: NetworkClient;
+  controls: GameControls;
+  player: NetPlayer;
+}
+
+// This player: sends input every tick, drawn where prediction puts them with
+// the camera following behind
+function LocalPlayer({ client, controls, player }: LocalPlayerProps) {
+  const group = useRef<THREE.Group>(null);
+  const figure = useRef<THREE.Group>(null);
+  const cameraForward = useRef(new THREE.Vector3());
+  const cameraTarget = useRef(new THREE.Vector3());
+  const accumulator = useRef(0);
+  const held = useRef<Partial<GameControls>>({});
+
+  useFrame((state, delta) => {
+    // Remember presses shorter than a tick
+    BUTTONS.forEach((button) => {
+      if (controls[button]) held.current[button] = true;
+    });
+
+    state.camera.getWorldDirection(cameraForward.current);
+    const cameraYaw = Math.atan2(
+      cameraForward.current.x,
+      cameraForward.current.z
+    );
+
+    // Send input at the server's tick rate; skip ahead after a long stall
+    // (e.g. a background tab) rather than sending a burst
+    accumulator.current = Math.min(
+      accumulator.current + delta,
+      TICK_SECONDS * 5
+    );
+    while (accumulator.current >= TICK_SECONDS) {
+      client.sendInput({ ...controls, ...held.current }, cameraYaw);
+      held.current = {};
+      accumulator.current -= TICK_SECONDS;
+    }
+
+    const motion = client.predictedMotion(accumulator.current / TICK_SECONDS);
+    if (!motion || !group.current) return;
+
+    const [x, y, z] = motion.position;
+    group.current.position.set(x, y, z);
+    group.current.rotation.y = motion.facing;
+    if (figure.current) figure.current.rotation.x = tumble(motion);
+
+    // Camera follows behind the player, as in single player
+    cameraTarget.current.set(
+      x - Math.sin(motion.facing) * 7,
+      y + 3,
+      z - Math.cos(motion.facing) * 7
+    );
+    state.camera.position.lerp(cameraTarget.current, 0.1);
+    state.camera.lookAt(x, y + 1, z);
+  });
+
+  return (
+    <group ref={group}>
+      {!player.isDead && <WitcherModel pose={player} figure={figure} />}
+    </group>
+  );
+}
+
+interface RemotePlayerProps {
+  client: NetworkClient;
+  player: NetPlayer;
+}
+
+// Someone else, drawn between the last server updates
+function RemotePlayer({ client, player }: RemotePlayerProps) {
+  const group = useRef<THREE.Group>(null);
+  const figure = useRef<THREE.Group>(null);
+
+  useFrame(() => {
+    const motion = client.remotePlayerMotion(player.id);
+    if (!motion || !group.current) return;
+
+    group.current.position.set(...motion.position);
+    group.current.rotation.y = motion.facing;
+    if (figure.current) figure.current.rotation.x = tumble(motion);
+  });
+
+  if (player.isDead) return null;
+
+  return (
+    <group ref={group}>
+      <WitcherModel pose={player} figure={figure} />
+      <Html position={[0, 2.8, 0]} center>
+        <div className="bg-black/60 text-white text-xs px-2 py-0.5 rounded whitespace-nowrap">
+          {player.name}
+        </div>
+      </Html>
+    </group>
+  );
+}
+
+interface RemoteEnemyProps {
+  client: NetworkClient;
+  enemy: EnemyData;
+}
+
+// An enemy run by the server, drawn between its last updates
+function RemoteEnemy({ client, enemy }: RemoteEnemyProps) {
+  const group = useRef<THREE.Group>(null);
+  const model = useRef<THREE.Group>(null);
+  const { radius } = CREATURES[enemy.type].body;
+
+  useFrame(() => {
+    const pose = client.enemyPose(enemy.id);
+    if (!pose || !group.current) return;
+
+    const [x, y, z] = pose.position;
+    group.current.position.set(x, y + radius, z);
+    if (!model.current) return;
+
+    model.current.rotation.y = pose.facing;
+    model.current.rotation.z = enemy.isStaggered
+      ? Math.sin(Date.now() * 0.02) * 0.2
+      : 0;
+  });
+
+  return (
+    <group ref={group}>
+      <EnemyFigure enemy={enemy} radius={radius} model={model} />
+    </group>
+  );
+}
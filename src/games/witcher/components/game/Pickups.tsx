@@ -0,0 +1,62 @@
+import { useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import { usePickups } from "@/games/witcher/hooks/usePickups";
+import { Pickup as PickupData } from "@/games/witcher/store/pickupStore";
+import { ITEMS } from "@/games/witcher/lib/items";
+
+// Loot on the ground, collected by walking over it
+export function Pickups() {
+  const pickups = usePickups();
+
+  return (
+    <>
+      {pickups.map((pickup) => (
+        <Pickup key={pickup.id} pickup={pickup} />
+      ))}
+    </>
+  );
+}
+
+// A small bundle that bobs and turns so it catches the eye
+function Pickup({ pickup }: { pickup: PickupData }) {
+  const group = useRef<THREE.Group>(null);
+  const { color } = ITEMS[pickup.item];
+  const [x, , z] = pickup.position;
+
+  useFrame(() => {
+    if (!group.current) return;
+
+    const t = Date.now() * 0.003 + pickup.id;
+    group.current.position.y = 0.35 + Math.sin(t) * 0.1;
+    group.current.rotation.y = t * 0.5;
+  });
+
+  return (
+    <group position={[x, 0, z]}>
+      <group ref={group}>
+        {pickup.item === "coins" ? (
+          <mesh rotation={[Math.PI / 2, 0, 0]}>
+            <cylinderGeometry args={[0.2, 0.2, 0.05, 16]} />
+            <meshStandardMaterial
+              color={color}
+              emissive={color}
+              emissiveIntensity={0.4}
+              metalness={0.8}
+              roughness={0.3}
+            />
+          </mesh>
+        ) : (
+          <mesh>
+            <boxGeometry args={[0.35, 0.35, 0.35]} />
+            <meshStandardMaterial
+              color={color}
+              emissive={color}
+              emissiveIntensity={0.3}
+            />
+          </mesh>
+        )}
+      </group>
+    </group>
+  );
+}
@@ -0,0 +1,537 @@
+import { useRef, useState, useEffect } from "react";
+import { useFrame } from "@react-three/fiber";
+import { useSphere } from "@react-three/cannon";
+import * as THREE from "three";
+import {
+  AttackType,
+  GameControls,
+  Player as PlayerType,
+  SignType,
+} from "@/games/witcher/types/game";
+import {
+  COMBO_MULTIPLIERS,
+  COMBO_WINDOW,
+  DODGE_DURATION,
+  DODGE_INVULNERABILITY,
+  DODGE_SPEED_MULTIPLIER,
+  DODGE_STAMINA_COST,
+  PARRY_WINDOW,
+  PlayerAttack,
+  resolveAttack,
+} from "@/games/witcher/lib/combat";
+import { CAST_DURATION } from "@/games/witcher/lib/signs";
+import { PlayerStats } from "@/games/witcher/lib/progression";
+import { Equipment } from "@/games/witcher/lib/items";
+import { PLAYER_RADIUS } from "@/games/witcher/lib/network/motion";
+import {
+  EnvironmentLayout,
+  WATER_SPEED_MULTIPLIER,
+  isInWater,
+} from "@/games/witcher/lib/environmentLayout";
+import { WitcherModel } from "./WitcherModel";
+
+// Defensive state the game needs when resolving incoming attacks
+export type PlayerCombatState = Pick<
+  PlayerType,
+  "isBlocking" | "isParrying" | "isDodging" | "isInvulnerable"
+>;
+
+interface PlayerProps {
+  controls: GameControls;
+  layout: EnvironmentLayout;
+  onAttack: (
+    position: THREE.Vector3,
+    direction: THREE.Vector3,
+    attack: PlayerAttack
+  ) => void;
+  // Returns false if there isn't enough stamina for the action
+  onSpendStamina: (cost: number) => boolean;
+  onCombatStateChange: (state: PlayerCombatState) => void;
+  // Returns false if the sign is on cooldown or there isn't enough stamina
+  onCastSign: (
+    sign: SignType,
+    position: THREE.Vector3,
+    direction: THREE.Vector3
+  ) => boolean;
+  updatePosition: (position: THREE.Vector3, facing: number) => void;
+  // Current stats after levels, skills and gear
+  stats: PlayerStats;
+  // Gear shown on the model
+  equipment?: Equipment;
+  // Where the player starts, e.g. when resuming a saved game
+  spawnPosition?: [number, number, number];
+  spawnFacing?: number;
+}
+
+export function Player({
+  controls,
+  layout,
+  onAttack,
+  onSpendStamina,
+  onCombatStateChange,
+  onCastSign,
+  updatePosition,
+  stats,
+  equipment,
+  spawnPosition = [0, 0, 0],
+  spawnFacing = 0,
+}: PlayerProps) {
+  // The outer group follows the physics body; the model inside it turns
+  const [group, api] = useSphere<THREE.Group>(() => ({
+    mass: 80,
+    args: [PLAYER_RADIUS],
+    position: [
+      spawnPosition[0],
+      spawnPosition[1] + PLAYER_RADIUS,
+      spawnPosition[2],
+    ],
+    fixedRotation: true,
+    linearDamping: 0,
+  }));
+  const model = useRef<THREE.Group>(null);
+
+  // Start facing the saved direction
+  useEffect(() => {
+    if (model.current) model.current.rotation.y = spawnFacing;
+  }, [spawnFacing]);
+
+  // Character body, tumbled forward during a dodge roll
+  const figure = useRef<THREE.Group>(null);
+
+  // Keep track of the falling speed so we only drive horizontal velocity
+  const verticalVelocity = useRef(0);
+  useEffect(
+    () => api.velocity.subscribe((velocity) => (verticalVelocity.current = velocity[1])),
+    [api]
+  );
+
+  const [player, setPlayer] = useState<PlayerType>({
+    id: "player",
+    position: spawnPosition,
+    rotation: [0, 0, 0],
+    health: stats.maxHealth,
+    maxHealth: stats.maxHealth,
+    isAttacking: false,
+    isBlocking: false,
+    isDead: false,
+    isStaggered: false,
+    moveSpeed: stats.moveSpeed,
+    attackPower: stats.attackPower,
+    isMoving: false,
+    direction: [0, 0, 1],
+    attackType: null,
+    comboStep: 0,
+    isParrying: false,
+    isDodging: false,
+    isInvulnerable: false,
+    isCasting: false,
+  });
+
+  // Levels, skills and gear change the stats mid-run
+  useEffect(() => {
+    setPlayer((prev) => ({
+      ...prev,
+      maxHealth: stats.maxHealth,
+      moveSpeed: stats.moveSpeed,
+      attackPower: stats.attackPower,
+    }));
+  }, [stats]);
+
+  // Placeholder for the real model
+  // In a real implementation, you would load a GLTF model for the Witcher
+  // const { nodes, materials, animations } = useGLTF('/models/witcher.glb');
+  // const { actions } = useAnimations(animations, group);
+
+  const [currentAnimation, setCurrentAnimation] = useState("idle");
+
+  // Camera following logic
+  const cameraTargetPosition = useRef(new THREE.Vector3(0, 1.5, -5));
+  const cameraLookAt = useRef(new THREE.Vector3());
+  const playerDirection = useRef(new THREE.Vector3(0, 0, 1));
+
+  // Controls from the previous frame, so attacks and dodges fire on press
+  const previousControls = useRef(controls);
+
+  // Combat timing (performance.now() milliseconds)
+  const attackEndsAt = useRef(0);
+  const comboExpiresAt = useRef(0);
+  const comboHistory = useRef<AttackType[]>([]);
+  // Attack pressed mid-swing, performed as soon as the swing ends
+  const bufferedAttack = useRef<AttackType | null>(null);
+  const blockStartedAt = useRef<number | null>(null);
+  const dodgeEndsAt = useRef(0);
+  const invulnerableUntil = useRef(0);
+  const dodgeDirection = useRef(new THREE.Vector3());
+  const castEndsAt = useRef(0);
+  const combatState = useRef<PlayerCombatState>({
+    isBlocking: false,
+    isParrying: false,
+    isDodging: false,
+    isInvulnerable: false,
+  });
+
+  // Handle player movement and actions
+  useFrame((state) => {
+    if (!group.current || !model.current) return;
+
+    const body = group.current;
+    const facing = model.current;
+    const now = performance.now();
+
+    const previous = previousControls.current;
+    const pressed = (key: keyof GameControls) =>
+      controls[key] && !previous[key];
+    previousControls.current = controls;
+
+    // Camera swipes turn the player, and the camera behind them with it
+    facing.rotation.y += controls.turnAngle - previous.turnAngle;
+
+    // Ground position of the player (the body centre sits one radius up)
+    const groundPosition = new THREE.Vector3(
+      body.position.x,
+      body.position.y - PLAYER_RADIUS,
+      body.position.z
+    );
+
+    // Get forward and right vectors from camera (for input direction)
+    const cameraForward = new THREE.Vector3(0, 0, -1).applyQuaternion(
+      state.camera.quaternion
+    );
+    cameraForward.y = 0; // Keep movement on xz plane
+    cameraForward.normalize();
+
+    const cameraRight = new THREE.Vector3(1, 0, 0).applyQuaternion(
+      state.camera.quaternion
+    );
+    cameraRight.y = 0;
+    cameraRight.normalize();
+
+    // Initialize movement direction
+    const moveDirection = new THREE.Vector3(0, 0, 0);
+
+    // Track if S key is pressed separately
+    let backwardMovement = false;
+
+    // Add camera-relative input directions, as far as each is pushed
+    moveDirection.addScaledVector(cameraForward, controls.moveForward);
+    if (controls.moveBackward) {
+      backwardMovement = true;
+      // Don't add to moveDirection yet, we'll handle S key separately
+    }
+    moveDirection.addScaledVector(
+      cameraRight,
+      controls.moveRight - controls.moveLeft
+    );
+
+    // A stick pushed part way walks slower; keys always move at full speed
+    const moveStrength = Math.min(
+      1,
+      Math.max(moveDirection.length(), controls.moveBackward)
+    );
+
+    // Movement speed in units per second, slowed down while wading
+    const speed =
+      player.moveSpeed *
+      60 *
+      (isInWater(layout, body.position.x, body.position.z)
+        ? WATER_SPEED_MULTIPLIER
+        : 1);
+
+    // Horizontal velocity handed to the physics body this frame
+    const velocity = new THREE.Vector3();
+
+    // Start a dodge roll in the movement direction, or backwards if standing
+    // still. Rolling cancels blocking but can't interrupt a swing.
+    if (
+      pressed("dodge") &&
+      now >= dodgeEndsAt.current &&
+      now >= attackEndsAt.current &&
+      onSpendStamina(DODGE_STAMINA_COST)
+    ) {
+      if (moveDirection.length() > 0) {
+        dodgeDirection.current.copy(moveDirection).normalize();
+      } else {
+        dodgeDirection.current.set(
+          -Math.sin(facing.rotation.y),
+          0,
+          -Math.cos(facing.rotation.y)
+        );
+      }
+
+      dodgeEndsAt.current = now + DODGE_DURATION;
+      invulnerableUntil.current = now + DODGE_INVULNERABILITY;
+      blockStartedAt.current = null;
+      setCurrentAnimation("dodge");
+    }
+
+    const isDodging = now < dodgeEndsAt.current;
+
+    if (isDodging) {
+      velocity
+        .copy(dodgeDirection.current)
+        .multiplyScalar(speed * DODGE_SPEED_MULTIPLIER);
+
+      // One full forward tumble over the length of the roll
+      if (figure.current) {
+        const progress = 1 - (dodgeEndsAt.current - now) / DODGE_DURATION;
+        figure.current.rotation.x = progress * Math.PI * 2;
+      }
+
+      setPlayer((prev) => ({
+        ...prev,
+        position: [groundPosition.x, groundPosition.y, groundPosition.z],
+      }));
+      updatePosition(groundPosition.clone(), facing.rotation.y);
+    }
+    // Handle backward movement separately (S key)
+    else if (backwardMovement && !moveDirection.length()) {
+      // Only backward - move directly backward without rotation
+      const backDir = new THREE.Vector3(
+        -Math.sin(facing.rotation.y),
+        0,
+        -Math.cos(facing.rotation.y)
+      );
+      velocity.copy(backDir).multiplyScalar(speed * moveStrength);
+
+      // Set movement flag but don't change rotation
+      setPlayer((prev) => ({
+        ...prev,
+        position: [groundPosition.x, groundPosition.y, groundPosition.z],
+        isMoving: true,
+      }));
+
+      // Send position update
+      updatePosition(groundPosition.clone(), facing.rotation.y);
+
+      // Set animation
+      if (currentAnimation !== "run") {
+        setCurrentAnimation("run");
+      }
+    }
+    // Handle all other movement normally
+    else if (moveDirection.length() > 0) {
+      // Normalize for consistent speed in all directions
+      moveDirection.normalize();
+
+      // If also pressing S while strafing or moving forward, add some backward influence
+      if (backwardMovement) {
+        const backInfluence = new THREE.Vector3(
+          -Math.sin(facing.rotation.y),
+          0,
+          -Math.cos(facing.rotation.y)
+        ).multiplyScalar(0.3); // 30% influence
+
+        moveDirection.add(backInfluence).normalize();
+      }
+
+      // Rotate player to face movement direction
+      const targetRotation = Math.atan2(moveDirection.x, moveDirection.z);
+
+      // Smooth rotation
+      const currentRotation = facing.rotation.y;
+      const rotDiff = targetRotation - currentRotation;
+
+      // Handle angle wrap-around
+      let rotDiffAdjusted = ((rotDiff + Math.PI) % (Math.PI * 2)) - Math.PI;
+      if (rotDiffAdjusted < -Math.PI) rotDiffAdjusted += Math.PI * 2;
+
+      // Apply smooth rotation
+      facing.rotation.y += rotDiffAdjusted * 0.15;
+
+      // Update player direction reference
+      playerDirection.current.set(
+        Math.sin(facing.rotation.y),
+        0,
+        Math.cos(facing.rotation.y)
+      );
+
+      // Apply movement through the physics body; trees, rocks and the
+      // boundary walls now stop the player
+      velocity.copy(moveDirection).multiplyScalar(speed * moveStrength);
+
+      // Update player state
+      setPlayer((prev) => ({
+        ...prev,
+        position: [groundPosition.x, groundPosition.y, groundPosition.z],
+        rotation: [0, facing.rotation.y, 0],
+        isMoving: true,
+        direction: [
+          playerDirection.current.x,
+          playerDirection.current.y,
+          playerDirection.current.z,
+        ],
+      }));
+
+      // Send position update to parent
+      updatePosition(groundPosition.clone(), facing.rotation.y);
+
+      // Set animation
+      if (currentAnimation !== "run") {
+        setCurrentAnimation("run");
+      }
+    } else if (player.isMoving) {
+      setPlayer((prev) => ({ ...prev, isMoving: false }));
+
+      if (currentAnimation !== "idle") {
+        setCurrentAnimation("idle");
+      }
+    }
+
+    api.velocity.set(velocity.x, verticalVelocity.current, velocity.z);
+
+    if (!isDodging && figure.current && figure.current.rotation.x !== 0) {
+      figure.current.rotation.x = 0;
+      setCurrentAnimation(player.isMoving ? "run" : "idle");
+    }
+
+    // Camera follows player - position behind player
+    const cameraOffset = new THREE.Vector3(
+      -Math.sin(facing.rotation.y) * 7,
+      3,
+      -Math.cos(facing.rotation.y) * 7
+    );
+
+    cameraTargetPosition.current.copy(groundPosition).add(cameraOffset);
+
+    cameraLookAt.current.set(
+      groundPosition.x,
+      groundPosition.y + 1,
+      groundPosition.z
+    );
+
+    // Camera smoothing
+    state.camera.position.lerp(cameraTargetPosition.current, 0.1);
+    state.camera.lookAt(cameraLookAt.current);
+
+    // Handle attack. Presses during a swing are buffered so quick
+    // sequences chain into combos.
+    const requestedAttack: AttackType | null = pressed("heavyAttack")
+      ? "heavy"
+      : pressed("attack")
+      ? "light"
+      : null;
+    const isSwinging = now < attackEndsAt.current;
+
+    if (requestedAttack && isSwinging) {
+      bufferedAttack.current = requestedAttack;
+    }
+
+    if (!isSwinging && player.isAttacking) {
+      setPlayer((prev) => ({ ...prev, isAttacking: false, attackType: null }));
+      setCurrentAnimation(player.isMoving ? "run" : "idle");
+      // In a real implementation, reset to previous animation
+    }
+
+    const nextAttack = isSwinging
+      ? null
+      : bufferedAttack.current ?? requestedAttack;
+
+    if (nextAttack && !isDodging && blockStartedAt.current === null) {
+      bufferedAttack.current = null;
+
+      // Too long since the last swing: start a new combo
+      if (now > comboExpiresAt.current) {
+        comboHistory.current = [];
+      }
+
+      const attack = resolveAttack(nextAttack, comboHistory.current);
+
+      if (onSpendStamina(attack.staminaCost)) {
+        comboHistory.current.push(nextAttack);
+
+        // Finishers and the last step of a combo start over
+        if (
+          attack.finisher ||
+          comboHistory.current.length >= COMBO_MULTIPLIERS.length
+        ) {
+          comboHistory.current = [];
+        }
+
+        attackEndsAt.current = now + attack.duration;
+        comboExpiresAt.current = attackEndsAt.current + COMBO_WINDOW;
+
+        setPlayer((prev) => ({
+          ...prev,
+          isAttacking: true,
+          attackType: attack.type,
+          comboStep: attack.comboStep,
+        }));
+
+        setCurrentAnimation("attack");
+        // In a real implementation: actions['attack']?.reset().fadeIn(0.1).play();
+
+        // Notify parent component about the attack
+        onAttack(groundPosition.clone(), playerDirection.current, attack);
+      }
+    }
+
+    // Handle block. The first moments of a block are a parry.
+    if (
+      controls.block &&
+      blockStartedAt.current === null &&
+      !isSwinging &&
+      !isDodging
+    ) {
+      blockStartedAt.current = now;
+
+      setCurrentAnimation("block");
+      // In a real implementation: actions['block']?.reset().fadeIn(0.1).play();
+    } else if (!controls.block && blockStartedAt.current !== null) {
+      blockStartedAt.current = null;
+      setCurrentAnimation(player.isMoving ? "run" : "idle");
+      // In a real implementation, reset to previous animation
+    }
+
+    // Cast the selected sign
+    const isCasting = now < castEndsAt.current;
+
+    if (
+      pressed("castSign") &&
+      !isCasting &&
+      !isSwinging &&
+      !isDodging &&
+      blockStartedAt.current === null &&
+      onCastSign(
+        controls.selectedSign,
+        groundPosition.clone(),
+        playerDirection.current.clone()
+      )
+    ) {
+      castEndsAt.current = now + CAST_DURATION;
+      setPlayer((prev) => ({ ...prev, isCasting: true }));
+      setCurrentAnimation("cast");
+    } else if (!isCasting && player.isCasting) {
+      setPlayer((prev) => ({ ...prev, isCasting: false }));
+      setCurrentAnimation(player.isMoving ? "run" : "idle");
+    }
+
+    // Report defensive state changes to the game
+    const nextCombatState: PlayerCombatState = {
+      isBlocking: blockStartedAt.current !== null,
+      isParrying:
+        blockStartedAt.current !== null &&
+        now - blockStartedAt.current < PARRY_WINDOW,
+      isDodging,
+      isInvulnerable: now < invulnerableUntil.current,
+    };
+    const previousCombatState = combatState.current;
+
+    if (
+      (Object.keys(nextCombatState) as (keyof PlayerCombatState)[]).some(
+        (key) => nextCombatState[key] !== previousCombatState[key]
+      )
+    ) {
+      combatState.current = nextCombatState;
+      setPlayer((prev) => ({ ...prev, ...nextCombatState }));
+      onCombatStateChange(nextCombatState);
+    }
+  });
+
+  return (
+    <group ref={group}>
+      <group ref={model} position={[0, -PLAYER_RADIUS, 0]}>
+        <WitcherModel pose={player} figure={figure} equipment={equipment} />
+      </group>
+    </group>
+  );
+}
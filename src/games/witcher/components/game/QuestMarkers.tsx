@@ -0,0 +1,55 @@
+import * as THREE from "three";
+import { useQuests } from "@/games/witcher/hooks/useQuests";
+import { ReachObjective } from "@/games/witcher/lib/quests";
+
+const MARKER_COLOR = "#ffd54f";
+
+// A beam of light over every place an active quest is waiting for the player
+// to reach, visible from across the forest
+export function QuestMarkers() {
+  const quests = useQuests();
+
+  const destinations = quests.flatMap(({ quest, progress }) => {
+    if (progress.status !== "active") return [];
+
+    const objective = quest.objectives[progress.objective];
+    return objective.type === "reach" ? [{ id: quest.id, objective }] : [];
+  });
+
+  return (
+    <>
+      {destinations.map(({ id, objective }) => (
+        <Destination key={id} objective={objective} />
+      ))}
+    </>
+  );
+}
+
+function Destination({ objective }: { objective: ReachObjective }) {
+  const [x, , z] = objective.position;
+
+  return (
+    <group position={[x, 0, z]}>
+      <mesh position={[0, 15, 0]}>
+        <cylinderGeometry args={[0.4, 0.4, 30, 12, 1, true]} />
+        <meshStandardMaterial
+          color={MARKER_COLOR}
+          emissive={MARKER_COLOR}
+          emissiveIntensity={1.5}
+          transparent
+          opacity={0.35}
+          side={THREE.DoubleSide}
+          depthWrite={false}
+        />
+      </mesh>
+      <mesh position={[0, 0.05, 0]} rotation={[-Math.PI / 2, 0, 0]}>
+        <ringGeometry args={[objective.radius - 0.15, objective.radius, 48]} />
+        <meshStandardMaterial
+          color={MARKER_COLOR}
+          emissive={MARKER_COLOR}
+          side={THREE.DoubleSide}
+        />
+      </mesh>
+    </group>
+  );
+}
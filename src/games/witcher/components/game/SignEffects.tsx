@@ -0,0 +1,148 @@
+import { useRef } from "react";
+import { useFrame } from "@react-three/fiber";
+import * as THREE from "three";
+import {
+  AARD_ARC,
+  AARD_RANGE,
+  IGNI_ARC,
+  IGNI_RANGE,
+  SIGNS,
+  SignEffect,
+  SignZone,
+} from "@/games/witcher/lib/signs";
+
+interface SignEffectsProps {
+  effects: SignEffect[];
+  zones: SignZone[];
+  shield: number;
+  playerPosition: THREE.Vector3;
+}
+
+// Visuals for cast signs: bursts, Yrden traps and the Quen shield
+export function SignEffects({
+  effects,
+  zones,
+  shield,
+  playerPosition,
+}: SignEffectsProps) {
+  return (
+    <>
+      {effects.map((effect) => (
+        <SignBurst key={effect.id} effect={effect} />
+      ))}
+
+      {zones.map((zone) => (
+        <YrdenTrap key={zone.id} zone={zone} />
+      ))}
+
+      {shield > 0 && (
+        <mesh
+          position={[playerPosition.x, playerPosition.y + 1, playerPosition.z]}
+        >
+          <sphereGeometry args={[1.3, 24, 24]} />
+          <meshStandardMaterial
+            color={SIGNS.quen.color}
+            emissive={SIGNS.quen.color}
+            emissiveIntensity={0.5}
+            transparent
+            opacity={0.25}
+            depthWrite={false}
+          />
+        </mesh>
+      )}
+    </>
+  );
+}
+
+// One-off effect that grows and fades over its duration
+function SignBurst({ effect }: { effect: SignEffect }) {
+  const group = useRef<THREE.Group>(null);
+  const material = useRef<THREE.MeshStandardMaterial>(null);
+  const { color } = SIGNS[effect.sign];
+  const [dx, , dz] = effect.direction;
+
+  useFrame(() => {
+    if (!group.current || !material.current) return;
+
+    const t = Math.min(1, (Date.now() - effect.createdAt) / effect.duration);
+    group.current.scale.setScalar(0.3 + t * 0.7);
+    material.current.opacity = 0.7 * (1 - t);
+  });
+
+  // Igni and Aard are cones opening out in front of the player; the other
+  // signs flash around the caster
+  const isCone = effect.sign === "igni" || effect.sign === "aard";
+  const range = effect.sign === "igni" ? IGNI_RANGE : AARD_RANGE;
+  const arc = effect.sign === "igni" ? IGNI_ARC : AARD_ARC;
+
+  return (
+    <group
+      position={[effect.position[0], effect.position[1] + 1, effect.position[2]]}
+      rotation={[0, Math.atan2(dx, dz), 0]}
+    >
+      <group ref={group}>
+        {isCone ? (
+          // Cone apex at the caster, opening along +z
+          <mesh position={[0, 0, range / 2]} rotation={[-Math.PI / 2, 0, 0]}>
+            <coneGeometry
+              args={[Math.tan(arc / 2) * range, range, 24, 1, true]}
+            />
+            <meshStandardMaterial
+              ref={material}
+              color={color}
+              emissive={color}
+              emissiveIntensity={1.5}
+              transparent
+              side={THREE.DoubleSide}
+              depthWrite={false}
+            />
+          </mesh>
+        ) : (
+          <mesh>
+            <sphereGeometry args={[1.5, 16, 16]} />
+            <meshStandardMaterial
+              ref={material}
+              color={color}
+              emissive={color}
+              transparent
+              depthWrite={false}
+            />
+          </mesh>
+        )}
+      </group>
+    </group>
+  );
+}
+
+// Glowing circle on the ground marking a Yrden trap
+function YrdenTrap({ zone }: { zone: SignZone }) {
+  const material = useRef<THREE.MeshStandardMaterial>(null);
+
+  useFrame(() => {
+    if (!material.current) return;
+    material.current.emissiveIntensity = 1 + Math.sin(Date.now() * 0.005) * 0.5;
+  });
+
+  return (
+    <group position={[zone.position[0], 0.05, zone.position[2]]}>
+      <mesh rotation={[-Math.PI / 2, 0, 0]}>
+        <ringGeometry args={[zone.radius - 0.15, zone.radius, 48]} />
+        <meshStandardMaterial
+          ref={material}
+          color={SIGNS.yrden.color}
+          emissive={SIGNS.yrden.color}
+          side={THREE.DoubleSide}
+        />
+      </mesh>
+      <mesh rotation={[-Math.PI / 2, 0, 0]}>
+        <circleGeometry args={[zone.radius, 48]} />
+        <meshStandardMaterial
+          color={SIGNS.yrden.color}
+          transparent
+          opacity={0.15}
+          depthWrite={false}
+        />
+      </mesh>
+    </group>
+  );
+}
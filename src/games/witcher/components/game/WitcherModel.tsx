@@ -0,0 +1,177 @@
+import { Ref } from "react";
+import * as THREE from "three";
+import { Player } from "@/games/witcher/types/game";
+import { Equipment, ITEMS } from "@/games/witcher/lib/items";
+
+// What the witcher's model shows: sword swings, blocks and casts
+export type WitcherPose = Pick<
+  Player,
+  "isAttacking" | "attackType" | "isBlocking" | "isParrying" | "isCasting"
+>;
+
+interface WitcherModelProps {
+  pose: WitcherPose;
+  // Body group, turned by the owner for the dodge roll tumble
+  figure?: Ref<THREE.Group>;
+  // Gear being worn; other players in multiplayer carry a plain steel sword
+  equipment?: Equipment;
+}
+
+const DEFAULT_EQUIPMENT: Equipment = { sword: "steelSword" };
+
+// The witcher character, standing on the origin and facing +z. Shared by the
+// local player and other players in multiplayer.
+export function WitcherModel({
+  pose,
+  figure,
+  equipment = DEFAULT_EQUIPMENT,
+}: WitcherModelProps) {
+  // Heavy attacks swing the sword arm further
+  const swordArmAngle = pose.isAttacking
+    ? pose.attackType === "heavy"
+      ? Math.PI / 2
+      : Math.PI / 3
+    : Math.PI / 8;
+
+  // Worn gear colours the body, shoulders, arms and legs
+  const { sword, armor, gloves, boots } = equipment;
+  const armorColor = armor && ITEMS[armor].color;
+  const bodyColor = armorColor ?? "#5a4a3f";
+  const armColor = gloves ? ITEMS[gloves].color : "#5a4a3f";
+  const legColor = boots ? ITEMS[boots].color : "#2a2a2a";
+
+  return (
+    <>
+      {/* Pivot at the waist so the dodge roll tumbles around the middle */}
+      <group ref={figure} position={[0, 1, 0]}>
+        <group position={[0, -1, 0]}>
+          {/* Witcher character model */}
+          <group>
+            {/* Body */}
+            <mesh position={[0, 1, 0]}>
+              <capsuleGeometry args={[0.4, 1.2, 4, 8]} />
+              <meshStandardMaterial color={bodyColor} roughness={0.7} />
+            </mesh>
+
+            {/* Head */}
+            <mesh position={[0, 2, 0]}>
+              <sphereGeometry args={[0.3, 16, 16]} />
+              <meshStandardMaterial color="#e0c8b0" roughness={0.6} />
+            </mesh>
+
+            {/* Hair */}
+            <mesh position={[0, 2.1, 0]}>
+              <sphereGeometry args={[0.32, 16, 16]} />
+              <meshStandardMaterial
+                color="#f0f0f0"
+                roughness={1}
+                transparent
+                opacity={0.9}
+              />
+            </mesh>
+
+            {/* Shoulders/Armor */}
+            <mesh position={[0, 1.5, 0]} scale={[1.2, 0.3, 0.8]}>
+              <boxGeometry args={[1, 1, 1]} />
+              <meshStandardMaterial
+                color={
+                  pose.isAttacking
+                    ? "#8b0000"
+                    : pose.isParrying
+                      ? "#4169e1"
+                      : pose.isBlocking
+                        ? "#00008b"
+                        : (armorColor ?? "#3a3a3a")
+                }
+                roughness={0.9}
+                metalness={0.2}
+              />
+            </mesh>
+
+            {/* Arms */}
+            <mesh
+              position={[-0.6, 1.3, 0]}
+              rotation={[
+                pose.isCasting ? -Math.PI / 2 : 0,
+                0,
+                pose.isBlocking ? -Math.PI / 3 : -Math.PI / 8,
+              ]}
+            >
+              <capsuleGeometry args={[0.15, 0.7, 4, 8]} />
+              <meshStandardMaterial color={armColor} roughness={0.7} />
+            </mesh>
+            <mesh position={[0.6, 1.3, 0]} rotation={[0, 0, swordArmAngle]}>
+              <capsuleGeometry args={[0.15, 0.7, 4, 8]} />
+              <meshStandardMaterial color={armColor} roughness={0.7} />
+            </mesh>
+
+            {/* Legs */}
+            <mesh position={[-0.2, 0.4, 0]}>
+              <capsuleGeometry args={[0.2, 0.8, 4, 8]} />
+              <meshStandardMaterial color={legColor} roughness={0.8} />
+            </mesh>
+            <mesh position={[0.2, 0.4, 0]}>
+              <capsuleGeometry args={[0.2, 0.8, 4, 8]} />
+              <meshStandardMaterial color={legColor} roughness={0.8} />
+            </mesh>
+
+            {/* Medallion */}
+            <mesh position={[0, 1.5, 0.4]} scale={[0.1, 0.1, 0.05]}>
+              <sphereGeometry args={[1, 16, 16]} />
+              <meshStandardMaterial
+                color="gold"
+                metalness={0.8}
+                roughness={0.2}
+              />
+            </mesh>
+          </group>
+
+          {/* Sword */}
+          {sword && (
+            <group position={[0.7, 1.3, 0.2]} rotation={[0, 0, swordArmAngle]}>
+              {/* Blade */}
+              <mesh position={[0, 0.6, 0]}>
+                <boxGeometry args={[0.08, 1.2, 0.02]} />
+                <meshStandardMaterial
+                  color={ITEMS[sword].color}
+                  metalness={0.9}
+                  roughness={0.1}
+                />
+              </mesh>
+
+              {/* Hilt */}
+              <mesh position={[0, 0, 0]}>
+                <cylinderGeometry args={[0.05, 0.05, 0.2, 8]} />
+                <meshStandardMaterial
+                  color="#3a3a3a"
+                  metalness={0.5}
+                  roughness={0.5}
+                />
+              </mesh>
+
+              {/* Guard */}
+              <mesh position={[0, 0.1, 0]} rotation={[Math.PI / 2, 0, 0]}>
+                <boxGeometry args={[0.3, 0.05, 0.05]} />
+                <meshStandardMaterial
+                  color="#3a3a3a"
+                  metalness={0.7}
+                  roughness={0.3}
+                />
+              </mesh>
+
+              {/* Pommel */}
+              <mesh position={[0, -0.15, 0]}>
+                <sphereGeometry args={[0.06, 8, 8]} />
+                <meshStandardMaterial
+                  color="#3a3a3a"
+                  metalness={0.7}
+                  roughness={0.3}
+                />
+              </mesh>
+            </group>
+          )}
+        </group>
+      </group>
+    </>
+  );
+}
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useInventory } from "@/games/witcher/hooks/useInventory";
+import { inventoryStore } from "@/games/witcher/store/inventoryStore";
+import { ITEMS, countItem } from "@/games/witcher/lib/items";
+import { RECIPES, Recipe, hasIngredients } from "@/games/witcher/lib/alchemy";
+
+interface AlchemyScreenProps {
+  onClose: () => void;
+}
+
+// Every recipe with the ingredients it needs and how many of each are in
+// the pack
+export function AlchemyScreen({ onClose }: AlchemyScreenProps) {
+  const inventory = useInventory();
+  const [status, setStatus] = useState<string | null>(null);
+
+  const handleBrew = (recipe: Recipe) => {
+    const { name } = ITEMS[recipe.result];
+    setStatus(
+      inventoryStore.brew(recipe)
+        ? `Brewed ${recipe.count > 1 ? `${recipe.count} × ` : ""}${name}`
+        : "No room in the pack"
+    );
+  };
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center bg-black/60 pointer-events-auto"
+      // Keep clicks in the screen from reaching the game controls
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div className="bg-gray-900 p-6 rounded-lg shadow-lg text-white w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold">Alchemy</h2>
+          <button
+            className="text-gray-400 hover:text-white transition"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+
+        {status && <p className="text-sm text-yellow-300 mb-3">{status}</p>}
+
+        <ul className="space-y-2">
+          {RECIPES.map((recipe) => {
+            const result = ITEMS[recipe.result];
+
+            return (
+              <li
+                key={recipe.result}
+                className="bg-black/40 rounded p-3 flex items-center gap-4"
+              >
+                <div
+                  className="w-10 h-10 rounded shrink-0"
+                  style={{ backgroundColor: result.color }}
+                />
+                <div className="flex-1">
+                  <div className="font-bold">
+                    {result.name}
+                    {recipe.count > 1 && (
+                      <span className="text-gray-400"> ×{recipe.count}</span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-300">
+                    {result.description}
+                  </div>
+                  <div className="text-xs mt-1">
+                    {recipe.ingredients.map(({ item, count }) => {
+                      const carried = countItem(inventory, item);
+
+                      return (
+                        <span
+                          key={item}
+                          className={`mr-3 ${
+                            carried >= count ? "text-gray-400" : "text-red-400"
+                          }`}
+                        >
+                          {ITEMS[item].name} {carried}/{count}
+                        </span>
+                      );
+                    })}
+                  </div>
+                </div>
+                <button
+                  className="bg-red-600 hover:bg-red-700 disabled:bg-gray-700 disabled:text-gray-500 text-sm py-1 px-3 rounded transition"
+                  disabled={!hasIngredients(inventory, recipe)}
+                  onClick={() => handleBrew(recipe)}
+                >
+                  Brew
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import {
+  BASE_STATS,
+  PlayerStats,
+  Progression,
+  SKILLS,
+  SKILL_BRANCHES,
+  SkillBranch,
+  SkillId,
+  canLearnSkill,
+  experienceForLevel,
+  levelForExperience,
+  unspentSkillPoints,
+} from "@/games/witcher/lib/progression";
+
+interface CharacterSheetProps {
+  progression: Progression;
+  stats: PlayerStats;
+  onLearnSkill: (skill: SkillId) => void;
+  onClose: () => void;
+}
+
+const whole = (value: number) => String(Math.round(value));
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// How each stat is shown on the sheet
+const STAT_ROWS: {
+  stat: keyof PlayerStats;
+  label: string;
+  format: (value: number) => string;
+}[] = [
+  { stat: "attackPower", label: "Attack power", format: whole },
+  { stat: "maxHealth", label: "Maximum health", format: whole },
+  {
+    stat: "moveSpeed",
+    label: "Movement speed",
+    format: (value) => percent(value / BASE_STATS.moveSpeed),
+  },
+  { stat: "blockReduction", label: "Damage blocked", format: percent },
+  {
+    stat: "staminaRegen",
+    label: "Stamina recovery",
+    format: (value) => `${value.toFixed(1)}/s`,
+  },
+  { stat: "signIntensity", label: "Sign intensity", format: percent },
+  { stat: "signCooldown", label: "Sign cooldowns", format: percent },
+];
+
+// Level, stats and the skill tree, where skill points are spent
+export function CharacterSheet({
+  progression,
+  stats,
+  onLearnSkill,
+  onClose,
+}: CharacterSheetProps) {
+  const level = levelForExperience(progression.experience);
+  const points = unspentSkillPoints(progression);
+  const skillIds = Object.keys(SKILLS) as SkillId[];
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center bg-black/60 pointer-events-auto"
+      // Keep clicks in the sheet from reaching the game controls
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div className="bg-gray-900 p-6 rounded-lg shadow-lg text-white w-full max-w-3xl max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold">Character</h2>
+          <button
+            className="text-gray-400 hover:text-white transition"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-6 mb-6">
+          <div>
+            <div className="text-3xl font-bold">Level {level}</div>
+            <div className="text-sm text-gray-400">
+              {progression.experience} XP · next level at{" "}
+              {experienceForLevel(level + 1)}
+            </div>
+            <div className="mt-2 text-yellow-300">
+              {points === 1 ? "1 skill point" : `${points} skill points`} to
+              spend
+            </div>
+          </div>
+
+          <table className="text-sm">
+            <tbody>
+              {STAT_ROWS.map(({ stat, label, format }) => (
+                <tr key={stat}>
+                  <td className="pr-4 text-gray-400">{label}</td>
+                  <td className="font-bold">{format(stats[stat])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {(Object.keys(SKILL_BRANCHES) as SkillBranch[]).map((branch) => (
+            <div key={branch}>
+              <h3 className="text-lg font-bold mb-2">
+                {SKILL_BRANCHES[branch]}
+              </h3>
+
+              <ul className="space-y-2">
+                {skillIds
+                  .filter((id) => SKILLS[id].branch === branch)
+                  .map((id) => {
+                    const skill = SKILLS[id];
+                    const rank = progression.skills[id] ?? 0;
+                    const missing =
+                      skill.requires && !progression.skills[skill.requires]
+                        ? SKILLS[skill.requires].name
+                        : null;
+
+                    return (
+                      <li key={id} className="bg-black/40 rounded p-3">
+                        <div className="flex justify-between">
+                          <span className="font-bold">{skill.name}</span>
+                          <span className="text-gray-400">
+                            {rank}/{skill.maxRank}
+                          </span>
+                        </div>
+                        <div className="text-sm text-gray-300">
+                          {skill.description}
+                        </div>
+                        {missing && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            Requires {missing}
+                          </div>
+                        )}
+                        <button
+                          className="mt-2 bg-red-600 hover:bg-red-700 disabled:bg-gray-700 disabled:text-gray-500 text-sm py-1 px-3 rounded transition"
+                          disabled={!canLearnSkill(progression, id)}
+                          onClick={() => onLearnSkill(id)}
+                        >
+                          Learn
+                        </button>
+                      </li>
+                    );
+                  })}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
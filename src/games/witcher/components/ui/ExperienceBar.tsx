@@ -0,0 +1,33 @@
+import {
+  Progression,
+  experienceForLevel,
+  levelForExperience,
+} from "@/games/witcher/lib/progression";
+
+interface ExperienceBarProps {
+  progression: Progression;
+}
+
+// Current level and how far along it is to the next one
+export function ExperienceBar({ progression }: ExperienceBarProps) {
+  const { experience } = progression;
+  const level = levelForExperience(experience);
+  const start = experienceForLevel(level);
+  const next = experienceForLevel(level + 1);
+  const percentage = ((experience - start) / (next - start)) * 100;
+
+  return (
+    <div className="flex flex-col w-full max-w-xs mt-2">
+      <div className="flex justify-between text-white text-sm mb-1">
+        <span>Level {level}</span>
+        <span>{`${experience - start}/${next - start} XP`}</span>
+      </div>
+      <div className="w-full h-1.5 bg-gray-800 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-sky-400 transition-all duration-300 ease-out"
+          style={{ width: `${percentage}%` }}
+        />
+      </div>
+    </div>
+  );
+}
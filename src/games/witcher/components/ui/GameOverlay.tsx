@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { HealthBar } from "./HealthBar";
+import { StaminaBar } from "./StaminaBar";
+import { SignSelector } from "./SignSelector";
+import { SaveMenu, formatElapsedTime } from "./SaveMenu";
+import { QuestLog } from "./QuestLog";
+import { ExperienceBar } from "./ExperienceBar";
+import { CharacterSheet } from "./CharacterSheet";
+import { InventoryScreen } from "./InventoryScreen";
+import { AlchemyScreen } from "./AlchemyScreen";
+import { QuickSlots } from "./QuickSlots";
+import { GameState, SignType } from "@/games/witcher/types/game";
+import { MAX_STAMINA } from "@/games/witcher/lib/combat";
+import { listSaves } from "@/games/witcher/lib/saveGame";
+import { ItemId } from "@/games/witcher/lib/items";
+import {
+  PlayerStats,
+  SkillId,
+  unspentSkillPoints,
+} from "@/games/witcher/lib/progression";
+import { useTouchDevice } from "@/hooks/useTouchDevice";
+
+interface GameOverlayProps {
+  gameState: GameState;
+  selectedSign: SignType;
+  saveStatus: string | null;
+  // Stats after levels, skills, gear and potions
+  stats: PlayerStats;
+  // Quest and level-up announcements, shown briefly
+  notice: string | null;
+  onRestart: () => void;
+  onSaveGame: (slot: string) => void;
+  onLoadGame: (slot: string) => void;
+  onDeleteSave: (slot: string) => void;
+  onLearnSkill: (skill: SkillId) => void;
+  // Drink a potion or apply an oil from a quick slot
+  onUseItem: (item: ItemId) => void;
+}
+
+export function GameOverlay({
+  gameState,
+  selectedSign,
+  saveStatus,
+  stats,
+  notice,
+  onRestart,
+  onSaveGame,
+  onLoadGame,
+  onDeleteSave,
+  onLearnSkill,
+  onUseItem,
+}: GameOverlayProps) {
+  const {
+    playerHealth,
+    playerStamina,
+    playerShield,
+    signCooldowns,
+    isGameActive,
+    score,
+    elapsedTime,
+    progression,
+  } = gameState;
+
+  // Offer to pick up where the player left off after a refresh
+  const [isMenuOpen, setIsMenuOpen] = useState(() => listSaves().length > 0);
+  const [isSheetOpen, setIsSheetOpen] = useState(false);
+  const [isInventoryOpen, setIsInventoryOpen] = useState(false);
+  const [isAlchemyOpen, setIsAlchemyOpen] = useState(false);
+  const skillPoints = unspentSkillPoints(progression);
+  // Touch screens get on-screen controls instead of the keyboard hints
+  const touchDevice = useTouchDevice();
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {/* Top bar with health, stamina and score */}
+      <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-center">
+        <div className="flex flex-col w-full max-w-xs">
+          <HealthBar
+            currentHealth={Math.ceil(playerHealth)}
+            maxHealth={Math.round(stats.maxHealth)}
+            label="Witcher"
+          />
+          <StaminaBar
+            currentStamina={playerStamina}
+            maxStamina={MAX_STAMINA}
+          />
+          <ExperienceBar progression={progression} />
+          {playerShield > 0 && (
+            <div className="text-sm text-yellow-300 mt-1">
+              Quen shield: {Math.ceil(playerShield)}
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="bg-black/70 p-2 rounded text-white">
+            <span className="text-lg font-bold">Score: {score}</span>
+            <span className="ml-3 text-gray-300">
+              {formatElapsedTime(elapsedTime)}
+            </span>
+          </div>
+          <button
+            className="bg-black/70 hover:bg-black/90 p-2 rounded text-white pointer-events-auto transition"
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={() => setIsSheetOpen(true)}
+          >
+            Character
+            {skillPoints > 0 && (
+              <span className="ml-2 bg-yellow-400 text-black text-xs font-bold px-1.5 rounded-full">
+                {skillPoints}
+              </span>
+            )}
+          </button>
+          <button
+            className="bg-black/70 hover:bg-black/90 p-2 rounded text-white pointer-events-auto transition"
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={() => setIsInventoryOpen(true)}
+          >
+            Inventory
+          </button>
+          <button
+            className="bg-black/70 hover:bg-black/90 p-2 rounded text-white pointer-events-auto transition"
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={() => setIsAlchemyOpen(true)}
+          >
+            Alchemy
+          </button>
+          <button
+            className="bg-black/70 hover:bg-black/90 p-2 rounded text-white pointer-events-auto transition"
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={() => setIsMenuOpen(true)}
+          >
+            Menu
+          </button>
+        </div>
+      </div>
+
+      {/* Quest log */}
+      <div className="absolute top-20 right-4">
+        <QuestLog elapsedTime={elapsedTime} />
+      </div>
+
+      {notice && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 bg-black/80 px-6 py-3 rounded text-yellow-300 text-xl font-bold">
+          {notice}
+        </div>
+      )}
+
+      {/* Game over screen */}
+      {!isGameActive && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80">
+          <div className="text-center bg-gray-900 p-8 rounded-lg shadow-lg">
+            <h2 className="text-3xl font-bold text-red-500 mb-4">You Died</h2>
+            <p className="text-white mb-4">
+              Final Score: <span className="font-bold">{score}</span>
+            </p>
+            <div className="flex justify-center gap-2">
+              <button
+                className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-6 rounded pointer-events-auto transition"
+                onClick={onRestart}
+              >
+                Try Again
+              </button>
+              <button
+                className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-6 rounded pointer-events-auto transition"
+                onClick={() => setIsMenuOpen(true)}
+              >
+                Load Game
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Potions and oils */}
+      {isGameActive && (
+        <div className="absolute bottom-24 left-1/2 -translate-x-1/2">
+          <QuickSlots onUse={onUseItem} />
+        </div>
+      )}
+
+      {/* Sign selector */}
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2">
+        <SignSelector selectedSign={selectedSign} cooldowns={signCooldowns} />
+      </div>
+
+      {/* Save / load menu */}
+      {isMenuOpen && (
+        <SaveMenu
+          status={saveStatus}
+          canSave={isGameActive}
+          onSave={onSaveGame}
+          onLoad={onLoadGame}
+          onDelete={onDeleteSave}
+          onClose={() => setIsMenuOpen(false)}
+        />
+      )}
+
+      {/* Level, stats and skill tree */}
+      {isSheetOpen && (
+        <CharacterSheet
+          progression={progression}
+          stats={stats}
+          onLearnSkill={onLearnSkill}
+          onClose={() => setIsSheetOpen(false)}
+        />
+      )}
+
+      {/* Carried items and worn gear */}
+      {isInventoryOpen && (
+        <InventoryScreen onClose={() => setIsInventoryOpen(false)} />
+      )}
+
+      {/* Brewing potions and oils */}
+      {isAlchemyOpen && (
+        <AlchemyScreen onClose={() => setIsAlchemyOpen(false)} />
+      )}
+
+      {/* Controls hint */}
+      {!touchDevice && (
+        <div className="absolute bottom-4 left-4 bg-black/70 p-3 rounded text-white text-sm">
+          <div className="mb-1">WASD: Move</div>
+          <div className="mb-1">Left Click: Light Attack</div>
+          <div className="mb-1">F / Shift + Left Click: Heavy Attack</div>
+          <div className="mb-1">
+            Right Click: Block (tap just before a hit to parry)
+          </div>
+          <div className="mb-1">Space: Dodge Roll</div>
+          <div className="mb-1">1-5: Select Sign, Q: Cast Sign</div>
+          <div>Z, X, C, V: Quick Slots</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from "react";
+import { useInventory } from "@/games/witcher/hooks/useInventory";
+import { inventoryStore } from "@/games/witcher/store/inventoryStore";
+import {
+  EQUIPMENT_SLOTS,
+  EquipmentSlot,
+  INVENTORY_COLUMNS,
+  ITEMS,
+  ItemId,
+} from "@/games/witcher/lib/items";
+
+interface InventoryScreenProps {
+  onClose: () => void;
+}
+
+// A square of an item's colour, with a count for stacks
+function ItemIcon({ item, count }: { item: ItemId; count: number }) {
+  return (
+    <div
+      className="relative w-full h-full rounded"
+      style={{ backgroundColor: ITEMS[item].color }}
+    >
+      {count > 1 && (
+        <span className="absolute bottom-0 right-1 text-xs font-bold text-white drop-shadow">
+          {count}
+        </span>
+      )}
+    </div>
+  );
+}
+
+// The pack grid, the gear being worn and the quick slots. Clicking gear in
+// the grid puts it on and clicking a potion or oil puts it on a free quick
+// slot; clicking a slot empties it again.
+export function InventoryScreen({ onClose }: InventoryScreenProps) {
+  const inventory = useInventory();
+  const [hovered, setHovered] = useState<ItemId | null>(null);
+
+  const handleClickCell = (index: number) => {
+    const cell = inventory.cells[index];
+    if (!cell) return;
+
+    if (ITEMS[cell.item].slot) {
+      inventoryStore.equip(index);
+      return;
+    }
+
+    const free = inventory.quickSlots.indexOf(null);
+    if (
+      ITEMS[cell.item].effect &&
+      free !== -1 &&
+      !inventory.quickSlots.includes(cell.item)
+    ) {
+      inventoryStore.assignQuickSlot(free, cell.item);
+    }
+  };
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center bg-black/60 pointer-events-auto"
+      // Keep clicks in the screen from reaching the game controls
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div className="bg-gray-900 p-6 rounded-lg shadow-lg text-white w-full max-w-2xl max-h-full overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold">Inventory</h2>
+          <button
+            className="text-gray-400 hover:text-white transition"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-6">
+          <div>
+            <h3 className="text-lg font-bold mb-2">Equipped</h3>
+            <ul className="space-y-2">
+              {(Object.keys(EQUIPMENT_SLOTS) as EquipmentSlot[]).map((slot) => {
+                const item = inventory.equipment[slot];
+
+                return (
+                  <li key={slot} className="flex items-center gap-3">
+                    <button
+                      className="w-12 h-12 bg-black/40 hover:bg-black/60 rounded p-1 transition"
+                      disabled={!item}
+                      onClick={() => inventoryStore.unequip(slot)}
+                      onMouseEnter={() => setHovered(item ?? null)}
+                      onMouseLeave={() => setHovered(null)}
+                    >
+                      {item && <ItemIcon item={item} count={1} />}
+                    </button>
+                    <div>
+                      <div className="text-sm text-gray-400">
+                        {EQUIPMENT_SLOTS[slot]}
+                      </div>
+                      <div>{item ? ITEMS[item].name : "Nothing"}</div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div>
+            <div className="flex justify-between mb-2">
+              <h3 className="text-lg font-bold">Pack</h3>
+              <span className="text-yellow-300">{inventory.coins} crowns</span>
+            </div>
+            <div
+              className="grid gap-1"
+              style={{
+                gridTemplateColumns: `repeat(${INVENTORY_COLUMNS}, 3rem)`,
+              }}
+            >
+              {inventory.cells.map((cell, index) => (
+                <button
+                  key={index}
+                  className="w-12 h-12 bg-black/40 hover:bg-black/60 rounded p-1 transition"
+                  disabled={!cell}
+                  onClick={() => handleClickCell(index)}
+                  onMouseEnter={() => setHovered(cell?.item ?? null)}
+                  onMouseLeave={() => setHovered(null)}
+                >
+                  {cell && <ItemIcon item={cell.item} count={cell.count} />}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-4">
+          <h3 className="text-lg font-bold mb-2">Quick slots</h3>
+          <div className="flex gap-1">
+            {inventory.quickSlots.map((item, slot) => (
+              <button
+                key={slot}
+                className="w-12 h-12 bg-black/40 hover:bg-black/60 rounded p-1 transition"
+                disabled={!item}
+                onClick={() => inventoryStore.assignQuickSlot(slot, null)}
+                onMouseEnter={() => setHovered(item)}
+                onMouseLeave={() => setHovered(null)}
+              >
+                {item && <ItemIcon item={item} count={1} />}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="mt-4 h-12 text-sm">
+          {hovered ? (
+            <>
+              <div className="font-bold">{ITEMS[hovered].name}</div>
+              <div className="text-gray-300">
+                {ITEMS[hovered].description}
+                {ITEMS[hovered].slot && " · click to equip or unequip"}
+                {ITEMS[hovered].effect &&
+                  " · click to put on a free quick slot, or to clear the slot"}
+              </div>
+            </>
+          ) : (
+            <div className="text-gray-500">
+              Walk over loot to collect it. Hover over an item for details.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { HealthBar } from "./HealthBar";
+import { StaminaBar } from "./StaminaBar";
+import { SignSelector } from "./SignSelector";
+import { SignType } from "@/games/witcher/types/game";
+import { MAX_STAMINA } from "@/games/witcher/lib/combat";
+import { NetworkState } from "@/games/witcher/lib/network/client";
+import { RESPAWN_DELAY } from "@/games/witcher/lib/network/protocol";
+
+interface MultiplayerOverlayProps {
+  state: NetworkState;
+  selectedSign: SignType;
+  // Converts the server's sign cooldowns to the local clock
+  toLocalTime: (serverTime: number) => number;
+}
+
+export function MultiplayerOverlay({
+  state,
+  selectedSign,
+  toLocalTime,
+}: MultiplayerOverlayProps) {
+  const { status, error, players, playerId } = state;
+  const self = players.find(({ id }) => id === playerId);
+
+  const cooldowns =
+    self &&
+    (Object.fromEntries(
+      Object.entries(self.signCooldowns).map(([sign, readyAt]) => [
+        sign,
+        toLocalTime(readyAt),
+      ])
+    ) as Record<SignType, number>);
+
+  const scoreboard = [...players].sort((a, b) => b.score - a.score);
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {self && cooldowns && (
+        <>
+          {/* Top bar with health, stamina and the scoreboard */}
+          <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-start">
+            <div className="flex flex-col w-full max-w-xs">
+              <HealthBar
+                currentHealth={Math.ceil(self.health)}
+                maxHealth={self.maxHealth}
+                label={self.name}
+              />
+              <StaminaBar
+                currentStamina={self.stamina}
+                maxStamina={MAX_STAMINA}
+              />
+              {self.shield > 0 && (
+                <div className="text-sm text-yellow-300 mt-1">
+                  Quen shield: {Math.ceil(self.shield)}
+                </div>
+              )}
+            </div>
+
+            <ol className="bg-black/70 p-2 rounded text-white text-sm min-w-40">
+              {scoreboard.map((player) => (
+                <li
+                  key={player.id}
+                  className={`flex justify-between gap-4 ${
+                    player.id === playerId ? "font-bold" : ""
+                  } ${player.isDead ? "text-gray-500" : ""}`}
+                >
+                  <span>{player.name}</span>
+                  <span>{player.score}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2">
+            <SignSelector selectedSign={selectedSign} cooldowns={cooldowns} />
+          </div>
+
+          {self.isDead && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/60">
+              <div className="text-center bg-gray-900 p-8 rounded-lg shadow-lg">
+                <h2 className="text-3xl font-bold text-red-500 mb-2">
+                  You Died
+                </h2>
+                <p className="text-white">
+                  Back on your feet in {RESPAWN_DELAY / 1000} seconds
+                </p>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Connecting, or why the connection ended */}
+      {(status !== "connected" || error) && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/80">
+          <div className="text-center bg-gray-900 p-8 rounded-lg shadow-lg text-white max-w-md">
+            {status === "connecting" && !error ? (
+              <p>Connecting to the server...</p>
+            ) : (
+              <>
+                <h2 className="text-2xl font-bold text-red-500 mb-2">
+                  Disconnected
+                </h2>
+                <p>{error ?? "The connection was closed"}</p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { formatElapsedTime } from "./SaveMenu";
+import { useQuests } from "@/games/witcher/hooks/useQuests";
+import { QuestObjective, QuestProgress } from "@/games/witcher/lib/quests";
+
+interface QuestLogProps {
+  // Seconds of play, for the time left on timed objectives
+  elapsedTime: number;
+}
+
+// How far along the current objective is, e.g. "2/3" or "0:45"
+const describeProgress = (
+  objective: QuestObjective,
+  progress: QuestProgress,
+  elapsedTime: number
+) => {
+  switch (objective.type) {
+    case "kill":
+      return `${progress.count}/${objective.count}`;
+    case "protect":
+    case "survive":
+      return formatElapsedTime(
+        Math.max(0, objective.seconds - (elapsedTime - progress.startedAt))
+      );
+    case "reach":
+      return null;
+  }
+};
+
+// Active quests with their current objective; expands to show the story
+// behind each one and the quests already completed or failed
+export function QuestLog({ elapsedTime }: QuestLogProps) {
+  const quests = useQuests();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const active = quests.filter(({ progress }) => progress.status === "active");
+  const finished = quests.filter(
+    ({ progress }) => progress.status !== "active"
+  );
+
+  return (
+    <div className="bg-black/70 p-3 rounded text-white text-sm w-64">
+      <button
+        className="w-full flex justify-between font-bold pointer-events-auto"
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={() => setIsExpanded((prev) => !prev)}
+      >
+        <span>Quests</span>
+        <span className="text-gray-400">
+          {isExpanded ? "Hide" : "Show all"}
+        </span>
+      </button>
+
+      {active.length === 0 && (
+        <p className="mt-2 text-gray-400">No quests in progress</p>
+      )}
+
+      <ul className="mt-2 space-y-2">
+        {active.map(({ quest, progress }) => {
+          const objective = quest.objectives[progress.objective];
+          const status = describeProgress(objective, progress, elapsedTime);
+
+          return (
+            <li key={quest.id}>
+              <div className="text-yellow-300">{quest.title}</div>
+              {isExpanded && (
+                <div className="text-gray-400 italic">{quest.description}</div>
+              )}
+              <div className="flex justify-between gap-2">
+                <span>{objective.description}</span>
+                {status && <span className="font-mono">{status}</span>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {isExpanded && finished.length > 0 && (
+        <ul className="mt-3 pt-2 border-t border-gray-700 space-y-1">
+          {finished.map(({ quest, progress }) => (
+            <li
+              key={quest.id}
+              className={
+                progress.status === "completed"
+                  ? "text-green-400"
+                  : "text-red-400 line-through"
+              }
+            >
+              {quest.title}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
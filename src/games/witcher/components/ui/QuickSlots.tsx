@@ -0,0 +1,79 @@
+import { useEffect, useState } from "react";
+import { useInventory } from "@/games/witcher/hooks/useInventory";
+import { useStatusEffects } from "@/games/witcher/hooks/useStatusEffects";
+import {
+  ITEMS,
+  ItemDefinition,
+  ItemId,
+  countItem,
+} from "@/games/witcher/lib/items";
+import { STATUS_EFFECTS } from "@/games/witcher/lib/statusEffects";
+
+interface QuickSlotsProps {
+  onUse: (item: ItemId) => void;
+}
+
+// Default keys, shown on the slots
+const SLOT_KEYS = ["Z", "X", "C", "V"];
+
+// Potions and oils ready to use, each with how many are left and how long
+// its effect has to run
+export function QuickSlots({ onUse }: QuickSlotsProps) {
+  const inventory = useInventory();
+  const effects = useStatusEffects();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick while anything is working so the timers count down
+  useEffect(() => {
+    if (effects.length === 0) return;
+
+    const timer = setTimeout(() => setNow(Date.now()), 250);
+    return () => clearTimeout(timer);
+  }, [effects, now]);
+
+  return (
+    <div className="flex gap-2">
+      {inventory.quickSlots.map((item, slot) => {
+        const count = item ? countItem(inventory, item) : 0;
+        const { name, color, effect }: Partial<ItemDefinition> = item
+          ? ITEMS[item]
+          : {};
+        const running = effects.find(({ id }) => id === effect);
+        const remaining = running ? Math.max(0, running.expiresAt - now) : 0;
+
+        return (
+          <button
+            key={slot}
+            className="relative w-14 h-14 rounded bg-black/70 text-white flex flex-col items-center justify-center overflow-hidden border-2 border-transparent pointer-events-auto disabled:opacity-50 transition"
+            style={running ? { borderColor: color } : undefined}
+            disabled={count === 0}
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={() => item && onUse(item)}
+          >
+            {/* Time left on the effect */}
+            {effect && remaining > 0 && (
+              <div
+                className="absolute bottom-0 left-0 right-0 bg-white/20"
+                style={{
+                  height: `${(remaining / STATUS_EFFECTS[effect].duration) * 100}%`,
+                }}
+              />
+            )}
+
+            <span className="absolute top-0.5 left-1 text-xs text-gray-400">
+              {SLOT_KEYS[slot]}
+            </span>
+            {item && (
+              <>
+                <span className="relative font-bold text-xs" style={{ color }}>
+                  {name}
+                </span>
+                <span className="relative text-xs">×{count}</span>
+              </>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+import {
+  AUTOSAVE_SLOT,
+  SAVE_SLOTS,
+  listSaves,
+} from "@/games/witcher/lib/saveGame";
+
+interface SaveMenuProps {
+  status: string | null;
+  // Saving is only offered while the game is running
+  canSave: boolean;
+  onSave: (slot: string) => void;
+  onLoad: (slot: string) => void;
+  onDelete: (slot: string) => void;
+  onClose: () => void;
+}
+
+// Play time as m:ss
+export const formatElapsedTime = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+export function SaveMenu({
+  status,
+  canSave,
+  onSave,
+  onLoad,
+  onDelete,
+  onClose,
+}: SaveMenuProps) {
+  // Read fresh on every render; the overlay re-renders with the game
+  const saves = listSaves();
+
+  return (
+    <div
+      className="absolute inset-0 flex items-center justify-center bg-black/60 pointer-events-auto"
+      // Keep clicks in the menu from reaching the game controls
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseUp={(e) => e.stopPropagation()}
+    >
+      <div className="bg-gray-900 p-6 rounded-lg shadow-lg text-white w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-2xl font-bold">Saved Games</h2>
+          <button
+            className="text-gray-400 hover:text-white transition"
+            onClick={onClose}
+          >
+            Close
+          </button>
+        </div>
+
+        <ul className="space-y-2">
+          {SAVE_SLOTS.map((slot, index) => {
+            const save = saves.find((summary) => summary.slot === slot);
+            const isAutosave = slot === AUTOSAVE_SLOT;
+
+            return (
+              <li
+                key={slot}
+                className="flex items-center justify-between bg-black/40 rounded p-3"
+              >
+                <div>
+                  <div className="font-bold">
+                    {isAutosave ? "Autosave" : `Slot ${index}`}
+                  </div>
+                  <div className="text-sm text-gray-400">
+                    {save
+                      ? `${new Date(save.savedAt).toLocaleString()} · Score ${
+                          save.score
+                        } · ${formatElapsedTime(save.elapsedTime)}`
+                      : "Empty"}
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  {!isAutosave && canSave && (
+                    <button
+                      className="bg-gray-700 hover:bg-gray-600 text-sm py-1 px-3 rounded transition"
+                      onClick={() => onSave(slot)}
+                    >
+                      Save
+                    </button>
+                  )}
+                  {save && (
+                    <button
+                      className="bg-red-600 hover:bg-red-700 text-sm py-1 px-3 rounded transition"
+                      onClick={() => onLoad(slot)}
+                    >
+                      Load
+                    </button>
+                  )}
+                  {save && !isAutosave && (
+                    <button
+                      className="text-gray-400 hover:text-white text-sm transition"
+                      onClick={() => onDelete(slot)}
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        {status && <p className="mt-4 text-sm text-gray-300">{status}</p>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { SignType } from "@/games/witcher/types/game";
+import { SIGN_ORDER, SIGNS } from "@/games/witcher/lib/signs";
+
+interface SignSelectorProps {
+  selectedSign: SignType;
+  // When each sign is ready again (Date.now() milliseconds)
+  cooldowns: Record<SignType, number>;
+}
+
+export function SignSelector({ selectedSign, cooldowns }: SignSelectorProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick while any sign is cooling down so the timers count down
+  useEffect(() => {
+    const coolingDown = Object.values(cooldowns).some((readyAt) => readyAt > now);
+    if (!coolingDown) return;
+
+    const timer = setTimeout(() => setNow(Date.now()), 100);
+    return () => clearTimeout(timer);
+  }, [cooldowns, now]);
+
+  return (
+    <div className="flex gap-2">
+      {SIGN_ORDER.map((sign, index) => {
+        const { name, color, cooldown } = SIGNS[sign];
+        const remaining = Math.max(0, cooldowns[sign] - now);
+        const isSelected = sign === selectedSign;
+
+        return (
+          <div
+            key={sign}
+            className={`relative w-16 h-16 rounded bg-black/70 text-white flex flex-col items-center justify-center overflow-hidden border-2 ${
+              isSelected ? "scale-110" : "border-transparent"
+            } transition`}
+            style={isSelected ? { borderColor: color } : undefined}
+          >
+            {/* Cooldown sweep */}
+            {remaining > 0 && (
+              <div
+                className="absolute bottom-0 left-0 right-0 bg-black/60"
+                style={{ height: `${(remaining / cooldown) * 100}%` }}
+              />
+            )}
+
+            <span className="absolute top-0.5 left-1 text-xs text-gray-400">
+              {index + 1}
+            </span>
+            <span className="relative font-bold text-sm" style={{ color }}>
+              {name}
+            </span>
+            {remaining > 0 && (
+              <span className="relative text-xs">
+                {(remaining / 1000).toFixed(1)}s
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
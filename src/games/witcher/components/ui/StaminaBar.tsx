@@ -0,0 +1,30 @@
+interface StaminaBarProps {
+  currentStamina: number;
+  maxStamina: number;
+}
+
+export function StaminaBar({ currentStamina, maxStamina }: StaminaBarProps) {
+  const staminaPercentage = Math.max(
+    0,
+    Math.min(100, (currentStamina / maxStamina) * 100)
+  );
+
+  return (
+    <div className="flex flex-col w-full max-w-xs mt-2">
+      <div className="flex justify-between text-white text-sm mb-1">
+        <span>Stamina</span>
+        <span>{`${Math.floor(currentStamina)}/${maxStamina}`}</span>
+      </div>
+      <div className="w-full h-2 bg-gray-800 rounded-full overflow-hidden">
+        <div
+          className="h-full transition-all duration-100 ease-out"
+          style={{
+            width: `${staminaPercentage}%`,
+            // Dim the bar when there's too little left to act
+            backgroundColor: staminaPercentage > 20 ? "#FFC107" : "#8D6E63",
+          }}
+        />
+      </div>
+    </div>
+  );
+}
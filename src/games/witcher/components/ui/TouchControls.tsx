@@ -0,0 +1,101 @@
+import { InputReader, holdStick } from "@/lib/input";
+import { SwipeArea } from "@/components/touch/SwipeArea";
+import { TouchButton } from "@/components/touch/TouchButton";
+import { VirtualJoystick } from "@/components/touch/VirtualJoystick";
+import { SignType } from "@/games/witcher/types/game";
+import { ATTACKS, DODGE_STAMINA_COST } from "@/games/witcher/lib/combat";
+import { SIGN_ORDER, SIGNS } from "@/games/witcher/lib/signs";
+import { SIGN_ACTIONS, WitcherAction } from "@/games/witcher/lib/input";
+
+interface TouchControlsProps {
+  input: InputReader<WitcherAction>;
+  selectedSign: SignType;
+  stamina: number;
+  onSwipe: (dx: number) => void;
+}
+
+// The action that selects each sign
+const SELECT_SIGN = Object.fromEntries(
+  Object.entries(SIGN_ACTIONS).map(([action, sign]) => [sign, action])
+) as Record<SignType, WitcherAction>;
+
+// On-screen controls for touch screens: a stick to move, swipes on empty
+// screen to turn the camera and action buttons that dim when there isn't
+// enough stamina for them
+export function TouchControls({
+  input,
+  selectedSign,
+  stamina,
+  onSwipe,
+}: TouchControlsProps) {
+  const nextSign =
+    SIGN_ORDER[(SIGN_ORDER.indexOf(selectedSign) + 1) % SIGN_ORDER.length];
+  const { name, color, staminaCost } = SIGNS[selectedSign];
+
+  const button = (action: WitcherAction) => ({
+    onPress: () => input.press(action),
+    onRelease: () => input.release(action),
+  });
+
+  return (
+    <>
+      <SwipeArea onSwipe={onSwipe} />
+
+      <div className="absolute bottom-24 left-8">
+        <VirtualJoystick
+          onMove={(x, y) =>
+            holdStick(
+              input,
+              {
+                left: "moveLeft",
+                right: "moveRight",
+                up: "moveForward",
+                down: "moveBackward",
+              },
+              x,
+              y
+            )
+          }
+        />
+      </div>
+
+      <div className="absolute bottom-24 right-8 grid grid-cols-3 gap-3 items-center justify-items-center">
+        <TouchButton {...button("block")} className="w-16 h-16">
+          Block
+        </TouchButton>
+        <TouchButton
+          {...button("heavyAttack")}
+          dimmed={stamina < ATTACKS.heavy.staminaCost}
+          className="w-16 h-16"
+        >
+          Heavy
+        </TouchButton>
+        <TouchButton {...button(SELECT_SIGN[nextSign])} className="w-12 h-12">
+          {SIGNS[nextSign].name}
+        </TouchButton>
+
+        <TouchButton
+          {...button("dodge")}
+          dimmed={stamina < DODGE_STAMINA_COST}
+          className="w-16 h-16"
+        >
+          Dodge
+        </TouchButton>
+        <TouchButton
+          {...button("attack")}
+          dimmed={stamina < ATTACKS.light.staminaCost}
+          className="w-20 h-20"
+        >
+          Attack
+        </TouchButton>
+        <TouchButton
+          {...button("castSign")}
+          dimmed={stamina < staminaCost}
+          className="w-16 h-16"
+        >
+          <span style={{ color }}>{name}</span>
+        </TouchButton>
+      </div>
+    </>
+  );
+}
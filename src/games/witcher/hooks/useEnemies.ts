@@ -0,0 +1,14 @@
+import { useSyncExternalStore } from "react";
+import { enemyStore } from "@/games/witcher/store/enemyStore";
+
+// All enemies currently in the world
+export const useEnemies = () =>
+  useSyncExternalStore(enemyStore.subscribe, enemyStore.getAll, enemyStore.getAll);
+
+// A single enemy; re-renders only when that enemy changes
+export const useEnemy = (id: string) =>
+  useSyncExternalStore(
+    enemyStore.subscribe,
+    () => enemyStore.get(id),
+    () => enemyStore.get(id)
+  );
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from "react";
+import { GameControls, SignType } from "@/games/witcher/types/game";
+import { InputReader, createInputReader } from "@/lib/input";
+import {
+  SIGN_ACTIONS,
+  WitcherAction,
+  witcherBindings,
+} from "@/games/witcher/lib/input";
+
+const BUTTON_ACTIONS = [
+  "attack",
+  "heavyAttack",
+  "block",
+  "dodge",
+  "castSign",
+] as const satisfies readonly (WitcherAction & keyof GameControls)[];
+
+// Turn per pixel of a camera swipe (radians)
+const SWIPE_TURN_SPEED = 0.008;
+
+const sameControls = (a: GameControls, b: GameControls) =>
+  (Object.keys(a) as (keyof GameControls)[]).every((key) => a[key] === b[key]);
+
+export const useGameControls = () => {
+  const [controls, setControls] = useState<GameControls>({
+    moveForward: 0,
+    moveBackward: 0,
+    moveLeft: 0,
+    moveRight: 0,
+    attack: false,
+    heavyAttack: false,
+    block: false,
+    dodge: false,
+    castSign: false,
+    selectedSign: "igni",
+    turnAngle: 0,
+  });
+  // Exposed so touch controls can hold actions
+  const [input, setInput] = useState<InputReader<WitcherAction> | null>(null);
+  const turnAngle = useRef(0);
+
+  useEffect(() => {
+    const input = createInputReader(witcherBindings.get, {
+      suppressContextMenu: true,
+    });
+    setInput(input);
+
+    let selectedSign: SignType = "igni";
+    // Presses since the last frame, so a tap shorter than a frame still counts
+    const tapped = new Set<WitcherAction>();
+
+    const stopListening = input.onPress((action) => {
+      const sign = SIGN_ACTIONS[action];
+      if (sign) {
+        selectedSign = sign;
+      } else {
+        tapped.add(action);
+      }
+    });
+
+    // Read the actions once a frame and only re-render when they change
+    let frame = 0;
+    const update = () => {
+      input.poll();
+
+      const next: GameControls = {
+        moveForward: input.value("moveForward"),
+        moveBackward: input.value("moveBackward"),
+        moveLeft: input.value("moveLeft"),
+        moveRight: input.value("moveRight"),
+        attack: false,
+        heavyAttack: false,
+        block: false,
+        dodge: false,
+        castSign: false,
+        selectedSign,
+        turnAngle: turnAngle.current,
+      };
+      BUTTON_ACTIONS.forEach((action) => {
+        next[action] = input.pressed(action) || tapped.has(action);
+      });
+      tapped.clear();
+
+      setControls((prev) => (sameControls(prev, next) ? prev : next));
+      frame = requestAnimationFrame(update);
+    };
+    frame = requestAnimationFrame(update);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      stopListening();
+      input.dispose();
+      setInput(null);
+    };
+  }, []);
+
+  // Swiping right turns the camera, and the player, to the right
+  const turnCamera = (dx: number) => {
+    turnAngle.current -= dx * SWIPE_TURN_SPEED;
+  };
+
+  return { controls, input, turnCamera };
+};
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { herbStore } from "@/games/witcher/store/herbStore";
+
+// Herbs that have been picked and are growing back
+export const useHarvestedHerbs = () =>
+  useSyncExternalStore(herbStore.subscribe, herbStore.getAll, herbStore.getAll);
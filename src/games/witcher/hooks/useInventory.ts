@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react";
+import { inventoryStore } from "@/games/witcher/store/inventoryStore";
+
+// What the witcher is carrying and wearing
+export const useInventory = () =>
+  useSyncExternalStore(
+    inventoryStore.subscribe,
+    inventoryStore.get,
+    inventoryStore.get
+  );
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from "react";
+import {
+  NetworkClient,
+  NetworkState,
+  createNetworkClient,
+} from "@/games/witcher/lib/network/client";
+import { Progression } from "@/games/witcher/lib/progression";
+
+const NOT_CONNECTED: NetworkState = {
+  status: "connecting",
+  error: null,
+  playerId: null,
+  worldSeed: null,
+  players: [],
+  enemies: [],
+  zones: [],
+  effects: [],
+};
+
+// Connect to a multiplayer server for as long as the component is mounted
+export const useNetworkClient = (
+  url: string,
+  name: string,
+  progression: Progression
+) => {
+  const [client, setClient] = useState<NetworkClient | null>(null);
+
+  useEffect(() => {
+    const client = createNetworkClient(url, name, progression);
+    setClient(client);
+
+    return () => {
+      client.close();
+      setClient(null);
+    };
+  }, [url, name, progression]);
+
+  const subscribe = useCallback(
+    (listener: () => void) => client?.subscribe(listener) ?? (() => {}),
+    [client]
+  );
+  const getState = useCallback(
+    () => client?.getState() ?? NOT_CONNECTED,
+    [client]
+  );
+  const state = useSyncExternalStore(subscribe, getState, () => NOT_CONNECTED);
+
+  return { client, state };
+};
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react";
+import { pickupStore } from "@/games/witcher/store/pickupStore";
+
+// Loot lying on the ground
+export const usePickups = () =>
+  useSyncExternalStore(
+    pickupStore.subscribe,
+    pickupStore.getAll,
+    pickupStore.getAll
+  );
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react";
+import { questStore } from "@/games/witcher/store/questStore";
+
+// Every started quest with its progress
+export const useQuests = () =>
+  useSyncExternalStore(
+    questStore.subscribe,
+    questStore.getAll,
+    questStore.getAll
+  );
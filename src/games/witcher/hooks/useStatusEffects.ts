@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react";
+import { statusEffectStore } from "@/games/witcher/store/statusEffectStore";
+
+// Potions and oils working on the player
+export const useStatusEffects = () =>
+  useSyncExternalStore(
+    statusEffectStore.subscribe,
+    statusEffectStore.getAll,
+    statusEffectStore.getAll
+  );
@@ -0,0 +1,437 @@
+import * as THREE from "three";
+import { Enemy } from "@/games/witcher/types/game";
+import {
+  NavGrid,
+  costAt,
+  findPath,
+  isWalkable,
+  opennessAt,
+} from "./navigation";
+
+// Data-driven behavior trees for enemy AI.
+//
+// A creature's behavior is a tree of plain objects (see creatures.ts). Every
+// frame the tree is walked from the root: composites decide which children
+// run, conditions check the world and actions steer the enemy through the
+// context the Enemy component provides. Nothing in here knows about React or
+// the physics engine.
+
+export type NodeStatus = "success" | "failure" | "running";
+
+export type BehaviorNode =
+  // Composites
+  // Run children in order until one doesn't fail
+  | { type: "selector"; children: BehaviorNode[] }
+  // Run children in order until one doesn't succeed
+  | { type: "sequence"; children: BehaviorNode[] }
+  // Conditions
+  | { type: "playerWithin"; range: "detection" | "attack" | number }
+  | { type: "healthBelow"; fraction: number }
+  // Actions
+  | { type: "attack"; cooldown: number }
+  | { type: "chase"; speed: number }
+  // Chase as a pack: members spread out around the player instead of
+  // lining up behind each other
+  | {
+      type: "flank";
+      speed: number;
+      packRadius: number;
+      spread: number; // Radians between neighbouring pack members
+      distance: number; // How close to the player each member circles
+    }
+  // Run away, preferring open ground over woods and water
+  | { type: "flee"; speed: number; distance: number }
+  | {
+      type: "wander";
+      speed: number;
+      radius: number; // Around the spawn point
+      pause: [number, number]; // Min/max rest between walks
+    }
+  | {
+      type: "patrol";
+      speed: number;
+      // Waypoints as [x, z] offsets from the spawn point, walked in a loop
+      route: [number, number][];
+    }
+  // Head back to the spawn point once pulled too far away, ignoring the
+  // player until home
+  | { type: "leash"; distance: number; speed: number }
+  // Once below a health fraction, permanently speed up and hit harder.
+  // Never succeeds, so a selector carries on to the next branch.
+  | {
+      type: "enrage";
+      below: number;
+      speedMultiplier: number;
+      damageMultiplier: number;
+    };
+
+// Per-enemy state kept between frames
+export interface AIMemory {
+  home: THREE.Vector3;
+  lastAttackAt: number;
+  wanderTarget: THREE.Vector3 | null;
+  restUntil: number;
+  patrolIndex: number;
+  returningHome: boolean;
+  speedMultiplier: number;
+  damageMultiplier: number;
+  // Current route and the target it was planned for
+  path: THREE.Vector3[];
+  pathGoal: THREE.Vector3 | null;
+  repathAt: number;
+  fleeTarget: THREE.Vector3 | null;
+  fleeReplanAt: number;
+}
+
+export const createAIMemory = (home: THREE.Vector3): AIMemory => ({
+  home: home.clone(),
+  lastAttackAt: 0,
+  wanderTarget: null,
+  restUntil: 0,
+  patrolIndex: 0,
+  returningHome: false,
+  speedMultiplier: 1,
+  damageMultiplier: 1,
+  path: [],
+  pathGoal: null,
+  repathAt: 0,
+  fleeTarget: null,
+  fleeReplanAt: 0,
+});
+
+// Everything a behavior can read, and the ways it can act on the world
+export interface AIContext {
+  enemy: Enemy;
+  // Ground position of the enemy this frame
+  position: THREE.Vector3;
+  playerPosition: THREE.Vector3;
+  // Every living enemy, for pack behaviors and keeping apart
+  others: Enemy[];
+  navGrid: NavGrid;
+  memory: AIMemory;
+  now: number;
+  // Walk in a direction at a speed (units per second) and face that way
+  move(direction: THREE.Vector3, speed: number): void;
+  face(target: THREE.Vector3): void;
+  setAggroState(state: Enemy["aggroState"]): void;
+  attackPlayer(damage: number): void;
+  update(patch: Partial<Enemy>): void;
+}
+
+// Distance at which a walk target counts as reached
+const ARRIVE_DISTANCE = 0.5;
+
+// Plan a new route when the target has moved this far, or this often
+const REPATH_DISTANCE = 1.5;
+const REPATH_INTERVAL = 1000;
+
+// Enemies closer than this push away from each other
+const SEPARATION_RADIUS = 1.5;
+const SEPARATION_WEIGHT = 1.2;
+
+// How often a fleeing creature reconsiders where to run
+const FLEE_REPLAN_INTERVAL = 1000;
+
+const flatDistance = (a: THREE.Vector3, b: THREE.Vector3) =>
+  Math.hypot(a.x - b.x, a.z - b.z);
+
+// Push away from nearby enemies so groups spread out instead of stacking
+const separation = (ctx: AIContext) => {
+  const push = new THREE.Vector3();
+
+  ctx.others.forEach((other) => {
+    if (other.id === ctx.enemy.id || other.isDead) return;
+
+    const dx = ctx.position.x - other.position[0];
+    const dz = ctx.position.z - other.position[2];
+    const distance = Math.hypot(dx, dz);
+    if (distance === 0 || distance >= SEPARATION_RADIUS) return;
+
+    // Stronger the closer they are
+    const strength = (SEPARATION_RADIUS - distance) / SEPARATION_RADIUS;
+    push.x += (dx / distance) * strength;
+    push.z += (dz / distance) * strength;
+  });
+
+  return push;
+};
+
+// Move in a direction, blended with separation from other enemies
+const steer = (ctx: AIContext, direction: THREE.Vector3, speed: number) => {
+  const heading = direction
+    .clone()
+    .add(separation(ctx).multiplyScalar(SEPARATION_WEIGHT))
+    .setY(0);
+  if (heading.lengthSq() === 0) return;
+
+  ctx.move(heading.normalize(), speed * ctx.memory.speedMultiplier);
+};
+
+// Next point to head for on the way to a target, planning around obstacles
+const nextWaypoint = (ctx: AIContext, target: THREE.Vector3) => {
+  const { memory } = ctx;
+
+  if (
+    !memory.pathGoal ||
+    flatDistance(memory.pathGoal, target) > REPATH_DISTANCE ||
+    ctx.now >= memory.repathAt
+  ) {
+    // No route (e.g. target boxed in): head straight for it and let
+    // physics sort out the contact
+    memory.path = findPath(ctx.navGrid, ctx.position, target) ?? [
+      target.clone(),
+    ];
+    memory.pathGoal = target.clone();
+    memory.repathAt = ctx.now + REPATH_INTERVAL;
+  }
+
+  // Drop waypoints already reached
+  while (
+    memory.path.length > 1 &&
+    flatDistance(ctx.position, memory.path[0]) <= ARRIVE_DISTANCE
+  ) {
+    memory.path.shift();
+  }
+
+  // The final leg follows the live target rather than where it was planned
+  return memory.path.length > 1 ? memory.path[0] : target;
+};
+
+// Walk toward a point along a path; returns true once there
+const walkTo = (ctx: AIContext, target: THREE.Vector3, speed: number) => {
+  if (flatDistance(ctx.position, target) <= ARRIVE_DISTANCE) return true;
+
+  const waypoint = nextWaypoint(ctx, target);
+  const direction = new THREE.Vector3(
+    waypoint.x - ctx.position.x,
+    0,
+    waypoint.z - ctx.position.z
+  ).normalize();
+  steer(ctx, direction, speed);
+  return false;
+};
+
+// Somewhere away from the player to run to. Candidates fan out from the
+// direction straight away from the player; open, dry ground scores best.
+const chooseFleeTarget = (ctx: AIContext, distance: number) => {
+  const { position, playerPosition, navGrid } = ctx;
+  const away = Math.atan2(
+    position.x - playerPosition.x,
+    position.z - playerPosition.z
+  );
+
+  let best: THREE.Vector3 | null = null;
+  let bestScore = -Infinity;
+
+  for (let i = -3; i <= 3; i++) {
+    const angle = away + (i * Math.PI) / 8;
+    const candidate = new THREE.Vector3(
+      position.x + Math.sin(angle) * distance,
+      0,
+      position.z + Math.cos(angle) * distance
+    );
+    if (!isWalkable(navGrid, candidate.x, candidate.z)) continue;
+
+    const score =
+      flatDistance(candidate, playerPosition) +
+      opennessAt(navGrid, candidate.x, candidate.z) * 2 -
+      (costAt(navGrid, candidate.x, candidate.z) - 1) * 5;
+
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+// Walk the tree once
+export function runBehavior(node: BehaviorNode, ctx: AIContext): NodeStatus {
+  const { enemy, memory, position, playerPosition } = ctx;
+
+  switch (node.type) {
+    case "selector":
+      for (const child of node.children) {
+        const status = runBehavior(child, ctx);
+        if (status !== "failure") return status;
+      }
+      return "failure";
+
+    case "sequence":
+      for (const child of node.children) {
+        const status = runBehavior(child, ctx);
+        if (status !== "success") return status;
+      }
+      return "success";
+
+    case "playerWithin": {
+      const range =
+        node.range === "detection"
+          ? enemy.detectionRadius
+          : node.range === "attack"
+          ? enemy.attackRadius
+          : node.range;
+      return flatDistance(position, playerPosition) <= range
+        ? "success"
+        : "failure";
+    }
+
+    case "healthBelow":
+      return enemy.health / enemy.maxHealth < node.fraction
+        ? "success"
+        : "failure";
+
+    case "attack":
+      ctx.setAggroState("attack");
+      ctx.face(playerPosition);
+
+      if (ctx.now - memory.lastAttackAt > node.cooldown) {
+        memory.lastAttackAt = ctx.now;
+        ctx.attackPlayer(enemy.attackPower * memory.damageMultiplier);
+      }
+      return "running";
+
+    case "chase":
+      ctx.setAggroState("chase");
+      walkTo(ctx, playerPosition, node.speed);
+      return "running";
+
+    case "flank": {
+      ctx.setAggroState("chase");
+
+      // Pack mates already hunting nearby, ordered by id so every member
+      // agrees on who takes which slot
+      const pack = [
+        enemy,
+        ...ctx.others.filter(
+          (other) =>
+            other.id !== enemy.id &&
+            other.type === enemy.type &&
+            (other.aggroState === "chase" || other.aggroState === "attack") &&
+            flatDistance(new THREE.Vector3(...other.position), position) <=
+              node.packRadius
+        ),
+      ].sort((a, b) => (a.id < b.id ? -1 : 1));
+
+      if (pack.length === 1) {
+        walkTo(ctx, playerPosition, node.speed);
+        return "running";
+      }
+
+      // Spread the slots evenly either side of the direction the pack is
+      // approaching from
+      const centroid = pack
+        .reduce(
+          (sum, member) => sum.add(new THREE.Vector3(...member.position)),
+          new THREE.Vector3()
+        )
+        .divideScalar(pack.length);
+      const approach = Math.atan2(
+        centroid.x - playerPosition.x,
+        centroid.z - playerPosition.z
+      );
+      const slot = pack.findIndex((member) => member.id === enemy.id);
+      const angle = approach + (slot - (pack.length - 1) / 2) * node.spread;
+
+      const target = new THREE.Vector3(
+        playerPosition.x + Math.sin(angle) * node.distance,
+        0,
+        playerPosition.z + Math.cos(angle) * node.distance
+      );
+      walkTo(ctx, target, node.speed);
+      return "running";
+    }
+
+    case "flee": {
+      ctx.setAggroState("flee");
+
+      if (
+        !memory.fleeTarget ||
+        ctx.now >= memory.fleeReplanAt ||
+        flatDistance(position, memory.fleeTarget) <= ARRIVE_DISTANCE
+      ) {
+        memory.fleeTarget = chooseFleeTarget(ctx, node.distance);
+        memory.fleeReplanAt = ctx.now + FLEE_REPLAN_INTERVAL;
+      }
+
+      if (memory.fleeTarget) {
+        walkTo(ctx, memory.fleeTarget, node.speed);
+      } else {
+        // Cornered: just run straight away
+        const direction = new THREE.Vector3(
+          position.x - playerPosition.x,
+          0,
+          position.z - playerPosition.z
+        ).normalize();
+        steer(ctx, direction, node.speed);
+      }
+      return "running";
+    }
+
+    case "wander":
+      ctx.setAggroState("idle");
+      if (ctx.now < memory.restUntil) return "running";
+
+      if (!memory.wanderTarget) {
+        const angle = Math.random() * Math.PI * 2;
+        const distance = Math.random() * node.radius;
+        memory.wanderTarget = new THREE.Vector3(
+          memory.home.x + Math.sin(angle) * distance,
+          0,
+          memory.home.z + Math.cos(angle) * distance
+        );
+      }
+
+      if (walkTo(ctx, memory.wanderTarget, node.speed)) {
+        const [minRest, maxRest] = node.pause;
+        memory.wanderTarget = null;
+        memory.restUntil = ctx.now + minRest + Math.random() * (maxRest - minRest);
+      }
+      return "running";
+
+    case "patrol": {
+      ctx.setAggroState("idle");
+      const [dx, dz] = node.route[memory.patrolIndex % node.route.length];
+      const waypoint = new THREE.Vector3(
+        memory.home.x + dx,
+        0,
+        memory.home.z + dz
+      );
+
+      if (walkTo(ctx, waypoint, node.speed)) {
+        memory.patrolIndex = (memory.patrolIndex + 1) % node.route.length;
+      }
+      return "running";
+    }
+
+    case "leash":
+      if (
+        !memory.returningHome &&
+        flatDistance(position, memory.home) <= node.distance
+      ) {
+        return "failure";
+      }
+
+      memory.returningHome = true;
+      ctx.setAggroState("idle");
+
+      if (walkTo(ctx, memory.home, node.speed)) {
+        memory.returningHome = false;
+        return "success";
+      }
+      return "running";
+
+    case "enrage": {
+      const enraged =
+        enemy.isEnraged || enemy.health / enemy.maxHealth < node.below;
+      if (enraged && !enemy.isEnraged) ctx.update({ isEnraged: true });
+
+      // Set on every tick rather than once, since memory starts over when an
+      // enemy that was already enraged is loaded from a save
+      memory.speedMultiplier = enraged ? node.speedMultiplier : 1;
+      memory.damageMultiplier = enraged ? node.damageMultiplier : 1;
+      return "failure";
+    }
+  }
+}
@@ -0,0 +1,159 @@
+import { Enemy } from "@/games/witcher/types/game";
+import { LootEntry } from "@/games/witcher/lib/items";
+import { BehaviorNode } from "./behavior";
+
+// Declarative creature definitions. Adding a creature means adding its type
+// to `Enemy["type"]`, an entry here and a model in EnemyModels.tsx.
+
+export interface CreatureDefinition {
+  stats: Pick<
+    Enemy,
+    "maxHealth" | "detectionRadius" | "attackRadius" | "attackPower"
+  >;
+  // Physics body size and weight
+  body: { radius: number; mass: number };
+  // Experience the player earns for a kill
+  experience: number;
+  // What the carcass leaves behind
+  loot: LootEntry[];
+  behavior: BehaviorNode;
+}
+
+export const CREATURES: Record<Enemy["type"], CreatureDefinition> = {
+  // Wolves patrol their territory and hunt in packs, surrounding the player
+  wolf: {
+    stats: {
+      maxHealth: 50,
+      detectionRadius: 15,
+      attackRadius: 2,
+      attackPower: 10,
+    },
+    body: { radius: 0.5, mass: 40 },
+    experience: 25,
+    loot: [
+      { item: "wolfPelt", chance: 0.8, min: 1, max: 1 },
+      { item: "wolfFang", chance: 0.6, min: 1, max: 2 },
+      { item: "coins", chance: 1, min: 3, max: 8 },
+      { item: "wolvenArmor", chance: 0.05, min: 1, max: 1 },
+    ],
+    behavior: {
+      type: "selector",
+      children: [
+        { type: "leash", distance: 30, speed: 3 },
+        {
+          type: "sequence",
+          children: [
+            { type: "healthBelow", fraction: 0.2 },
+            { type: "playerWithin", range: "detection" },
+            { type: "flee", speed: 4, distance: 10 },
+          ],
+        },
+        {
+          type: "sequence",
+          children: [
+            { type: "playerWithin", range: "attack" },
+            { type: "attack", cooldown: 1000 },
+          ],
+        },
+        {
+          type: "sequence",
+          children: [
+            { type: "playerWithin", range: "detection" },
+            {
+              type: "flank",
+              speed: 3,
+              packRadius: 10,
+              spread: Math.PI / 3,
+              distance: 1.5,
+            },
+          ],
+        },
+        {
+          type: "patrol",
+          speed: 1.5,
+          route: [
+            [6, 0],
+            [6, 6],
+            [0, 6],
+            [0, 0],
+          ],
+        },
+      ],
+    },
+  },
+
+  // Bears roam slowly, defend a smaller area and turn furious when hurt
+  bear: {
+    stats: {
+      maxHealth: 100,
+      detectionRadius: 12,
+      attackRadius: 2.5,
+      attackPower: 20,
+    },
+    body: { radius: 0.9, mass: 250 },
+    experience: 80,
+    loot: [
+      { item: "bearFat", chance: 1, min: 1, max: 2 },
+      { item: "coins", chance: 1, min: 10, max: 20 },
+      { item: "bearhideGloves", chance: 0.2, min: 1, max: 1 },
+      { item: "silverSword", chance: 0.1, min: 1, max: 1 },
+    ],
+    behavior: {
+      type: "selector",
+      children: [
+        {
+          type: "enrage",
+          below: 0.4,
+          speedMultiplier: 1.6,
+          damageMultiplier: 1.5,
+        },
+        { type: "leash", distance: 20, speed: 2.5 },
+        {
+          type: "sequence",
+          children: [
+            { type: "playerWithin", range: "attack" },
+            { type: "attack", cooldown: 1500 },
+          ],
+        },
+        {
+          type: "sequence",
+          children: [
+            { type: "playerWithin", range: "detection" },
+            { type: "chase", speed: 3 },
+          ],
+        },
+        { type: "wander", speed: 1, radius: 8, pause: [2000, 5000] },
+      ],
+    },
+  },
+
+  // Deer graze around and bolt as soon as the player comes close
+  deer: {
+    stats: {
+      maxHealth: 30,
+      detectionRadius: 18,
+      attackRadius: 0, // Deer doesn't attack
+      attackPower: 0,
+    },
+    body: { radius: 0.5, mass: 60 },
+    experience: 10,
+    loot: [
+      { item: "deerMeat", chance: 0.9, min: 1, max: 2 },
+      { item: "coins", chance: 0.3, min: 1, max: 3 },
+      { item: "huntersBoots", chance: 0.08, min: 1, max: 1 },
+    ],
+    behavior: {
+      type: "selector",
+      children: [
+        {
+          type: "sequence",
+          children: [
+            { type: "playerWithin", range: "detection" },
+            { type: "flee", speed: 4.8, distance: 12 },
+          ],
+        },
+        { type: "wander", speed: 1.2, radius: 10, pause: [1000, 4000] },
+      ],
+    },
+  },
+};
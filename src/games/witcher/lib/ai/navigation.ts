@@ -0,0 +1,395 @@
+import * as THREE from "three";
+import {
+  EnvironmentLayout,
+  WORLD_HALF_SIZE,
+  isInWater,
+} from "@/games/witcher/lib/environmentLayout";
+
+// Navigation grid over the playable area, built from the environment layout,
+// with A* path queries for enemy movement.
+
+export const NAV_CELL_SIZE = 1;
+
+// Obstacles are grown by this much so paths keep bodies off the trunks and
+// rocks. Big creatures may still brush past; physics resolves the contact.
+export const NAV_AGENT_CLEARANCE = 0.6;
+
+// Path cost multiplier for wading, so routes go around ponds when they can
+const WATER_COST = 3;
+
+export interface NavGrid {
+  // Cells per side
+  size: number;
+  cellSize: number;
+  // World coordinate of the grid's minimum corner on both axes
+  origin: number;
+  walkable: Uint8Array;
+  cost: Float32Array;
+  // Distance in world units from each cell to the nearest obstacle
+  openness: Float32Array;
+}
+
+export function createNavGrid(
+  layout: EnvironmentLayout,
+  cellSize = NAV_CELL_SIZE
+): NavGrid {
+  const size = Math.ceil((WORLD_HALF_SIZE * 2) / cellSize);
+  const origin = -WORLD_HALF_SIZE;
+  const walkable = new Uint8Array(size * size);
+  const cost = new Float32Array(size * size);
+
+  const obstacles = [...layout.trees, ...layout.rocks].map(
+    ({ position, radius }) => ({
+      x: position[0],
+      z: position[2],
+      radius: radius + NAV_AGENT_CLEARANCE,
+    })
+  );
+
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const x = origin + (col + 0.5) * cellSize;
+      const z = origin + (row + 0.5) * cellSize;
+      const index = row * size + col;
+
+      const nearWall =
+        WORLD_HALF_SIZE - Math.max(Math.abs(x), Math.abs(z)) <
+        NAV_AGENT_CLEARANCE;
+      const blocked = obstacles.some(
+        (obstacle) =>
+          Math.hypot(x - obstacle.x, z - obstacle.z) < obstacle.radius
+      );
+
+      walkable[index] = nearWall || blocked ? 0 : 1;
+      cost[index] = isInWater(layout, x, z) ? WATER_COST : 1;
+    }
+  }
+
+  return {
+    size,
+    cellSize,
+    origin,
+    walkable,
+    cost,
+    openness: computeOpenness(walkable, size, cellSize),
+  };
+}
+
+// Two-pass chamfer distance transform: distance from every cell to the
+// closest blocked one
+function computeOpenness(
+  walkable: Uint8Array,
+  size: number,
+  cellSize: number
+) {
+  const distance = new Float32Array(size * size);
+  for (let i = 0; i < distance.length; i++) {
+    distance[i] = walkable[i] ? Infinity : 0;
+  }
+
+  const relax = (index: number, col: number, row: number, step: number) => {
+    if (col < 0 || row < 0 || col >= size || row >= size) return;
+    const candidate = distance[row * size + col] + step;
+    if (candidate < distance[index]) distance[index] = candidate;
+  };
+
+  for (let row = 0; row < size; row++) {
+    for (let col = 0; col < size; col++) {
+      const index = row * size + col;
+      relax(index, col - 1, row, 1);
+      relax(index, col, row - 1, 1);
+      relax(index, col - 1, row - 1, Math.SQRT2);
+      relax(index, col + 1, row - 1, Math.SQRT2);
+    }
+  }
+
+  for (let row = size - 1; row >= 0; row--) {
+    for (let col = size - 1; col >= 0; col--) {
+      const index = row * size + col;
+      relax(index, col + 1, row, 1);
+      relax(index, col, row + 1, 1);
+      relax(index, col + 1, row + 1, Math.SQRT2);
+      relax(index, col - 1, row + 1, Math.SQRT2);
+    }
+  }
+
+  return distance.map((cells) => cells * cellSize);
+}
+
+// Cell index of a world position, or -1 outside the grid
+const cellAt = (grid: NavGrid, x: number, z: number) => {
+  const col = Math.floor((x - grid.origin) / grid.cellSize);
+  const row = Math.floor((z - grid.origin) / grid.cellSize);
+  if (col < 0 || row < 0 || col >= grid.size || row >= grid.size) return -1;
+  return row * grid.size + col;
+};
+
+const cellCenter = (grid: NavGrid, index: number) =>
+  new THREE.Vector3(
+    grid.origin + ((index % grid.size) + 0.5) * grid.cellSize,
+    0,
+    grid.origin + (Math.floor(index / grid.size) + 0.5) * grid.cellSize
+  );
+
+export function isWalkable(grid: NavGrid, x: number, z: number) {
+  const index = cellAt(grid, x, z);
+  return index !== -1 && grid.walkable[index] === 1;
+}
+
+export function costAt(grid: NavGrid, x: number, z: number) {
+  const index = cellAt(grid, x, z);
+  return index === -1 ? Infinity : grid.cost[index];
+}
+
+export function opennessAt(grid: NavGrid, x: number, z: number) {
+  const index = cellAt(grid, x, z);
+  return index === -1 ? 0 : grid.openness[index];
+}
+
+// Closest walkable cell to a point, searching outward ring by ring
+function nearestWalkable(grid: NavGrid, x: number, z: number) {
+  const col = Math.min(
+    grid.size - 1,
+    Math.max(0, Math.floor((x - grid.origin) / grid.cellSize))
+  );
+  const row = Math.min(
+    grid.size - 1,
+    Math.max(0, Math.floor((z - grid.origin) / grid.cellSize))
+  );
+
+  for (let ring = 0; ring < grid.size; ring++) {
+    for (let dr = -ring; dr <= ring; dr++) {
+      for (let dc = -ring; dc <= ring; dc++) {
+        if (Math.max(Math.abs(dr), Math.abs(dc)) !== ring) continue;
+
+        const c = col + dc;
+        const r = row + dr;
+        if (c < 0 || r < 0 || c >= grid.size || r >= grid.size) continue;
+        if (grid.walkable[r * grid.size + c]) return r * grid.size + c;
+      }
+    }
+  }
+
+  return -1;
+}
+
+// Whether an agent can walk straight from a to b without leaving walkable
+// ground or wading into costlier terrain than at either end
+export function hasLineOfSight(
+  grid: NavGrid,
+  a: THREE.Vector3,
+  b: THREE.Vector3
+) {
+  const maxCost = Math.max(costAt(grid, a.x, a.z), costAt(grid, b.x, b.z));
+  const distance = Math.hypot(b.x - a.x, b.z - a.z);
+  const steps = Math.ceil(distance / (grid.cellSize / 2));
+
+  for (let i = 0; i <= steps; i++) {
+    const t = steps === 0 ? 0 : i / steps;
+    const x = a.x + (b.x - a.x) * t;
+    const z = a.z + (b.z - a.z) * t;
+    if (!isWalkable(grid, x, z) || costAt(grid, x, z) > maxCost) return false;
+  }
+
+  return true;
+}
+
+const NEIGHBOURS = [
+  [1, 0],
+  [-1, 0],
+  [0, 1],
+  [0, -1],
+  [1, 1],
+  [1, -1],
+  [-1, 1],
+  [-1, -1],
+];
+
+// A* over the grid. Returns the waypoints to walk through (not including the
+// start), or null if the goal can't be reached.
+export function findPath(
+  grid: NavGrid,
+  start: THREE.Vector3,
+  goal: THREE.Vector3
+): THREE.Vector3[] | null {
+  // Agents and targets pushed into an obstacle's margin still get a route
+  const startIndex = isWalkable(grid, start.x, start.z)
+    ? cellAt(grid, start.x, start.z)
+    : nearestWalkable(grid, start.x, start.z);
+  const goalWalkable = isWalkable(grid, goal.x, goal.z);
+  const goalIndex = goalWalkable
+    ? cellAt(grid, goal.x, goal.z)
+    : nearestWalkable(grid, goal.x, goal.z);
+  if (startIndex === -1 || goalIndex === -1) return null;
+
+  const { size } = grid;
+  const goalCol = goalIndex % size;
+  const goalRow = Math.floor(goalIndex / size);
+
+  // Octile distance, admissible for 8-way movement with unit costs
+  const heuristic = (index: number) => {
+    const dc = Math.abs((index % size) - goalCol);
+    const dr = Math.abs(Math.floor(index / size) - goalRow);
+    return Math.max(dc, dr) + (Math.SQRT2 - 1) * Math.min(dc, dr);
+  };
+
+  const cellCount = size * size;
+  const gScore = new Float32Array(cellCount).fill(Infinity);
+  const cameFrom = new Int32Array(cellCount).fill(-1);
+  const closed = new Uint8Array(cellCount);
+  const open = new MinHeap();
+
+  gScore[startIndex] = 0;
+  open.push(startIndex, heuristic(startIndex));
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goalIndex) break;
+    if (closed[current]) continue;
+    closed[current] = 1;
+
+    const col = current % size;
+    const row = Math.floor(current / size);
+
+    for (const [dc, dr] of NEIGHBOURS) {
+      const c = col + dc;
+      const r = row + dr;
+      if (c < 0 || r < 0 || c >= size || r >= size) continue;
+
+      const next = r * size + c;
+      if (closed[next] || !grid.walkable[next]) continue;
+
+      // Don't cut corners past an obstacle
+      if (
+        dc !== 0 &&
+        dr !== 0 &&
+        (!grid.walkable[row * size + c] || !grid.walkable[r * size + col])
+      ) {
+        continue;
+      }
+
+      const step = dc !== 0 && dr !== 0 ? Math.SQRT2 : 1;
+      const tentative =
+        gScore[current] + (step * (grid.cost[current] + grid.cost[next])) / 2;
+
+      if (tentative < gScore[next]) {
+        cameFrom[next] = current;
+        gScore[next] = tentative;
+        open.push(next, tentative + heuristic(next));
+      }
+    }
+  }
+
+  if (goalIndex !== startIndex && cameFrom[goalIndex] === -1) return null;
+
+  // Walk back from the goal to build the cell path
+  const cells: THREE.Vector3[] = [];
+  for (let index = goalIndex; index !== startIndex; index = cameFrom[index]) {
+    cells.push(cellCenter(grid, index));
+  }
+  cells.reverse();
+
+  // End exactly on the goal when it's reachable ground
+  if (goalWalkable) {
+    if (cells.length > 0) cells[cells.length - 1] = goal.clone().setY(0);
+    else cells.push(goal.clone().setY(0));
+  }
+
+  return smoothPath(grid, start, cells);
+}
+
+// Drop waypoints that can be skipped by walking straight past them
+function smoothPath(
+  grid: NavGrid,
+  start: THREE.Vector3,
+  path: THREE.Vector3[]
+) {
+  const smoothed: THREE.Vector3[] = [];
+  let from = start;
+  let i = 0;
+
+  while (i < path.length) {
+    let furthest = i;
+    while (
+      furthest + 1 < path.length &&
+      hasLineOfSight(grid, from, path[furthest + 1])
+    ) {
+      furthest++;
+    }
+
+    smoothed.push(path[furthest]);
+    from = path[furthest];
+    i = furthest + 1;
+  }
+
+  return smoothed;
+}
+
+// Binary min-heap of cell indices by priority. Cells may be pushed more
+// than once; stale entries are skipped by the caller.
+class MinHeap {
+  private items: number[] = [];
+  private priorities: number[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(index: number, priority: number) {
+    this.items.push(index);
+    this.priorities.push(priority);
+
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[i]) break;
+      this.swap(parent, i);
+      i = parent;
+    }
+  }
+
+  pop() {
+    const top = this.items[0];
+    const lastIndex = this.items.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.items.length > 0) {
+      this.items[0] = lastIndex;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+
+      while (true) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+
+        if (
+          left < this.items.length &&
+          this.priorities[left] < this.priorities[smallest]
+        ) {
+          smallest = left;
+        }
+        if (
+          right < this.items.length &&
+          this.priorities[right] < this.priorities[smallest]
+        ) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+
+        this.swap(smallest, i);
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+    [this.priorities[a], this.priorities[b]] = [
+      this.priorities[b],
+      this.priorities[a],
+    ];
+  }
+}
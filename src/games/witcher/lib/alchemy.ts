@@ -0,0 +1,76 @@
+import {
+  Inventory,
+  ItemId,
+  ItemStack,
+  addItem,
+  countItem,
+  removeItem,
+} from "@/games/witcher/lib/items";
+
+// Recipes for brewing potions and blade oils from creature drops and herbs
+
+export interface Recipe {
+  result: ItemId;
+  // How many one brew makes
+  count: number;
+  ingredients: ItemStack[];
+}
+
+export const RECIPES: Recipe[] = [
+  {
+    result: "swallow",
+    count: 1,
+    ingredients: [
+      { item: "celandine", count: 3 },
+      { item: "wolfFang", count: 1 },
+    ],
+  },
+  {
+    result: "cat",
+    count: 1,
+    ingredients: [
+      { item: "arenaria", count: 2 },
+      { item: "deerMeat", count: 1 },
+    ],
+  },
+  {
+    result: "thunderbolt",
+    count: 1,
+    ingredients: [
+      { item: "wolfsbane", count: 2 },
+      { item: "bearFat", count: 1 },
+    ],
+  },
+  {
+    result: "beastOil",
+    count: 2,
+    ingredients: [
+      { item: "wolfFang", count: 2 },
+      { item: "celandine", count: 1 },
+    ],
+  },
+  {
+    result: "ursineOil",
+    count: 2,
+    ingredients: [
+      { item: "bearFat", count: 2 },
+      { item: "wolfsbane", count: 1 },
+    ],
+  },
+];
+
+export const hasIngredients = (inventory: Inventory, recipe: Recipe) =>
+  recipe.ingredients.every(
+    ({ item, count }) => countItem(inventory, item) >= count
+  );
+
+// Use up the ingredients and add the result. Null if an ingredient is
+// missing or there's no room for the result.
+export function brew(inventory: Inventory, recipe: Recipe): Inventory | null {
+  const used = recipe.ingredients.reduce<Inventory | null>(
+    (current, { item, count }) => current && removeItem(current, item, count),
+    inventory
+  );
+
+  return used && addItem(used, recipe.result, recipe.count);
+}
@@ -0,0 +1,162 @@
+import { AttackType } from "@/games/witcher/types/game";
+import type { PlayerStats } from "@/games/witcher/lib/progression";
+
+// Tuning for the player's melee combat: attack types, combos, stamina,
+// parrying and dodging. Times are in milliseconds.
+
+export interface AttackDefinition {
+  damageMultiplier: number;
+  staminaCost: number;
+  duration: number;
+  range: number;
+  arc: number;
+}
+
+// The attack actually performed, after combo bonuses are applied
+export interface PlayerAttack extends AttackDefinition {
+  type: AttackType;
+  comboStep: number;
+  finisher: string | null;
+}
+
+export const ATTACKS: Record<AttackType, AttackDefinition> = {
+  light: {
+    damageMultiplier: 1,
+    staminaCost: 10,
+    duration: 350,
+    range: 2.5,
+    arc: Math.PI / 3, // 60 degrees
+  },
+  heavy: {
+    damageMultiplier: 1.8,
+    staminaCost: 25,
+    duration: 700,
+    range: 3,
+    arc: Math.PI / 2, // 90 degrees
+  },
+};
+
+// Damage bonus for each consecutive hit in a combo
+export const COMBO_MULTIPLIERS = [1, 1.15, 1.35, 1.6];
+
+// Time after an attack ends during which the next one continues the combo
+export const COMBO_WINDOW = 600;
+
+// Special endings for specific attack sequences
+export const COMBO_FINISHERS: {
+  name: string;
+  sequence: AttackType[];
+  damageMultiplier: number;
+  arc?: number;
+}[] = [
+  // Light, light, heavy: spinning strike that hits all around
+  {
+    name: "Whirl",
+    sequence: ["light", "light", "heavy"],
+    damageMultiplier: 1.5,
+    arc: Math.PI * 2,
+  },
+  // Heavy, heavy: crushing overhead blow
+  { name: "Rend", sequence: ["heavy", "heavy"], damageMultiplier: 1.4 },
+];
+
+export const MAX_STAMINA = 100;
+export const STAMINA_REGEN_RATE = 25; // Per second
+export const STAMINA_REGEN_DELAY = 800; // After spending stamina
+export const BLOCK_STAMINA_COST = 8; // Per blocked hit
+
+export const PARRY_WINDOW = 250; // From the moment the block starts
+export const STAGGER_DURATION = 1500; // How long a parried attacker is stunned
+
+export const DODGE_STAMINA_COST = 20;
+export const DODGE_DURATION = 450;
+export const DODGE_INVULNERABILITY = 300; // i-frames from the start of the roll
+export const DODGE_SPEED_MULTIPLIER = 2.5;
+
+// Work out the attack for the next hit given the attacks already in the combo
+export function resolveAttack(
+  type: AttackType,
+  history: AttackType[]
+): PlayerAttack {
+  const base = ATTACKS[type];
+  const sequence = [...history, type];
+  const comboStep = sequence.length - 1;
+
+  const finisher = COMBO_FINISHERS.find(
+    ({ sequence: pattern }) =>
+      pattern.length <= sequence.length &&
+      pattern.every(
+        (attack, i) => attack === sequence[sequence.length - pattern.length + i]
+      )
+  );
+
+  const comboMultiplier =
+    COMBO_MULTIPLIERS[Math.min(comboStep, COMBO_MULTIPLIERS.length - 1)];
+
+  return {
+    ...base,
+    type,
+    comboStep,
+    damageMultiplier:
+      base.damageMultiplier *
+      comboMultiplier *
+      (finisher?.damageMultiplier ?? 1),
+    arc: finisher?.arc ?? base.arc,
+    finisher: finisher?.name ?? null,
+  };
+}
+
+// Damage of one hit, before anything specific to the target such as oils
+export const attackDamage = (
+  attack: PlayerAttack,
+  stats: Pick<PlayerStats, "attackPower">
+) => Math.round(stats.attackPower * attack.damageMultiplier);
+
+// How the player stands when an enemy's blow lands
+export interface Defense {
+  isInvulnerable: boolean;
+  isParrying: boolean;
+  isBlocking: boolean;
+  stamina: number;
+  // Damage the Quen shield can still absorb
+  shield: number;
+}
+
+// What an enemy's blow does to the player
+export interface IncomingHit {
+  outcome: "dodged" | "parried" | "absorbed" | "blocked" | "hit";
+  // Health lost
+  damage: number;
+  // What's left of the Quen shield
+  shield: number;
+  // Stamina spent on the block
+  staminaCost: number;
+}
+
+// Work out a blow landing on the player. Dodge i-frames make it miss and a
+// well-timed block parries it; otherwise Quen soaks up what it can and a
+// block softens the rest while there's stamina to absorb it.
+export function resolveHit(
+  damage: number,
+  defense: Defense,
+  stats: Pick<PlayerStats, "blockReduction">
+): IncomingHit {
+  const unharmed = { damage: 0, shield: defense.shield, staminaCost: 0 };
+  if (defense.isInvulnerable) return { ...unharmed, outcome: "dodged" };
+  if (defense.isParrying) return { ...unharmed, outcome: "parried" };
+
+  const absorbed = Math.min(defense.shield, damage);
+  const shield = defense.shield - absorbed;
+  const remaining = damage - absorbed;
+  if (remaining <= 0) return { ...unharmed, outcome: "absorbed", shield };
+
+  const blocked = defense.isBlocking && defense.stamina >= BLOCK_STAMINA_COST;
+  return blocked
+    ? {
+        outcome: "blocked",
+        damage: Math.ceil(remaining * (1 - stats.blockReduction)),
+        shield,
+        staminaCost: BLOCK_STAMINA_COST,
+      }
+    : { outcome: "hit", damage: remaining, shield, staminaCost: 0 };
+}
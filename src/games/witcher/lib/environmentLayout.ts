@@ -0,0 +1,184 @@
+import { createRandom } from "./random";
+
+// Where every tree, rock, pond and herb in the world sits. The layout is generated
+// once from the world seed so rendering, physics and gameplay queries all
+// agree on the same obstacles.
+
+export interface TreeLayout {
+  position: [number, number, number];
+  rotation: number;
+  scale: number;
+  // Collider radius of the trunk
+  radius: number;
+}
+
+export interface RockLayout {
+  position: [number, number, number];
+  rotation: [number, number, number];
+  scale: number;
+  radius: number;
+}
+
+export interface WaterLayout {
+  position: [number, number, number];
+  size: [number, number];
+}
+
+// Alchemy ingredients growing in the wild; each is also an item id
+export type HerbType = "celandine" | "arenaria" | "wolfsbane";
+
+export interface HerbLayout {
+  type: HerbType;
+  position: [number, number, number];
+}
+
+export interface EnvironmentLayout {
+  trees: TreeLayout[];
+  rocks: RockLayout[];
+  water: WaterLayout[];
+  herbs: HerbLayout[];
+}
+
+// Half the width of the playable area; boundary walls sit here
+export const WORLD_HALF_SIZE = 50;
+
+// Movement speed multiplier while wading through water
+export const WATER_SPEED_MULTIPLIER = 0.4;
+
+const TREE_GROUPS = [
+  { position: [10, 0, 10], count: 5, radius: 5 },
+  { position: [-15, 0, -8], count: 7, radius: 8 },
+  { position: [5, 0, -20], count: 4, radius: 6 },
+];
+
+const ROCK_GROUPS = [
+  { position: [-5, 0, 15], count: 8, radius: 4 },
+  { position: [20, 0, -5], count: 6, radius: 3 },
+];
+
+const WATER: WaterLayout[] = [{ position: [30, -0.05, -15], size: [20, 20] }];
+
+// Celandine grows among the trees, arenaria between the rocks and wolfsbane
+// on the bank of the pond
+const HERB_GROUPS: {
+  type: HerbType;
+  position: number[];
+  count: number;
+  radius: number;
+}[] = [
+  { type: "celandine", position: [10, 0, 10], count: 4, radius: 6 },
+  { type: "celandine", position: [-15, 0, -8], count: 4, radius: 9 },
+  { type: "arenaria", position: [-5, 0, 15], count: 3, radius: 5 },
+  { type: "arenaria", position: [20, 0, -5], count: 3, radius: 4 },
+  { type: "wolfsbane", position: [17, 0, -15], count: 4, radius: 3 },
+];
+
+export function createEnvironmentLayout(seed: number): EnvironmentLayout {
+  const random = createRandom(seed);
+  const trees: TreeLayout[] = [];
+  const rocks: RockLayout[] = [];
+
+  TREE_GROUPS.forEach(({ position, count, radius }) => {
+    for (let i = 0; i < count; i++) {
+      // Position trees in a circle
+      const angle = (i / count) * Math.PI * 2;
+      const x = position[0] + Math.cos(angle) * radius * random();
+      const z = position[2] + Math.sin(angle) * radius * random();
+      const scale = 0.8 + random() * 0.4;
+
+      trees.push({
+        position: [x, 0, z],
+        rotation: random() * Math.PI * 2,
+        scale,
+        radius: 0.4 * scale,
+      });
+    }
+  });
+
+  ROCK_GROUPS.forEach(({ position, count, radius }) => {
+    for (let i = 0; i < count; i++) {
+      // Position rocks in a circle with some randomness
+      const angle = (i / count) * Math.PI * 2;
+      const distance = radius * random();
+      const scale = 0.5 + random();
+
+      rocks.push({
+        position: [
+          position[0] + Math.cos(angle) * distance,
+          0,
+          position[2] + Math.sin(angle) * distance,
+        ],
+        rotation: [
+          random() * Math.PI,
+          random() * Math.PI,
+          random() * Math.PI,
+        ],
+        scale,
+        // The rock mesh has radius scale / 2 and its group is scaled again
+        radius: (scale / 2) * scale,
+      });
+    }
+  });
+
+  // Placed after everything else so older seeds keep their trees and rocks
+  const herbs: HerbLayout[] = HERB_GROUPS.flatMap(
+    ({ type, position, count, radius }) =>
+      Array.from({ length: count }, (): HerbLayout => {
+        const angle = random() * Math.PI * 2;
+        const distance = radius * random();
+
+        return {
+          type,
+          position: [
+            position[0] + Math.cos(angle) * distance,
+            0,
+            position[2] + Math.sin(angle) * distance,
+          ],
+        };
+      })
+  );
+
+  return { trees, rocks, water: WATER, herbs };
+}
+
+// Whether a point on the ground is inside a pond
+export function isInWater(layout: EnvironmentLayout, x: number, z: number) {
+  return layout.water.some(
+    ({ position, size }) =>
+      Math.abs(x - position[0]) <= size[0] / 2 &&
+      Math.abs(z - position[2]) <= size[1] / 2
+  );
+}
+
+// Move a circle on the ground out of any tree or rock it overlaps and keep
+// it inside the boundary walls. Stands in for the physics colliders where
+// there is no physics world, e.g. on the multiplayer server.
+export function pushOutOfObstacles(
+  layout: EnvironmentLayout,
+  x: number,
+  z: number,
+  radius: number
+): [number, number] {
+  [...layout.trees, ...layout.rocks].forEach((obstacle) => {
+    const dx = x - obstacle.position[0];
+    const dz = z - obstacle.position[2];
+    const distance = Math.hypot(dx, dz);
+    const minDistance = obstacle.radius + radius;
+    if (distance >= minDistance) return;
+
+    // Dead centre: no direction to push in, so pick one
+    if (distance === 0) {
+      x += minDistance;
+      return;
+    }
+
+    x = obstacle.position[0] + (dx / distance) * minDistance;
+    z = obstacle.position[2] + (dz / distance) * minDistance;
+  });
+
+  const limit = WORLD_HALF_SIZE - radius;
+  return [
+    Math.max(-limit, Math.min(limit, x)),
+    Math.max(-limit, Math.min(limit, z)),
+  ];
+}
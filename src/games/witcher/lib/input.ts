@@ -0,0 +1,97 @@
+// Witcher actions and their default bindings, read by useGameControls
+
+import { Binding, InputScheme } from "@/lib/input";
+import { createBindingsStore } from "@/store/bindingsStore";
+import { SignType } from "@/games/witcher/types/game";
+
+export type WitcherAction =
+  | "moveForward"
+  | "moveBackward"
+  | "moveLeft"
+  | "moveRight"
+  | "attack"
+  | "heavyAttack"
+  | "block"
+  | "dodge"
+  | "castSign"
+  | "signIgni"
+  | "signAard"
+  | "signQuen"
+  | "signYrden"
+  | "signAxii"
+  | "quickSlot1"
+  | "quickSlot2"
+  | "quickSlot3"
+  | "quickSlot4";
+
+// Actions that select a sign
+export const SIGN_ACTIONS: Partial<Record<WitcherAction, SignType>> = {
+  signIgni: "igni",
+  signAard: "aard",
+  signQuen: "quen",
+  signYrden: "yrden",
+  signAxii: "axii",
+};
+
+// Actions that use the potion or oil in a quick slot, by slot index
+export const QUICK_SLOT_ACTIONS: Partial<Record<WitcherAction, number>> = {
+  quickSlot1: 0,
+  quickSlot2: 1,
+  quickSlot3: 2,
+  quickSlot4: 3,
+};
+
+const key = (code: string): Binding => ({ type: "key", code });
+const button = (index: number): Binding => ({ type: "gamepadButton", index });
+const axis = (index: number, direction: 1 | -1): Binding => ({
+  type: "gamepadAxis",
+  index,
+  direction,
+});
+
+export const WITCHER_INPUT: InputScheme<WitcherAction> = {
+  id: "witcher",
+  actions: [
+    { id: "moveForward", label: "Move forward" },
+    { id: "moveBackward", label: "Move backward" },
+    { id: "moveLeft", label: "Move left" },
+    { id: "moveRight", label: "Move right" },
+    { id: "attack", label: "Fast attack" },
+    { id: "heavyAttack", label: "Heavy attack" },
+    { id: "block", label: "Block / parry" },
+    { id: "dodge", label: "Dodge roll" },
+    { id: "castSign", label: "Cast sign" },
+    { id: "signIgni", label: "Select Igni" },
+    { id: "signAard", label: "Select Aard" },
+    { id: "signQuen", label: "Select Quen" },
+    { id: "signYrden", label: "Select Yrden" },
+    { id: "signAxii", label: "Select Axii" },
+    { id: "quickSlot1", label: "Quick slot 1" },
+    { id: "quickSlot2", label: "Quick slot 2" },
+    { id: "quickSlot3", label: "Quick slot 3" },
+    { id: "quickSlot4", label: "Quick slot 4" },
+  ],
+  // The left stick moves; triggers block and cast
+  defaults: {
+    moveForward: [key("KeyW"), axis(1, -1)],
+    moveBackward: [key("KeyS"), axis(1, 1)],
+    moveLeft: [key("KeyA"), axis(0, -1)],
+    moveRight: [key("KeyD"), axis(0, 1)],
+    attack: [{ type: "mouse", button: 0 }, button(2)],
+    heavyAttack: [key("KeyF"), { type: "mouse", button: 0, shift: true }, button(3)],
+    block: [{ type: "mouse", button: 2 }, button(6)],
+    dodge: [key("Space"), button(0)],
+    castSign: [key("KeyQ"), button(7)],
+    signIgni: [key("Digit1"), button(12)],
+    signAard: [key("Digit2"), button(15)],
+    signQuen: [key("Digit3"), button(13)],
+    signYrden: [key("Digit4"), button(14)],
+    signAxii: [key("Digit5"), button(5)],
+    quickSlot1: [key("KeyZ"), button(4)],
+    quickSlot2: [key("KeyX"), button(1)],
+    quickSlot3: [key("KeyC")],
+    quickSlot4: [key("KeyV")],
+  },
+};
+
+export const witcherBindings = createBindingsStore(WITCHER_INPUT);
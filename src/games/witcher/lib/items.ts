@@ -0,0 +1,341 @@
+import { StatModifier } from "@/games/witcher/lib/progression";
+import { StatusEffectId } from "@/games/witcher/lib/statusEffects";
+
+// Everything the witcher can carry: crafting materials dropped by creatures
+// or picked in the wild, coin, gear, potions and oils. Gear goes in an
+// equipment slot, where its modifiers join the player's stats and its colour
+// shows on the model. Potions and oils are used up for a status effect.
+
+export type EquipmentSlot = "sword" | "armor" | "gloves" | "boots";
+
+export type ItemId =
+  | "coins"
+  | "wolfPelt"
+  | "bearFat"
+  | "deerMeat"
+  | "wolfFang"
+  | "celandine"
+  | "arenaria"
+  | "wolfsbane"
+  | "swallow"
+  | "cat"
+  | "thunderbolt"
+  | "beastOil"
+  | "ursineOil"
+  | "steelSword"
+  | "silverSword"
+  | "wolvenArmor"
+  | "bearhideGloves"
+  | "huntersBoots";
+
+export interface ItemDefinition {
+  name: string;
+  description: string;
+  // Icon colour, and the colour of the gear on the model
+  color: string;
+  // How many fit in one inventory cell
+  stackSize: number;
+  slot?: EquipmentSlot;
+  modifiers?: StatModifier[];
+  // Potions and oils: the effect one use gives
+  effect?: StatusEffectId;
+}
+
+export const ITEMS: Record<ItemId, ItemDefinition> = {
+  // Counted separately rather than taking up inventory cells
+  coins: {
+    name: "Crowns",
+    description: "Coin of the realm",
+    color: "#ffd700",
+    stackSize: Infinity,
+  },
+  wolfPelt: {
+    name: "Wolf Pelt",
+    description: "Thick grey fur, prized by tanners",
+    color: "#8a8f96",
+    stackSize: 20,
+  },
+  bearFat: {
+    name: "Bear Fat",
+    description: "Rendered fat, a common alchemical base",
+    color: "#e8d8a8",
+    stackSize: 20,
+  },
+  deerMeat: {
+    name: "Deer Meat",
+    description: "Fresh venison",
+    color: "#a0413c",
+    stackSize: 20,
+  },
+  wolfFang: {
+    name: "Wolf Fang",
+    description: "Ground down for potions and oils",
+    color: "#f2efe4",
+    stackSize: 20,
+  },
+  celandine: {
+    name: "Celandine",
+    description: "A yellow flower that grows among the trees",
+    color: "#f2d024",
+    stackSize: 20,
+  },
+  arenaria: {
+    name: "Arenaria",
+    description: "A hardy white flower found between rocks",
+    color: "#f4f4f4",
+    stackSize: 20,
+  },
+  wolfsbane: {
+    name: "Wolfsbane",
+    description: "A poisonous purple flower that grows by water",
+    color: "#7b4fc9",
+    stackSize: 20,
+  },
+  swallow: {
+    name: "Swallow",
+    description: "Restores 100 health over 25 seconds",
+    color: "#e05a47",
+    stackSize: 5,
+    effect: "swallow",
+  },
+  cat: {
+    name: "Cat",
+    description: "See far through the fog for 2 minutes",
+    color: "#7fd1ff",
+    stackSize: 5,
+    effect: "cat",
+  },
+  thunderbolt: {
+    name: "Thunderbolt",
+    description: "+30% attack power for 30 seconds",
+    color: "#ffd84d",
+    stackSize: 5,
+    effect: "thunderbolt",
+  },
+  beastOil: {
+    name: "Beast Oil",
+    description: "+30% damage against wolves for 90 seconds",
+    color: "#9aa36b",
+    stackSize: 5,
+    effect: "beastOil",
+  },
+  ursineOil: {
+    name: "Ursine Oil",
+    description: "+30% damage against bears for 90 seconds",
+    color: "#b5773a",
+    stackSize: 5,
+    effect: "ursineOil",
+  },
+  steelSword: {
+    name: "Steel Sword",
+    description: "A witcher's everyday blade",
+    color: "#b0b8c0",
+    stackSize: 1,
+    slot: "sword",
+  },
+  silverSword: {
+    name: "Silver Sword",
+    description: "+6 attack power",
+    color: "#eef4ff",
+    stackSize: 1,
+    slot: "sword",
+    modifiers: [{ stat: "attackPower", add: 6 }],
+  },
+  wolvenArmor: {
+    name: "Wolven Armor",
+    description: "+20 maximum health",
+    color: "#4a5866",
+    stackSize: 1,
+    slot: "armor",
+    modifiers: [{ stat: "maxHealth", add: 20 }],
+  },
+  bearhideGloves: {
+    name: "Bearhide Gloves",
+    description: "Blocks stop 10% more damage",
+    color: "#6b4a2b",
+    stackSize: 1,
+    slot: "gloves",
+    modifiers: [{ stat: "blockReduction", add: 0.1 }],
+  },
+  huntersBoots: {
+    name: "Hunter's Boots",
+    description: "Move 8% faster",
+    color: "#3b2f25",
+    stackSize: 1,
+    slot: "boots",
+    modifiers: [{ stat: "moveSpeed", multiply: 0.08 }],
+  },
+};
+
+export const EQUIPMENT_SLOTS: Record<EquipmentSlot, string> = {
+  sword: "Sword",
+  armor: "Armor",
+  gloves: "Gloves",
+  boots: "Boots",
+};
+
+// What's worn in each slot; empty slots are left out
+export type Equipment = Partial<Record<EquipmentSlot, ItemId>>;
+
+export interface ItemStack {
+  item: ItemId;
+  count: number;
+}
+
+export const INVENTORY_COLUMNS = 6;
+export const INVENTORY_SIZE = 24;
+export const QUICK_SLOT_COUNT = 4;
+
+export interface Inventory {
+  // Grid cells in reading order; null for an empty cell
+  cells: (ItemStack | null)[];
+  coins: number;
+  equipment: Equipment;
+  // Potions and oils on the quick-use keys. A slot keeps its item after the
+  // last one is used up, ready for the next brew.
+  quickSlots: (ItemId | null)[];
+}
+
+// A witcher sets out with nothing but a steel sword
+export const createInventory = (): Inventory => ({
+  cells: Array(INVENTORY_SIZE).fill(null),
+  coins: 0,
+  equipment: { sword: "steelSword" },
+  quickSlots: ["swallow", "thunderbolt", "cat", "beastOil"],
+});
+
+// Put items into the grid, topping up existing stacks before starting new
+// ones. Null if they don't all fit.
+export function addItem(
+  inventory: Inventory,
+  item: ItemId,
+  count: number
+): Inventory | null {
+  if (item === "coins") {
+    return { ...inventory, coins: inventory.coins + count };
+  }
+
+  const { stackSize } = ITEMS[item];
+  const cells = [...inventory.cells];
+  let remaining = count;
+
+  cells.forEach((cell, index) => {
+    if (remaining > 0 && cell?.item === item && cell.count < stackSize) {
+      const added = Math.min(remaining, stackSize - cell.count);
+      cells[index] = { item, count: cell.count + added };
+      remaining -= added;
+    }
+  });
+  cells.forEach((cell, index) => {
+    if (remaining > 0 && !cell) {
+      const added = Math.min(remaining, stackSize);
+      cells[index] = { item, count: added };
+      remaining -= added;
+    }
+  });
+
+  return remaining > 0 ? null : { ...inventory, cells };
+}
+
+// How many of an item are in the grid
+export const countItem = (inventory: Inventory, item: ItemId) =>
+  inventory.cells.reduce(
+    (total, cell) => total + (cell?.item === item ? cell.count : 0),
+    0
+  );
+
+// Take items out of the grid, emptying the last stacks first. Null if there
+// aren't enough.
+export function removeItem(
+  inventory: Inventory,
+  item: ItemId,
+  count: number
+): Inventory | null {
+  if (countItem(inventory, item) < count) return null;
+
+  const cells = [...inventory.cells];
+  let remaining = count;
+
+  for (let index = cells.length - 1; index >= 0 && remaining > 0; index--) {
+    const cell = cells[index];
+    if (cell?.item !== item) continue;
+
+    const removed = Math.min(remaining, cell.count);
+    cells[index] =
+      cell.count > removed ? { item, count: cell.count - removed } : null;
+    remaining -= removed;
+  }
+
+  return { ...inventory, cells };
+}
+
+// Wear the gear in a grid cell; whatever was in its slot takes its place
+export function equipItem(inventory: Inventory, index: number): Inventory {
+  const cell = inventory.cells[index];
+  if (!cell) return inventory;
+
+  const { slot } = ITEMS[cell.item];
+  if (!slot) return inventory;
+
+  const worn = inventory.equipment[slot];
+  const cells = [...inventory.cells];
+  cells[index] = worn ? { item: worn, count: 1 } : null;
+
+  return {
+    ...inventory,
+    cells,
+    equipment: { ...inventory.equipment, [slot]: cell.item },
+  };
+}
+
+// Take off the gear in a slot, into the first empty cell. Unchanged if the
+// grid is full.
+export function unequipItem(
+  inventory: Inventory,
+  slot: EquipmentSlot
+): Inventory {
+  const worn = inventory.equipment[slot];
+  const index = inventory.cells.indexOf(null);
+  if (!worn || index === -1) return inventory;
+
+  const cells = [...inventory.cells];
+  cells[index] = { item: worn, count: 1 };
+  const equipment = { ...inventory.equipment };
+  delete equipment[slot];
+
+  return { ...inventory, cells, equipment };
+}
+
+// Put a potion or oil on a quick-use key, or clear the key with null
+export function assignQuickSlot(
+  inventory: Inventory,
+  slot: number,
+  item: ItemId | null
+): Inventory {
+  if (item && !ITEMS[item].effect) return inventory;
+
+  const quickSlots = [...inventory.quickSlots];
+  quickSlots[slot] = item;
+  return { ...inventory, quickSlots };
+}
+
+// Stat modifiers from everything being worn
+export const equipmentModifiers = (equipment: Equipment) =>
+  Object.values(equipment).flatMap((item) => ITEMS[item].modifiers ?? []);
+
+// One line of a creature's loot table: a chance of dropping between
+// `min` and `max` of an item
+export interface LootEntry {
+  item: ItemId;
+  chance: number;
+  min: number;
+  max: number;
+}
+
+// Roll a loot table; each entry is rolled on its own
+export const rollLoot = (table: LootEntry[]): ItemStack[] =>
+  table.flatMap(({ item, chance, min, max }) =>
+    Math.random() < chance
+      ? [{ item, count: min + Math.floor(Math.random() * (max - min + 1)) }]
+      : []
+  );
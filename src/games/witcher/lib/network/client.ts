@@ -0,0 +1,328 @@
+import { Enemy, GameControls } from "@/games/witcher/types/game";
+import { DODGE_STAMINA_COST } from "@/games/witcher/lib/combat";
+import {
+  EnvironmentLayout,
+  createEnvironmentLayout,
+} from "@/games/witcher/lib/environmentLayout";
+import { SignEffect, SignZone } from "@/games/witcher/lib/signs";
+import { Progression } from "@/games/witcher/lib/progression";
+import {
+  ClientMessage,
+  InputFrame,
+  NetPlayer,
+  PROTOCOL_VERSION,
+  WorldDelta,
+  WorldSnapshot,
+  parseServerMessage,
+} from "./protocol";
+import { IDLE_CONTROLS, PlayerMotion, stepPlayerMotion } from "./motion";
+import {
+  INTERPOLATION_DELAY,
+  createInterpolationBuffer,
+  lerpAngle,
+  lerpVector3,
+} from "./interpolation";
+
+export type ConnectionStatus = "connecting" | "connected" | "closed";
+
+export interface NetworkState {
+  status: ConnectionStatus;
+  // Why the connection closed, unless the player left
+  error: string | null;
+  playerId: string | null;
+  worldSeed: number | null;
+  // Latest server state of every player, this one included
+  players: NetPlayer[];
+  enemies: Enemy[];
+  zones: SignZone[];
+  // Sign casts still playing, timed on the local clock
+  effects: SignEffect[];
+}
+
+interface EnemyPose {
+  position: [number, number, number];
+  facing: number;
+}
+
+const blendMotion = (
+  a: PlayerMotion,
+  b: PlayerMotion,
+  t: number
+): PlayerMotion => ({
+  ...b,
+  position: lerpVector3(a.position, b.position, t),
+  facing: lerpAngle(a.facing, b.facing, t),
+});
+
+const blendPose = (a: EnemyPose, b: EnemyPose, t: number): EnemyPose => ({
+  position: lerpVector3(a.position, b.position, t),
+  facing: lerpAngle(a.facing, b.facing, t),
+});
+
+// Connection to a multiplayer server. The local player moves as soon as
+// input is sent (prediction); when the server reports which inputs it has
+// applied, the player is put where the server says and the inputs it hasn't
+// seen yet are replayed on top (reconciliation). Everyone else is drawn
+// slightly in the past, between the last two updates (interpolation).
+export function createNetworkClient(
+  url: string,
+  name: string,
+  progression: Progression
+) {
+  const socket = new WebSocket(url);
+
+  let state: NetworkState = {
+    status: "connecting",
+    error: null,
+    playerId: null,
+    worldSeed: null,
+    players: [],
+    enemies: [],
+    zones: [],
+    effects: [],
+  };
+  const listeners = new Set<() => void>();
+
+  const players = new Map<string, NetPlayer>();
+  const enemies = new Map<string, Enemy>();
+  const playerMotions = createInterpolationBuffer(blendMotion);
+  const enemyPoses = createInterpolationBuffer(blendPose);
+  let layout: EnvironmentLayout | null = null;
+
+  // Server clock minus the local clock, smoothed over updates
+  let clockOffset: number | null = null;
+
+  // Prediction: inputs the server hasn't applied yet, each with the controls
+  // before it so press edges replay the same way
+  let pending: { frame: InputFrame; previous: GameControls }[] = [];
+  let lastControls = IDLE_CONTROLS;
+  let nextSeq = 1;
+  let motion: PlayerMotion | null = null;
+  let previousMotion: PlayerMotion | null = null;
+
+  const emit = (patch: Partial<NetworkState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((listener) => listener());
+  };
+
+  const send = (message: ClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const self = () => (state.playerId ? players.get(state.playerId) : undefined);
+
+  const step = (
+    from: PlayerMotion,
+    player: NetPlayer,
+    frame: InputFrame,
+    previous: GameControls
+  ) =>
+    player.isDead || !layout
+      ? from
+      : stepPlayerMotion(
+          from,
+          frame.controls,
+          previous,
+          frame.cameraYaw,
+          layout,
+          !player.isAttacking && player.stamina >= DODGE_STAMINA_COST
+        ).motion;
+
+  // Start from the server's position and replay what it hasn't seen
+  const reconcile = (player: NetPlayer) => {
+    pending = pending.filter(({ frame }) => frame.seq > player.lastInput);
+    motion = pending.reduce(
+      (current, { frame, previous }) => step(current, player, frame, previous),
+      player.motion
+    );
+    previousMotion ??= motion;
+  };
+
+  // Best guess at the server clock right now
+  const serverTime = () => Date.now() + (clockOffset ?? 0);
+
+  const syncClock = (time: number) => {
+    const offset = time - Date.now();
+    clockOffset =
+      clockOffset === null
+        ? offset
+        : clockOffset + (offset - clockOffset) * 0.1;
+  };
+
+  const applyPlayers = (time: number, updated: NetPlayer[]) => {
+    updated.forEach((player) => {
+      players.set(player.id, player);
+
+      if (player.id === state.playerId) {
+        reconcile(player);
+      } else {
+        playerMotions.push(player.id, time, player.motion);
+      }
+    });
+  };
+
+  const applyEnemies = (time: number, updated: Enemy[]) => {
+    updated.forEach((enemy) => {
+      enemies.set(enemy.id, enemy);
+      enemyPoses.push(enemy.id, time, {
+        position: enemy.position,
+        facing: enemy.rotation[1],
+      });
+    });
+  };
+
+  const applySnapshot = (snapshot: WorldSnapshot) => {
+    syncClock(snapshot.time);
+    applyPlayers(snapshot.time, snapshot.players);
+    applyEnemies(snapshot.time, snapshot.enemies);
+    emit({
+      players: Array.from(players.values()),
+      enemies: Array.from(enemies.values()),
+      zones: snapshot.zones,
+    });
+  };
+
+  const applyDelta = (delta: WorldDelta) => {
+    syncClock(delta.time);
+    applyPlayers(delta.time, delta.players);
+    applyEnemies(delta.time, delta.enemies);
+
+    delta.removed.forEach((id) => {
+      players.delete(id);
+      enemies.delete(id);
+      playerMotions.remove(id);
+      enemyPoses.remove(id);
+    });
+
+    // Casts play from when they arrive rather than the server's clock
+    const effects = delta.effects.map((effect) => ({
+      ...effect,
+      createdAt: Date.now(),
+    }));
+    effects.forEach((effect) => {
+      setTimeout(() => {
+        emit({ effects: state.effects.filter(({ id }) => id !== effect.id) });
+      }, effect.duration);
+    });
+
+    const changed =
+      delta.players.length > 0 ||
+      delta.enemies.length > 0 ||
+      delta.removed.length > 0 ||
+      delta.zones !== null ||
+      effects.length > 0;
+    if (!changed) return;
+
+    emit({
+      players: Array.from(players.values()),
+      enemies: Array.from(enemies.values()),
+      zones: delta.zones ?? state.zones,
+      effects:
+        effects.length > 0 ? [...state.effects, ...effects] : state.effects,
+    });
+  };
+
+  socket.addEventListener("open", () => {
+    send({ type: "join", protocol: PROTOCOL_VERSION, name, progression });
+  });
+
+  socket.addEventListener("message", (event) => {
+    let message;
+    try {
+      message = parseServerMessage(String(event.data));
+    } catch (error) {
+      emit({ error: (error as Error).message });
+      socket.close();
+      return;
+    }
+
+    switch (message.type) {
+      case "welcome":
+        layout = createEnvironmentLayout(message.worldSeed);
+        emit({
+          status: "connected",
+          playerId: message.playerId,
+          worldSeed: message.worldSeed,
+        });
+        applySnapshot(message.snapshot);
+        break;
+
+      case "delta":
+        applyDelta(message.delta);
+        break;
+
+      case "rejected":
+        emit({ error: message.reason });
+        break;
+    }
+  });
+
+  socket.addEventListener("close", () => {
+    emit({
+      status: "closed",
+      error:
+        state.error ??
+        (state.status === "connecting"
+          ? `Couldn't reach a server at ${url}`
+          : "Lost connection to the server"),
+    });
+  });
+
+  return {
+    getState() {
+      return state;
+    },
+
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    // Send one tick of input and move the local player straight away.
+    // `cameraYaw` is the heading the camera looks along.
+    sendInput(controls: GameControls, cameraYaw: number) {
+      const player = self();
+      if (!player || !motion) return;
+
+      const frame: InputFrame = { seq: nextSeq++, controls, cameraYaw };
+      previousMotion = motion;
+      motion = step(motion, player, frame, lastControls);
+      pending.push({ frame, previous: lastControls });
+      lastControls = controls;
+
+      send({ type: "input", frame });
+    },
+
+    // Where to draw the local player, `alpha` of the way through the
+    // current tick
+    predictedMotion(alpha: number): PlayerMotion | null {
+      if (!motion || !previousMotion) return motion;
+      return blendMotion(previousMotion, motion, alpha);
+    },
+
+    // Where to draw another player or an enemy this frame
+    remotePlayerMotion(id: string) {
+      return playerMotions.sample(id, serverTime() - INTERPOLATION_DELAY);
+    },
+
+    enemyPose(id: string) {
+      return enemyPoses.sample(id, serverTime() - INTERPOLATION_DELAY);
+    },
+
+    // A server timestamp on the local clock, e.g. for sign cooldowns
+    toLocalTime(serverTime: number) {
+      return serverTime - (clockOffset ?? 0);
+    },
+
+    close() {
+      listeners.clear();
+      socket.close();
+    },
+  };
+}
+
+export type NetworkClient = ReturnType<typeof createNetworkClient>;
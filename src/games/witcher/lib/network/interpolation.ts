@@ -0,0 +1,90 @@
+import { TICK_MS } from "./protocol";
+
+// Smooth movement for things the client doesn't predict: other players and
+// enemies. Every server update is kept with its server time, and they are
+// drawn a little in the past, blending between the two updates either side
+// of that moment, so motion stays smooth even though updates only arrive
+// at the tick rate and not always evenly spaced.
+
+// How far behind the server clock remote things are drawn
+export const INTERPOLATION_DELAY = TICK_MS * 2;
+
+// Updates older than this are dropped
+const HISTORY = 1000;
+
+interface Sample<T> {
+  time: number;
+  state: T;
+}
+
+export function createInterpolationBuffer<T>(
+  // Blend two states; `t` runs from 0 (at `a`) to 1 (at `b`)
+  blend: (a: T, b: T, t: number) => T
+) {
+  const samples = new Map<string, Sample<T>[]>();
+
+  return {
+    push(id: string, time: number, state: T) {
+      const history = samples.get(id) ?? [];
+
+      // Deltas skip things that didn't change, so something that stood still
+      // for a while gets a copy of its resting state one tick before it
+      // moved again. Otherwise it would seem to drift off long beforehand.
+      const last = history[history.length - 1];
+      if (last && time - last.time > TICK_MS * 1.5) {
+        history.push({ time: time - TICK_MS, state: last.state });
+      }
+
+      history.push({ time, state });
+      while (history.length > 2 && history[1].time < time - HISTORY) {
+        history.shift();
+      }
+      samples.set(id, history);
+    },
+
+    remove(id: string) {
+      samples.delete(id);
+    },
+
+    clear() {
+      samples.clear();
+    },
+
+    // State at a point in server time; holds the nearest update outside the
+    // range received so far
+    sample(id: string, time: number): T | undefined {
+      const history = samples.get(id);
+      if (!history || history.length === 0) return undefined;
+
+      const after = history.findIndex((sample) => sample.time > time);
+      if (after === -1) return history[history.length - 1].state;
+      if (after === 0) return history[0].state;
+
+      const a = history[after - 1];
+      const b = history[after];
+      return blend(a.state, b.state, (time - a.time) / (b.time - a.time));
+    },
+  };
+}
+
+export type InterpolationBuffer<T> = ReturnType<
+  typeof createInterpolationBuffer<T>
+>;
+
+export const lerpVector3 = (
+  a: [number, number, number],
+  b: [number, number, number],
+  t: number
+): [number, number, number] => [
+  a[0] + (b[0] - a[0]) * t,
+  a[1] + (b[1] - a[1]) * t,
+  a[2] + (b[2] - a[2]) * t,
+];
+
+// Blend headings the short way round
+export const lerpAngle = (a: number, b: number, t: number) => {
+  const turn =
+    ((((b - a + Math.PI) % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2)) -
+    Math.PI;
+  return a + turn * t;
+};
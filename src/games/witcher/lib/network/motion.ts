@@ -0,0 +1,155 @@
+import { GameControls } from "@/games/witcher/types/game";
+import {
+  DODGE_DURATION,
+  DODGE_SPEED_MULTIPLIER,
+} from "@/games/witcher/lib/combat";
+import {
+  EnvironmentLayout,
+  WATER_SPEED_MULTIPLIER,
+  isInWater,
+  pushOutOfObstacles,
+} from "@/games/witcher/lib/environmentLayout";
+import { TICK_MS, TICK_RATE } from "./protocol";
+import { lerpAngle } from "./interpolation";
+
+// Player movement in multiplayer. The server steps it once for every input
+// it applies, and the client steps it for its own inputs straight away
+// (prediction) and again when the server's answer comes back
+// (reconciliation). It follows the single-player Player component's rules
+// without the physics engine, so both sides land on the same position for
+// the same inputs.
+
+export const PLAYER_RADIUS = 0.5;
+
+// Units per second: the Player's moveSpeed of 0.15 a frame at 60fps
+export const PLAYER_SPEED = 9;
+
+export const DODGE_TICKS = Math.round(DODGE_DURATION / TICK_MS);
+
+// The Player turns 15% of the way toward where it's going every frame at
+// 60fps; the same rate per tick
+const TURN_RATE = 1 - Math.pow(1 - 0.15, 60 / TICK_RATE);
+
+// Nothing pressed, e.g. before the first input arrives
+export const IDLE_CONTROLS: GameControls = {
+  moveForward: 0,
+  moveBackward: 0,
+  moveLeft: 0,
+  moveRight: 0,
+  attack: false,
+  heavyAttack: false,
+  block: false,
+  dodge: false,
+  castSign: false,
+  selectedSign: "igni",
+  turnAngle: 0,
+};
+
+export interface PlayerMotion {
+  // Ground position
+  position: [number, number, number];
+  facing: number;
+  // Ticks left in the current dodge roll, and its direction on the ground
+  dodgeTicks: number;
+  dodgeDirection: [number, number];
+}
+
+export const createPlayerMotion = (
+  position: [number, number, number],
+  facing = 0
+): PlayerMotion => ({
+  position,
+  facing,
+  dodgeTicks: 0,
+  dodgeDirection: [0, 0],
+});
+
+// Advance one tick. `canDodge` says whether a dodge press may start a roll
+// (stamina, not mid-swing); `dodged` reports that it did.
+export function stepPlayerMotion(
+  motion: PlayerMotion,
+  controls: GameControls,
+  previous: GameControls,
+  cameraYaw: number,
+  layout: EnvironmentLayout,
+  canDodge: boolean
+): { motion: PlayerMotion; dodged: boolean } {
+  const dt = TICK_MS / 1000;
+  const [x, y, z] = motion.position;
+
+  // Camera swipes turn the player
+  let facing = motion.facing + controls.turnAngle - previous.turnAngle;
+  let { dodgeTicks, dodgeDirection } = motion;
+
+  // Camera-relative input on the ground plane
+  const forwardX = Math.sin(cameraYaw);
+  const forwardZ = Math.cos(cameraYaw);
+  const strafe = controls.moveRight - controls.moveLeft;
+  let moveX = forwardX * controls.moveForward - forwardZ * strafe;
+  let moveZ = forwardZ * controls.moveForward + forwardX * strafe;
+  const moveLength = Math.hypot(moveX, moveZ);
+
+  // A stick pushed part way walks slower; keys always move at full speed
+  const moveStrength = Math.min(1, Math.max(moveLength, controls.moveBackward));
+  const speed =
+    PLAYER_SPEED * (isInWater(layout, x, z) ? WATER_SPEED_MULTIPLIER : 1);
+
+  let velocityX = 0;
+  let velocityZ = 0;
+
+  // Roll in the movement direction, or backwards if standing still
+  const dodged =
+    controls.dodge && !previous.dodge && dodgeTicks === 0 && canDodge;
+  if (dodged) {
+    dodgeTicks = DODGE_TICKS;
+    dodgeDirection =
+      moveLength > 0
+        ? [moveX / moveLength, moveZ / moveLength]
+        : [-Math.sin(facing), -Math.cos(facing)];
+  }
+
+  if (dodgeTicks > 0) {
+    dodgeTicks--;
+    velocityX = dodgeDirection[0] * speed * DODGE_SPEED_MULTIPLIER;
+    velocityZ = dodgeDirection[1] * speed * DODGE_SPEED_MULTIPLIER;
+  } else if (controls.moveBackward && moveLength === 0) {
+    // Backing off without turning around
+    velocityX = -Math.sin(facing) * speed * moveStrength;
+    velocityZ = -Math.cos(facing) * speed * moveStrength;
+  } else if (moveLength > 0) {
+    moveX /= moveLength;
+    moveZ /= moveLength;
+
+    // Holding back while moving another way pulls the path backwards a bit
+    if (controls.moveBackward) {
+      moveX -= Math.sin(facing) * 0.3;
+      moveZ -= Math.cos(facing) * 0.3;
+      const length = Math.hypot(moveX, moveZ);
+      moveX /= length;
+      moveZ /= length;
+    }
+
+    // Turn toward the movement direction
+    facing = lerpAngle(facing, Math.atan2(moveX, moveZ), TURN_RATE);
+
+    velocityX = moveX * speed * moveStrength;
+    velocityZ = moveZ * speed * moveStrength;
+  }
+
+  const [nextX, nextZ] = pushOutOfObstacles(
+    layout,
+    x + velocityX * dt,
+    z + velocityZ * dt,
+    PLAYER_RADIUS
+  );
+
+  return {
+    motion: {
+      position: [nextX, y, nextZ],
+      facing,
+      dodgeTicks,
+      dodgeDirection,
+    },
+    dodged,
+  };
+}
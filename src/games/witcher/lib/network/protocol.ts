@@ -0,0 +1,316 @@
+import {
+  AttackType,
+  Enemy,
+  GameControls,
+  Player,
+  SignType,
+} from "@/games/witcher/types/game";
+import { SIGN_ORDER, SignEffect, SignZone } from "@/games/witcher/lib/signs";
+import {
+  Progression,
+  experienceForLevel,
+  progressionSchema,
+} from "@/games/witcher/lib/progression";
+import {
+  Schema,
+  TaggedSchemas,
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  range,
+  text,
+  vector2,
+  vector3,
+} from "@/games/witcher/lib/schema";
+import { PlayerMotion } from "./motion";
+
+// Messages between the multiplayer server (src/games/witcher/server) and the
+// game client. Everything travels as JSON text over a WebSocket, and both
+// ends check what they receive against the schemas at the bottom of this
+// file before using it: the server can't trust its clients, and a client
+// talking to a different version of the server should fail with a clear
+// error rather than half-work.
+
+export const PROTOCOL_VERSION = 2;
+export const DEFAULT_SERVER_PORT = 8787;
+
+// The server simulates the world this many times a second, and clients
+// send one input per tick
+export const TICK_RATE = 20;
+export const TICK_MS = 1000 / TICK_RATE;
+
+export const MAX_NAME_LENGTH = 20;
+
+// Highest level a player can join at. Progression comes from single-player
+// saves, which live in the player's browser where they can be edited, so the
+// server takes a client's word for its levels and skills; the cap keeps an
+// edited save from making anyone much stronger than honest play would.
+export const MAX_LEVEL = 10;
+export const MAX_EXPERIENCE = experienceForLevel(MAX_LEVEL + 1) - 1;
+
+// How long a slain player lies down before getting back up
+export const RESPAWN_DELAY = 5000;
+
+// One tick of a client's input
+export interface InputFrame {
+  // Goes up by one with every input; echoed back as `lastInput` once the
+  // server has applied it
+  seq: number;
+  controls: GameControls;
+  // Heading the client's camera looks along (same convention as `facing`).
+  // Movement is relative to it, as in single player.
+  cameraYaw: number;
+}
+
+// A connected player as the server simulates them
+export interface NetPlayer
+  extends Pick<
+    Player,
+    | "id"
+    | "health"
+    | "maxHealth"
+    | "isDead"
+    | "isAttacking"
+    | "attackType"
+    | "comboStep"
+    | "isBlocking"
+    | "isParrying"
+    | "isDodging"
+    | "isInvulnerable"
+    | "isCasting"
+  > {
+  name: string;
+  motion: PlayerMotion;
+  stamina: number;
+  // Damage the Quen shield can still absorb (0 when inactive)
+  shield: number;
+  // When each sign is ready again (server clock)
+  signCooldowns: Record<SignType, number>;
+  score: number;
+  // Sequence number of the last input applied
+  lastInput: number;
+}
+
+// The whole world, sent when a player joins
+export interface WorldSnapshot {
+  // Server clock (Date.now() milliseconds on the server)
+  time: number;
+  players: NetPlayer[];
+  enemies: Enemy[];
+  zones: SignZone[];
+}
+
+// What changed during one server tick
+export interface WorldDelta {
+  time: number;
+  // Only players and enemies that changed
+  players: NetPlayer[];
+  enemies: Enemy[];
+  // Ids of players who left and enemies that were removed
+  removed: string[];
+  // Every Yrden trap, when any of them appeared or expired
+  zones: SignZone[] | null;
+  // Signs cast this tick
+  effects: SignEffect[];
+}
+
+export type ClientMessage =
+  | {
+      type: "join";
+      protocol: number;
+      name: string;
+      // Levels and skills the player brings from single player; the server
+      // works out their stats from it
+      progression: Progression;
+    }
+  | { type: "input"; frame: InputFrame };
+
+export type ServerMessage =
+  | {
+      type: "welcome";
+      playerId: string;
+      worldSeed: number;
+      snapshot: WorldSnapshot;
+    }
+  | { type: "delta"; delta: WorldDelta }
+  // Sent just before the server closes the connection
+  | { type: "rejected"; reason: string };
+
+// Schemas for everything above
+
+const signType = oneOf<SignType>(SIGN_ORDER);
+
+const attackType = oneOf<AttackType>(["light", "heavy"]);
+
+const gameControls = object<GameControls>({
+  moveForward: range(0, 1),
+  moveBackward: range(0, 1),
+  moveLeft: range(0, 1),
+  moveRight: range(0, 1),
+  attack: boolean,
+  heavyAttack: boolean,
+  block: boolean,
+  dodge: boolean,
+  castSign: boolean,
+  selectedSign: signType,
+  turnAngle: number,
+});
+
+const inputFrame = object<InputFrame>({
+  seq: range(0, Number.MAX_SAFE_INTEGER),
+  controls: gameControls,
+  cameraYaw: number,
+});
+
+const progression = progressionSchema(range(0, MAX_EXPERIENCE));
+
+const playerMotion = object<PlayerMotion>({
+  position: vector3,
+  facing: number,
+  dodgeTicks: number,
+  dodgeDirection: vector2,
+});
+
+const netPlayer = object<NetPlayer>({
+  id: text(),
+  name: text(MAX_NAME_LENGTH),
+  motion: playerMotion,
+  health: number,
+  maxHealth: number,
+  stamina: number,
+  shield: number,
+  signCooldowns: object<Record<SignType, number>>({
+    igni: number,
+    aard: number,
+    quen: number,
+    yrden: number,
+    axii: number,
+  }),
+  score: number,
+  lastInput: number,
+  isDead: boolean,
+  isAttacking: boolean,
+  attackType: nullable(attackType),
+  comboStep: number,
+  isBlocking: boolean,
+  isParrying: boolean,
+  isDodging: boolean,
+  isInvulnerable: boolean,
+  isCasting: boolean,
+});
+
+const enemy = object<Enemy>({
+  id: text(),
+  type: oneOf<Enemy["type"]>(["wolf", "bear", "deer"]),
+  position: vector3,
+  rotation: vector3,
+  health: number,
+  maxHealth: number,
+  isAttacking: boolean,
+  isBlocking: boolean,
+  isDead: boolean,
+  isStaggered: boolean,
+  detectionRadius: number,
+  attackRadius: number,
+  attackPower: number,
+  aggroState: oneOf<Enemy["aggroState"]>([
+    "idle",
+    "chase",
+    "attack",
+    "flee",
+    "charmed",
+  ]),
+  burningUntil: number,
+  charmedUntil: number,
+  knockback: nullable(vector3),
+  isEnraged: boolean,
+  huntingId: nullable(text()),
+});
+
+const signZone = object<SignZone>({
+  id: number,
+  position: vector3,
+  radius: number,
+  expiresAt: number,
+});
+
+const signEffect = object<SignEffect>({
+  id: number,
+  sign: signType,
+  position: vector3,
+  direction: vector3,
+  createdAt: number,
+  duration: number,
+});
+
+const worldSnapshot = object<WorldSnapshot>({
+  time: number,
+  players: array(netPlayer),
+  enemies: array(enemy),
+  zones: array(signZone),
+});
+
+const worldDelta = object<WorldDelta>({
+  time: number,
+  players: array(netPlayer),
+  enemies: array(enemy),
+  removed: array(text()),
+  zones: nullable(array(signZone)),
+  effects: array(signEffect),
+});
+
+const CLIENT_MESSAGES: TaggedSchemas<ClientMessage> = {
+  join: object({
+    type: oneOf(["join"]),
+    protocol: number,
+    name: text(MAX_NAME_LENGTH),
+    progression,
+  }),
+  input: object({ type: oneOf(["input"]), frame: inputFrame }),
+};
+
+const SERVER_MESSAGES: TaggedSchemas<ServerMessage> = {
+  welcome: object({
+    type: oneOf(["welcome"]),
+    playerId: text(),
+    worldSeed: number,
+    snapshot: worldSnapshot,
+  }),
+  delta: object({ type: oneOf(["delta"]), delta: worldDelta }),
+  rejected: object({ type: oneOf(["rejected"]), reason: text() }),
+};
+
+const parseMessage = <M extends { type: string }>(
+  json: string,
+  schemas: TaggedSchemas<M>
+): M => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Message is not valid JSON");
+  }
+
+  const type = (data as { type?: unknown } | null)?.type;
+  if (typeof type !== "string" || !Object.hasOwn(schemas, type)) {
+    throw new Error(`Unknown message type: ${String(type)}`);
+  }
+
+  const schema: Schema<M> = schemas[type as M["type"]];
+  try {
+    return schema(data, "message");
+  } catch (error) {
+    throw new Error(`Malformed message: ${(error as Error).message}`);
+  }
+};
+
+// Check a message received by the server
+export const parseClientMessage = (json: string) =>
+  parseMessage<ClientMessage>(json, CLIENT_MESSAGES);
+
+// Check a message received by a client
+export const parseServerMessage = (json: string) =>
+  parseMessage<ServerMessage>(json, SERVER_MESSAGES);
@@ -0,0 +1,278 @@
+import { STAMINA_REGEN_RATE } from "@/games/witcher/lib/combat";
+import { Schema, atLeast, object, optional } from "@/games/witcher/lib/schema";
+
+// Experience, levels and the skill tree. The player's stats aren't stored
+// anywhere: they're worked out from the base stats below plus a modifier
+// for every level gained, every skill rank learned and anything else that
+// changes them (such as the gear being worn).
+
+export interface PlayerStats {
+  // Damage of a plain light attack, before combo and finisher bonuses
+  attackPower: number;
+  maxHealth: number;
+  // Units per frame at 60 frames a second
+  moveSpeed: number;
+  // Share of a hit's damage that a block stops
+  blockReduction: number;
+  // Stamina recovered per second
+  staminaRegen: number;
+  // Multiplier on Igni's damage and the damage Quen absorbs
+  signIntensity: number;
+  // Multiplier on every sign's cooldown
+  signCooldown: number;
+}
+
+export const BASE_STATS: PlayerStats = {
+  attackPower: 20,
+  maxHealth: 100,
+  moveSpeed: 0.15,
+  blockReduction: 0.5,
+  staminaRegen: STAMINA_REGEN_RATE,
+  signIntensity: 1,
+  signCooldown: 1,
+};
+
+// One change to a stat. Flat amounts are added first, then the multipliers
+// are summed and applied together, so two +10% bonuses make +20%.
+export interface StatModifier {
+  stat: keyof PlayerStats;
+  add?: number;
+  // 0.1 for +10%
+  multiply?: number;
+}
+
+export type SkillBranch = "combat" | "signs" | "survival";
+
+export type SkillId =
+  | "strengthTraining"
+  | "crushingBlows"
+  | "deflection"
+  | "meltArmor"
+  | "quickCasting"
+  | "focus"
+  | "vigor"
+  | "fleetFooted"
+  | "endurePain";
+
+export interface SkillDefinition {
+  name: string;
+  description: string;
+  branch: SkillBranch;
+  maxRank: number;
+  // Skill that needs at least one rank before this one can be learned
+  requires?: SkillId;
+  // Applied once per rank
+  modifiers: StatModifier[];
+}
+
+export const SKILL_BRANCHES: Record<SkillBranch, string> = {
+  combat: "Combat",
+  signs: "Signs",
+  survival: "Survival",
+};
+
+export const SKILLS: Record<SkillId, SkillDefinition> = {
+  strengthTraining: {
+    name: "Strength Training",
+    description: "+10% attack power per rank",
+    branch: "combat",
+    maxRank: 3,
+    modifiers: [{ stat: "attackPower", multiply: 0.1 }],
+  },
+  crushingBlows: {
+    name: "Crushing Blows",
+    description: "+4 attack power per rank",
+    branch: "combat",
+    maxRank: 2,
+    requires: "strengthTraining",
+    modifiers: [{ stat: "attackPower", add: 4 }],
+  },
+  deflection: {
+    name: "Deflection",
+    description: "Blocks stop 10% more damage per rank",
+    branch: "combat",
+    maxRank: 3,
+    modifiers: [{ stat: "blockReduction", add: 0.1 }],
+  },
+  meltArmor: {
+    name: "Melt Armor",
+    description: "Igni burns and Quen shields 15% stronger per rank",
+    branch: "signs",
+    maxRank: 3,
+    modifiers: [{ stat: "signIntensity", add: 0.15 }],
+  },
+  quickCasting: {
+    name: "Quick Casting",
+    description: "Sign cooldowns 10% shorter per rank",
+    branch: "signs",
+    maxRank: 2,
+    modifiers: [{ stat: "signCooldown", add: -0.1 }],
+  },
+  focus: {
+    name: "Focus",
+    description: "Stamina recovers 15% faster per rank",
+    branch: "signs",
+    maxRank: 2,
+    requires: "quickCasting",
+    modifiers: [{ stat: "staminaRegen", multiply: 0.15 }],
+  },
+  vigor: {
+    name: "Vigor",
+    description: "+15 maximum health per rank",
+    branch: "survival",
+    maxRank: 3,
+    modifiers: [{ stat: "maxHealth", add: 15 }],
+  },
+  fleetFooted: {
+    name: "Fleet Footed",
+    description: "Move 5% faster per rank",
+    branch: "survival",
+    maxRank: 2,
+    modifiers: [{ stat: "moveSpeed", multiply: 0.05 }],
+  },
+  endurePain: {
+    name: "Endure Pain",
+    description: "+10% maximum health per rank",
+    branch: "survival",
+    maxRank: 2,
+    requires: "vigor",
+    modifiers: [{ stat: "maxHealth", multiply: 0.1 }],
+  },
+};
+
+// Every level after the first toughens the player a little on top of the
+// skill point it gives
+const LEVEL_MODIFIERS: StatModifier[] = [
+  { stat: "maxHealth", add: 10 },
+  { stat: "attackPower", add: 1 },
+];
+
+export interface Progression {
+  // Total experience earned
+  experience: number;
+  // Ranks learned in each skill; skills never learned are left out
+  skills: Partial<Record<SkillId, number>>;
+}
+
+export const createProgression = (): Progression => ({
+  experience: 0,
+  skills: {},
+});
+
+// Checks progression read from a save or sent to the multiplayer server,
+// which limits how much experience it accepts
+export const progressionSchema = (
+  experience: Schema<number>
+): Schema<Progression> =>
+  object<Progression>({
+    experience,
+    skills: object<Progression["skills"]>(
+      Object.fromEntries(
+        (Object.keys(SKILLS) as SkillId[]).map((id) => [
+          id,
+          optional(atLeast(0)),
+        ])
+      ) as Record<SkillId, Schema<number | undefined>>
+    ),
+  });
+
+// Total experience needed to reach a level: 100 for level 2, 300 for 3,
+// 600 for 4 and so on
+export const experienceForLevel = (level: number) => 50 * level * (level - 1);
+
+export function levelForExperience(experience: number) {
+  let level = 1;
+  while (experience >= experienceForLevel(level + 1)) level++;
+  return level;
+}
+
+export const gainExperience = (
+  progression: Progression,
+  amount: number
+): Progression => ({
+  ...progression,
+  experience: progression.experience + amount,
+});
+
+const rank = (progression: Progression, id: SkillId) =>
+  progression.skills[id] ?? 0;
+
+// One point per level gained, less the ranks already learned
+export function unspentSkillPoints(progression: Progression) {
+  const spent = Object.values(progression.skills).reduce(
+    (total, ranks) => total + (ranks ?? 0),
+    0
+  );
+  return levelForExperience(progression.experience) - 1 - spent;
+}
+
+export function canLearnSkill(progression: Progression, id: SkillId) {
+  const { maxRank, requires } = SKILLS[id];
+
+  return (
+    unspentSkillPoints(progression) > 0 &&
+    rank(progression, id) < maxRank &&
+    (!requires || rank(progression, requires) > 0)
+  );
+}
+
+// Spend a skill point on a rank of a skill; unchanged if it can't be learned
+export function learnSkill(progression: Progression, id: SkillId) {
+  if (!canLearnSkill(progression, id)) return progression;
+
+  return {
+    ...progression,
+    skills: { ...progression.skills, [id]: rank(progression, id) + 1 },
+  };
+}
+
+// Whether a progression could have been earned in play: whole ranks, none
+// past a skill's maximum or learned without the skill it requires, and no
+// more of them than the levels gained allow
+export function isValidProgression(progression: Progression) {
+  return (
+    unspentSkillPoints(progression) >= 0 &&
+    (Object.keys(SKILLS) as SkillId[]).every((id) => {
+      const { maxRank, requires } = SKILLS[id];
+      const ranks = rank(progression, id);
+
+      return (
+        Number.isInteger(ranks) &&
+        ranks <= maxRank &&
+        (ranks === 0 || !requires || rank(progression, requires) > 0)
+      );
+    })
+  );
+}
+
+// Modifiers repeated once per level or rank
+const repeat = (modifiers: StatModifier[], times: number) =>
+  Array.from({ length: times }, () => modifiers).flat();
+
+// The player's stats after levels, skills and any other modifiers
+export function computeStats(
+  progression: Progression,
+  others: StatModifier[] = []
+): PlayerStats {
+  const levels = levelForExperience(progression.experience) - 1;
+  const modifiers = [
+    ...repeat(LEVEL_MODIFIERS, levels),
+    ...(Object.keys(SKILLS) as SkillId[]).flatMap((id) =>
+      repeat(SKILLS[id].modifiers, rank(progression, id))
+    ),
+    ...others,
+  ];
+
+  const stats = { ...BASE_STATS };
+  (Object.keys(stats) as (keyof PlayerStats)[]).forEach((stat) => {
+    const applying = modifiers.filter((modifier) => modifier.stat === stat);
+    const added = applying.reduce((total, { add = 0 }) => total + add, 0);
+    const multiplier = applying.reduce(
+      (total, { multiply = 0 }) => total + multiply,
+      1
+    );
+
+    stats[stat] = (stats[stat] + added) * multiplier;
+  });
+  return stats;
+}
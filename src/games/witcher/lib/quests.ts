@@ -0,0 +1,189 @@
+import { Enemy } from "@/games/witcher/types/game";
+import {
+  Schema,
+  array,
+  atLeast,
+  number,
+  object,
+  oneOf,
+  optional,
+  tagged,
+  text,
+  vector3,
+} from "@/games/witcher/lib/schema";
+import questData from "@/games/witcher/data/quests.json";
+
+// Quests are data: designers write them in src/games/witcher/data/quests.json
+// and they're checked against the schemas below when the game loads. A quest
+// is a list of objectives worked through in order; finishing the last one
+// pays out the reward and starts any quests that were waiting on it.
+
+type CreatureType = Enemy["type"];
+
+// Creatures placed in the world when an objective starts
+export interface QuestSpawn {
+  type: CreatureType;
+  position: [number, number, number];
+}
+
+interface ObjectiveBase {
+  // Shown in the quest log, e.g. "Hunt down the wolves by the river"
+  description: string;
+  spawn?: QuestSpawn[];
+}
+
+export interface KillObjective extends ObjectiveBase {
+  type: "kill";
+  target: CreatureType;
+  count: number;
+}
+
+export interface ReachObjective extends ObjectiveBase {
+  type: "reach";
+  position: [number, number, number];
+  radius: number;
+}
+
+// Keep a creature spawned at `position` alive for `seconds` of play; the
+// objective's spawns hunt it rather than the player
+export interface ProtectObjective extends ObjectiveBase {
+  type: "protect";
+  creature: CreatureType;
+  position: [number, number, number];
+  seconds: number;
+}
+
+// Stay alive for `seconds` of play
+export interface SurviveObjective extends ObjectiveBase {
+  type: "survive";
+  seconds: number;
+}
+
+export type QuestObjective =
+  KillObjective | ReachObjective | ProtectObjective | SurviveObjective;
+
+export interface QuestReward {
+  score?: number;
+  experience?: number;
+  // Healed on completion, up to full health
+  health?: number;
+}
+
+export interface QuestDefinition {
+  id: string;
+  title: string;
+  description: string;
+  // Quests that have to be completed before this one starts
+  requires?: string[];
+  objectives: QuestObjective[];
+  reward: QuestReward;
+}
+
+export type QuestStatus = "active" | "completed" | "failed";
+
+// Where the player is in a quest; this is what goes into a save
+export interface QuestProgress {
+  id: string;
+  status: QuestStatus;
+  // Index of the objective being worked on
+  objective: number;
+  // Kills so far, for kill objectives
+  count: number;
+  // Seconds of play when the current objective started
+  startedAt: number;
+  // The creature being protected, for protect objectives
+  protectedId: string | null;
+}
+
+// Schemas
+
+const creatureType = oneOf<CreatureType>(["wolf", "bear", "deer"]);
+
+const questSpawn = object<QuestSpawn>({
+  type: creatureType,
+  position: vector3,
+});
+
+const objectiveBase = {
+  description: text(),
+  spawn: optional(array(questSpawn)),
+};
+
+const questObjective = tagged<QuestObjective>({
+  kill: object<KillObjective>({
+    ...objectiveBase,
+    type: oneOf(["kill"]),
+    target: creatureType,
+    count: atLeast(1),
+  }),
+  reach: object<ReachObjective>({
+    ...objectiveBase,
+    type: oneOf(["reach"]),
+    position: vector3,
+    radius: atLeast(0),
+  }),
+  protect: object<ProtectObjective>({
+    ...objectiveBase,
+    type: oneOf(["protect"]),
+    creature: creatureType,
+    position: vector3,
+    seconds: atLeast(1),
+  }),
+  survive: object<SurviveObjective>({
+    ...objectiveBase,
+    type: oneOf(["survive"]),
+    seconds: atLeast(1),
+  }),
+});
+
+const questDefinition = object<QuestDefinition>({
+  id: text(),
+  title: text(),
+  description: text(),
+  requires: optional(array(text())),
+  objectives: array(questObjective),
+  reward: object<QuestReward>({
+    score: optional(number),
+    experience: optional(number),
+    health: optional(number),
+  }),
+});
+
+const questList: Schema<QuestDefinition[]> = array(questDefinition);
+
+// Check a list of quest definitions, e.g. the contents of a quest file
+export function parseQuests(data: unknown): QuestDefinition[] {
+  let quests: QuestDefinition[];
+  try {
+    quests = questList(data, "quests");
+  } catch (error) {
+    throw new Error(`Invalid quest file: ${(error as Error).message}`);
+  }
+
+  const ids = new Set<string>();
+  quests.forEach((quest) => {
+    if (ids.has(quest.id)) {
+      throw new Error(`Invalid quest file: quest ${quest.id} is defined twice`);
+    }
+    if (quest.objectives.length === 0) {
+      throw new Error(
+        `Invalid quest file: quest ${quest.id} has no objectives`
+      );
+    }
+    ids.add(quest.id);
+  });
+
+  quests.forEach((quest) => {
+    const unknown = quest.requires?.find((id) => !ids.has(id));
+    if (unknown !== undefined) {
+      throw new Error(
+        `Invalid quest file: quest ${quest.id} requires unknown quest ${unknown}`
+      );
+    }
+  });
+
+  return quests;
+}
+
+// The quests that ship with the game
+export const QUESTS = parseQuests(questData);
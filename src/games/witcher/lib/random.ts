@@ -0,0 +1,20 @@
+// Seeded pseudo-random number generation, used wherever the world has to
+// come out the same for a given seed.
+
+export type RandomGenerator = () => number;
+
+// mulberry32: small, fast and good enough for gameplay randomness
+export const createRandom = (seed: number): RandomGenerator => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Pick a fresh seed for a new world
+export const randomSeed = () => Math.floor(Math.random() * 4294967296);
@@ -0,0 +1,310 @@
+import { Enemy } from "@/games/witcher/types/game";
+import { QuestProgress, QuestStatus } from "@/games/witcher/lib/quests";
+import {
+  Progression,
+  progressionSchema,
+} from "@/games/witcher/lib/progression";
+import {
+  Equipment,
+  ITEMS,
+  Inventory,
+  ItemId,
+  ItemStack,
+} from "@/games/witcher/lib/items";
+import {
+  STATUS_EFFECTS,
+  StatusEffect,
+  StatusEffectId,
+} from "@/games/witcher/lib/statusEffects";
+import {
+  array,
+  atLeast,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  record,
+  text,
+  vector3,
+} from "@/games/witcher/lib/schema";
+import { HarvestedHerbs } from "@/games/witcher/store/herbStore";
+import { Pickup } from "@/games/witcher/store/pickupStore";
+
+// Saved games, kept in localStorage. Saves are plain JSON with a version
+// number so older saves can be recognised when the format changes.
+//
+// Version 2 added potion effects, picked herbs and loot on the ground.
+// Version 1 saves still load; they start without any of those.
+
+export const SAVE_VERSION = 2;
+
+// One automatic slot plus a few the player saves to by hand
+export const AUTOSAVE_SLOT = "autosave";
+export const SAVE_SLOTS = [AUTOSAVE_SLOT, "slot-1", "slot-2", "slot-3"];
+
+export const AUTOSAVE_INTERVAL = 30000;
+
+const STORAGE_PREFIX = "witcher-save:";
+
+export interface SavedPlayer {
+  position: [number, number, number];
+  // Rotation around the y axis
+  facing: number;
+  health: number;
+  stamina: number;
+}
+
+// Only what's needed to rebuild an enemy; derived stats come from its type
+// and short-lived effects (burning, charm, stagger) aren't kept
+export type SavedEnemy = Pick<
+  Enemy,
+  "id" | "type" | "position" | "rotation" | "health" | "isEnraged"
+> &
+  // Left out of saves made before quest creatures could hunt
+  Partial<Pick<Enemy, "huntingId">>;
+
+// Quick slots are left out of saves made before alchemy; those get the
+// default ones
+export type SavedInventory = Omit<Inventory, "quickSlots"> &
+  Partial<Pick<Inventory, "quickSlots">>;
+
+// Timers are saved as milliseconds left rather than Date.now() times, so
+// they carry on from where they were whenever the save is loaded
+export interface SavedStatusEffect {
+  id: StatusEffectId;
+  remaining: number;
+}
+
+export type SavedPickup = Omit<Pickup, "id" | "expiresAt"> & {
+  remaining: number;
+};
+
+export interface SaveData {
+  version: number;
+  savedAt: number;
+  worldSeed: number;
+  // Seconds of play
+  elapsedTime: number;
+  score: number;
+  player: SavedPlayer;
+  enemies: SavedEnemy[];
+  // Left out of saves made before quests existed; those start the quests
+  // from the beginning
+  quests?: QuestProgress[];
+  // Likewise left out of saves made before experience and skills existed
+  progression?: Progression;
+  // And before loot; those start with an empty pack
+  inventory?: SavedInventory;
+  // Left out of version 1 saves
+  statusEffects?: SavedStatusEffect[];
+  // Milliseconds until each picked herb grows back, by its layout index
+  herbs?: Record<number, number>;
+  pickups?: SavedPickup[];
+}
+
+export interface SaveSummary {
+  slot: string;
+  savedAt: number;
+  elapsedTime: number;
+  score: number;
+}
+
+export function createSaveData(
+  data: Omit<
+    SaveData,
+    "version" | "savedAt" | "enemies" | "statusEffects" | "herbs" | "pickups"
+  > & {
+    enemies: Enemy[];
+    statusEffects: StatusEffect[];
+    herbs: HarvestedHerbs;
+    pickups: Pickup[];
+  }
+): SaveData {
+  const savedAt = Date.now();
+
+  return {
+    ...data,
+    version: SAVE_VERSION,
+    savedAt,
+    statusEffects: data.statusEffects.map(({ id, expiresAt }) => ({
+      id,
+      remaining: expiresAt - savedAt,
+    })),
+    herbs: Object.fromEntries(
+      Object.entries(data.herbs).map(([index, regrowsAt]) => [
+        index,
+        regrowsAt - savedAt,
+      ])
+    ),
+    pickups: data.pickups.map(({ item, count, position, expiresAt }) => ({
+      item,
+      count,
+      position,
+      remaining: expiresAt - savedAt,
+    })),
+    enemies: data.enemies
+      .filter((enemy) => !enemy.isDead)
+      .map(
+        ({ id, type, position, rotation, health, isEnraged, huntingId }) => ({
+          id,
+          type,
+          position,
+          rotation,
+          health,
+          isEnraged,
+          huntingId,
+        })
+      ),
+  };
+}
+
+// Schemas
+
+const itemId = oneOf<ItemId>(Object.keys(ITEMS) as ItemId[]);
+
+const itemStack = object<ItemStack>({
+  item: itemId,
+  count: atLeast(1),
+});
+
+const equipped = optional(itemId);
+
+const savedInventory = object<SavedInventory>({
+  cells: array(nullable(itemStack)),
+  coins: atLeast(0),
+  equipment: object<Equipment>({
+    sword: equipped,
+    armor: equipped,
+    gloves: equipped,
+    boots: equipped,
+  }),
+  quickSlots: optional(array(nullable(itemId))),
+});
+
+const savedPlayer = object<SavedPlayer>({
+  position: vector3,
+  facing: number,
+  health: number,
+  stamina: number,
+});
+
+const savedEnemy = object<SavedEnemy>({
+  id: text(),
+  type: oneOf<Enemy["type"]>(["wolf", "bear", "deer"]),
+  position: vector3,
+  rotation: vector3,
+  health: number,
+  isEnraged: boolean,
+  huntingId: optional(nullable(text())),
+});
+
+const questProgress = object<QuestProgress>({
+  id: text(),
+  status: oneOf<QuestStatus>(["active", "completed", "failed"]),
+  objective: atLeast(0),
+  count: atLeast(0),
+  startedAt: number,
+  protectedId: nullable(text()),
+});
+
+const savedStatusEffect = object<SavedStatusEffect>({
+  id: oneOf<StatusEffectId>(Object.keys(STATUS_EFFECTS) as StatusEffectId[]),
+  remaining: number,
+});
+
+const savedPickup = object<SavedPickup>({
+  item: itemId,
+  count: atLeast(1),
+  position: vector3,
+  remaining: number,
+});
+
+const saveData = object<SaveData>({
+  version: number,
+  savedAt: number,
+  worldSeed: number,
+  elapsedTime: atLeast(0),
+  score: number,
+  player: savedPlayer,
+  enemies: array(savedEnemy),
+  quests: optional(array(questProgress)),
+  progression: optional(progressionSchema(atLeast(0))),
+  inventory: optional(savedInventory),
+  statusEffects: optional(array(savedStatusEffect)),
+  herbs: optional(record(number)),
+  pickups: optional(array(savedPickup)),
+});
+
+// Validate a save read from storage
+export function parseSave(json: string): SaveData {
+  const data = JSON.parse(json) as { version?: unknown } | null;
+
+  const version = data?.version;
+  if (typeof version !== "number" || version < 1 || version > SAVE_VERSION) {
+    throw new Error(`Unsupported save version: ${version}`);
+  }
+
+  try {
+    return saveData(data, "save");
+  } catch (error) {
+    throw new Error(`Invalid save file: ${(error as Error).message}`);
+  }
+}
+
+// Turn the saved timers back into Date.now() times
+export const loadStatusEffects = (
+  save: SaveData,
+  now: number
+): StatusEffect[] =>
+  (save.statusEffects ?? []).map(({ id, remaining }) => ({
+    id,
+    expiresAt: now + remaining,
+  }));
+
+export const loadHerbs = (save: SaveData, now: number): HarvestedHerbs =>
+  Object.fromEntries(
+    Object.entries(save.herbs ?? {}).map(([index, remaining]) => [
+      index,
+      now + remaining,
+    ])
+  );
+
+export const loadPickups = (
+  save: SaveData,
+  now: number
+): Omit<Pickup, "id">[] =>
+  (save.pickups ?? []).map(({ remaining, ...pickup }) => ({
+    ...pickup,
+    expiresAt: now + remaining,
+  }));
+
+export function writeSave(slot: string, data: SaveData) {
+  localStorage.setItem(STORAGE_PREFIX + slot, JSON.stringify(data));
+}
+
+// Read a slot; null if it's empty. Throws if the save can't be used.
+export function readSave(slot: string): SaveData | null {
+  const json = localStorage.getItem(STORAGE_PREFIX + slot);
+  return json === null ? null : parseSave(json);
+}
+
+export function deleteSave(slot: string) {
+  localStorage.removeItem(STORAGE_PREFIX + slot);
+}
+
+// What's in each slot, skipping empty or unreadable ones
+export function listSaves(): SaveSummary[] {
+  return SAVE_SLOTS.flatMap((slot) => {
+    try {
+      const save = readSave(slot);
+      if (!save) return [];
+
+      const { savedAt, elapsedTime, score } = save;
+      return [{ slot, savedAt, elapsedTime, score }];
+    } catch {
+      return [];
+    }
+  });
+}
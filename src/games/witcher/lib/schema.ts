@@ -0,0 +1,124 @@
+// Checks for JSON that comes from outside the code: network messages, quest
+// files and saves. Each schema takes an unknown value and returns it typed,
+// keeping only the fields it knows about, or throws naming the field that's
+// wrong (`path` is where the value sits, e.g. "quests[2].title").
+
+export type Schema<T> = (value: unknown, path: string) => T;
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`${path} should be ${expected}`);
+};
+
+export const number: Schema<number> = (value, path) =>
+  typeof value === "number" && Number.isFinite(value)
+    ? value
+    : fail(path, "a number");
+
+export const range =
+  (min: number, max: number): Schema<number> =>
+  (value, path) => {
+    const checked = number(value, path);
+    return checked >= min && checked <= max
+      ? checked
+      : fail(path, `between ${min} and ${max}`);
+  };
+
+export const atLeast =
+  (min: number): Schema<number> =>
+  (value, path) => {
+    const checked = number(value, path);
+    return checked >= min ? checked : fail(path, `at least ${min}`);
+  };
+
+export const boolean: Schema<boolean> = (value, path) =>
+  typeof value === "boolean" ? value : fail(path, "true or false");
+
+export const text =
+  (maxLength = Infinity): Schema<string> =>
+  (value, path) =>
+    typeof value === "string" && value.length <= maxLength
+      ? value
+      : fail(path, `text of at most ${maxLength} characters`);
+
+export const oneOf =
+  <T extends string>(options: readonly T[]): Schema<T> =>
+  (value, path) =>
+    options.includes(value as T)
+      ? (value as T)
+      : fail(path, options.join(" or "));
+
+export const nullable =
+  <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path) =>
+    value === null ? null : schema(value, path);
+
+// A field that may be left out
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined ? undefined : schema(value, path);
+
+export const array =
+  <T>(schema: Schema<T>): Schema<T[]> =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.map((item, i) => schema(item, `${path}[${i}]`))
+      : fail(path, "a list");
+
+// An object used as a lookup table, whatever its keys
+export const record =
+  <T>(schema: Schema<T>): Schema<Record<string, T>> =>
+  (value, path) =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).map(([key, item]) => [
+            key,
+            schema(item, `${path}.${key}`),
+          ])
+        )
+      : fail(path, "an object");
+
+export const vector3: Schema<[number, number, number]> = (value, path) =>
+  Array.isArray(value) && value.length === 3
+    ? [number(value[0], path), number(value[1], path), number(value[2], path)]
+    : fail(path, "three numbers");
+
+export const vector2: Schema<[number, number]> = (value, path) =>
+  Array.isArray(value) && value.length === 2
+    ? [number(value[0], path), number(value[1], path)]
+    : fail(path, "two numbers");
+
+export const object =
+  <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return fail(path, "an object");
+    }
+
+    const result = {} as T;
+    (Object.keys(shape) as (keyof T)[]).forEach((key) => {
+      const field = shape[key](
+        (value as Record<keyof T, unknown>)[key],
+        `${path}.${String(key)}`
+      );
+      // Leave out optional fields that weren't given
+      if (field !== undefined) result[key] = field;
+    });
+    return result;
+  };
+
+export type TaggedSchemas<T extends { type: string }> = {
+  [K in T["type"]]: Schema<Extract<T, { type: K }>>;
+};
+
+// One of several kinds of object, told apart by their `type` field
+export const tagged =
+  <T extends { type: string }>(schemas: TaggedSchemas<T>): Schema<T> =>
+  (value, path) => {
+    const type = (value as { type?: unknown } | null)?.type;
+    if (typeof type !== "string" || !Object.hasOwn(schemas, type)) {
+      return fail(`${path}.type`, Object.keys(schemas).join(" or "));
+    }
+
+    return schemas[type as T["type"]](value, path);
+  };
@@ -0,0 +1,258 @@
+import * as THREE from "three";
+import { SignType } from "@/games/witcher/types/game";
+import type { PlayerStats } from "@/games/witcher/lib/progression";
+import type { EnemyStore } from "@/games/witcher/store/enemyStore";
+
+// Tuning for the witcher signs. Times are in milliseconds, distances in
+// world units.
+
+export interface SignDefinition {
+  name: string;
+  description: string;
+  cooldown: number;
+  staminaCost: number;
+  // Colour used by the HUD and the in-world effect
+  color: string;
+}
+
+// HUD order, matching the 1-5 hotkeys
+export const SIGN_ORDER: SignType[] = ["igni", "aard", "quen", "yrden", "axii"];
+
+export const SIGNS: Record<SignType, SignDefinition> = {
+  igni: {
+    name: "Igni",
+    description: "Cone of fire that sets enemies ablaze",
+    cooldown: 4000,
+    staminaCost: 30,
+    color: "#ff6a00",
+  },
+  aard: {
+    name: "Aard",
+    description: "Telekinetic blast that knocks enemies back",
+    cooldown: 3000,
+    staminaCost: 25,
+    color: "#7fd4ff",
+  },
+  quen: {
+    name: "Quen",
+    description: "Shield that absorbs incoming damage",
+    cooldown: 12000,
+    staminaCost: 35,
+    color: "#ffd700",
+  },
+  yrden: {
+    name: "Yrden",
+    description: "Magic trap that slows enemies inside it",
+    cooldown: 15000,
+    staminaCost: 30,
+    color: "#b266ff",
+  },
+  axii: {
+    name: "Axii",
+    description: "Charms an enemy so it stops fighting",
+    cooldown: 10000,
+    staminaCost: 40,
+    color: "#4caf50",
+  },
+};
+
+export const IGNI_RANGE = 5;
+export const IGNI_ARC = Math.PI / 2;
+export const IGNI_DAMAGE = 10; // On impact
+export const IGNI_BURN_DAMAGE = 4; // Per burn tick
+export const IGNI_BURN_TICK = 500;
+export const IGNI_BURN_DURATION = 3000;
+
+export const AARD_RANGE = 6;
+export const AARD_ARC = Math.PI / 2;
+export const AARD_FORCE = 9; // Horizontal knockback speed
+export const AARD_LIFT = 2; // Upward knockback speed
+export const AARD_STAGGER = 1000;
+
+export const QUEN_ABSORB = 40;
+export const QUEN_DURATION = 15000;
+
+export const YRDEN_RADIUS = 4;
+export const YRDEN_DURATION = 10000;
+export const YRDEN_SPEED_MULTIPLIER = 0.3;
+
+export const AXII_RANGE = 8;
+export const AXII_ARC = Math.PI / 3;
+export const AXII_DURATION = 8000;
+
+// How long the player holds the casting pose
+export const CAST_DURATION = 400;
+
+// Area on the ground left behind by Yrden
+export interface SignZone {
+  id: number;
+  position: [number, number, number];
+  radius: number;
+  expiresAt: number;
+}
+
+// Short-lived visual effect of a cast
+export interface SignEffect {
+  id: number;
+  sign: SignType;
+  position: [number, number, number];
+  direction: [number, number, number];
+  createdAt: number;
+  duration: number;
+}
+
+// Every sign ready to cast
+export const createSignCooldowns = (): Record<SignType, number> => ({
+  igni: 0,
+  aard: 0,
+  quen: 0,
+  yrden: 0,
+  axii: 0,
+});
+
+// Check whether a position is inside any of the zones
+export function isInSignZone(zones: SignZone[], x: number, z: number) {
+  return zones.some(({ position, radius }) => {
+    const dx = x - position[0];
+    const dz = z - position[2];
+    return dx * dx + dz * dz <= radius * radius;
+  });
+}
+
+// Damage of each burn tick from a caster's Igni
+export const igniBurnDamage = (stats: Pick<PlayerStats, "signIntensity">) =>
+  IGNI_BURN_DAMAGE * stats.signIntensity;
+
+// What a cast does once the caster's stats are applied, for the caller to
+// carry out on the player and the enemies
+export type SignCast = {
+  // When the sign can be cast again
+  readyAt: number;
+  staminaCost: number;
+} & (
+  | {
+      sign: "igni";
+      // Enemies caught in the cone; those that survive burn until
+      // burningUntil
+      targets: string[];
+      damage: number;
+      burningUntil: number;
+    }
+  | {
+      sign: "aard";
+      pushed: { id: string; knockback: [number, number, number] }[];
+      staggeredUntil: number;
+    }
+  | { sign: "quen"; shield: number; expiresAt: number }
+  | { sign: "yrden"; zone: Omit<SignZone, "id"> }
+  | { sign: "axii"; target: string; charmedUntil: number }
+);
+
+// Work out a cast from where the caster stands and faces. Every sign goes off
+// even with nothing in reach, except Axii: it returns null when there's no
+// creature in front of the caster left to charm. Checking the cooldown and
+// spending the stamina are left to the caller.
+export function resolveSign(
+  sign: SignType,
+  enemies: Pick<EnemyStore, "query">,
+  position: THREE.Vector3,
+  direction: THREE.Vector3,
+  stats: Pick<PlayerStats, "signIntensity" | "signCooldown">,
+  now: number
+): SignCast | null {
+  const cost = {
+    readyAt: now + SIGNS[sign].cooldown * stats.signCooldown,
+    staminaCost: SIGNS[sign].staminaCost,
+  };
+
+  switch (sign) {
+    case "igni":
+      return {
+        ...cost,
+        sign,
+        targets: enemies
+          .query({
+            center: position,
+            radius: IGNI_RANGE,
+            direction,
+            arc: IGNI_ARC,
+          })
+          .map(({ id }) => id),
+        damage: IGNI_DAMAGE * stats.signIntensity,
+        burningUntil: now + IGNI_BURN_DURATION,
+      };
+
+    case "aard":
+      return {
+        ...cost,
+        sign,
+        pushed: enemies
+          .query({
+            center: position,
+            radius: AARD_RANGE,
+            direction,
+            arc: AARD_ARC,
+          })
+          .map((enemy) => {
+            const push = new THREE.Vector3(...enemy.position)
+              .sub(position)
+              .setY(0)
+              .normalize()
+              .multiplyScalar(AARD_FORCE);
+            const knockback: [number, number, number] = [
+              push.x,
+              AARD_LIFT,
+              push.z,
+            ];
+
+            return { id: enemy.id, knockback };
+          }),
+        staggeredUntil: now + AARD_STAGGER,
+      };
+
+    case "quen":
+      return {
+        ...cost,
+        sign,
+        shield: QUEN_ABSORB * stats.signIntensity,
+        expiresAt: now + QUEN_DURATION,
+      };
+
+    case "yrden":
+      return {
+        ...cost,
+        sign,
+        zone: {
+          position: [position.x, position.y, position.z],
+          radius: YRDEN_RADIUS,
+          expiresAt: now + YRDEN_DURATION,
+        },
+      };
+
+    case "axii": {
+      // Axii needs a target in front of the caster
+      const target = enemies
+        .query({
+          center: position,
+          radius: AXII_RANGE,
+          direction,
+          arc: AXII_ARC,
+        })
+        .filter((enemy) => enemy.aggroState !== "charmed")
+        .sort(
+          (a, b) =>
+            position.distanceTo(new THREE.Vector3(...a.position)) -
+            position.distanceTo(new THREE.Vector3(...b.position))
+        )[0];
+
+      return target
+        ? {
+            ...cost,
+            sign,
+            target: target.id,
+            charmedUntil: now + AXII_DURATION,
+          }
+        : null;
+    }
+  }
+}
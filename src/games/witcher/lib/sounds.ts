@@ -0,0 +1,109 @@
+// Procedural combat sounds for the witcher: sword swings, hits and blocks,
+// and the growls and roars of the creatures.
+
+import { Sound, playNoise, playTone } from "@/lib/audio";
+import { AttackType, Enemy } from "@/games/witcher/types/game";
+
+// Whoosh of the blade; heavy swings are slower and deeper
+export const SWING_SOUNDS: Record<AttackType, Sound> = {
+  light: (context, output, time) => {
+    playNoise(context, output, time, {
+      filter: "bandpass",
+      frequency: 700,
+      endFrequency: 3500,
+      q: 2,
+      duration: 0.25,
+      volume: 0.35,
+      attack: 0.08,
+    });
+    return 0.25;
+  },
+  heavy: (context, output, time) => {
+    playNoise(context, output, time, {
+      filter: "bandpass",
+      frequency: 400,
+      endFrequency: 2000,
+      q: 2,
+      duration: 0.45,
+      volume: 0.5,
+      attack: 0.15,
+    });
+    return 0.45;
+  },
+};
+
+// Blade striking flesh
+export const hitSound: Sound = (context, output, time) => {
+  playNoise(context, output, time, {
+    filter: "lowpass",
+    frequency: 900,
+    duration: 0.2,
+    volume: 0.7,
+  });
+  playTone(context, output, time, {
+    type: "sine",
+    frequency: 150,
+    endFrequency: 60,
+    duration: 0.15,
+    volume: 0.5,
+  });
+  return 0.2;
+};
+
+// Steel ringing against claws and teeth
+export const blockSound: Sound = (context, output, time) => {
+  playTone(context, output, time, {
+    type: "triangle",
+    frequency: 1400,
+    endFrequency: 1200,
+    duration: 0.5,
+    volume: 0.25,
+  });
+  playNoise(context, output, time, {
+    filter: "highpass",
+    frequency: 3000,
+    duration: 0.1,
+    volume: 0.4,
+  });
+  return 0.5;
+};
+
+// Low snarl: a rough tone trembling over filtered noise
+const growl =
+  (frequency: number, duration: number, volume: number): Sound =>
+  (context, output, time) => {
+    const tremolo = context.createOscillator();
+    const depth = context.createGain();
+    const gain = context.createGain();
+    tremolo.frequency.value = 18;
+    depth.gain.value = 0.5;
+    gain.gain.value = 0.5;
+    tremolo.connect(depth);
+    depth.connect(gain.gain);
+    gain.connect(output);
+    tremolo.start(time);
+    tremolo.stop(time + duration);
+
+    playTone(context, gain, time, {
+      type: "sawtooth",
+      frequency,
+      endFrequency: frequency * 0.7,
+      duration,
+      volume,
+      attack: 0.1,
+    });
+    playNoise(context, gain, time, {
+      filter: "lowpass",
+      frequency: frequency * 4,
+      duration,
+      volume: volume * 0.8,
+      attack: 0.1,
+    });
+    return duration;
+  };
+
+// What each creature sounds like when it turns on the player; deer stay quiet
+export const AGGRO_SOUNDS: Partial<Record<Enemy["type"], Sound>> = {
+  wolf: growl(110, 0.9, 0.3),
+  bear: growl(60, 1.6, 0.5),
+};
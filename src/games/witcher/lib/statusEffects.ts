@@ -0,0 +1,108 @@
+import { Enemy } from "@/games/witcher/types/game";
+import { StatModifier } from "@/games/witcher/lib/progression";
+
+// Timed buffs on the player, from potions and blade oils. While an effect
+// lasts its modifiers join the player's stats like gear does; the other
+// fields are read by the game directly.
+
+export type StatusEffectId =
+  | "swallow"
+  | "cat"
+  | "thunderbolt"
+  | "beastOil"
+  | "ursineOil";
+
+export interface StatusEffectDefinition {
+  name: string;
+  // Milliseconds
+  duration: number;
+  color: string;
+  modifiers?: StatModifier[];
+  // Health restored per second
+  healthRegen?: number;
+  // Pushes the fog back
+  nightVision?: boolean;
+  // Extra damage against some creatures; the blade only holds one oil at a
+  // time, so applying an oil wipes off any other
+  oil?: {
+    against: Enemy["type"][];
+    // 0.3 for +30%
+    bonus: number;
+  };
+}
+
+export const STATUS_EFFECTS: Record<StatusEffectId, StatusEffectDefinition> = {
+  swallow: {
+    name: "Swallow",
+    duration: 25000,
+    color: "#e05a47",
+    healthRegen: 4,
+  },
+  cat: {
+    name: "Cat",
+    duration: 120000,
+    color: "#7fd1ff",
+    nightVision: true,
+  },
+  thunderbolt: {
+    name: "Thunderbolt",
+    duration: 30000,
+    color: "#ffd84d",
+    modifiers: [{ stat: "attackPower", multiply: 0.3 }],
+  },
+  beastOil: {
+    name: "Beast Oil",
+    duration: 90000,
+    color: "#9aa36b",
+    oil: { against: ["wolf"], bonus: 0.3 },
+  },
+  ursineOil: {
+    name: "Ursine Oil",
+    duration: 90000,
+    color: "#b5773a",
+    oil: { against: ["bear"], bonus: 0.3 },
+  },
+};
+
+export interface StatusEffect {
+  id: StatusEffectId;
+  // Date.now() milliseconds
+  expiresAt: number;
+}
+
+// Start an effect, or restart it if it's already running
+export function applyStatusEffect(
+  effects: StatusEffect[],
+  id: StatusEffectId,
+  now: number
+): StatusEffect[] {
+  const isOil = !!STATUS_EFFECTS[id].oil;
+  const kept = effects.filter(
+    (effect) => effect.id !== id && !(isOil && STATUS_EFFECTS[effect.id].oil)
+  );
+
+  return [...kept, { id, expiresAt: now + STATUS_EFFECTS[id].duration }];
+}
+
+// Stat modifiers from every running effect
+export const statusEffectModifiers = (effects: StatusEffect[]) =>
+  effects.flatMap(({ id }) => STATUS_EFFECTS[id].modifiers ?? []);
+
+// Health restored per second by every running effect
+export const statusEffectRegen = (effects: StatusEffect[]) =>
+  effects.reduce(
+    (total, { id }) => total + (STATUS_EFFECTS[id].healthRegen ?? 0),
+    0
+  );
+
+export const hasNightVision = (effects: StatusEffect[]) =>
+  effects.some(({ id }) => STATUS_EFFECTS[id].nightVision);
+
+// Damage multiplier from the oil on the blade against a creature
+export function oilMultiplier(effects: StatusEffect[], type: Enemy["type"]) {
+  const oil = effects
+    .map(({ id }) => STATUS_EFFECTS[id].oil)
+    .find((candidate) => candidate?.against.includes(type));
+
+  return 1 + (oil?.bonus ?? 0);
+}
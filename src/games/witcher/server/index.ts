@@ -0,0 +1,119 @@
+import { WebSocket, WebSocketServer } from "ws";
+import { randomSeed } from "@/games/witcher/lib/random";
+import { isValidProgression } from "@/games/witcher/lib/progression";
+import {
+  DEFAULT_SERVER_PORT,
+  PROTOCOL_VERSION,
+  ServerMessage,
+  TICK_MS,
+  parseClientMessage,
+} from "@/games/witcher/lib/network/protocol";
+import { createServerWorld } from "./world";
+
+// Multiplayer server for the Witcher game: `npm run witcher-server`.
+// Listens on PORT (default 8787) and builds its world from WORLD_SEED, or a
+// random seed. Everything runs in this process; nothing outside is needed.
+
+const port = Number(process.env.PORT ?? DEFAULT_SERVER_PORT);
+const seed = process.env.WORLD_SEED
+  ? Number(process.env.WORLD_SEED)
+  : randomSeed();
+
+const world = createServerWorld(seed);
+const server = new WebSocketServer({ port });
+
+// Who each open connection plays as, once they've joined
+const connections = new Map<WebSocket, string | null>();
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const reject = (socket: WebSocket, reason: string) => {
+  send(socket, { type: "rejected", reason });
+  socket.close();
+};
+
+server.on("connection", (socket) => {
+  connections.set(socket, null);
+
+  socket.on("message", (data) => {
+    let message;
+    try {
+      message = parseClientMessage(data.toString());
+    } catch (error) {
+      reject(socket, (error as Error).message);
+      return;
+    }
+
+    const playerId = connections.get(socket);
+
+    switch (message.type) {
+      case "join": {
+        if (playerId) return;
+        if (message.protocol !== PROTOCOL_VERSION) {
+          reject(
+            socket,
+            `Server speaks protocol version ${PROTOCOL_VERSION}, not ${message.protocol}`
+          );
+          return;
+        }
+        if (!isValidProgression(message.progression)) {
+          reject(socket, "Skills don't add up for the player's level");
+          return;
+        }
+
+        const id = world.addPlayer(message.name, message.progression);
+        connections.set(socket, id);
+        send(socket, {
+          type: "welcome",
+          playerId: id,
+          worldSeed: world.seed,
+          snapshot: world.snapshot(Date.now()),
+        });
+        console.log(`${id} joined (${connections.size} connected)`);
+        break;
+      }
+
+      case "input":
+        if (playerId) world.queueInput(playerId, message.frame);
+        break;
+    }
+  });
+
+  socket.on("close", () => {
+    const playerId = connections.get(socket);
+    connections.delete(socket);
+
+    if (playerId) {
+      world.removePlayer(playerId);
+      console.log(`${playerId} left (${connections.size} connected)`);
+    }
+  });
+});
+
+// Simulate and send every joined client what changed
+const ticker = setInterval(() => {
+  const json = JSON.stringify({
+    type: "delta",
+    delta: world.tick(Date.now()),
+  } satisfies ServerMessage);
+
+  connections.forEach((playerId, socket) => {
+    if (playerId && socket.readyState === WebSocket.OPEN) socket.send(json);
+  });
+}, TICK_MS);
+
+server.on("listening", () => {
+  console.log(
+    `Witcher server listening on ws://localhost:${port} (world seed ${seed})`
+  );
+});
+
+process.on("SIGINT", () => {
+  clearInterval(ticker);
+  server.close();
+  process.exit(0);
+});
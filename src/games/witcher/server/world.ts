@@ -0,0 +1,781 @@
+import * as THREE from "three";
+import { AttackType, GameControls, SignType } from "@/games/witcher/types/game";
+import { EnemyType, createEnemyStore } from "@/games/witcher/store/enemyStore";
+import {
+  AIContext,
+  AIMemory,
+  createAIMemory,
+  runBehavior,
+} from "@/games/witcher/lib/ai/behavior";
+import { CREATURES } from "@/games/witcher/lib/ai/creatures";
+import { createNavGrid } from "@/games/witcher/lib/ai/navigation";
+import {
+  WATER_SPEED_MULTIPLIER,
+  createEnvironmentLayout,
+  isInWater,
+  pushOutOfObstacles,
+} from "@/games/witcher/lib/environmentLayout";
+import {
+  COMBO_MULTIPLIERS,
+  COMBO_WINDOW,
+  DODGE_INVULNERABILITY,
+  DODGE_STAMINA_COST,
+  MAX_STAMINA,
+  PARRY_WINDOW,
+  PlayerAttack,
+  STAGGER_DURATION,
+  STAMINA_REGEN_DELAY,
+  attackDamage,
+  resolveAttack,
+  resolveHit,
+} from "@/games/witcher/lib/combat";
+import {
+  CAST_DURATION,
+  IGNI_BURN_TICK,
+  SignEffect,
+  SignZone,
+  YRDEN_SPEED_MULTIPLIER,
+  createSignCooldowns,
+  igniBurnDamage,
+  isInSignZone,
+  resolveSign,
+} from "@/games/witcher/lib/signs";
+import {
+  PlayerStats,
+  Progression,
+  computeStats,
+} from "@/games/witcher/lib/progression";
+import {
+  InputFrame,
+  NetPlayer,
+  RESPAWN_DELAY,
+  TICK_MS,
+  WorldDelta,
+  WorldSnapshot,
+} from "@/games/witcher/lib/network/protocol";
+import {
+  IDLE_CONTROLS,
+  PLAYER_RADIUS,
+  createPlayerMotion,
+  stepPlayerMotion,
+} from "@/games/witcher/lib/network/motion";
+
+// The authoritative multiplayer world. It runs what the single-player Game
+// and its components do in the browser: enemy spawning, the behavior trees
+// and all damage, for every connected player at once. Physics is replaced by
+// simple kinematic movement that stops at trees, rocks and the world edge.
+// Each player's stats come from the levels and skills they joined with.
+
+// Same spawning as single player: a starting pack, then one every 10 seconds
+const INITIAL_ENEMIES: [EnemyType, number][] = [
+  ["wolf", 3],
+  ["bear", 1],
+  ["deer", 5],
+];
+const SPAWN_INTERVAL = 10000;
+
+// One input is applied per tick, however many arrive, so sending more can't
+// move a player faster. A few are held over to ride out network jitter;
+// beyond that the oldest are dropped.
+const MAX_QUEUED_INPUTS = 10;
+
+const SCORE_PER_KILL = 10;
+const SIGN_EFFECT_DURATION = 600;
+
+// How long an enemy shows its attack pose
+const ENEMY_ATTACK_POSE = 300;
+
+// Knockback speed lost per second, standing in for ground friction
+const KNOCKBACK_FRICTION = 12;
+
+// Where enemies think the player is when nobody is alive to chase
+const NOBODY = new THREE.Vector3(1e6, 0, 1e6);
+
+// A player and the combat timing the Player component keeps in refs
+interface ServerPlayer {
+  state: NetPlayer;
+  stats: PlayerStats;
+  inputs: InputFrame[];
+  previous: GameControls;
+  attackEndsAt: number;
+  comboExpiresAt: number;
+  comboHistory: AttackType[];
+  bufferedAttack: AttackType | null;
+  blockStartedAt: number | null;
+  castEndsAt: number;
+  invulnerableUntil: number;
+  lastStaminaSpend: number;
+  shieldExpiresAt: number;
+  diedAt: number;
+}
+
+// Per-enemy state the Enemy component keeps in refs and timers
+interface EnemyAgent {
+  memory: AIMemory;
+  // Knockback still carrying the enemy, on the ground plane
+  slide: [number, number];
+  attackPoseUntil: number;
+  staggeredUntil: number;
+  // Credited with the kill
+  lastHitBy: string | null;
+  // Damage of each burn tick, from the stats of whoever cast the Igni
+  burnDamage: number;
+}
+
+export function createServerWorld(seed: number) {
+  const layout = createEnvironmentLayout(seed);
+  const navGrid = createNavGrid(layout);
+  const enemies = createEnemyStore();
+  const agents = new Map<string, EnemyAgent>();
+  const players = new Map<string, ServerPlayer>();
+  let nextPlayerId = 0;
+
+  let zones: SignZone[] = [];
+  let zonesChanged = false;
+  let effects: SignEffect[] = [];
+  let nextSignId = 0;
+
+  let nextSpawnAt = 0;
+  let nextBurnTickAt = 0;
+
+  // What each player and enemy looked like in the last delta
+  const sent = new Map<string, string>();
+
+  const randomPosition = (): [number, number, number] => [
+    (Math.random() - 0.5) * 40,
+    0,
+    (Math.random() - 0.5) * 40,
+  ];
+
+  const spawnEnemy = (type: EnemyType, position: [number, number, number]) => {
+    const enemy = enemies.spawn(type, position);
+    agents.set(enemy.id, {
+      memory: createAIMemory(new THREE.Vector3(...position)),
+      slide: [0, 0],
+      attackPoseUntil: 0,
+      staggeredUntil: 0,
+      lastHitBy: null,
+      burnDamage: 0,
+    });
+  };
+
+  INITIAL_ENEMIES.forEach(([type, count]) => {
+    for (let i = 0; i < count; i++) spawnEnemy(type, randomPosition());
+  });
+
+  // Kills score for whoever landed the last blow
+  enemies.onDeath((enemy) => {
+    const killer = players.get(agents.get(enemy.id)?.lastHitBy ?? "");
+    if (killer) killer.state.score += SCORE_PER_KILL;
+
+    enemies.despawn(enemy.id);
+    agents.delete(enemy.id);
+  });
+
+  const damageEnemy = (id: string, amount: number, playerId: string) => {
+    const agent = agents.get(id);
+    if (agent) agent.lastHitBy = playerId;
+    return enemies.damage(id, amount);
+  };
+
+  const staggerEnemy = (id: string, until: number) => {
+    const agent = agents.get(id);
+    if (!agent) return;
+
+    agent.staggeredUntil = until;
+    enemies.update(id, { isStaggered: true, isAttacking: false });
+  };
+
+  // Players start in a ring around the middle of the map
+  const spawnPoint = (): [number, number, number] => {
+    const angle = (nextPlayerId * Math.PI * 2) / 6;
+    const [x, z] = pushOutOfObstacles(
+      layout,
+      Math.sin(angle) * 2,
+      Math.cos(angle) * 2,
+      PLAYER_RADIUS
+    );
+    return [x, 0, z];
+  };
+
+  const createPlayer = (
+    id: string,
+    name: string,
+    stats: PlayerStats
+  ): ServerPlayer => ({
+    state: {
+      id,
+      name,
+      motion: createPlayerMotion(spawnPoint()),
+      health: stats.maxHealth,
+      maxHealth: stats.maxHealth,
+      stamina: MAX_STAMINA,
+      shield: 0,
+      signCooldowns: createSignCooldowns(),
+      score: 0,
+      lastInput: 0,
+      isDead: false,
+      isAttacking: false,
+      attackType: null,
+      comboStep: 0,
+      isBlocking: false,
+      isParrying: false,
+      isDodging: false,
+      isInvulnerable: false,
+      isCasting: false,
+    },
+    stats,
+    inputs: [],
+    previous: IDLE_CONTROLS,
+    attackEndsAt: 0,
+    comboExpiresAt: 0,
+    comboHistory: [],
+    bufferedAttack: null,
+    blockStartedAt: null,
+    castEndsAt: 0,
+    invulnerableUntil: 0,
+    lastStaminaSpend: 0,
+    shieldExpiresAt: 0,
+    diedAt: 0,
+  });
+
+  // Spend stamina on an action; fails without spending if there isn't enough
+  const spendStamina = (player: ServerPlayer, cost: number, now: number) => {
+    if (player.state.stamina < cost) return false;
+
+    player.state.stamina -= cost;
+    player.lastStaminaSpend = now;
+    return true;
+  };
+
+  // Hit every enemy inside the attack arc
+  const performAttack = (
+    player: ServerPlayer,
+    position: THREE.Vector3,
+    direction: THREE.Vector3,
+    attack: PlayerAttack
+  ) => {
+    const damage = attackDamage(attack, player.stats);
+
+    enemies
+      .query({
+        center: position,
+        radius: attack.range,
+        direction,
+        arc: attack.arc,
+      })
+      .forEach((enemy) => damageEnemy(enemy.id, damage, player.state.id));
+  };
+
+  // Cast a sign; fails if it's on cooldown, there isn't enough stamina or
+  // there's nothing for it to act on
+  const castSign = (
+    player: ServerPlayer,
+    sign: SignType,
+    position: THREE.Vector3,
+    direction: THREE.Vector3,
+    now: number
+  ) => {
+    const { state } = player;
+    if (now < state.signCooldowns[sign]) return false;
+
+    const cast = resolveSign(
+      sign,
+      enemies,
+      position,
+      direction,
+      player.stats,
+      now
+    );
+    if (!cast || !spendStamina(player, cast.staminaCost, now)) return false;
+
+    state.signCooldowns = { ...state.signCooldowns, [sign]: cast.readyAt };
+
+    switch (cast.sign) {
+      case "igni":
+        cast.targets.forEach((id) => {
+          const result = damageEnemy(id, cast.damage, state.id);
+          const agent = agents.get(id);
+          if (result && !result.killed && agent) {
+            agent.burnDamage = igniBurnDamage(player.stats);
+            enemies.update(id, { burningUntil: cast.burningUntil });
+          }
+        });
+        break;
+
+      case "aard":
+        cast.pushed.forEach(({ id, knockback }) => {
+          enemies.update(id, { knockback });
+          staggerEnemy(id, cast.staggeredUntil);
+        });
+        break;
+
+      case "quen":
+        state.shield = cast.shield;
+        player.shieldExpiresAt = cast.expiresAt;
+        break;
+
+      case "yrden":
+        zones = [...zones, { id: nextSignId++, ...cast.zone }];
+        zonesChanged = true;
+        break;
+
+      case "axii":
+        enemies.update(cast.target, {
+          aggroState: "charmed",
+          charmedUntil: cast.charmedUntil,
+          isAttacking: false,
+        });
+        break;
+    }
+
+    // Flash of the sign at the caster
+    effects.push({
+      id: nextSignId++,
+      sign,
+      position: [position.x, position.y, position.z],
+      direction: [direction.x, direction.y, direction.z],
+      createdAt: now,
+      duration: SIGN_EFFECT_DURATION,
+    });
+
+    return true;
+  };
+
+  // One input: movement, then attacks, blocking and signs as the Player
+  // component handles them each frame
+  const applyInput = (player: ServerPlayer, frame: InputFrame, now: number) => {
+    const { controls } = frame;
+    const previous = player.previous;
+    player.previous = controls;
+    player.state.lastInput = frame.seq;
+
+    const { state } = player;
+    if (state.isDead) return;
+
+    const pressed = (key: "attack" | "heavyAttack" | "castSign") =>
+      controls[key] && !previous[key];
+    const isSwinging = now < player.attackEndsAt;
+
+    const { motion, dodged } = stepPlayerMotion(
+      state.motion,
+      controls,
+      previous,
+      frame.cameraYaw,
+      layout,
+      !isSwinging && state.stamina >= DODGE_STAMINA_COST
+    );
+    state.motion = motion;
+
+    // Rolling cancels blocking
+    if (dodged) {
+      spendStamina(player, DODGE_STAMINA_COST, now);
+      player.invulnerableUntil = now + DODGE_INVULNERABILITY;
+      player.blockStartedAt = null;
+    }
+    const isDodging = motion.dodgeTicks > 0;
+
+    const position = new THREE.Vector3(...motion.position);
+    const direction = new THREE.Vector3(
+      Math.sin(motion.facing),
+      0,
+      Math.cos(motion.facing)
+    );
+
+    // Presses during a swing are buffered so quick sequences chain into
+    // combos
+    const requestedAttack: AttackType | null = pressed("heavyAttack")
+      ? "heavy"
+      : pressed("attack")
+      ? "light"
+      : null;
+
+    if (requestedAttack && isSwinging) {
+      player.bufferedAttack = requestedAttack;
+    }
+
+    const nextAttack = isSwinging
+      ? null
+      : player.bufferedAttack ?? requestedAttack;
+
+    if (nextAttack && !isDodging && player.blockStartedAt === null) {
+      player.bufferedAttack = null;
+
+      // Too long since the last swing: start a new combo
+      if (now > player.comboExpiresAt) {
+        player.comboHistory = [];
+      }
+
+      const attack = resolveAttack(nextAttack, player.comboHistory);
+
+      if (spendStamina(player, attack.staminaCost, now)) {
+        player.comboHistory.push(nextAttack);
+
+        // Finishers and the last step of a combo start over
+        if (
+          attack.finisher ||
+          player.comboHistory.length >= COMBO_MULTIPLIERS.length
+        ) {
+          player.comboHistory = [];
+        }
+
+        player.attackEndsAt = now + attack.duration;
+        player.comboExpiresAt = player.attackEndsAt + COMBO_WINDOW;
+        state.attackType = attack.type;
+        state.comboStep = attack.comboStep;
+
+        performAttack(player, position, direction, attack);
+      }
+    }
+
+    // The first moments of a block are a parry
+    if (
+      controls.block &&
+      player.blockStartedAt === null &&
+      !isSwinging &&
+      !isDodging
+    ) {
+      player.blockStartedAt = now;
+    } else if (!controls.block && player.blockStartedAt !== null) {
+      player.blockStartedAt = null;
+    }
+
+    if (
+      pressed("castSign") &&
+      now >= player.castEndsAt &&
+      !isSwinging &&
+      !isDodging &&
+      player.blockStartedAt === null &&
+      castSign(player, controls.selectedSign, position, direction, now)
+    ) {
+      player.castEndsAt = now + CAST_DURATION;
+    }
+  };
+
+  // An enemy's blow landing on a player, as handled by the single-player Game
+  const hitPlayer = (
+    player: ServerPlayer,
+    attackerId: string,
+    damage: number,
+    now: number
+  ) => {
+    const { state } = player;
+
+    if (state.isDead) return;
+
+    // Dodges, parries, Quen and blocking work as in single player
+    const hit = resolveHit(damage, state, player.stats);
+    if (hit.outcome === "parried") {
+      staggerEnemy(attackerId, now + STAGGER_DURATION);
+      return;
+    }
+
+    state.shield = hit.shield;
+    if (hit.staminaCost > 0) spendStamina(player, hit.staminaCost, now);
+    state.health = Math.max(0, state.health - hit.damage);
+
+    if (state.health <= 0) {
+      state.isDead = true;
+      player.diedAt = now;
+    }
+  };
+
+  const respawn = (player: ServerPlayer) => {
+    const { id, name, score, lastInput } = player.state;
+    const fresh = createPlayer(id, name, player.stats);
+
+    Object.assign(player, fresh, {
+      state: { ...fresh.state, score, lastInput },
+      previous: player.previous,
+    });
+  };
+
+  // Flags the client draws the player with
+  const updatePlayerFlags = (player: ServerPlayer, now: number) => {
+    const { state } = player;
+
+    state.isAttacking = now < player.attackEndsAt;
+    if (!state.isAttacking) state.attackType = null;
+    state.isBlocking = player.blockStartedAt !== null;
+    state.isParrying =
+      player.blockStartedAt !== null &&
+      now - player.blockStartedAt < PARRY_WINDOW;
+    state.isDodging = state.motion.dodgeTicks > 0;
+    state.isInvulnerable = now < player.invulnerableUntil;
+    state.isCasting = now < player.castEndsAt;
+  };
+
+  const updatePlayer = (player: ServerPlayer, now: number) => {
+    const { state } = player;
+
+    const frame = player.inputs.shift();
+    if (frame) applyInput(player, frame, now);
+
+    if (state.isDead) {
+      if (now - player.diedAt >= RESPAWN_DELAY) respawn(player);
+      return;
+    }
+
+    // Regenerate stamina once the player stops spending it
+    if (
+      state.stamina < MAX_STAMINA &&
+      now - player.lastStaminaSpend >= STAMINA_REGEN_DELAY
+    ) {
+      state.stamina = Math.min(
+        MAX_STAMINA,
+        state.stamina + player.stats.staminaRegen * (TICK_MS / 1000)
+      );
+    }
+
+    if (state.shield > 0 && now >= player.shieldExpiresAt) {
+      state.shield = 0;
+    }
+
+    updatePlayerFlags(player, now);
+  };
+
+  // Nearest living player, the one an enemy reacts to
+  const nearestPlayer = (x: number, z: number) => {
+    let nearest: ServerPlayer | null = null;
+    let nearestDistance = Infinity;
+
+    for (const player of players.values()) {
+      if (player.state.isDead) continue;
+
+      const [px, , pz] = player.state.motion.position;
+      const distance = Math.hypot(px - x, pz - z);
+      if (distance < nearestDistance) {
+        nearest = player;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  };
+
+  // The behavior tree for one enemy, steering a kinematic body
+  const updateEnemy = (id: string, now: number) => {
+    const agent = agents.get(id);
+    let enemy = enemies.get(id);
+    if (!agent || !enemy || enemy.isDead) return;
+
+    const creature = CREATURES[enemy.type];
+    const dt = TICK_MS / 1000;
+
+    if (enemy.isAttacking && now >= agent.attackPoseUntil) {
+      enemies.update(id, { isAttacking: false });
+    }
+    if (enemy.isStaggered && now >= agent.staggeredUntil) {
+      enemies.update(id, { isStaggered: false });
+    }
+
+    // Aard knockback: start sliding, slowing down as friction takes over
+    if (enemy.knockback) {
+      agent.slide = [enemy.knockback[0], enemy.knockback[2]];
+      enemies.update(id, { knockback: null });
+    }
+    const slideSpeed = Math.hypot(...agent.slide);
+    if (slideSpeed > 0) {
+      const slowed = Math.max(0, slideSpeed - KNOCKBACK_FRICTION * dt);
+      agent.slide = [
+        (agent.slide[0] / slideSpeed) * slowed,
+        (agent.slide[1] / slideSpeed) * slowed,
+      ];
+    }
+
+    enemy = enemies.get(id)!;
+    const [x, , z] = enemy.position;
+    let facing = enemy.rotation[1];
+    let velocityX = 0;
+    let velocityZ = 0;
+
+    // Staggered enemies reel and charmed ones stand still
+    if (!enemy.isStaggered && enemy.aggroState !== "charmed") {
+      const current = enemy;
+      const target = nearestPlayer(x, z);
+
+      // Slow down while wading through water or caught in a Yrden trap
+      const speedMultiplier =
+        (isInWater(layout, x, z) ? WATER_SPEED_MULTIPLIER : 1) *
+        (isInSignZone(zones, x, z) ? YRDEN_SPEED_MULTIPLIER : 1);
+
+      const context: AIContext = {
+        enemy: current,
+        position: new THREE.Vector3(x, 0, z),
+        playerPosition: target
+          ? new THREE.Vector3(...target.state.motion.position)
+          : NOBODY,
+        others: enemies.getAll(),
+        navGrid,
+        memory: agent.memory,
+        now,
+        move(direction, speed) {
+          velocityX = direction.x * speed * speedMultiplier;
+          velocityZ = direction.z * speed * speedMultiplier;
+          facing = Math.atan2(direction.x, direction.z);
+        },
+        face(point) {
+          facing = Math.atan2(point.x - x, point.z - z);
+        },
+        setAggroState(aggroState) {
+          if (current.aggroState !== aggroState) {
+            enemies.update(id, { aggroState });
+          }
+        },
+        attackPlayer(damage) {
+          enemies.update(id, { isAttacking: true });
+          agent.attackPoseUntil = now + ENEMY_ATTACK_POSE;
+          if (target) hitPlayer(target, id, damage, now);
+        },
+        update(patch) {
+          enemies.update(id, patch);
+        },
+      };
+
+      runBehavior(creature.behavior, context);
+    }
+
+    const [nextX, nextZ] = pushOutOfObstacles(
+      layout,
+      x + (velocityX + agent.slide[0]) * dt,
+      z + (velocityZ + agent.slide[1]) * dt,
+      creature.body.radius
+    );
+    enemies.setTransform(id, [nextX, 0, nextZ], [0, facing, 0]);
+  };
+
+  // Burning, charm and trap upkeep on the same beat as single player
+  const updateSigns = (now: number) => {
+    if (now >= nextBurnTickAt) {
+      nextBurnTickAt = now + IGNI_BURN_TICK;
+
+      enemies.getAll().forEach((enemy) => {
+        if (enemy.burningUntil > 0) {
+          if (now >= enemy.burningUntil) {
+            enemies.update(enemy.id, { burningUntil: 0 });
+          } else {
+            enemies.damage(enemy.id, agents.get(enemy.id)?.burnDamage ?? 0);
+          }
+        }
+
+        if (enemy.aggroState === "charmed" && now >= enemy.charmedUntil) {
+          enemies.update(enemy.id, { aggroState: "idle", charmedUntil: 0 });
+        }
+      });
+    }
+
+    if (zones.some((zone) => zone.expiresAt <= now)) {
+      zones = zones.filter((zone) => zone.expiresAt > now);
+      zonesChanged = true;
+    }
+  };
+
+  const spawnEnemies = (now: number) => {
+    if (players.size === 0 || now < nextSpawnAt) return;
+
+    if (nextSpawnAt > 0) {
+      const spawnChance = Math.random();
+      const type: EnemyType =
+        spawnChance < 0.2 ? "bear" : spawnChance < 0.6 ? "deer" : "wolf";
+
+      // Between 30 and 40 units from the middle of the map
+      const angle = Math.random() * Math.PI * 2;
+      const distance = 30 + Math.random() * 10;
+      spawnEnemy(type, [
+        Math.cos(angle) * distance,
+        0,
+        Math.sin(angle) * distance,
+      ]);
+    }
+    nextSpawnAt = now + SPAWN_INTERVAL;
+  };
+
+  // Everything that changed since the last delta
+  const buildDelta = (now: number): WorldDelta => {
+    const delta: WorldDelta = {
+      time: now,
+      players: [],
+      enemies: [],
+      removed: [],
+      zones: zonesChanged ? zones : null,
+      effects,
+    };
+    const present = new Set<string>();
+
+    const diff = <T extends { id: string }>(entity: T, changed: T[]) => {
+      const json = JSON.stringify(entity);
+      present.add(entity.id);
+      if (sent.get(entity.id) === json) return;
+
+      sent.set(entity.id, json);
+      changed.push(entity);
+    };
+
+    players.forEach(({ state }) => diff(state, delta.players));
+    enemies.getAll().forEach((enemy) => diff(enemy, delta.enemies));
+
+    sent.forEach((_, id) => {
+      if (present.has(id)) return;
+      sent.delete(id);
+      delta.removed.push(id);
+    });
+
+    zonesChanged = false;
+    effects = [];
+    return delta;
+  };
+
+  return {
+    seed,
+
+    addPlayer(name: string, progression: Progression) {
+      const id = `player-${nextPlayerId}`;
+      players.set(
+        id,
+        createPlayer(
+          id,
+          name.trim() || `Witcher ${nextPlayerId + 1}`,
+          computeStats(progression)
+        )
+      );
+      nextPlayerId++;
+      return id;
+    },
+
+    removePlayer(id: string) {
+      players.delete(id);
+    },
+
+    queueInput(id: string, frame: InputFrame) {
+      const player = players.get(id);
+      if (!player) return;
+
+      // Replayed or out-of-order inputs are dropped
+      const newest = player.inputs.at(-1)?.seq ?? player.state.lastInput;
+      if (frame.seq <= newest) return;
+
+      player.inputs.push(frame);
+      if (player.inputs.length > MAX_QUEUED_INPUTS) player.inputs.shift();
+    },
+
+    // Advance the world one tick and report what changed
+    tick(now: number): WorldDelta {
+      spawnEnemies(now);
+      players.forEach((player) => updatePlayer(player, now));
+      updateSigns(now);
+      enemies.getAll().forEach((enemy) => updateEnemy(enemy.id, now));
+      return buildDelta(now);
+    },
+
+    snapshot(now: number): WorldSnapshot {
+      return {
+        time: now,
+        players: Array.from(players.values(), ({ state }) => state),
+        enemies: enemies.getAll(),
+        zones,
+      };
+    },
+  };
+}
+
+export type ServerWorld = ReturnType<typeof createServerWorld>;
@@ -0,0 +1,198 @@
+import * as THREE from "three";
+import { Enemy } from "@/games/witcher/types/game";
+import { CREATURES } from "@/games/witcher/lib/ai/creatures";
+
+export type EnemyType = Enemy["type"];
+
+export interface EnemyQuery {
+  center: THREE.Vector3;
+  radius: number;
+  // Optional cone: only enemies within `arc` radians around `direction`
+  direction?: THREE.Vector3;
+  arc?: number;
+  includeDead?: boolean;
+}
+
+export interface DamageResult {
+  enemy: Enemy;
+  killed: boolean;
+}
+
+// Enough to rebuild an enemy; anything else is taken from its type
+export type EnemySnapshot = Pick<Enemy, "id" | "type" | "position"> &
+  Partial<Enemy>;
+
+type Listener = () => void;
+type DeathListener = (enemy: Enemy) => void;
+
+// Registry of every enemy in the world. Components subscribe to it for
+// rendering; gameplay code (player attacks, spells) goes through the typed
+// API instead of reaching into the scene graph.
+export function createEnemyStore() {
+  let enemies = new Map<string, Enemy>();
+  let snapshot: Enemy[] = [];
+  let nextId = 0;
+  const listeners = new Set<Listener>();
+  const deathListeners = new Set<DeathListener>();
+
+  const emit = () => {
+    snapshot = Array.from(enemies.values());
+    listeners.forEach((listener) => listener());
+  };
+
+  const create = (
+    type: EnemyType,
+    position: [number, number, number],
+    id: string
+  ): Enemy => {
+    const { stats } = CREATURES[type];
+    return {
+      id,
+      type,
+      position,
+      rotation: [0, 0, 0],
+      health: stats.maxHealth,
+      isAttacking: false,
+      isBlocking: false,
+      isDead: false,
+      isStaggered: false,
+      isEnraged: false,
+      aggroState: "idle",
+      burningUntil: 0,
+      charmedUntil: 0,
+      knockback: null,
+      huntingId: null,
+      ...stats,
+    };
+  };
+
+  // Replace an enemy with an updated copy so subscribers see a new object
+  const set = (id: string, patch: Partial<Enemy>) => {
+    const current = enemies.get(id);
+    if (!current) return null;
+
+    const updated = { ...current, ...patch };
+    enemies.set(id, updated);
+    return updated;
+  };
+
+  return {
+    spawn(
+      type: EnemyType,
+      position: [number, number, number],
+      id = `${type}-${nextId++}`
+    ) {
+      const enemy = create(type, position, id);
+
+      enemies.set(id, enemy);
+      emit();
+      return enemy;
+    },
+
+    despawn(id: string) {
+      if (!enemies.delete(id)) return;
+      emit();
+    },
+
+    clear() {
+      enemies = new Map();
+      emit();
+    },
+
+    // Replace every enemy, e.g. when loading a saved game
+    restore(snapshots: EnemySnapshot[]) {
+      enemies = new Map(
+        snapshots.map(({ type, position, id, ...rest }) => [
+          id,
+          { ...create(type, position, id), ...rest },
+        ])
+      );
+
+      // Keep generated ids clear of the restored ones
+      snapshots.forEach(({ id }) => {
+        const suffix = Number(id.split("-").pop());
+        if (Number.isInteger(suffix)) nextId = Math.max(nextId, suffix + 1);
+      });
+
+      emit();
+    },
+
+    get(id: string) {
+      return enemies.get(id);
+    },
+
+    getAll() {
+      return snapshot;
+    },
+
+    // State changes that affect rendering (aggro, attack flags, ...)
+    update(id: string, patch: Partial<Enemy>) {
+      if (!set(id, patch)) return;
+      emit();
+    },
+
+    // Per-frame movement. Mutates in place without notifying subscribers so
+    // moving enemies don't re-render React every frame.
+    setTransform(
+      id: string,
+      position: [number, number, number],
+      rotation: [number, number, number]
+    ) {
+      const enemy = enemies.get(id);
+      if (!enemy) return;
+
+      enemy.position = position;
+      enemy.rotation = rotation;
+    },
+
+    // Apply damage using the enemy's current health
+    damage(id: string, amount: number): DamageResult | null {
+      const current = enemies.get(id);
+      if (!current || current.isDead) return null;
+
+      const health = Math.max(0, current.health - amount);
+      const killed = health <= 0;
+      const enemy = set(id, { health, isDead: killed })!;
+      emit();
+
+      if (killed) {
+        deathListeners.forEach((listener) => listener(enemy));
+      }
+
+      return { enemy, killed };
+    },
+
+    // Find enemies within a radius, optionally limited to an arc
+    query({ center, radius, direction, arc, includeDead = false }: EnemyQuery) {
+      const minDot = arc !== undefined ? Math.cos(arc / 2) : -1;
+
+      return snapshot.filter((enemy) => {
+        if (enemy.isDead && !includeDead) return false;
+
+        const toEnemy = new THREE.Vector3(...enemy.position).sub(center);
+        if (toEnemy.length() > radius) return false;
+        if (!direction || arc === undefined) return true;
+
+        return toEnemy.normalize().dot(direction) > minDot;
+      });
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    onDeath(listener: DeathListener) {
+      deathListeners.add(listener);
+      return () => {
+        deathListeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type EnemyStore = ReturnType<typeof createEnemyStore>;
+
+export const enemyStore = createEnemyStore();
@@ -0,0 +1,59 @@
+// How long a picked herb takes to grow back (milliseconds)
+export const HERB_REGROW_TIME = 90000;
+
+// When each picked herb grows back (Date.now() milliseconds), by its index
+// in the environment layout; herbs that are growing are left out
+export type HarvestedHerbs = Record<number, number>;
+
+type Listener = () => void;
+
+// Herbs the player has picked and that haven't grown back yet
+export function createHerbStore() {
+  let harvested: HarvestedHerbs = {};
+  const listeners = new Set<Listener>();
+
+  const set = (next: HarvestedHerbs) => {
+    harvested = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    harvest(index: number, now: number) {
+      set({ ...harvested, [index]: now + HERB_REGROW_TIME });
+    },
+
+    // Bring back the herbs whose time has come
+    regrow(now: number) {
+      const entries = Object.entries(harvested);
+      if (entries.some(([, regrowsAt]) => regrowsAt <= now)) {
+        set(
+          Object.fromEntries(entries.filter(([, regrowsAt]) => regrowsAt > now))
+        );
+      }
+    },
+
+    // Replace the picked herbs, e.g. when loading a saved game
+    restore(saved: HarvestedHerbs) {
+      set(saved);
+    },
+
+    clear() {
+      set({});
+    },
+
+    getAll() {
+      return harvested;
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type HerbStore = ReturnType<typeof createHerbStore>;
+
+export const herbStore = createHerbStore();
@@ -0,0 +1,95 @@
+import {
+  EquipmentSlot,
+  Inventory,
+  ItemId,
+  addItem,
+  assignQuickSlot,
+  createInventory,
+  equipItem,
+  removeItem,
+  unequipItem,
+} from "@/games/witcher/lib/items";
+import { Recipe, brew } from "@/games/witcher/lib/alchemy";
+
+type Listener = () => void;
+
+// What the witcher is carrying and wearing. Pickups, crafting and the
+// inventory screen all change it through here.
+export function createInventoryStore() {
+  let inventory = createInventory();
+  const listeners = new Set<Listener>();
+
+  const set = (next: Inventory) => {
+    if (next === inventory) return;
+
+    inventory = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    get() {
+      return inventory;
+    },
+
+    reset() {
+      set(createInventory());
+    },
+
+    // Replace everything, e.g. when loading a saved game
+    restore(saved: Inventory) {
+      set(saved);
+    },
+
+    // Returns false, adding nothing, if there isn't room for all of them
+    add(item: ItemId, count: number) {
+      const next = addItem(inventory, item, count);
+      if (!next) return false;
+
+      set(next);
+      return true;
+    },
+
+    // Returns false, removing nothing, if there aren't enough
+    remove(item: ItemId, count: number) {
+      const next = removeItem(inventory, item, count);
+      if (!next) return false;
+
+      set(next);
+      return true;
+    },
+
+    // Wear the gear in a grid cell
+    equip(index: number) {
+      set(equipItem(inventory, index));
+    },
+
+    unequip(slot: EquipmentSlot) {
+      set(unequipItem(inventory, slot));
+    },
+
+    // Returns false, changing nothing, if an ingredient is missing or
+    // there's no room for the result
+    brew(recipe: Recipe) {
+      const next = brew(inventory, recipe);
+      if (!next) return false;
+
+      set(next);
+      return true;
+    },
+
+    assignQuickSlot(slot: number, item: ItemId | null) {
+      set(assignQuickSlot(inventory, slot, item));
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type InventoryStore = ReturnType<typeof createInventoryStore>;
+
+export const inventoryStore = createInventoryStore();
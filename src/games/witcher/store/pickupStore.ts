@@ -0,0 +1,97 @@
+import * as THREE from "three";
+import { ItemStack } from "@/games/witcher/lib/items";
+
+// Loot lying on the ground
+export interface Pickup extends ItemStack {
+  id: number;
+  position: [number, number, number];
+  // Date.now() milliseconds; it rots away or gets taken by scavengers
+  expiresAt: number;
+}
+
+export const PICKUP_LIFETIME = 120000;
+
+// How close the player has to walk to collect a pickup
+export const PICKUP_RADIUS = 1.2;
+
+// How far the loot of one carcass scatters around it
+const SCATTER = 0.8;
+
+type Listener = () => void;
+
+// Registry of the loot lying around the world, in the same style as the
+// enemy store
+export function createPickupStore() {
+  let pickups: Pickup[] = [];
+  let nextId = 0;
+  const listeners = new Set<Listener>();
+
+  const set = (next: Pickup[]) => {
+    pickups = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    // Leave items on the ground near a position
+    drop(stack: ItemStack, [x, y, z]: [number, number, number]) {
+      const pickup: Pickup = {
+        ...stack,
+        id: nextId++,
+        position: [
+          x + (Math.random() - 0.5) * 2 * SCATTER,
+          y,
+          z + (Math.random() - 0.5) * 2 * SCATTER,
+        ],
+        expiresAt: Date.now() + PICKUP_LIFETIME,
+      };
+      set([...pickups, pickup]);
+      return pickup;
+    },
+
+    // Remove a pickup from the world, e.g. when the player collects it
+    take(id: number) {
+      const pickup = pickups.find((candidate) => candidate.id === id);
+      if (pickup) set(pickups.filter((candidate) => candidate !== pickup));
+      return pickup;
+    },
+
+    // Pickups within a radius on the ground plane
+    near(center: THREE.Vector3, radius: number) {
+      return pickups.filter(
+        ({ position: [x, , z] }) =>
+          Math.hypot(x - center.x, z - center.z) <= radius
+      );
+    },
+
+    // Clear away pickups that have lain around too long
+    expire(now: number) {
+      if (pickups.some(({ expiresAt }) => expiresAt <= now)) {
+        set(pickups.filter(({ expiresAt }) => expiresAt > now));
+      }
+    },
+
+    // Replace every pickup, e.g. when loading a saved game
+    restore(saved: Omit<Pickup, "id">[]) {
+      set(saved.map((pickup) => ({ ...pickup, id: nextId++ })));
+    },
+
+    clear() {
+      set([]);
+    },
+
+    getAll() {
+      return pickups;
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type PickupStore = ReturnType<typeof createPickupStore>;
+
+export const pickupStore = createPickupStore();
@@ -0,0 +1,249 @@
+import * as THREE from "three";
+import { Enemy } from "@/games/witcher/types/game";
+import { EnemyStore, enemyStore } from "@/games/witcher/store/enemyStore";
+import {
+  QUESTS,
+  QuestDefinition,
+  QuestProgress,
+} from "@/games/witcher/lib/quests";
+
+// Things that happen in the game that quests care about
+export type QuestEvent =
+  | { type: "kill"; enemy: Enemy }
+  | { type: "move"; position: THREE.Vector3 }
+  // Once a second of play
+  | { type: "tick"; elapsedTime: number };
+
+export interface QuestEntry {
+  quest: QuestDefinition;
+  progress: QuestProgress;
+}
+
+type Listener = () => void;
+type FinishListener = (entry: QuestEntry) => void;
+
+// Progress through the quests. Game code reports events and this advances
+// objectives, spawns what they call for and tells listeners when a quest is
+// completed (to hand out the reward) or failed.
+export function createQuestStore(
+  definitions: QuestDefinition[],
+  enemies: EnemyStore
+) {
+  let progress = new Map<string, QuestProgress>();
+  let snapshot: QuestEntry[] = [];
+  // Seconds of play as of the last tick
+  let elapsedTime = 0;
+  const listeners = new Set<Listener>();
+  const finishListeners = new Set<FinishListener>();
+
+  const emit = () => {
+    // Started quests in the order they're defined
+    snapshot = definitions.flatMap((quest) => {
+      const entry = progress.get(quest.id);
+      return entry ? [{ quest, progress: entry }] : [];
+    });
+    listeners.forEach((listener) => listener());
+  };
+
+  // Set up an objective: place its creatures and reset its counters
+  const startObjective = (
+    quest: QuestDefinition,
+    index: number
+  ): QuestProgress => {
+    const objective = quest.objectives[index];
+
+    const protectedId =
+      objective.type === "protect"
+        ? enemies.spawn(objective.creature, objective.position).id
+        : null;
+    // What comes with a protect objective goes for the creature to protect
+    objective.spawn?.forEach(({ type, position }) => {
+      const { id } = enemies.spawn(type, position);
+      if (protectedId) enemies.update(id, { huntingId: protectedId });
+    });
+
+    return {
+      id: quest.id,
+      status: "active",
+      objective: index,
+      count: 0,
+      startedAt: elapsedTime,
+      protectedId,
+    };
+  };
+
+  // Start every quest whose requirements are all completed
+  const unlock = () => {
+    definitions.forEach((quest) => {
+      if (progress.has(quest.id)) return;
+
+      const ready = (quest.requires ?? []).every(
+        (id) => progress.get(id)?.status === "completed"
+      );
+      if (ready) progress.set(quest.id, startObjective(quest, 0));
+    });
+  };
+
+  // Once a protect objective is over its hunters turn on the player
+  const releaseHunters = (current: QuestProgress) => {
+    enemies
+      .getAll()
+      .filter(
+        ({ huntingId }) =>
+          huntingId !== null && huntingId === current.protectedId
+      )
+      .forEach(({ id }) => enemies.update(id, { huntingId: null }));
+  };
+
+  const finish = (quest: QuestDefinition, current: QuestProgress) => {
+    progress.set(quest.id, current);
+    finishListeners.forEach((listener) =>
+      listener({ quest, progress: current })
+    );
+  };
+
+  // Move on from the current objective, completing the quest after the last
+  const advance = (quest: QuestDefinition, current: QuestProgress) => {
+    const next = current.objective + 1;
+    releaseHunters(current);
+
+    if (next < quest.objectives.length) {
+      progress.set(quest.id, startObjective(quest, next));
+      return;
+    }
+
+    finish(quest, { ...current, status: "completed", protectedId: null });
+    unlock();
+  };
+
+  // Timed objectives end once enough seconds of play have passed
+  const waitOut = (
+    quest: QuestDefinition,
+    current: QuestProgress,
+    seconds: number,
+    event: QuestEvent
+  ) => {
+    if (
+      event.type !== "tick" ||
+      event.elapsedTime - current.startedAt < seconds
+    ) {
+      return false;
+    }
+
+    advance(quest, current);
+    return true;
+  };
+
+  // Apply an event to one active quest; true if anything changed
+  const update = (
+    quest: QuestDefinition,
+    current: QuestProgress,
+    event: QuestEvent
+  ) => {
+    const objective = quest.objectives[current.objective];
+
+    switch (objective.type) {
+      case "kill":
+        if (event.type !== "kill" || event.enemy.type !== objective.target) {
+          return false;
+        }
+        if (current.count + 1 < objective.count) {
+          progress.set(quest.id, { ...current, count: current.count + 1 });
+        } else {
+          advance(quest, current);
+        }
+        return true;
+
+      case "reach": {
+        if (event.type !== "move") return false;
+
+        const [x, , z] = objective.position;
+        const distance = Math.hypot(event.position.x - x, event.position.z - z);
+        if (distance > objective.radius) return false;
+
+        advance(quest, current);
+        return true;
+      }
+
+      case "protect":
+        if (event.type === "kill" && event.enemy.id === current.protectedId) {
+          releaseHunters(current);
+          finish(quest, { ...current, status: "failed", protectedId: null });
+          return true;
+        }
+        return waitOut(quest, current, objective.seconds, event);
+
+      case "survive":
+        return waitOut(quest, current, objective.seconds, event);
+    }
+  };
+
+  return {
+    // Start over: every quest without requirements becomes active
+    reset() {
+      progress = new Map();
+      elapsedTime = 0;
+      unlock();
+      emit();
+    },
+
+    // Pick up saved progress, e.g. when loading a game. Quests added since
+    // the save was made start as soon as their requirements are met.
+    restore(saved: QuestProgress[], savedElapsedTime: number) {
+      const known = new Set(definitions.map(({ id }) => id));
+      progress = new Map(
+        saved
+          .filter(({ id }) => known.has(id))
+          .map((entry) => [entry.id, entry])
+      );
+      elapsedTime = savedElapsedTime;
+      unlock();
+      emit();
+    },
+
+    getAll() {
+      return snapshot;
+    },
+
+    // Progress of every started quest, for saving
+    getProgress() {
+      return Array.from(progress.values());
+    },
+
+    record(event: QuestEvent) {
+      if (event.type === "tick") elapsedTime = event.elapsedTime;
+
+      // Quests this event unlocks only see the events after it
+      const active = definitions.flatMap((quest) => {
+        const current = progress.get(quest.id);
+        return current?.status === "active" ? [{ quest, current }] : [];
+      });
+
+      let changed = false;
+      active.forEach(({ quest, current }) => {
+        if (update(quest, current, event)) changed = true;
+      });
+
+      if (changed) emit();
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    // Called when a quest is completed or failed
+    onFinish(listener: FinishListener) {
+      finishListeners.add(listener);
+      return () => {
+        finishListeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type QuestStore = ReturnType<typeof createQuestStore>;
+
+export const questStore = createQuestStore(QUESTS, enemyStore);
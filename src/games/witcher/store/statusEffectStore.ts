@@ -0,0 +1,55 @@
+import {
+  StatusEffect,
+  StatusEffectId,
+  applyStatusEffect,
+} from "@/games/witcher/lib/statusEffects";
+
+type Listener = () => void;
+
+// The potions and oils currently working on the player
+export function createStatusEffectStore() {
+  let effects: StatusEffect[] = [];
+  const listeners = new Set<Listener>();
+
+  const set = (next: StatusEffect[]) => {
+    effects = next;
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    apply(id: StatusEffectId, now: number) {
+      set(applyStatusEffect(effects, id, now));
+    },
+
+    // Drop effects that have worn off
+    expire(now: number) {
+      if (effects.some(({ expiresAt }) => expiresAt <= now)) {
+        set(effects.filter(({ expiresAt }) => expiresAt > now));
+      }
+    },
+
+    // Replace every effect, e.g. when loading a saved game
+    restore(saved: StatusEffect[]) {
+      set(saved);
+    },
+
+    clear() {
+      set([]);
+    },
+
+    getAll() {
+      return effects;
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type StatusEffectStore = ReturnType<typeof createStatusEffectStore>;
+
+export const statusEffectStore = createStatusEffectStore();
@@ -0,0 +1,85 @@
+import { Progression } from "@/games/witcher/lib/progression";
+
+export interface GameState {
+  isGameActive: boolean;
+  playerHealth: number;
+  playerStamina: number;
+  // Damage the Quen shield can still absorb (0 when inactive)
+  playerShield: number;
+  // When each sign is ready to cast again (Date.now() milliseconds)
+  signCooldowns: Record<SignType, number>;
+  score: number;
+  // Seconds of play in this run
+  elapsedTime: number;
+  // Experience and skills; the player's stats are worked out from these
+  progression: Progression;
+}
+
+export type AttackType = "light" | "heavy";
+
+export type SignType = "igni" | "aard" | "quen" | "yrden" | "axii";
+
+export interface Character {
+  id: string;
+  position: [number, number, number];
+  rotation: [number, number, number];
+  health: number;
+  maxHealth: number;
+  isAttacking: boolean;
+  isBlocking: boolean;
+  isDead: boolean;
+  // Stunned by a parry or knocked off balance by Aard
+  isStaggered: boolean;
+}
+
+export interface Player extends Character {
+  moveSpeed: number;
+  attackPower: number;
+  isMoving: boolean;
+  direction: [number, number, number];
+  attackType: AttackType | null;
+  // Position in the current combo (0 for the opening hit)
+  comboStep: number;
+  // Inside the parry window at the start of a block
+  isParrying: boolean;
+  isDodging: boolean;
+  // Dodge i-frames: incoming attacks are ignored
+  isInvulnerable: boolean;
+  isCasting: boolean;
+}
+
+export interface Enemy extends Character {
+  type: "wolf" | "bear" | "deer";
+  detectionRadius: number;
+  attackRadius: number;
+  attackPower: number;
+  // Charmed enemies are pacified by Axii until `charmedUntil`
+  aggroState: "idle" | "chase" | "attack" | "flee" | "charmed";
+  // Set by Igni; Date.now() milliseconds, 0 when not burning
+  burningUntil: number;
+  charmedUntil: number;
+  // Velocity to apply on the next physics frame (Aard)
+  knockback: [number, number, number] | null;
+  // Hurt badly enough to fight harder (see the "enrage" behavior)
+  isEnraged: boolean;
+  // Creature this enemy goes after instead of the player while it lives,
+  // e.g. the one a quest asks the player to protect
+  huntingId: string | null;
+}
+
+export type GameControls = {
+  // How far each direction is pushed, from 0 to 1; sticks give partial values
+  moveForward: number;
+  moveBackward: number;
+  moveLeft: number;
+  moveRight: number;
+  attack: boolean;
+  heavyAttack: boolean;
+  block: boolean;
+  dodge: boolean;
+  castSign: boolean;
+  selectedSign: SignType;
+  // Total turn from camera swipes in radians; the player turns by however
+  // much it changed since the last frame
+  turnAngle: number;
+};
@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from "react";
+import { BindingsStore } from "@/store/bindingsStore";
+
+// A game's control bindings; the server render always sees the defaults
+export const useBindings = <A extends string>(store: BindingsStore<A>) =>
+  useSyncExternalStore(store.subscribe, store.get, () => store.scheme.defaults);
@@ -0,0 +1,10 @@
+import { useSyncExternalStore } from "react";
+import { DEFAULT_SETTINGS, settingsStore } from "@/store/settingsStore";
+
+// Shared game settings; the server render always sees the defaults
+export const useSettings = () =>
+  useSyncExternalStore(
+    settingsStore.subscribe,
+    settingsStore.get,
+    () => DEFAULT_SETTINGS
+  );
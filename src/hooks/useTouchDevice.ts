@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from "react";
+
+const QUERY = "(pointer: coarse)";
+
+const subscribe = (listener: () => void) => {
+  const media = window.matchMedia(QUERY);
+  media.addEventListener("change", listener);
+  return () => media.removeEventListener("change", listener);
+};
+
+// Whether the main pointer is a finger, so games show their touch controls.
+// The server render assumes a mouse.
+export const useTouchDevice = () =>
+  useSyncExternalStore(
+    subscribe,
+    () => window.matchMedia(QUERY).matches,
+    () => false
+  );
@@ -0,0 +1,219 @@
+// Procedural audio shared by the games. Each game session creates an audio
+// engine that owns a Web Audio context with separate effects and music buses,
+// whose volumes follow the settings. Sounds are small functions that build
+// their own oscillators and noise, so no audio files are needed, and can be
+// placed in the world so they pan and fade with distance from the camera.
+
+import { settingsStore } from "@/store/settingsStore";
+
+export interface AudioPosition {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Starts a one-shot sound at `time` into `output` and returns how long it
+// lasts in seconds
+export type Sound = (
+  context: AudioContext,
+  output: AudioNode,
+  time: number
+) => number;
+
+// Distance at which positioned sounds start to get quieter
+const REF_DISTANCE = 5;
+// Time constant for volume changes, so sliders don't click
+const VOLUME_SMOOTHING = 0.05;
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+// One second of white noise, shared by every noise source of a context
+const noiseBuffer = (context: BaseAudioContext) => {
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(context, buffer);
+  }
+  return buffer;
+};
+
+// A gain that rises to `volume` over `attack` and decays to silence by
+// `time + duration`
+const envelope = (
+  context: BaseAudioContext,
+  output: AudioNode,
+  time: number,
+  volume: number,
+  duration: number,
+  attack = 0.005
+) => {
+  const gain = context.createGain();
+  gain.gain.setValueAtTime(0.0001, time);
+  gain.gain.exponentialRampToValueAtTime(volume, time + attack);
+  gain.gain.exponentialRampToValueAtTime(0.0001, time + duration);
+  gain.connect(output);
+  return gain;
+};
+
+interface ToneOptions {
+  type: OscillatorType;
+  frequency: number;
+  // Frequency to slide to over the length of the tone
+  endFrequency?: number;
+  duration: number;
+  volume: number;
+  attack?: number;
+}
+
+// An oscillator with a decaying envelope, optionally sliding in pitch
+export const playTone = (
+  context: BaseAudioContext,
+  output: AudioNode,
+  time: number,
+  { type, frequency, endFrequency, duration, volume, attack }: ToneOptions
+) => {
+  const oscillator = context.createOscillator();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(frequency, time);
+  if (endFrequency !== undefined) {
+    oscillator.frequency.exponentialRampToValueAtTime(endFrequency, time + duration);
+  }
+
+  oscillator.connect(envelope(context, output, time, volume, duration, attack));
+  oscillator.start(time);
+  oscillator.stop(time + duration);
+};
+
+interface NoiseOptions {
+  filter: BiquadFilterType;
+  frequency: number;
+  // Filter frequency to sweep to over the length of the burst
+  endFrequency?: number;
+  q?: number;
+  duration: number;
+  volume: number;
+  attack?: number;
+}
+
+// Filtered white noise with a decaying envelope, for blasts, hits and whooshes
+export const playNoise = (
+  context: BaseAudioContext,
+  output: AudioNode,
+  time: number,
+  { filter, frequency, endFrequency, q = 1, duration, volume, attack }: NoiseOptions
+) => {
+  const source = context.createBufferSource();
+  source.buffer = noiseBuffer(context);
+  source.loop = true;
+
+  const biquad = context.createBiquadFilter();
+  biquad.type = filter;
+  biquad.Q.value = q;
+  biquad.frequency.setValueAtTime(frequency, time);
+  if (endFrequency !== undefined) {
+    biquad.frequency.exponentialRampToValueAtTime(endFrequency, time + duration);
+  }
+
+  source.connect(biquad);
+  biquad.connect(envelope(context, output, time, volume, duration, attack));
+  source.start(time);
+  source.stop(time + duration);
+};
+
+const setPosition = (panner: PannerNode, { x, y, z }: AudioPosition) => {
+  panner.positionX.value = x;
+  panner.positionY.value = y;
+  panner.positionZ.value = z;
+};
+
+export function createAudioEngine() {
+  const context = new AudioContext();
+  const master = context.createGain();
+  const effects = context.createGain();
+  const music = context.createGain();
+  effects.connect(master);
+  music.connect(master);
+  master.connect(context.destination);
+
+  const applyVolumes = () => {
+    const { masterVolume, effectsVolume, musicVolume } = settingsStore.get();
+    const now = context.currentTime;
+    master.gain.setTargetAtTime(masterVolume, now, VOLUME_SMOOTHING);
+    effects.gain.setTargetAtTime(effectsVolume, now, VOLUME_SMOOTHING);
+    music.gain.setTargetAtTime(musicVolume, now, VOLUME_SMOOTHING);
+  };
+  applyVolumes();
+  const unsubscribe = settingsStore.subscribe(applyVolumes);
+
+  // Browsers keep audio suspended until the player interacts with the page
+  const resume = () => {
+    if (context.state === "suspended") void context.resume();
+  };
+  window.addEventListener("pointerdown", resume);
+  window.addEventListener("keydown", resume);
+
+  // A panner that places whatever feeds it in the world
+  const createPanner = (position: AudioPosition) => {
+    const panner = context.createPanner();
+    panner.panningModel = "HRTF";
+    panner.distanceModel = "inverse";
+    panner.refDistance = REF_DISTANCE;
+    setPosition(panner, position);
+    panner.connect(effects);
+    return panner;
+  };
+
+  return {
+    context,
+    effects,
+    music,
+    createPanner,
+    setPosition,
+
+    // Play a sound, at a place in the world if given. Sounds are dropped
+    // while audio is suspended rather than piling up until it resumes.
+    play(sound: Sound, position?: AudioPosition) {
+      if (context.state !== "running") return;
+
+      const output = position ? createPanner(position) : effects;
+      const duration = sound(context, output, context.currentTime);
+
+      if (output !== effects) {
+        setTimeout(() => output.disconnect(), duration * 1000 + 100);
+      }
+    },
+
+    // Move the listener to the camera
+    setListener(position: AudioPosition, forward: AudioPosition, up: AudioPosition) {
+      const { listener } = context;
+
+      // Firefox only has the older setter methods
+      if (listener.positionX) {
+        const now = context.currentTime;
+        listener.positionX.setValueAtTime(position.x, now);
+        listener.positionY.setValueAtTime(position.y, now);
+        listener.positionZ.setValueAtTime(position.z, now);
+        listener.forwardX.setValueAtTime(forward.x, now);
+        listener.forwardY.setValueAtTime(forward.y, now);
+        listener.forwardZ.setValueAtTime(forward.z, now);
+        listener.upX.setValueAtTime(up.x, now);
+        listener.upY.setValueAtTime(up.y, now);
+        listener.upZ.setValueAtTime(up.z, now);
+      } else {
+        listener.setPosition(position.x, position.y, position.z);
+        listener.setOrientation(forward.x, forward.y, forward.z, up.x, up.y, up.z);
+      }
+    },
+
+    dispose() {
+      unsubscribe();
+      window.removeEventListener("pointerdown", resume);
+      window.removeEventListener("keydown", resume);
+      void context.close();
+    },
+  };
+}
+
+export type AudioEngine = ReturnType<typeof createAudioEngine>;
@@ -0,0 +1,38 @@
+// The games hosted by the launcher. Each one has a route under src/app/(games)
+// and its code under src/games/<id>.
+
+export type GameId = "tank" | "witcher" | "racer";
+
+export interface GameInfo {
+  id: GameId;
+  title: string;
+  description: string;
+  href: string;
+  // Route for playing together on a multiplayer server, if the game has one
+  multiplayerHref?: string;
+}
+
+export const GAMES: GameInfo[] = [
+  {
+    id: "tank",
+    title: "Warhammer Floating Tank",
+    description:
+      "Drive a hover tank through an endless seeded world and destroy turrets and patrols.",
+    href: "/tank",
+  },
+  {
+    id: "witcher",
+    title: "Witcher Adventure",
+    description:
+      "Fight wolves and bears with swords and signs in a third-person action RPG.",
+    href: "/witcher",
+    multiplayerHref: "/witcher/multiplayer",
+  },
+  {
+    id: "racer",
+    title: "Imperial Car Racer",
+    description:
+      "Race down an endless road, blasting obstacles and grabbing power-ups.",
+    href: "/racer",
+  },
+];
@@ -0,0 +1,56 @@
+import { GameId } from "@/lib/games";
+
+// Best scores for every game, kept in localStorage so the main menu can show
+// them next to each game.
+
+export const MAX_HIGH_SCORES = 5;
+
+const STORAGE_PREFIX = "high-scores:";
+
+export interface HighScore {
+  score: number;
+  achievedAt: number;
+}
+
+// Best first; empty if nothing is stored or the entry can't be read
+export function getHighScores(game: GameId): HighScore[] {
+  try {
+    const json = localStorage.getItem(STORAGE_PREFIX + game);
+    const scores: unknown = json === null ? [] : JSON.parse(json);
+    if (!Array.isArray(scores)) return [];
+
+    return scores.filter(
+      (entry): entry is HighScore =>
+        typeof entry?.score === "number" &&
+        typeof entry?.achievedAt === "number"
+    );
+  } catch {
+    return [];
+  }
+}
+
+// Add a finished run's score to the table. Returns its place (0 is the best)
+// or null if it didn't make the cut.
+export function recordHighScore(game: GameId, score: number): number | null {
+  if (score <= 0) return null;
+
+  const entry: HighScore = { score, achievedAt: Date.now() };
+  const scores = [...getHighScores(game), entry]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_HIGH_SCORES);
+
+  const place = scores.indexOf(entry);
+  if (place === -1) return null;
+
+  try {
+    localStorage.setItem(STORAGE_PREFIX + game, JSON.stringify(scores));
+  } catch {
+    // Storage full or disabled; the score just isn't kept
+    return null;
+  }
+  return place;
+}
+
+export function clearHighScores(game: GameId) {
+  localStorage.removeItem(STORAGE_PREFIX + game);
+}
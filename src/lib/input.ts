@@ -0,0 +1,427 @@
+// Input mapping shared by the games. Each game names its actions and gives
+// default bindings for them; an input reader turns the keyboard, the mouse
+// and the first connected gamepad into a value per action. Values run from 0
+// (released) to 1 (fully pressed), so analog triggers and sticks can drive
+// actions proportionally while keys and buttons are simply on or off.
+
+export type Binding =
+  | { type: "key"; code: string }
+  // `shift` tells a shift-click apart from a plain click
+  | { type: "mouse"; button: number; shift?: boolean }
+  // Buttons use the browser's standard gamepad layout; triggers are buttons
+  // with analog values
+  | { type: "gamepadButton"; index: number }
+  // One direction of a stick axis
+  | { type: "gamepadAxis"; index: number; direction: 1 | -1 };
+
+export type Bindings<A extends string> = Record<A, Binding[]>;
+
+export interface InputScheme<A extends string> {
+  // Name the bindings are saved under
+  id: string;
+  // Heading on the controls screen, when it isn't just the game's title
+  title?: string;
+  // Actions in the order the controls screen lists them
+  actions: { id: A; label: string }[];
+  defaults: Bindings<A>;
+}
+
+// Stick movement smaller than this is treated as noise
+export const AXIS_DEAD_ZONE = 0.2;
+
+// How far a stick or trigger must move to count as a press
+const PRESS_THRESHOLD = 0.5;
+
+const MOUSE_BUTTON_NAMES = ["Left click", "Middle click", "Right click"];
+
+const GAMEPAD_BUTTON_NAMES = [
+  "A",
+  "B",
+  "X",
+  "Y",
+  "LB",
+  "RB",
+  "LT",
+  "RT",
+  "Back",
+  "Start",
+  "Left stick",
+  "Right stick",
+  "D-pad up",
+  "D-pad down",
+  "D-pad left",
+  "D-pad right",
+];
+
+const GAMEPAD_AXIS_NAMES: Record<number, [string, string]> = {
+  0: ["Left stick left", "Left stick right"],
+  1: ["Left stick up", "Left stick down"],
+  2: ["Right stick left", "Right stick right"],
+  3: ["Right stick up", "Right stick down"],
+};
+
+// Human readable name for a binding, for the controls screen
+export const describeBinding = (binding: Binding): string => {
+  switch (binding.type) {
+    case "key":
+      return binding.code
+        .replace(/^Key/, "")
+        .replace(/^Digit/, "")
+        .replace(/^Arrow/, "Arrow ");
+    case "mouse": {
+      const name =
+        MOUSE_BUTTON_NAMES[binding.button] ?? `Mouse ${binding.button + 1}`;
+      return binding.shift ? `Shift + ${name}` : name;
+    }
+    case "gamepadButton":
+      return `Pad ${GAMEPAD_BUTTON_NAMES[binding.index] ?? binding.index}`;
+    case "gamepadAxis": {
+      const names = GAMEPAD_AXIS_NAMES[binding.index];
+      return names
+        ? `Pad ${names[binding.direction === -1 ? 0 : 1]}`
+        : `Pad axis ${binding.index} ${binding.direction === -1 ? "-" : "+"}`;
+    }
+  }
+};
+
+export const sameBinding = (a: Binding, b: Binding) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// The nth connected gamepad (the first by default), if any
+const getGamepad = (index = 0) =>
+  typeof navigator !== "undefined" && navigator.getGamepads
+    ? navigator.getGamepads().filter((gamepad) => gamepad?.connected)[index] ?? null
+    : null;
+
+const axisValue = (gamepad: Gamepad, index: number, direction: 1 | -1) => {
+  const value = (gamepad.axes[index] ?? 0) * direction;
+  return value > AXIS_DEAD_ZONE
+    ? (value - AXIS_DEAD_ZONE) / (1 - AXIS_DEAD_ZONE)
+    : 0;
+};
+
+// Typing into a form field shouldn't drive the game
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+interface InputReaderOptions {
+  // Where mouse presses are listened for; releases are caught anywhere
+  mouseTarget?: HTMLElement | Window;
+  // Keep the browser menu from opening on right-clicks
+  suppressContextMenu?: boolean;
+  // Which connected gamepad to read, so players can each have their own
+  gamepadIndex?: number;
+}
+
+// Tracks everything that is held down and reports it per action. Bindings
+// are looked up on every read, so rebinding applies immediately. Call
+// `poll` once a frame to pick up gamepad presses.
+export function createInputReader<A extends string>(
+  getBindings: () => Bindings<A>,
+  {
+    mouseTarget = window,
+    suppressContextMenu = false,
+    gamepadIndex = 0,
+  }: InputReaderOptions = {}
+) {
+  const keys = new Set<string>();
+  // Held mouse buttons, and whether shift was down when each was pressed
+  const mouseButtons = new Map<number, boolean>();
+  // Actions held by on-screen buttons and joysticks, and how far
+  const virtual = new Map<A, number>();
+  // Actions the gamepad held on the last poll, to spot new presses
+  const gamepadHeld = new Set<A>();
+  const pressListeners = new Set<(action: A) => void>();
+
+  const actions = () => Object.keys(getBindings()) as A[];
+
+  const notify = (matches: (binding: Binding) => boolean) => {
+    const bindings = getBindings();
+    actions()
+      .filter((action) => bindings[action].some(matches))
+      .forEach((action) => pressListeners.forEach((listener) => listener(action)));
+  };
+
+  const isBound = (matches: (binding: Binding) => boolean) => {
+    const bindings = getBindings();
+    return actions().some((action) => bindings[action].some(matches));
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (isEditable(event.target)) return;
+
+    const matches = (binding: Binding) =>
+      binding.type === "key" && binding.code === event.code;
+    if (!isBound(matches)) return;
+
+    // Bound keys shouldn't also scroll the page or click focused buttons
+    event.preventDefault();
+    if (event.repeat) return;
+
+    keys.add(event.code);
+    notify(matches);
+  };
+
+  const handleKeyUp = (event: KeyboardEvent) => {
+    keys.delete(event.code);
+  };
+
+  const handleMouseDown = (event: Event) => {
+    const { button, shiftKey } = event as MouseEvent;
+    const matches = (binding: Binding) =>
+      binding.type === "mouse" &&
+      binding.button === button &&
+      (binding.shift ?? false) === shiftKey;
+    if (!isBound(matches)) return;
+
+    event.preventDefault();
+    mouseButtons.set(button, shiftKey);
+    notify(matches);
+  };
+
+  const handleMouseUp = (event: MouseEvent) => {
+    mouseButtons.delete(event.button);
+  };
+
+  const handleContextMenu = (event: Event) => {
+    event.preventDefault();
+  };
+
+  // Nothing is held while the window is in the background
+  const handleBlur = () => {
+    keys.clear();
+    mouseButtons.clear();
+  };
+
+  window.addEventListener("keydown", handleKeyDown);
+  window.addEventListener("keyup", handleKeyUp);
+  mouseTarget.addEventListener("mousedown", handleMouseDown);
+  window.addEventListener("mouseup", handleMouseUp);
+  window.addEventListener("blur", handleBlur);
+  if (suppressContextMenu) {
+    mouseTarget.addEventListener("contextmenu", handleContextMenu);
+  }
+
+  const bindingValue = (binding: Binding, gamepad: Gamepad | null) => {
+    switch (binding.type) {
+      case "key":
+        return keys.has(binding.code) ? 1 : 0;
+      case "mouse":
+        return mouseButtons.has(binding.button) &&
+          mouseButtons.get(binding.button) === (binding.shift ?? false)
+          ? 1
+          : 0;
+      case "gamepadButton":
+        return gamepad?.buttons[binding.index]?.value ?? 0;
+      case "gamepadAxis":
+        return gamepad ? axisValue(gamepad, binding.index, binding.direction) : 0;
+    }
+  };
+
+  const value = (action: A, gamepad = getGamepad(gamepadIndex)) =>
+    Math.min(
+      1,
+      Math.max(
+        0,
+        virtual.get(action) ?? 0,
+        ...getBindings()[action].map((binding) => bindingValue(binding, gamepad))
+      )
+    );
+
+  // Hold an action from the screen, part way for a virtual stick; 0 releases
+  // it. Counts as a press when it crosses the press threshold.
+  const hold = (action: A, amount: number) => {
+    const previous = virtual.get(action) ?? 0;
+    if (amount > 0) {
+      virtual.set(action, Math.min(1, amount));
+    } else {
+      virtual.delete(action);
+    }
+
+    if (previous < PRESS_THRESHOLD && amount >= PRESS_THRESHOLD) {
+      pressListeners.forEach((listener) => listener(action));
+    }
+  };
+
+  return {
+    // How far an action is pressed, from 0 to 1
+    value,
+
+    pressed(action: A) {
+      return value(action) >= PRESS_THRESHOLD;
+    },
+
+    // Report gamepad presses since the last poll to the press listeners
+    poll() {
+      const gamepad = getGamepad(gamepadIndex);
+      const bindings = getBindings();
+
+      actions().forEach((action) => {
+        const held = bindings[action].some(
+          (binding) =>
+            (binding.type === "gamepadButton" || binding.type === "gamepadAxis") &&
+            bindingValue(binding, gamepad) >= PRESS_THRESHOLD
+        );
+
+        if (held && !gamepadHeld.has(action)) {
+          gamepadHeld.add(action);
+          pressListeners.forEach((listener) => listener(action));
+        } else if (!held) {
+          gamepadHeld.delete(action);
+        }
+      });
+    },
+
+    hold,
+
+    // Hold or release an action from an on-screen button
+    press(action: A) {
+      hold(action, 1);
+    },
+
+    release(action: A) {
+      hold(action, 0);
+    },
+
+    // Called once per press of an action, however short, so presses that
+    // start and end between two reads aren't lost
+    onPress(listener: (action: A) => void) {
+      pressListeners.add(listener);
+      return () => {
+        pressListeners.delete(listener);
+      };
+    },
+
+    dispose() {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      mouseTarget.removeEventListener("mousedown", handleMouseDown);
+      window.removeEventListener("mouseup", handleMouseUp);
+      window.removeEventListener("blur", handleBlur);
+      mouseTarget.removeEventListener("contextmenu", handleContextMenu);
+      pressListeners.clear();
+    },
+  };
+}
+
+export type InputReader<A extends string> = ReturnType<
+  typeof createInputReader<A>
+>;
+
+// Actions a virtual stick pushes toward in each direction
+export interface StickActions<A extends string> {
+  left: A;
+  right: A;
+  up: A;
+  down: A;
+}
+
+// Hold the actions for a virtual stick position; x runs from -1 (left) to 1
+// (right) and y from -1 (down) to 1 (up)
+export const holdStick = <A extends string>(
+  input: InputReader<A>,
+  actions: StickActions<A>,
+  x: number,
+  y: number
+) => {
+  input.hold(actions.left, Math.max(0, -x));
+  input.hold(actions.right, Math.max(0, x));
+  input.hold(actions.up, Math.max(0, y));
+  input.hold(actions.down, Math.max(0, -y));
+};
+
+// Wait for the next key, mouse button, gamepad button or stick push and
+// report it as a binding; Escape or clicking an element marked
+// `data-cancel-binding` reports null. Returns a function that stops listening.
+export function listenForBinding(onBinding: (binding: Binding | null) => void) {
+  let frame = 0;
+  let done = false;
+
+  const finish = (binding: Binding | null) => {
+    if (done) return;
+    done = true;
+    stop();
+    onBinding(binding);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    event.preventDefault();
+    finish(event.code === "Escape" ? null : { type: "key", code: event.code });
+  };
+
+  const handleMouseDown = (event: MouseEvent) => {
+    event.preventDefault();
+
+    // Clicking a cancel button cancels instead of binding the click
+    if (
+      event.target instanceof Element &&
+      event.target.closest("[data-cancel-binding]")
+    ) {
+      finish(null);
+      return;
+    }
+
+    finish(
+      event.shiftKey
+        ? { type: "mouse", button: event.button, shift: true }
+        : { type: "mouse", button: event.button }
+    );
+  };
+
+  const handleContextMenu = (event: MouseEvent) => {
+    event.preventDefault();
+  };
+
+  // Buttons and sticks already held when listening starts don't count
+  const resting = getGamepad();
+  const wasHeld = (index: number) =>
+    (resting?.buttons[index]?.value ?? 0) >= PRESS_THRESHOLD;
+
+  const pollGamepad = () => {
+    const gamepad = getGamepad();
+
+    if (gamepad) {
+      const button = gamepad.buttons.findIndex(
+        (candidate, index) => candidate.value >= PRESS_THRESHOLD && !wasHeld(index)
+      );
+      if (button !== -1) {
+        finish({ type: "gamepadButton", index: button });
+        return;
+      }
+
+      const axis = gamepad.axes.findIndex(
+        (candidate) => Math.abs(candidate) >= PRESS_THRESHOLD
+      );
+      if (axis !== -1) {
+        finish({
+          type: "gamepadAxis",
+          index: axis,
+          direction: gamepad.axes[axis] < 0 ? -1 : 1,
+        });
+        return;
+      }
+    }
+
+    frame = requestAnimationFrame(pollGamepad);
+  };
+
+  const stop = () => {
+    cancelAnimationFrame(frame);
+    window.removeEventListener("keydown", handleKeyDown, true);
+    window.removeEventListener("mousedown", handleMouseDown, true);
+    window.removeEventListener("contextmenu", handleContextMenu, true);
+  };
+
+  // Capture so the press doesn't also reach the button that started listening
+  window.addEventListener("keydown", handleKeyDown, true);
+  window.addEventListener("mousedown", handleMouseDown, true);
+  window.addEventListener("contextmenu", handleContextMenu, true);
+  frame = requestAnimationFrame(pollGamepad);
+
+  return () => {
+    done = true;
+    stop();
+  };
+}
@@ -0,0 +1,164 @@
+// Generated background music with an exploration and a combat layer. Both
+// layers play all the time in step with each other and the game crossfades
+// between them, so a fight swells in without the music restarting.
+
+import { AudioEngine, playNoise, playTone } from "./audio";
+
+export type MusicMood = "explore" | "combat";
+
+const STEP_TIME = 60 / 100 / 2; // Eighth notes at 100 BPM (seconds)
+const STEPS_PER_BAR = 8;
+const CROSSFADE_TIME = 2; // Seconds
+const LOOKAHEAD = 0.3; // How far ahead notes are scheduled (seconds)
+const SCHEDULE_INTERVAL = 100; // How often the scheduler runs (ms)
+
+// A minor progression, one chord per bar, as frequencies in Hz
+const CHORDS = [
+  [220, 261.63, 329.63], // Am
+  [174.61, 220, 261.63], // F
+  [196, 246.94, 293.66], // G
+  [164.81, 207.65, 246.94], // E
+];
+
+// Volume of each layer at full mix
+const LAYER_VOLUME: Record<MusicMood, number> = { explore: 0.5, combat: 0.6 };
+
+// A long, soft chord and a slow arpeggio over it
+const scheduleExplore = (
+  context: AudioContext,
+  output: AudioNode,
+  time: number,
+  step: number
+) => {
+  const chord = CHORDS[Math.floor(step / STEPS_PER_BAR) % CHORDS.length];
+  const beat = step % STEPS_PER_BAR;
+
+  if (beat === 0) {
+    chord.forEach((frequency) =>
+      playTone(context, output, time, {
+        type: "triangle",
+        frequency: frequency / 2,
+        duration: STEP_TIME * STEPS_PER_BAR,
+        volume: 0.08,
+        attack: 0.8,
+      })
+    );
+  }
+
+  if (beat % 2 === 0) {
+    playTone(context, output, time, {
+      type: "sine",
+      frequency: chord[(beat / 2) % chord.length] * 2,
+      duration: STEP_TIME * 3,
+      volume: 0.05,
+      attack: 0.02,
+    });
+  }
+};
+
+// Driving bass on every step with drums on top
+const scheduleCombat = (
+  context: AudioContext,
+  output: AudioNode,
+  time: number,
+  step: number
+) => {
+  const chord = CHORDS[Math.floor(step / STEPS_PER_BAR) % CHORDS.length];
+  const beat = step % STEPS_PER_BAR;
+
+  playTone(context, output, time, {
+    type: "sawtooth",
+    frequency: chord[0] / 4,
+    duration: STEP_TIME * 0.9,
+    volume: 0.1,
+  });
+
+  // Kick on the beat, snare on the backbeat, hats in between
+  if (beat % 4 === 0) {
+    playTone(context, output, time, {
+      type: "sine",
+      frequency: 120,
+      endFrequency: 40,
+      duration: 0.25,
+      volume: 0.4,
+    });
+  } else if (beat % 4 === 2) {
+    playNoise(context, output, time, {
+      filter: "bandpass",
+      frequency: 1800,
+      duration: 0.15,
+      volume: 0.2,
+    });
+  } else {
+    playNoise(context, output, time, {
+      filter: "highpass",
+      frequency: 7000,
+      duration: 0.05,
+      volume: 0.06,
+    });
+  }
+};
+
+const SCHEDULERS = {
+  explore: scheduleExplore,
+  combat: scheduleCombat,
+} satisfies Record<MusicMood, unknown>;
+
+export function createMusic(engine: AudioEngine) {
+  const { context } = engine;
+
+  const layers = {} as Record<MusicMood, GainNode>;
+  (Object.keys(SCHEDULERS) as MusicMood[]).forEach((mood) => {
+    const gain = context.createGain();
+    gain.gain.value = 0;
+    gain.connect(engine.music);
+    layers[mood] = gain;
+  });
+
+  let mood: MusicMood | null = null;
+  let step = 0;
+  let nextStepAt = 0;
+
+  // Schedule every step that starts within the lookahead; timers alone are
+  // too jittery to keep time
+  const schedule = () => {
+    if (context.state !== "running") return;
+
+    // Don't try to catch up on steps missed while suspended
+    nextStepAt = Math.max(nextStepAt, context.currentTime);
+    while (nextStepAt < context.currentTime + LOOKAHEAD) {
+      (Object.keys(SCHEDULERS) as MusicMood[]).forEach((layer) =>
+        SCHEDULERS[layer](context, layers[layer], nextStepAt, step)
+      );
+      step++;
+      nextStepAt += STEP_TIME;
+    }
+  };
+  const timer = setInterval(schedule, SCHEDULE_INTERVAL);
+
+  return {
+    // Fade over to the music for a mood
+    setMood(next: MusicMood) {
+      if (next === mood) return;
+      mood = next;
+
+      const now = context.currentTime;
+      (Object.keys(layers) as MusicMood[]).forEach((layer) => {
+        const { gain } = layers[layer];
+        gain.cancelScheduledValues(now);
+        gain.setValueAtTime(gain.value, now);
+        gain.linearRampToValueAtTime(
+          layer === next ? LAYER_VOLUME[layer] : 0,
+          now + CROSSFADE_TIME
+        );
+      });
+    },
+
+    stop() {
+      clearInterval(timer);
+      Object.values(layers).forEach((gain) => gain.disconnect());
+    },
+  };
+}
+
+export type Music = ReturnType<typeof createMusic>;
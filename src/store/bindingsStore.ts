@@ -0,0 +1,84 @@
+// Control bindings for one game, persisted in localStorage. Games read them
+// on every input, so rebinding applies straight away.
+
+import { Binding, Bindings, InputScheme, sameBinding } from "@/lib/input";
+
+type Listener = () => void;
+
+export function createBindingsStore<A extends string>(scheme: InputScheme<A>) {
+  const storageKey = `input-bindings:${scheme.id}`;
+  let bindings: Bindings<A> | null = null;
+  const listeners = new Set<Listener>();
+
+  // Stored bindings merged over the defaults, so actions added later still
+  // get their default bindings
+  const load = (): Bindings<A> => {
+    try {
+      const json = localStorage.getItem(storageKey);
+      return json === null
+        ? scheme.defaults
+        : { ...scheme.defaults, ...JSON.parse(json) };
+    } catch {
+      return scheme.defaults;
+    }
+  };
+
+  const get = (): Bindings<A> => {
+    bindings ??= load();
+    return bindings;
+  };
+
+  const save = (next: Bindings<A>) => {
+    bindings = next;
+    try {
+      localStorage.setItem(storageKey, JSON.stringify(bindings));
+    } catch {
+      // Storage full or disabled; keep the change for this visit only
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    scheme,
+    get,
+
+    // Bind an input to an action, taking it away from any other action so
+    // one press never triggers two things
+    bind(action: A, binding: Binding) {
+      const current = get();
+      const next = Object.fromEntries(
+        (Object.keys(current) as A[]).map((id) => [
+          id,
+          current[id].filter((existing) => !sameBinding(existing, binding)),
+        ])
+      ) as Bindings<A>;
+      next[action] = [...next[action], binding];
+      save(next);
+    },
+
+    unbind(action: A, binding: Binding) {
+      const current = get();
+      save({
+        ...current,
+        [action]: current[action].filter(
+          (existing) => !sameBinding(existing, binding)
+        ),
+      });
+    },
+
+    reset() {
+      save(scheme.defaults);
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type BindingsStore<A extends string> = ReturnType<
+  typeof createBindingsStore<A>
+>;
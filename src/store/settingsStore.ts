@@ -0,0 +1,80 @@
+// Settings shared by every game, persisted in localStorage. Games read the
+// graphics settings when they set up their renderer, so those apply the next
+// time a game starts; volumes apply straight away.
+
+export interface GameSettings {
+  shadows: boolean;
+  antialias: boolean;
+  // Frame rate counter in the corner of the screen
+  showStats: boolean;
+  // Volumes from 0 to 1; effects and music are scaled by the master volume
+  masterVolume: number;
+  effectsVolume: number;
+  musicVolume: number;
+}
+
+export const DEFAULT_SETTINGS: GameSettings = {
+  shadows: true,
+  antialias: true,
+  showStats: false,
+  masterVolume: 0.8,
+  effectsVolume: 1,
+  musicVolume: 0.6,
+};
+
+const STORAGE_KEY = "game-settings";
+
+type Listener = () => void;
+
+export function createSettingsStore() {
+  let settings: GameSettings | null = null;
+  const listeners = new Set<Listener>();
+
+  // Stored settings merged over the defaults, so settings added later still
+  // get a value
+  const load = (): GameSettings => {
+    try {
+      const json = localStorage.getItem(STORAGE_KEY);
+      return json === null
+        ? DEFAULT_SETTINGS
+        : { ...DEFAULT_SETTINGS, ...JSON.parse(json) };
+    } catch {
+      return DEFAULT_SETTINGS;
+    }
+  };
+
+  const get = (): GameSettings => {
+    settings ??= load();
+    return settings;
+  };
+
+  const update = (changes: Partial<GameSettings>) => {
+    settings = { ...get(), ...changes };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch {
+      // Storage full or disabled; keep the change for this visit only
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  return {
+    get,
+    update,
+
+    reset() {
+      update(DEFAULT_SETTINGS);
+    },
+
+    subscribe(listener: Listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export type SettingsStore = ReturnType<typeof createSettingsStore>;
+
+export const settingsStore = createSettingsStore();